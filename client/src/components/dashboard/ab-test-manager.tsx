@@ -0,0 +1,383 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAllProducts } from "@/hooks/use-all-products";
+import AIModelSelect from "./ai-model-select";
+import type { AbTestDetail, AbTestMetric, AbTestStatus, AISelection, PromptTemplate } from "@shared/schema";
+import { Copy, FlaskConical, Play, Square, Trash2, Trophy } from "lucide-react";
+
+const STATUS_STYLES: Record<AbTestStatus, string> = {
+  running: "bg-blue-400/10 text-blue-400",
+  completed: "bg-green-400/10 text-green-400",
+  stopped: "bg-muted text-muted-foreground",
+};
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+function TestCard({ detail }: { detail: AbTestDetail }) {
+  const { toast } = useToast();
+  const { test, variants, analysis } = detail;
+  const [weights, setWeights] = useState<Record<string, number>>(
+    () => Object.fromEntries(variants.map(variant => [variant.id, variant.weight]))
+  );
+  const running = test.status === "running";
+  const weightsTotal = Object.values(weights).reduce((total, weight) => total + weight, 0);
+  const weightsChanged = variants.some(variant => weights[variant.id] !== variant.weight);
+  const ingestBase = `${window.location.origin}/api/ab/${test.ingestToken}`;
+
+  const onSuccess = (title: string) => () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/ab-tests'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/products'] });
+    toast({ title });
+  };
+  const onError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message || "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: { weights?: Record<string, number>; status?: "stopped" }) => {
+      const response = await apiRequest("PATCH", `/api/ab-tests/${test.id}`, data);
+      return response.json();
+    },
+    onSuccess: onSuccess("A/B test updated"),
+    onError: onError("Update failed"),
+  });
+
+  const promoteMutation = useMutation({
+    mutationFn: async (variantId: string) => {
+      const response = await apiRequest("POST", `/api/ab-tests/${test.id}/promote`, { variantId });
+      return response.json();
+    },
+    onSuccess: onSuccess("Variant promoted to the product description"),
+    onError: onError("Promotion failed"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/ab-tests/${test.id}`);
+    },
+    onSuccess: onSuccess("A/B test deleted"),
+    onError: onError("Delete failed"),
+  });
+
+  const copyUrl = async (url: string) => {
+    await navigator.clipboard.writeText(url).catch(() => undefined);
+    toast({ title: "Copied!", description: url });
+  };
+
+  return (
+    <div className="border border-border rounded-lg p-4 space-y-4" data-testid={`ab-test-${test.id}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h4 className="font-semibold">{test.name}</h4>
+          <p className="text-xs text-muted-foreground">
+            {detail.productName || "Deleted product"} · {test.metric === "click" ? "click" : "conversion"} rate · {test.confidence}% confidence · min {test.minImpressions} impressions
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Badge variant="default" className={STATUS_STYLES[test.status as AbTestStatus]}>{test.status}</Badge>
+          {running && (
+            <Button variant="outline" size="sm" onClick={() => updateMutation.mutate({ status: "stopped" })} disabled={updateMutation.isPending}>
+              <Square className="w-4 h-4 mr-1" />
+              Stop
+            </Button>
+          )}
+          <Button variant="ghost" size="icon" onClick={() => deleteMutation.mutate()} disabled={deleteMutation.isPending}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {variants.map((variant) => {
+          const stats = analysis.variants.find(item => item.variantId === variant.id);
+          const isWinner = variant.id === (test.winnerVariantId || analysis.winnerId);
+          return (
+            <div key={variant.id} className="grid md:grid-cols-[2rem_1fr_auto] gap-3 items-start border-b border-border pb-2">
+              <span className="font-bold text-primary">{variant.label}</span>
+              <div className="min-w-0">
+                <p className="text-sm line-clamp-2" title={variant.description}>{variant.description}</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {variant.isControl && "Control · "}
+                  {variant.impressions} impressions · {variant.clicks} clicks · {variant.conversions} conversions
+                  {stats && ` · ${percent(stats.rate)}`}
+                  {stats?.lift != null && ` (${stats.lift >= 0 ? "+" : ""}${percent(stats.lift)} vs control)`}
+                  {stats?.pValue != null && ` · p=${stats.pValue.toFixed(3)}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                {isWinner && <Badge className="bg-green-400/10 text-green-400"><Trophy className="w-3 h-3 mr-1" />Winner</Badge>}
+                {running && (
+                  <>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      className="w-20 h-8"
+                      value={weights[variant.id]}
+                      onChange={(event) => setWeights({ ...weights, [variant.id]: Number(event.target.value) || 0 })}
+                      aria-label={`Traffic for variant ${variant.label}`}
+                    />
+                    <span className="text-xs text-muted-foreground">%</span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => promoteMutation.mutate(variant.id)}
+                      disabled={promoteMutation.isPending}
+                      data-testid={`button-promote-${variant.label}`}
+                    >
+                      Promote
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {running && (
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <p className="text-xs text-muted-foreground">
+            {analysis.ready
+              ? analysis.winnerId ? "A winner has emerged." : "Enough traffic; no significant difference yet."
+              : "Collecting traffic..."}
+            {test.autoPromote && (test.evaluatedAt
+              ? " No variant won at the planned sample size; promote one or stop the test."
+              : ` The winner, if any, is promoted once every variant has ${test.minImpressions} impressions.`)}
+          </p>
+          {weightsChanged && (
+            <Button
+              size="sm"
+              onClick={() => updateMutation.mutate({ weights })}
+              disabled={weightsTotal !== 100 || updateMutation.isPending}
+            >
+              {weightsTotal === 100 ? "Save traffic split" : `Split adds up to ${weightsTotal}%`}
+            </Button>
+          )}
+        </div>
+      )}
+
+      {running && (
+        <div className="bg-muted/30 rounded-lg p-3 space-y-1 text-xs">
+          <p className="text-muted-foreground">Storefront endpoints (no login needed):</p>
+          {[`${ingestBase}/assign?visitorId=VISITOR_ID`, `${ingestBase}/events`].map((url) => (
+            <div key={url} className="flex items-center gap-2">
+              <code className="truncate flex-1">{url}</code>
+              <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => copyUrl(url)}>
+                <Copy className="w-3 h-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// A/B Testing Copy: the AI writes challengers to a product's description, the
+// storefront reports traffic, and the significant winner becomes the description
+export default function AbTestManager() {
+  const { toast } = useToast();
+  const [productId, setProductId] = useState("");
+  const [variantCount, setVariantCount] = useState("2");
+  const [voices, setVoices] = useState<string[]>(["sales", "casual"]);
+  const [metric, setMetric] = useState<AbTestMetric>("conversion");
+  const [confidence, setConfidence] = useState("95");
+  const [minImpressions, setMinImpressions] = useState("100");
+  const [autoPromote, setAutoPromote] = useState(true);
+  const [aiSelection, setAiSelection] = useState<AISelection>({});
+
+  const { data: tests = [] } = useQuery<AbTestDetail[]>({
+    queryKey: ['/api/ab-tests'],
+    refetchInterval: 15000,
+  });
+
+  const { products: allProducts } = useAllProducts();
+  const products = allProducts.filter(product => product.description?.trim());
+
+  const { data: templates = [] } = useQuery<PromptTemplate[]>({
+    queryKey: ['/api/prompt-templates'],
+  });
+  const voiceOptions = templates.filter((template, index) =>
+    templates.findIndex(other => other.key === template.key) === index
+  );
+
+  const toggleVoice = (key: string) => {
+    setVoices(prev => prev.includes(key) ? prev.filter(other => other !== key) : [...prev, key].slice(-5));
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/ab-tests", {
+        productId,
+        variantCount: Number(variantCount),
+        brandVoices: voices.length > 0 ? voices : undefined,
+        metric,
+        confidence: Number(confidence),
+        minImpressions: Number(minImpressions) || 100,
+        autoPromote,
+        ...aiSelection,
+      });
+      return response.json() as Promise<AbTestDetail>;
+    },
+    onSuccess: (detail) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/ab-tests'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/ai/generations'] });
+      toast({
+        title: "A/B test started",
+        description: `${detail.variants.length} variants are live for ${detail.productName}.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Couldn't start the test",
+        description: error.message || "Failed to create A/B test",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="border-2 border-primary/20 shadow-2xl">
+      <CardHeader>
+        <CardTitle className="text-2xl flex items-center">
+          <FlaskConical className="w-6 h-6 mr-2 text-primary" />
+          A/B Testing Copy
+        </CardTitle>
+        <CardDescription>
+          Generate description variants, split traffic between them and keep the one that converts.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        <div className="grid md:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div>
+              <Label>Product</Label>
+              <Select value={productId} onValueChange={setProductId}>
+                <SelectTrigger className="mt-2" data-testid="select-ab-product">
+                  <SelectValue placeholder="Pick a product with a description" />
+                </SelectTrigger>
+                <SelectContent>
+                  {products.map((product) => (
+                    <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>AI variants (the current description is variant A)</Label>
+              <Select value={variantCount} onValueChange={setVariantCount}>
+                <SelectTrigger className="mt-2" data-testid="select-ab-variant-count">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {["1", "2", "3", "4"].map((count) => (
+                    <SelectItem key={count} value={count}>{count}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Brand voices to try</Label>
+              <div className="flex flex-wrap gap-2 mt-2">
+                {voiceOptions.map((template) => (
+                  <Button
+                    key={template.key}
+                    type="button"
+                    size="sm"
+                    variant={voices.includes(template.key) ? "default" : "outline"}
+                    onClick={() => toggleVoice(template.key)}
+                  >
+                    {template.name}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <AIModelSelect value={aiSelection} onChange={setAiSelection} />
+          </div>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Goal</Label>
+                <Select value={metric} onValueChange={(value) => setMetric(value as AbTestMetric)}>
+                  <SelectTrigger className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="conversion">Conversions</SelectItem>
+                    <SelectItem value="click">Clicks</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Confidence</Label>
+                <Select value={confidence} onValueChange={setConfidence}>
+                  <SelectTrigger className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {["90", "95", "99"].map((level) => (
+                      <SelectItem key={level} value={level}>{level}%</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="ab-min-impressions">Minimum impressions per variant</Label>
+              <Input
+                id="ab-min-impressions"
+                type="number"
+                min={10}
+                className="mt-2"
+                value={minImpressions}
+                onChange={(event) => setMinImpressions(event.target.value)}
+              />
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch id="ab-auto-promote" checked={autoPromote} onCheckedChange={setAutoPromote} />
+              <Label htmlFor="ab-auto-promote" className="text-sm">Promote the winner automatically</Label>
+            </div>
+            <Button
+              className="w-full bg-gradient-to-r from-primary to-blue-400 hover:shadow-lg"
+              onClick={() => createMutation.mutate()}
+              disabled={!productId || createMutation.isPending}
+              data-testid="button-start-ab-test"
+            >
+              <Play className="w-4 h-4 mr-2" />
+              {createMutation.isPending ? "Writing variants..." : "Start A/B Test"}
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold">Your tests</h3>
+          {tests.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No A/B tests yet.</p>
+          ) : (
+            tests.map((detail) => (
+              <TestCard
+                key={`${detail.test.id}-${detail.variants.map(variant => variant.weight).join("-")}`}
+                detail={detail}
+              />
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import type { AICostReport, AICostTotals } from "@shared/schema";
+import { DollarSign } from "lucide-react";
+
+const PERIODS = [7, 30, 90] as const;
+
+const FEATURE_LABELS: Record<string, string> = {
+  description: "Descriptions",
+  seo: "SEO",
+  "alt-text": "Alt text",
+  translation: "Translations",
+  "tone-check": "Tone checks",
+};
+
+function formatCost(cost: number): string {
+  // Single calls cost fractions of a cent
+  return `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+}
+
+function formatTokens(totals: AICostTotals): string {
+  return (totals.inputTokens + totals.outputTokens).toLocaleString();
+}
+
+// LLM spend across every account, most expensive first, to set plan limits
+// from. Only shown to admins; the endpoint refuses anyone else.
+export default function AICostsAdmin() {
+  const [days, setDays] = useState<number>(30);
+
+  const { data: report, isLoading, error } = useQuery<AICostReport>({
+    queryKey: ['/api/usage', `ai-costs?scope=all&days=${days}&limit=25`],
+  });
+
+  const maxDailyCost = Math.max(...(report?.byDay.map(day => day.costUsd) || [0]), 0);
+
+  return (
+    <Card className="border-2 border-primary/20 shadow-2xl">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-2xl flex items-center">
+              <DollarSign className="w-6 h-6 mr-2 text-primary" />
+              AI Costs
+            </CardTitle>
+            <CardDescription>
+              Provider spend by account and feature, priced when each call was made.
+            </CardDescription>
+          </div>
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <SelectTrigger className="w-36" data-testid="select-ai-costs-period">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PERIODS.map((period) => (
+                <SelectItem key={period} value={String(period)}>Last {period} days</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading costs...</p>
+        ) : error || !report ? (
+          <p className="text-sm text-red-400">{(error as Error)?.message || "Failed to load costs"}</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="rounded-lg border border-border p-3">
+                <p className="text-xs text-muted-foreground">Total cost</p>
+                <p className="text-2xl font-bold" data-testid="text-ai-costs-total">{formatCost(report.totals.costUsd)}</p>
+              </div>
+              <div className="rounded-lg border border-border p-3">
+                <p className="text-xs text-muted-foreground">Provider calls</p>
+                <p className="text-2xl font-bold">{report.totals.calls.toLocaleString()}</p>
+              </div>
+              <div className="rounded-lg border border-border p-3">
+                <p className="text-xs text-muted-foreground">Tokens</p>
+                <p className="text-2xl font-bold">{formatTokens(report.totals)}</p>
+              </div>
+            </div>
+
+            {report.unpricedModels.length > 0 && (
+              <p className="text-xs text-yellow-400" data-testid="text-ai-costs-unpriced">
+                No price set for {report.unpricedModels.join(", ")}; add them to AI_PRICES. Their calls count as $0.
+              </p>
+            )}
+
+            <div className="space-y-2">
+              <h3 className="font-semibold">Most expensive accounts</h3>
+              {report.byUser.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No AI calls in this period.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Account</TableHead>
+                      <TableHead>Plan</TableHead>
+                      <TableHead className="text-right">Calls</TableHead>
+                      <TableHead className="text-right">Tokens</TableHead>
+                      <TableHead className="text-right">Cost</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.byUser.map((account) => (
+                      <TableRow key={account.userId} data-testid={`row-ai-cost-user-${account.userId}`}>
+                        <TableCell className="font-medium">{account.email || account.userId}</TableCell>
+                        <TableCell>{account.plan && <Badge variant="outline" className="capitalize">{account.plan}</Badge>}</TableCell>
+                        <TableCell className="text-right">{account.calls.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{formatTokens(account)}</TableCell>
+                        <TableCell className="text-right">{formatCost(account.costUsd)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <h3 className="font-semibold">By feature</h3>
+                {report.byFeature.map((feature) => (
+                  <div key={feature.feature} className="flex justify-between text-sm">
+                    <span>{FEATURE_LABELS[feature.feature] || feature.feature}</span>
+                    <span className="text-muted-foreground">
+                      {feature.calls.toLocaleString()} calls · {formatCost(feature.costUsd)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-2">
+                <h3 className="font-semibold">By day</h3>
+                {report.byDay.map((day) => (
+                  <div key={day.day} className="flex items-center gap-2 text-sm">
+                    <span className="w-24 text-muted-foreground">{day.day}</span>
+                    <div className="flex-1 h-2 rounded bg-muted">
+                      <div
+                        className="h-2 rounded bg-primary"
+                        style={{ width: `${maxDailyCost > 0 ? (day.costUsd / maxDailyCost) * 100 : 0}%` }}
+                      />
+                    </div>
+                    <span className="w-20 text-right">{formatCost(day.costUsd)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,74 @@
+import { useQuery } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import type { AIProviderName, AIProviderOptions, AISelection } from "@shared/schema";
+
+interface AIModelSelectProps {
+  value: AISelection;
+  onChange: (value: AISelection) => void;
+}
+
+const PROVIDER_LABELS: Record<AIProviderName, string> = {
+  openai: "OpenAI",
+  anthropic: "Anthropic",
+  local: "Local model",
+  mock: "Mock (offline)",
+};
+
+const PLAN_DEFAULT = "default";
+
+// Provider and model picker for the AI tools, limited to what the user's plan includes.
+// An empty selection lets the server use the plan default.
+export default function AIModelSelect({ value, onChange }: AIModelSelectProps) {
+  const { data: options } = useQuery<AIProviderOptions>({
+    queryKey: ['/api/ai/providers'],
+  });
+
+  if (!options) return null;
+
+  const selected = options.providers.find(provider => provider.name === value.provider);
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div>
+        <Label>AI provider</Label>
+        <Select
+          value={value.provider || PLAN_DEFAULT}
+          onValueChange={(provider) => onChange(provider === PLAN_DEFAULT ? {} : { provider: provider as AIProviderName })}
+        >
+          <SelectTrigger className="form-input mt-2" data-testid="select-ai-provider">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={PLAN_DEFAULT}>
+              Plan default ({PROVIDER_LABELS[options.defaultProvider]} {options.defaultModel})
+            </SelectItem>
+            {options.providers.map((provider) => (
+              <SelectItem key={provider.name} value={provider.name} disabled={!provider.configured}>
+                {PROVIDER_LABELS[provider.name]}{provider.configured ? "" : " (not configured)"}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {selected && selected.models.length > 0 && (
+        <div>
+          <Label>Model</Label>
+          <Select
+            value={value.model || selected.defaultModel}
+            onValueChange={(model) => onChange({ ...value, model })}
+          >
+            <SelectTrigger className="form-input mt-2" data-testid="select-ai-model">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {selected.models.map((model) => (
+                <SelectItem key={model} value={model}>{model}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+}
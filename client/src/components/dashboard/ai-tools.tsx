@@ -1,6 +1,6 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useForm } from "react-hook-form";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -9,7 +9,19 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { AIStreamAbortedError, aiErrorMessage, partialJsonString, streamProductDescription } from "@/lib/openai";
+import { useAllProducts } from "@/hooks/use-all-products";
+import AIModelSelect from "./ai-model-select";
+import GenerationHistory from "./generation-history";
+import PromptTemplateManager from "./prompt-template-manager";
+import BrandVoiceSettings from "./brand-voice-settings";
+import TranslationGlossarySettings from "./translation-glossary";
+import BulkOptimizePanel from "./bulk-optimize-panel";
+import AbTestManager from "./ab-test-manager";
+import AltTextPanel from "./alt-text-panel";
+import ContentRefreshPanel from "./content-refresh-panel";
+import type { AISelection, PromptTemplate } from "@shared/schema";
 import { 
   Zap, 
   Copy, 
@@ -28,7 +40,8 @@ import {
   RefreshCw,
   Sparkles,
   FileText,
-  BarChart3
+  BarChart3,
+  X
 } from "lucide-react";
 
 interface GenerateForm {
@@ -38,17 +51,29 @@ interface GenerateForm {
   audience: string;
 }
 
-interface GeneratedResult {
-  sales?: string;
-  seo?: string;
-  casual?: string;
-}
+// Generated descriptions keyed by prompt template key. cached when the same
+// request was answered from the AI cache.
+type GeneratedResult = Record<string, { text: string; cached: boolean }>;
 
 export default function AITools() {
   const { toast } = useToast();
-  const [activeToolId, setActiveToolId] = useState<string | null>(null);
+  // Job notifications link here with ?job=<id>
+  const [activeToolId, setActiveToolId] = useState<string | null>(
+    () => new URLSearchParams(window.location.search).has("job") ? 'bulk-optimization' : null
+  );
   const [brandVoice, setBrandVoice] = useState("sales");
   const [generatedResults, setGeneratedResults] = useState<GeneratedResult>({});
+  const [aiSelection, setAiSelection] = useState<AISelection>({});
+  const [productId, setProductId] = useState<string>("");
+  // Description text as it streams in; null when nothing is generating
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  const streamController = useRef<AbortController | null>(null);
+
+  const { products } = useAllProducts(undefined, { enabled: activeToolId === 'product-descriptions' });
+
+  const { data: templates = [] } = useQuery<PromptTemplate[]>({
+    queryKey: ['/api/prompt-templates'],
+  });
 
   const form = useForm<GenerateForm>({
     defaultValues: {
@@ -59,9 +84,34 @@ export default function AITools() {
     },
   });
 
-  // Mock mutation for AI generation (placeholder for MVP)
+  // Product descriptions stream from the AI service; the other tools are still
+  // simulated (placeholder for MVP)
   const generateMutation = useMutation({
     mutationFn: async (data: any) => {
+      if (data.toolId === 'product-descriptions') {
+        const controller = new AbortController();
+        streamController.current = controller;
+        setStreamingText("");
+        try {
+          return await streamProductDescription({
+            productName: data.productName,
+            category: data.category,
+            features: data.features,
+            audience: data.audience,
+            brandVoice: data.brandVoice,
+            productId: productId || undefined,
+            noCache: data.noCache,
+            ...aiSelection,
+          }, {
+            signal: controller.signal,
+            onText: (raw) => setStreamingText(partialJsonString(raw, "description")),
+          });
+        } finally {
+          streamController.current = null;
+          setStreamingText(null);
+        }
+      }
+
       // Simulate API call delay
       await new Promise(resolve => setTimeout(resolve, 2000));
       
@@ -70,15 +120,9 @@ export default function AITools() {
         'product-descriptions': {
           description: `Experience premium quality with our ${data.productName}. ${data.features ? `Featuring ${data.features}, ` : ''}this product delivers exceptional value for ${data.audience}.`
         },
-        'bulk-optimization': {
-          message: `Successfully optimized ${Math.floor(Math.random() * 50) + 20} products with improved SEO scores and conversion rates.`
-        },
         'seo-titles': {
           title: `${data.productName} - Premium Quality & Fast Shipping | YourStore`,
           meta: `Shop ${data.productName} with confidence. ${data.features} Perfect for ${data.audience}. Free shipping on orders over $50.`
-        },
-        'image-alt-text': {
-          altText: `High-quality ${data.productName} showing ${data.features} in professional studio lighting`
         }
       };
       
@@ -88,8 +132,9 @@ export default function AITools() {
       if (variables.toolId === 'product-descriptions' && 'description' in result) {
         setGeneratedResults(prev => ({
           ...prev,
-          [variables.brandVoice || 'sales']: result.description,
+          [variables.brandVoice || 'sales']: { text: result.description, cached: 'cached' in result && result.cached },
         }));
+        queryClient.invalidateQueries({ queryKey: ['/api/ai/generations'] });
       }
       
       toast({
@@ -98,9 +143,13 @@ export default function AITools() {
       });
     },
     onError: (error: any) => {
+      if (error instanceof AIStreamAbortedError) {
+        toast({ title: "Generation cancelled" });
+        return;
+      }
       toast({
         title: "Processing failed",
-        description: error.message || "Failed to process with AI",
+        description: aiErrorMessage(error, "Failed to process with AI"),
         variant: "destructive",
       });
     },
@@ -110,7 +159,7 @@ export default function AITools() {
     {
       id: 'product-descriptions',
       title: 'Smart Product Descriptions',
-      description: 'AI generates compelling descriptions in 3 styles: Sales, SEO, and Casual',
+      description: 'AI generates compelling descriptions in Sales, SEO, Casual or your own template styles',
       icon: <FileText className="w-6 h-6 sm:w-7 sm:h-7 lg:w-8 lg:h-8" />,
       category: 'existing',
       gradient: 'from-blue-500 to-cyan-400',
@@ -155,7 +204,7 @@ export default function AITools() {
       category: 'new',
       gradient: 'from-pink-500 to-rose-400',
       actionText: 'Choose Template',
-      comingSoon: true
+      comingSoon: false
     },
     {
       id: 'brand-voice',
@@ -165,7 +214,7 @@ export default function AITools() {
       category: 'new',
       gradient: 'from-indigo-500 to-blue-400',
       actionText: 'Setup Voice',
-      comingSoon: true
+      comingSoon: false
     },
     {
       id: 'multimodal-ai',
@@ -185,7 +234,7 @@ export default function AITools() {
       category: 'new',
       gradient: 'from-red-500 to-pink-400',
       actionText: 'Start A/B Test',
-      comingSoon: true
+      comingSoon: false
     },
     {
       id: 'scheduled-refresh',
@@ -195,7 +244,7 @@ export default function AITools() {
       category: 'new',
       gradient: 'from-violet-500 to-purple-400',
       actionText: 'Schedule Updates',
-      comingSoon: true
+      comingSoon: false
     }
   ];
 
@@ -212,7 +261,7 @@ export default function AITools() {
       return;
     }
 
-    if (toolId === 'product-descriptions') {
+    if (['product-descriptions', 'bulk-optimization', 'image-alt-text', 'dynamic-templates', 'brand-voice', 'ab-testing', 'scheduled-refresh'].includes(toolId)) {
       setActiveToolId(toolId);
     } else {
       // For other tools, simulate processing
@@ -245,11 +294,19 @@ export default function AITools() {
     }
   };
 
-  const voiceButtons = [
-    { id: "sales", label: "Sales", icon: <TrendingUp className="w-4 h-4" /> },
-    { id: "seo", label: "SEO", icon: <Search className="w-4 h-4" /> },
-    { id: "casual", label: "Casual", icon: <Heart className="w-4 h-4" /> },
-  ];
+  // One button per template key; a user's own template shadows the system one
+  const voiceTemplates = templates.filter(template =>
+    !template.isSystem || !templates.some(other => !other.isSystem && other.key === template.key)
+  );
+  const templateName = (key: string) => voiceTemplates.find(template => template.key === key)?.name || key;
+  const voiceIcon = (key: string) => {
+    switch (key) {
+      case "sales": return <TrendingUp className="w-4 h-4" />;
+      case "seo": return <Search className="w-4 h-4" />;
+      case "casual": return <Heart className="w-4 h-4" />;
+      default: return <Palette className="w-4 h-4" />;
+    }
+  };
 
   return (
     <div className="max-w-7xl mx-auto space-y-8">
@@ -333,6 +390,27 @@ export default function AITools() {
             <div className="grid md:grid-cols-2 gap-8">
               <div className="space-y-6">
                 <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                  <div>
+                    <Label>Product (Optional)</Label>
+                    <Select
+                      value={productId}
+                      onValueChange={(value) => {
+                        setProductId(value);
+                        const product = products.find(item => item.id === value);
+                        if (product) form.setValue("productName", product.name);
+                      }}
+                    >
+                      <SelectTrigger className="mt-2" data-testid="select-description-product">
+                        <SelectValue placeholder="Save to a product's history" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {products.map((product) => (
+                          <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
                   <div>
                     <Label htmlFor="productName">Product Name *</Label>
                     <Input
@@ -396,22 +474,25 @@ export default function AITools() {
                   <div>
                     <Label>Brand Voice</Label>
                     <div className="grid grid-cols-3 gap-2 mt-2">
-                      {voiceButtons.map((voice) => (
+                      {voiceTemplates.map((template) => (
                         <Button
-                          key={voice.id}
+                          key={template.id}
                           type="button"
-                          onClick={() => setBrandVoice(voice.id)}
-                          className={brandVoice === voice.id ? "bg-primary text-primary-foreground" : ""}
-                          variant={brandVoice === voice.id ? "default" : "outline"}
-                          data-testid={`button-voice-${voice.id}`}
+                          onClick={() => setBrandVoice(template.key)}
+                          className={brandVoice === template.key ? "bg-primary text-primary-foreground" : ""}
+                          variant={brandVoice === template.key ? "default" : "outline"}
+                          title={template.description || undefined}
+                          data-testid={`button-voice-${template.key}`}
                         >
-                          {voice.icon}
-                          <span className="ml-2">{voice.label}</span>
+                          {voiceIcon(template.key)}
+                          <span className="ml-2 truncate">{template.name}</span>
                         </Button>
                       ))}
                     </div>
                   </div>
 
+                  <AIModelSelect value={aiSelection} onChange={setAiSelection} />
+
                   <Button
                     type="submit"
                     className="w-full bg-gradient-to-r from-primary to-blue-400 hover:shadow-lg"
@@ -427,6 +508,18 @@ export default function AITools() {
                       </>
                     )}
                   </Button>
+                  {streamingText !== null && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="w-full"
+                      onClick={() => streamController.current?.abort()}
+                      data-testid="button-cancel-generation"
+                    >
+                      <X className="w-4 h-4 mr-2" />
+                      Cancel
+                    </Button>
+                  )}
                 </form>
               </div>
 
@@ -448,104 +541,93 @@ export default function AITools() {
         </Card>
       )}
 
+      {/* Description streaming in */}
+      {streamingText !== null && (
+        <Card className="border-2 border-primary/20">
+          <CardContent className="p-6">
+            <h3 className="text-xl font-semibold flex items-center mb-4">
+              {voiceIcon(brandVoice)}
+              <span className="ml-2">{templateName(brandVoice)} Style</span>
+              <Badge variant="outline" className="ml-3">Writing...</Badge>
+            </h3>
+            <div className="bg-muted/30 p-4 rounded-lg">
+              <p className="text-foreground leading-relaxed" data-testid="text-streaming-result">
+                {streamingText || "…"}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Generated Results */}
       {Object.keys(generatedResults).length > 0 && (
         <div className="space-y-6">
-          {generatedResults.sales && (
-            <Card className="border-2 border-green-200">
-              <CardContent className="p-6">
-                <div className="flex items-center justify-between mb-4">
-                  <h3 className="text-xl font-semibold flex items-center">
-                    <TrendingUp className="w-5 h-5 text-green-600 mr-2" />
-                    Sales Style
-                  </h3>
-                  <div className="flex items-center space-x-2">
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => copyToClipboard(generatedResults.sales!, "Sales")}
-                      data-testid="button-copy-sales"
-                    >
-                      <Copy className="w-4 h-4" />
-                    </Button>
-                    <Button className="bg-gradient-to-r from-green-500 to-emerald-400 text-white" data-testid="button-use-sales">
-                      Use This
-                    </Button>
-                  </div>
-                </div>
-                <div className="bg-muted/30 p-4 rounded-lg">
-                  <p className="text-foreground leading-relaxed" data-testid="text-sales-result">
-                    {generatedResults.sales}
-                  </p>
-                </div>
-              </CardContent>
-            </Card>
-          )}
-
-          {generatedResults.seo && (
-            <Card className="border-2 border-blue-200">
-              <CardContent className="p-6">
-                <div className="flex items-center justify-between mb-4">
-                  <h3 className="text-xl font-semibold flex items-center">
-                    <Search className="w-5 h-5 text-blue-600 mr-2" />
-                    SEO Style
-                  </h3>
-                  <div className="flex items-center space-x-2">
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => copyToClipboard(generatedResults.seo!, "SEO")}
-                      data-testid="button-copy-seo"
-                    >
-                      <Copy className="w-4 h-4" />
-                    </Button>
-                    <Button className="bg-gradient-to-r from-blue-500 to-cyan-400 text-white" data-testid="button-use-seo">
-                      Use This
-                    </Button>
+          {Object.entries(generatedResults).map(([key, { text, cached }]) => {
+            const label = templateName(key);
+            return (
+              <Card key={key} className="border-2 border-primary/20">
+                <CardContent className="p-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-xl font-semibold flex items-center">
+                      {voiceIcon(key)}
+                      <span className="ml-2">{label} Style</span>
+                    </h3>
+                    <div className="flex items-center space-x-2">
+                      {cached && (
+                        <>
+                          <Badge variant="outline" data-testid={`badge-cached-${key}`}>Cached</Badge>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Regenerate instead of reusing the cached result"
+                            disabled={generateMutation.isPending}
+                            onClick={() => generateMutation.mutate({
+                              ...form.getValues(), brandVoice: key, toolId: 'product-descriptions', noCache: true,
+                            })}
+                            data-testid={`button-regenerate-${key}`}
+                          >
+                            <RefreshCw className="w-4 h-4" />
+                          </Button>
+                        </>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => copyToClipboard(text, label)}
+                        data-testid={`button-copy-${key}`}
+                      >
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                    </div>
                   </div>
-                </div>
-                <div className="bg-muted/30 p-4 rounded-lg">
-                  <p className="text-foreground leading-relaxed" data-testid="text-seo-result">
-                    {generatedResults.seo}
-                  </p>
-                </div>
-              </CardContent>
-            </Card>
-          )}
-
-          {generatedResults.casual && (
-            <Card className="border-2 border-pink-200">
-              <CardContent className="p-6">
-                <div className="flex items-center justify-between mb-4">
-                  <h3 className="text-xl font-semibold flex items-center">
-                    <Heart className="w-5 h-5 text-pink-600 mr-2" />
-                    Casual Style
-                  </h3>
-                  <div className="flex items-center space-x-2">
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => copyToClipboard(generatedResults.casual!, "Casual")}
-                      data-testid="button-copy-casual"
-                    >
-                      <Copy className="w-4 h-4" />
-                    </Button>
-                    <Button className="bg-gradient-to-r from-pink-500 to-rose-400 text-white" data-testid="button-use-casual">
-                      Use This
-                    </Button>
+                  <div className="bg-muted/30 p-4 rounded-lg">
+                    <p className="text-foreground leading-relaxed" data-testid={`text-${key}-result`}>
+                      {text}
+                    </p>
                   </div>
-                </div>
-                <div className="bg-muted/30 p-4 rounded-lg">
-                  <p className="text-foreground leading-relaxed" data-testid="text-casual-result">
-                    {generatedResults.casual}
-                  </p>
-                </div>
-              </CardContent>
-            </Card>
-          )}
+                </CardContent>
+              </Card>
+            );
+          })}
         </div>
       )}
 
+      {activeToolId === 'product-descriptions' && <GenerationHistory tool="description" />}
+
+      {activeToolId === 'bulk-optimization' && <BulkOptimizePanel />}
+
+      {activeToolId === 'image-alt-text' && <AltTextPanel />}
+
+      {activeToolId === 'dynamic-templates' && <PromptTemplateManager />}
+
+      {activeToolId === 'brand-voice' && <BrandVoiceSettings />}
+
+      {activeToolId === 'brand-voice' && <TranslationGlossarySettings />}
+
+      {activeToolId === 'ab-testing' && <AbTestManager />}
+
+      {activeToolId === 'scheduled-refresh' && <ContentRefreshPanel />}
+
       {/* Close Tool */}
       {activeToolId && (
         <div className="flex justify-center">
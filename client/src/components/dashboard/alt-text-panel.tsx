@@ -0,0 +1,210 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAllProducts } from "@/hooks/use-all-products";
+import { aiErrorMessage, generateAltText, startAltTextBatch } from "@/lib/openai";
+import AIModelSelect from "./ai-model-select";
+import type { AISelection, Job, JobProgress } from "@shared/schema";
+import { Image as ImageIcon, Play, Square, Wand2 } from "lucide-react";
+
+const isActive = (job?: Job) => job?.status === "queued" || job?.status === "running";
+
+// Alt text for product images, one product at a time or as a background job
+// over the catalog. Batch progress uses the same job endpoints as bulk optimization.
+export default function AltTextPanel() {
+  const { toast } = useToast();
+  const [aiSelection, setAiSelection] = useState<AISelection>({});
+  const [apply, setApply] = useState(true);
+  const [overwrite, setOverwrite] = useState(false);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [latest, setLatest] = useState<Record<string, string>>({});
+
+  const { products } = useAllProducts();
+  const withImages = products.filter(product => product.image);
+  const missing = withImages.filter(product => !product.imageAltText).length;
+
+  const { data: progress } = useQuery<JobProgress>({
+    queryKey: ['/api/jobs', jobId],
+    enabled: !!jobId,
+    refetchInterval: (query) => isActive(query.state.data?.job) ? 2000 : false,
+  });
+  const job = progress?.job;
+  const done = job ? job.succeeded + job.failed : 0;
+
+  useEffect(() => {
+    if (job && !isActive(job)) {
+      queryClient.invalidateQueries({ queryKey: ['/api/products'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/ai/generations'] });
+    }
+  }, [job?.status]);
+
+  const onError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: aiErrorMessage(error, "Something went wrong"),
+      variant: "destructive",
+    });
+  };
+
+  const generateMutation = useMutation({
+    mutationFn: (productId: string) => generateAltText(productId, { apply, ...aiSelection }),
+    onSuccess: (result, productId) => {
+      setLatest(prev => ({ ...prev, [productId]: result.altText }));
+      queryClient.invalidateQueries({ queryKey: ['/api/products'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/ai/generations'] });
+      toast({
+        title: `${apply ? "Alt text saved" : "Alt text generated"}${result.cached ? " (cached)" : ""}`,
+        description: result.altText,
+      });
+    },
+    onError: onError("Alt text generation failed"),
+  });
+
+  const batchMutation = useMutation({
+    mutationFn: () => startAltTextBatch({ overwrite, apply, ...aiSelection }),
+    onSuccess: (started) => {
+      setJobId(started.id);
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
+      toast({
+        title: "Alt text generation started",
+        description: `${started.total} images queued. You'll get a notification when it's done.`,
+      });
+    },
+    onError: onError("Couldn't start alt text generation"),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/jobs/${id}/cancel`);
+      return response.json() as Promise<Job>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
+      toast({ title: "Alt text generation cancelled" });
+    },
+    onError: onError("Cancel failed"),
+  });
+
+  const pendingId = generateMutation.isPending ? generateMutation.variables : null;
+
+  return (
+    <Card className="border-2 border-primary/20 shadow-2xl">
+      <CardHeader>
+        <CardTitle className="text-2xl flex items-center">
+          <ImageIcon className="w-6 h-6 mr-2 text-primary" />
+          Image Alt Text
+        </CardTitle>
+        <CardDescription>
+          Describe product images for screen readers and image search. Alt text is included in CSV exports.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid md:grid-cols-2 gap-8">
+          <div className="space-y-4">
+            <AIModelSelect value={aiSelection} onChange={setAiSelection} />
+
+            <div className="flex items-center space-x-2">
+              <Switch id="alt-text-apply" checked={apply} onCheckedChange={setApply} />
+              <Label htmlFor="alt-text-apply" className="text-sm">
+                Apply to products (off: save to history for review)
+              </Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch id="alt-text-overwrite" checked={overwrite} onCheckedChange={setOverwrite} />
+              <Label htmlFor="alt-text-overwrite" className="text-sm">
+                Redo images that already have alt text
+              </Label>
+            </div>
+
+            <Button
+              className="w-full bg-gradient-to-r from-primary to-blue-400 hover:shadow-lg"
+              onClick={() => batchMutation.mutate()}
+              disabled={batchMutation.isPending || withImages.length === 0 || (!overwrite && missing === 0) || isActive(job)}
+              data-testid="button-start-alt-text-batch"
+            >
+              <Play className="w-4 h-4 mr-2" />
+              {batchMutation.isPending
+                ? "Starting..."
+                : `Generate for ${overwrite ? withImages.length : missing} images`}
+            </Button>
+
+            {job && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <Badge variant="outline" className="capitalize" data-testid="text-alt-text-job-status">{job.status}</Badge>
+                  {isActive(job) && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => cancelMutation.mutate(job.id)}
+                      disabled={cancelMutation.isPending}
+                      data-testid="button-cancel-alt-text-job"
+                    >
+                      <Square className="w-4 h-4 mr-2" />
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+                <Progress value={job.total ? (done / job.total) * 100 : 0} className="h-2" />
+                <p className="text-sm text-muted-foreground">
+                  {done} of {job.total} processed · {job.succeeded} succeeded · {job.failed} failed
+                </p>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Images</Label>
+              <span className="text-xs text-muted-foreground">
+                {missing} of {withImages.length} missing alt text
+              </span>
+            </div>
+            <div className="max-h-96 overflow-y-auto space-y-2">
+              {withImages.map((product) => {
+                const altText = latest[product.id] ?? product.imageAltText;
+                return (
+                  <div key={product.id} className="flex items-center gap-3 border-b border-border pb-2">
+                    <img
+                      src={product.image!}
+                      alt={product.imageAltText || ""}
+                      className="w-12 h-12 rounded object-cover flex-shrink-0 bg-muted"
+                    />
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm truncate">{product.name}</p>
+                      <p className="text-xs text-muted-foreground line-clamp-2" data-testid={`text-alt-text-${product.id}`}>
+                        {altText || "No alt text"}
+                      </p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => generateMutation.mutate(product.id)}
+                      disabled={generateMutation.isPending}
+                      data-testid={`button-generate-alt-text-${product.id}`}
+                    >
+                      <Wand2 className="w-4 h-4 mr-1" />
+                      {pendingId === product.id ? "Generating..." : "Generate"}
+                    </Button>
+                  </div>
+                );
+              })}
+              {withImages.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  No products have images yet. Add an image URL to a product first.
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
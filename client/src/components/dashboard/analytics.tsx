@@ -5,6 +5,7 @@ import { Badge } from "@/components/ui/badge";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { useQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { useAllProducts } from "@/hooks/use-all-products";
 import { useState } from "react";
 import { 
   Eye, 
@@ -18,6 +19,7 @@ import {
   FileText,
   FileSpreadsheet
 } from "lucide-react";
+import { fetchProductPage } from "@/lib/products";
 import { generateCSV, generatePDF, downloadFile, getExportFilename, type ExportData } from "@/lib/exportUtils";
 
 export default function Analytics() {
@@ -29,9 +31,15 @@ export default function Analytics() {
     queryKey: ["/api/analytics"],
   });
 
-  const { data: products } = useQuery({
-    queryKey: ["/api/products"],
+  const { products } = useAllProducts({ sort: "updatedAt", order: "desc" });
+
+  // Count optimized products server-side
+  const optimizedParams = { isOptimized: true, limit: 1 } as const;
+  const { data: optimizedPage } = useQuery({
+    queryKey: ["/api/products", optimizedParams],
+    queryFn: () => fetchProductPage(optimizedParams),
   });
+  const optimizedCount = optimizedPage?.total ?? 0;
 
   if (isLoading) {
     return (
@@ -86,7 +94,7 @@ export default function Analytics() {
     },
   ];
 
-  const topProducts = (products as any)?.slice(0, 3) || [];
+  const topProducts = products.slice(0, 3);
 
   // Prepare export data
   const prepareExportData = (): ExportData => {
@@ -97,7 +105,13 @@ export default function Analytics() {
         change: metric.change,
         positive: metric.positive
       })),
-      products: (products as any) || [],
+      products: products.map(product => ({
+        id: product.id,
+        name: product.name,
+        isOptimized: !!product.isOptimized,
+        price: parseFloat(product.price),
+        category: product.category,
+      })),
       emailPerformance: {
         delivered: "12,450",
         opened: "8,523 (68.5%)",
@@ -111,7 +125,7 @@ export default function Analytics() {
         recovered: "267 (30%)"
       },
       seoPerformance: {
-        optimizedProducts: (products as any)?.filter((p: any) => p.isOptimized).length || 0,
+        optimizedProducts: optimizedCount,
         rankingImprovement: "+8 positions",
         organicTraffic: "+42%",
         keywordRankings: "234 in top 10"
@@ -350,7 +364,7 @@ export default function Analytics() {
               <div className="flex items-center justify-between">
                 <span className="text-sm">Optimized Products</span>
                 <span className="font-medium" data-testid="text-seo-optimized-products">
-                  {(products as any)?.filter((p: any) => p.isOptimized).length || 0}
+                  {optimizedCount}
                 </span>
               </div>
               <div className="flex items-center justify-between">
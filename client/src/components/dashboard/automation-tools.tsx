@@ -1,10 +1,11 @@
 import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import CsvImportDialog from "@/components/dashboard/csv-import-dialog";
 import { 
   Upload, 
   Download, 
@@ -29,6 +30,8 @@ interface AutomationTool {
 
 export default function AutomationTools() {
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [csvDialogOpen, setCsvDialogOpen] = useState(false);
 
   const automationTools: AutomationTool[] = [
     {
@@ -68,8 +71,8 @@ export default function AutomationTools() {
       icon: <RotateCcw className="w-6 h-6 sm:w-7 sm:h-7 lg:w-8 lg:h-8" style={{ color: '#C1E8FF' }} />,
       category: 'new',
       actionText: 'Rollback Changes',
-      comingSoon: true,
-      tooltip: 'One-click rollback to previous versions of your product data for peace of mind'
+      comingSoon: false,
+      tooltip: 'Undo the last bulk operation (Optimize All or CSV import) and restore every product it touched'
     }
   ];
 
@@ -79,17 +82,11 @@ export default function AutomationTools() {
       await new Promise(resolve => setTimeout(resolve, 2000));
       
       const mockResponses = {
-        'csv-import-export': {
-          message: `Successfully processed CSV file. ${Math.floor(Math.random() * 100) + 50} products updated.`
-        },
         'shopify-publish': {
           message: `Published ${Math.floor(Math.random() * 25) + 10} optimized products to your Shopify store.`
         },
         'bulk-suggestions': {
           message: `Generated smart suggestions for ${Math.floor(Math.random() * 30) + 15} products needing optimization.`
-        },
-        'rollback-changes': {
-          message: `Successfully rolled back to previous version. All changes from the last 24 hours have been restored.`
         }
       };
 
@@ -110,6 +107,30 @@ export default function AutomationTools() {
     },
   });
 
+  // Reverts every product touched by the most recent bulk operation
+  const rollbackMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/products/bulk-operations/undo-last");
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/products'] });
+      toast({
+        title: data.skipped?.length ? "Partially rolled back" : "Rolled back!",
+        description: `${data.restored.length} products restored, ${data.removed.length} removed${data.skipped?.length ? `, ${data.skipped.length} skipped because they were edited afterwards` : ""}.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Nothing to roll back",
+        description: error.message?.startsWith("404") 
+          ? "There is no recent bulk operation to undo."
+          : "Failed to roll back changes. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleToolAction = (toolId: string) => {
     const tool = automationTools.find(t => t.id === toolId);
     
@@ -121,21 +142,16 @@ export default function AutomationTools() {
       return;
     }
 
-    // Handle CSV Import/Export with file operations
+    // CSV Import/Export runs against the real import/export endpoints
     if (toolId === 'csv-import-export') {
-      const input = document.createElement('input');
-      input.type = 'file';
-      input.accept = '.csv';
-      input.onchange = (e) => {
-        const file = (e.target as HTMLInputElement).files?.[0];
-        if (file) {
-          automationMutation.mutate({ 
-            toolId, 
-            action: `import-${file.name}` 
-          });
-        }
-      };
-      input.click();
+      setCsvDialogOpen(true);
+      return;
+    }
+
+    if (toolId === 'rollback-changes') {
+      if (confirm("Undo the last bulk operation? Every product it changed will be restored.")) {
+        rollbackMutation.mutate();
+      }
       return;
     }
 
@@ -189,7 +205,7 @@ export default function AutomationTools() {
             <CardContent className="pt-0">
               <Button
                 onClick={() => handleToolAction(tool.id)}
-                disabled={tool.comingSoon || automationMutation.isPending}
+                disabled={tool.comingSoon || automationMutation.isPending || rollbackMutation.isPending}
                 className={`w-full ${
                   tool.comingSoon
                     ? "bg-black hover:bg-black text-white"
@@ -198,13 +214,15 @@ export default function AutomationTools() {
                 data-testid={`button-action-${tool.id}`}
                 title={tool.tooltip}
               >
-                {automationMutation.isPending ? "Processing..." : tool.actionText}
+                {automationMutation.isPending || rollbackMutation.isPending ? "Processing..." : tool.actionText}
               </Button>
             </CardContent>
           </Card>
         ))}
       </div>
 
+      <CsvImportDialog open={csvDialogOpen} onOpenChange={setCsvDialogOpen} />
+
       {/* Additional Info */}
       <div className="mt-8 p-6 bg-gradient-to-br from-[#021024] via-[#052659] to-[#021024] rounded-xl border border-slate-700/50">
         <div className="flex items-start space-x-4">
@@ -0,0 +1,248 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { BrandVoice } from "@shared/schema";
+import { Brain, Gauge, Save } from "lucide-react";
+
+interface BrandVoiceForm {
+  tone: string;
+  bannedWords: string;
+  requiredPhrases: string;
+  sampleCopy: string;
+  readingLevel: string;
+}
+
+interface BrandVoiceScore {
+  score: number;
+  readingLevel: { grade: number; target: number | null };
+  tone?: { score: number; notes: string };
+  issues: string[];
+}
+
+const ANY_LEVEL = "any";
+const READING_LEVELS = Array.from({ length: 14 }, (_, index) => index + 3);
+
+const splitList = (value: string, separator: RegExp) =>
+  value.split(separator).map(item => item.trim()).filter(Boolean);
+
+function formOf(voice: BrandVoice): BrandVoiceForm {
+  return {
+    tone: voice.tone.join(", "),
+    bannedWords: voice.bannedWords.join(", "),
+    requiredPhrases: voice.requiredPhrases.join("\n"),
+    sampleCopy: voice.sampleCopy,
+    readingLevel: voice.readingLevel === null ? ANY_LEVEL : String(voice.readingLevel),
+  };
+}
+
+// Brand Voice Memory: saved once, added to every AI prompt by the server
+export default function BrandVoiceSettings() {
+  const { toast } = useToast();
+  const [form, setForm] = useState<BrandVoiceForm>(formOf({
+    tone: [], bannedWords: [], requiredPhrases: [], sampleCopy: "", readingLevel: null,
+  }));
+  const [checkText, setCheckText] = useState("");
+  const [checkTone, setCheckTone] = useState(false);
+  const [score, setScore] = useState<BrandVoiceScore | null>(null);
+
+  const { data: voice } = useQuery<BrandVoice>({
+    queryKey: ['/api/brand-voice'],
+  });
+  useEffect(() => {
+    if (voice) setForm(formOf(voice));
+  }, [voice]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: BrandVoiceForm) => {
+      const response = await apiRequest("PUT", "/api/brand-voice", {
+        tone: splitList(data.tone, /,/),
+        bannedWords: splitList(data.bannedWords, /,/),
+        requiredPhrases: splitList(data.requiredPhrases, /\n/),
+        sampleCopy: data.sampleCopy.trim(),
+        readingLevel: data.readingLevel === ANY_LEVEL ? null : Number(data.readingLevel),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/brand-voice'] });
+      toast({
+        title: "Brand voice saved",
+        description: "New AI copy will follow it automatically.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save failed",
+        description: error.message || "Failed to save brand voice",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const scoreMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/brand-voice/score", { text: checkText, ai: checkTone });
+      return response.json() as Promise<BrandVoiceScore>;
+    },
+    onSuccess: setScore,
+    onError: (error: any) => {
+      toast({
+        title: "Check failed",
+        description: error.message || "Failed to score copy",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const scoreColor = (value: number) =>
+    value >= 80 ? "bg-green-400/10 text-green-400" : value >= 60 ? "bg-orange-400/10 text-orange-400" : "bg-red-400/10 text-red-400";
+
+  return (
+    <Card className="border-2 border-primary/20 shadow-2xl">
+      <CardHeader>
+        <CardTitle className="text-2xl flex items-center">
+          <Brain className="w-6 h-6 mr-2 text-primary" />
+          Brand Voice Memory
+        </CardTitle>
+        <CardDescription>
+          Set your brand tone once. Descriptions, SEO copy and every other AI tool will follow it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid md:grid-cols-2 gap-8">
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="voice-tone">Tone (comma-separated)</Label>
+              <Input
+                id="voice-tone"
+                className="mt-2"
+                placeholder="e.g. warm, confident, playful"
+                value={form.tone}
+                onChange={(event) => setForm({ ...form, tone: event.target.value })}
+                data-testid="input-voice-tone"
+              />
+            </div>
+            <div>
+              <Label htmlFor="voice-banned">Banned words (comma-separated)</Label>
+              <Input
+                id="voice-banned"
+                className="mt-2"
+                placeholder="e.g. cheap, best ever"
+                value={form.bannedWords}
+                onChange={(event) => setForm({ ...form, bannedWords: event.target.value })}
+                data-testid="input-voice-banned"
+              />
+            </div>
+            <div>
+              <Label htmlFor="voice-required">Required phrases (one per line)</Label>
+              <Textarea
+                id="voice-required"
+                className="mt-2 h-20 resize-none"
+                placeholder="e.g. Free returns"
+                value={form.requiredPhrases}
+                onChange={(event) => setForm({ ...form, requiredPhrases: event.target.value })}
+                data-testid="textarea-voice-required"
+              />
+            </div>
+            <div>
+              <Label htmlFor="voice-sample">Sample copy</Label>
+              <Textarea
+                id="voice-sample"
+                className="mt-2 h-28 resize-none"
+                placeholder="Paste a description that sounds like your brand"
+                value={form.sampleCopy}
+                onChange={(event) => setForm({ ...form, sampleCopy: event.target.value })}
+                data-testid="textarea-voice-sample"
+              />
+            </div>
+            <div>
+              <Label>Target reading level</Label>
+              <Select value={form.readingLevel} onValueChange={(readingLevel) => setForm({ ...form, readingLevel })}>
+                <SelectTrigger className="mt-2" data-testid="select-voice-reading-level">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_LEVEL}>No target</SelectItem>
+                  {READING_LEVELS.map((grade) => (
+                    <SelectItem key={grade} value={String(grade)}>Grade {grade}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              className="w-full bg-gradient-to-r from-primary to-blue-400 hover:shadow-lg"
+              onClick={() => saveMutation.mutate(form)}
+              disabled={saveMutation.isPending}
+              data-testid="button-save-voice"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {saveMutation.isPending ? "Saving..." : "Save Brand Voice"}
+            </Button>
+          </div>
+
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="voice-check">Check existing copy</Label>
+              <Textarea
+                id="voice-check"
+                className="mt-2 h-40 resize-none"
+                placeholder="Paste copy to score it against your saved brand voice"
+                value={checkText}
+                onChange={(event) => setCheckText(event.target.value)}
+                data-testid="textarea-voice-check"
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <Switch id="voice-check-tone" checked={checkTone} onCheckedChange={setCheckTone} />
+                <Label htmlFor="voice-check-tone" className="text-sm">Rate tone with AI</Label>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => scoreMutation.mutate()}
+                disabled={!checkText.trim() || scoreMutation.isPending}
+                data-testid="button-check-voice"
+              >
+                <Gauge className="w-4 h-4 mr-2" />
+                {scoreMutation.isPending ? "Checking..." : "Check"}
+              </Button>
+            </div>
+
+            {score && (
+              <div className="bg-muted/30 p-4 rounded-lg space-y-3" data-testid="voice-score">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="default" className={scoreColor(score.score)}>
+                    {score.score}/100 brand voice match
+                  </Badge>
+                  <Badge variant="outline">
+                    Reading grade {score.readingLevel.grade}
+                    {score.readingLevel.target !== null && ` (target ${score.readingLevel.target})`}
+                  </Badge>
+                  {score.tone && <Badge variant="outline">Tone {score.tone.score}/100</Badge>}
+                </div>
+                {score.issues.length > 0 ? (
+                  <ul className="space-y-1 text-sm list-disc list-inside">
+                    {score.issues.map((issue) => (
+                      <li key={issue}>{issue}</li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No issues found.</p>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,300 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAllProducts } from "@/hooks/use-all-products";
+import AIModelSelect from "./ai-model-select";
+import { LOCALE_NAMES, SUPPORTED_LOCALES } from "@shared/schema";
+import type { AISelection, Job, JobItemStatus, JobProgress, PromptTemplate, SupportedLocale } from "@shared/schema";
+import { Layers, Play, Square } from "lucide-react";
+
+type BulkTool = "description" | "seo" | "alt-text" | "translation";
+
+const TOOL_OPTIONS: Array<{ id: BulkTool; label: string }> = [
+  { id: "description", label: "Descriptions" },
+  { id: "seo", label: "SEO title & meta" },
+  { id: "alt-text", label: "Image alt text" },
+  { id: "translation", label: "Translations" },
+];
+
+const ITEM_STATUS_STYLES: Record<JobItemStatus, string> = {
+  pending: "bg-muted text-muted-foreground",
+  running: "bg-blue-400/10 text-blue-400",
+  succeeded: "bg-green-400/10 text-green-400",
+  failed: "bg-red-400/10 text-red-400",
+  cancelled: "bg-orange-400/10 text-orange-400",
+};
+
+const isActive = (job?: Job) => job?.status === "queued" || job?.status === "running";
+
+// Runs the description and SEO generators over many products as a background
+// job and follows its progress. Opened with ?job=<id> from job notifications.
+export default function BulkOptimizePanel() {
+  const { toast } = useToast();
+  const [jobId, setJobId] = useState<string | null>(
+    () => new URLSearchParams(window.location.search).get("job")
+  );
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [tools, setTools] = useState<BulkTool[]>(["description"]);
+  const [locales, setLocales] = useState<SupportedLocale[]>([]);
+  const [brandVoice, setBrandVoice] = useState("sales");
+  const [apply, setApply] = useState(true);
+  const [aiSelection, setAiSelection] = useState<AISelection>({});
+
+  useEffect(() => {
+    if (new URLSearchParams(window.location.search).has("job")) {
+      window.history.replaceState(null, "", window.location.pathname);
+    }
+  }, []);
+
+  const { products } = useAllProducts();
+
+  const { data: templates = [] } = useQuery<PromptTemplate[]>({
+    queryKey: ['/api/prompt-templates'],
+  });
+  const voices = templates.filter((template, index) =>
+    templates.findIndex(other => other.key === template.key) === index
+  );
+
+  const { data: progress } = useQuery<JobProgress>({
+    queryKey: ['/api/jobs', jobId],
+    enabled: !!jobId,
+    refetchInterval: (query) => isActive(query.state.data?.job) ? 2000 : false,
+  });
+  const job = progress?.job;
+  const done = job ? job.succeeded + job.failed : 0;
+
+  // Refresh what the job touched once it stops
+  useEffect(() => {
+    if (job && !isActive(job)) {
+      queryClient.invalidateQueries({ queryKey: ['/api/products'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/ai/generations'] });
+    }
+  }, [job?.status]);
+
+  const onError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message || "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/jobs/bulk-optimize", {
+        productIds: selectedIds.length > 0 ? selectedIds : undefined,
+        tools,
+        locales: tools.includes("translation") ? locales : undefined,
+        brandVoice,
+        apply,
+        ...aiSelection,
+      });
+      return response.json() as Promise<Job>;
+    },
+    onSuccess: (started) => {
+      setJobId(started.id);
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
+      toast({
+        title: "Bulk optimization started",
+        description: `${started.total} products queued. You'll get a notification when it's done.`,
+      });
+    },
+    onError: onError("Couldn't start bulk optimization"),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/jobs/${id}/cancel`);
+      return response.json() as Promise<Job>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
+      toast({ title: "Bulk optimization cancelled" });
+    },
+    onError: onError("Cancel failed"),
+  });
+
+  const toggleProduct = (id: string, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev, id] : prev.filter(other => other !== id));
+  };
+
+  const toggleTool = (id: BulkTool, checked: boolean) => {
+    setTools(prev => checked ? [...prev, id] : prev.filter(other => other !== id));
+  };
+
+  const toggleLocale = (locale: SupportedLocale, checked: boolean) => {
+    setLocales(prev => checked ? [...prev, locale] : prev.filter(other => other !== locale));
+  };
+
+  const missingLocales = tools.includes("translation") && locales.length === 0;
+
+  return (
+    <Card className="border-2 border-primary/20 shadow-2xl">
+      <CardHeader>
+        <CardTitle className="text-2xl flex items-center">
+          <Layers className="w-6 h-6 mr-2 text-primary" />
+          Bulk Optimization
+        </CardTitle>
+        <CardDescription>
+          Generate fresh copy for many products at once. Runs in the background; you can leave this page.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid md:grid-cols-2 gap-8">
+          <div className="space-y-4">
+            <div>
+              <div className="flex items-center justify-between">
+                <Label>Products</Label>
+                <span className="text-xs text-muted-foreground">
+                  {selectedIds.length > 0 ? `${selectedIds.length} selected` : "All products"}
+                </span>
+              </div>
+              <div className="mt-2 max-h-48 overflow-y-auto border border-border rounded-lg p-2 space-y-1">
+                {products.map((product) => (
+                  <label key={product.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={selectedIds.includes(product.id)}
+                      onCheckedChange={(checked) => toggleProduct(product.id, checked === true)}
+                      data-testid={`checkbox-bulk-product-${product.id}`}
+                    />
+                    {product.name}
+                  </label>
+                ))}
+                {products.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No products yet.</p>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <Label>Generate</Label>
+              <div className="flex flex-wrap gap-4 mt-2">
+                {TOOL_OPTIONS.map((option) => (
+                  <label key={option.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={tools.includes(option.id)}
+                      onCheckedChange={(checked) => toggleTool(option.id, checked === true)}
+                      data-testid={`checkbox-bulk-tool-${option.id}`}
+                    />
+                    {option.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {tools.includes("translation") && (
+              <div>
+                <Label>Languages</Label>
+                <p className="text-xs text-muted-foreground">
+                  Translations run after the other tools. Up-to-date translations are skipped.
+                </p>
+                <div className="flex flex-wrap gap-4 mt-2">
+                  {SUPPORTED_LOCALES.map((locale) => (
+                    <label key={locale} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={locales.includes(locale)}
+                        onCheckedChange={(checked) => toggleLocale(locale, checked === true)}
+                        data-testid={`checkbox-bulk-locale-${locale}`}
+                      />
+                      {LOCALE_NAMES[locale]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {tools.includes("description") && (
+              <div>
+                <Label>Brand voice</Label>
+                <Select value={brandVoice} onValueChange={setBrandVoice}>
+                  <SelectTrigger className="mt-2" data-testid="select-bulk-voice">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {voices.map((template) => (
+                      <SelectItem key={template.key} value={template.key}>{template.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <AIModelSelect value={aiSelection} onChange={setAiSelection} />
+
+            <div className="flex items-center space-x-2">
+              <Switch id="bulk-apply" checked={apply} onCheckedChange={setApply} />
+              <Label htmlFor="bulk-apply" className="text-sm">
+                Apply to products (off: save to history for review)
+              </Label>
+            </div>
+
+            <Button
+              className="w-full bg-gradient-to-r from-primary to-blue-400 hover:shadow-lg"
+              onClick={() => startMutation.mutate()}
+              disabled={startMutation.isPending || tools.length === 0 || missingLocales || products.length === 0 || isActive(job)}
+              data-testid="button-start-bulk"
+            >
+              <Play className="w-4 h-4 mr-2" />
+              {startMutation.isPending ? "Starting..." : "Start Bulk Process"}
+            </Button>
+          </div>
+
+          <div className="space-y-4">
+            {job ? (
+              <>
+                <div className="flex items-center justify-between gap-2">
+                  <Badge variant="outline" className="capitalize" data-testid="text-job-status">{job.status}</Badge>
+                  {isActive(job) && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => cancelMutation.mutate(job.id)}
+                      disabled={cancelMutation.isPending}
+                      data-testid="button-cancel-job"
+                    >
+                      <Square className="w-4 h-4 mr-2" />
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+                <Progress value={job.total ? (done / job.total) * 100 : 0} className="h-2" />
+                <p className="text-sm text-muted-foreground" data-testid="text-job-progress">
+                  {done} of {job.total} processed · {job.succeeded} succeeded · {job.failed} failed
+                </p>
+                <div className="max-h-72 overflow-y-auto space-y-2">
+                  {progress.items.map((item) => (
+                    <div key={item.id} className="flex items-start justify-between gap-2 text-sm border-b border-border pb-2">
+                      <div className="min-w-0">
+                        <p className="truncate">{item.productName || "Deleted product"}</p>
+                        {item.lastError && (
+                          <p className="text-xs text-red-400 truncate" title={item.lastError}>{item.lastError}</p>
+                        )}
+                      </div>
+                      <Badge variant="default" className={ITEM_STATUS_STYLES[item.status as JobItemStatus]}>
+                        {item.status}
+                        {item.attempts > 1 && ` (${item.attempts} tries)`}
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Pick products and start a run to see progress here.
+              </p>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
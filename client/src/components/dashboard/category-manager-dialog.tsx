@@ -0,0 +1,279 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { CategoryWithPath } from "@shared/schema";
+import { Edit2, Trash2, Link2 } from "lucide-react";
+
+interface CategoryManagerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface CategoryDraft {
+  name: string;
+  parentId: string;
+  googleCategoryId: string;
+  defaultTags: string;
+  descriptionTemplate: string;
+}
+
+const NONE = "none";
+const emptyDraft: CategoryDraft = {
+  name: "",
+  parentId: NONE,
+  googleCategoryId: NONE,
+  defaultTags: "",
+  descriptionTemplate: "",
+};
+
+export default function CategoryManagerDialog({ open, onOpenChange }: CategoryManagerDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<CategoryDraft>(emptyDraft);
+
+  const { data: categories = [] } = useQuery<CategoryWithPath[]>({
+    queryKey: ['/api/categories'],
+    enabled: open,
+  });
+  const { data: taxonomy = [] } = useQuery<Array<{ id: string; path: string }>>({
+    queryKey: ['/api/categories/google-taxonomy'],
+    enabled: open,
+  });
+
+  const reset = () => {
+    setEditingId(null);
+    setDraft(emptyDraft);
+  };
+
+  const onError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const google = taxonomy.find(entry => entry.id === draft.googleCategoryId);
+      const payload = {
+        name: draft.name,
+        parentId: draft.parentId === NONE ? null : draft.parentId,
+        googleCategoryId: google?.id ?? null,
+        googleCategoryPath: google?.path ?? null,
+        defaultTags: draft.defaultTags || null,
+        descriptionTemplate: draft.descriptionTemplate || null,
+      };
+      const response = editingId
+        ? await apiRequest("PATCH", `/api/categories/${editingId}`, payload)
+        : await apiRequest("POST", "/api/categories", payload);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/categories'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/products'] });
+      toast({ title: editingId ? "Category updated!" : "Category added!" });
+      reset();
+    },
+    onError: onError("Failed to save category"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/categories/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/categories'] });
+    },
+    onError: onError("Failed to delete category"),
+  });
+
+  const migrateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/categories/migrate");
+      return response.json() as Promise<{ categoriesCreated: number; productsUpdated: number }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/categories'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/products'] });
+      toast({
+        title: "Products linked",
+        description: `${result.productsUpdated} products linked, ${result.categoriesCreated} categories created.`,
+      });
+    },
+    onError: onError("Failed to link products to categories"),
+  });
+
+  const handleEdit = (category: CategoryWithPath) => {
+    setEditingId(category.id);
+    setDraft({
+      name: category.name,
+      parentId: category.parentId || NONE,
+      googleCategoryId: category.googleCategoryId || NONE,
+      defaultTags: category.defaultTags || "",
+      descriptionTemplate: category.descriptionTemplate || "",
+    });
+  };
+
+  // A category can't be moved under itself or one of its subcategories
+  const parentOptions = editingId
+    ? categories.filter(category => {
+        const editing = categories.find(c => c.id === editingId);
+        return category.id !== editingId && !(editing && category.path.startsWith(`${editing.path} > `));
+      })
+    : categories;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!next) reset(); onOpenChange(next); }}>
+      <DialogContent className="sm:max-w-[760px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Categories</DialogTitle>
+          <DialogDescription>
+            Nest categories, map them to the Google product taxonomy and set the tags and description
+            template optimize-all uses for their products. Subcategories inherit defaults they leave empty.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Category</TableHead>
+              <TableHead>Google category</TableHead>
+              <TableHead className="w-[80px]">Products</TableHead>
+              <TableHead className="w-[90px]" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {categories.map((category) => (
+              <TableRow key={category.id} data-testid={`row-category-${category.id}`}>
+                <TableCell className="font-medium">{category.path}</TableCell>
+                <TableCell className="text-xs text-muted-foreground">{category.googleCategoryPath || "—"}</TableCell>
+                <TableCell>{category.productCount}</TableCell>
+                <TableCell>
+                  <div className="flex gap-1">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleEdit(category)}
+                      data-testid={`button-edit-category-${category.id}`}
+                    >
+                      <Edit2 className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => deleteMutation.mutate(category.id)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-category-${category.id}`}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="space-y-4 border-t border-border pt-4">
+          <h3 className="font-semibold">{editingId ? "Edit category" : "Add category"}</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="category-name">Name</Label>
+              <Input
+                id="category-name"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g. T-Shirts"
+                data-testid="input-category-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Parent category</Label>
+              <Select value={draft.parentId} onValueChange={(parentId) => setDraft({ ...draft, parentId })}>
+                <SelectTrigger data-testid="select-category-parent">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>None (top level)</SelectItem>
+                  {parentOptions.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>{category.path}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Google product category</Label>
+            <Select value={draft.googleCategoryId} onValueChange={(googleCategoryId) => setDraft({ ...draft, googleCategoryId })}>
+              <SelectTrigger data-testid="select-category-google">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>Not mapped</SelectItem>
+                {taxonomy.map((entry) => (
+                  <SelectItem key={entry.id} value={entry.id}>{entry.path}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="category-tags">Default tags</Label>
+            <Input
+              id="category-tags"
+              value={draft.defaultTags}
+              onChange={(e) => setDraft({ ...draft, defaultTags: e.target.value })}
+              placeholder="Comma-separated, inherited from the parent if empty"
+              data-testid="input-category-tags"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="category-template">Description template</Label>
+            <Textarea
+              id="category-template"
+              value={draft.descriptionTemplate}
+              onChange={(e) => setDraft({ ...draft, descriptionTemplate: e.target.value })}
+              placeholder="Use {name} for the product name"
+              data-testid="textarea-category-template"
+            />
+          </div>
+          <div className="flex justify-between gap-3">
+            <Button
+              variant="outline"
+              onClick={() => migrateMutation.mutate()}
+              disabled={migrateMutation.isPending}
+              data-testid="button-migrate-categories"
+            >
+              <Link2 className="w-4 h-4 mr-2" />
+              {migrateMutation.isPending ? "Linking..." : "Link uncategorized products"}
+            </Button>
+            <div className="flex gap-3">
+              {editingId && (
+                <Button variant="outline" onClick={reset} data-testid="button-cancel-category">
+                  Cancel
+                </Button>
+              )}
+              <Button
+                onClick={() => saveMutation.mutate()}
+                disabled={!draft.name.trim() || saveMutation.isPending}
+                data-testid="button-save-category"
+              >
+                {saveMutation.isPending ? "Saving..." : editingId ? "Update Category" : "Add Category"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
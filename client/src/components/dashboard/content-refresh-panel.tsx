@@ -0,0 +1,299 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAllProducts } from "@/hooks/use-all-products";
+import { aiErrorMessage, applyAiGeneration } from "@/lib/openai";
+import type {
+  AiGeneration,
+  ContentRefreshPolicy,
+  ContentRefreshPolicyInput,
+  ContentRefreshStatus,
+  ContentRefreshTool,
+  Job,
+  PromptTemplate,
+} from "@shared/schema";
+import { Check, Play, RefreshCw, Trash2 } from "lucide-react";
+
+// Days between refreshes; copy is usually refreshed every 3-6 months
+const INTERVALS = [30, 60, 90, 120, 180, 365];
+
+const TOOL_LABELS: Record<ContentRefreshTool, string> = {
+  description: "Description",
+  seo: "SEO",
+};
+
+function stagedText(generation: AiGeneration): string {
+  const output = (generation.output || {}) as Record<string, any>;
+  if (generation.tool === "description") return output.description || "";
+  return [output.optimizedTitle, output.optimizedMeta].filter(Boolean).join(" · ");
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString();
+}
+
+// Per-product refresh schedules. The server queues a refresh once a product's
+// copy is older than its interval; results wait here for approval unless the
+// policy applies them automatically.
+export default function ContentRefreshPanel() {
+  const { toast } = useToast();
+  const [productId, setProductId] = useState("");
+  const [tools, setTools] = useState<ContentRefreshTool[]>(["description", "seo"]);
+  const [intervalDays, setIntervalDays] = useState(90);
+  const [brandVoice, setBrandVoice] = useState("sales");
+  const [autoApply, setAutoApply] = useState(false);
+
+  const { products } = useAllProducts();
+
+  const { data: templates = [] } = useQuery<PromptTemplate[]>({
+    queryKey: ['/api/prompt-templates'],
+  });
+
+  const { data: statuses = [], isLoading } = useQuery<ContentRefreshStatus[]>({
+    queryKey: ['/api/content-refresh'],
+    refetchOnMount: "always",
+  });
+
+  const onError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: aiErrorMessage(error, "Something went wrong"),
+      variant: "destructive",
+    });
+  };
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['/api/content-refresh'] });
+
+  const saveMutation = useMutation({
+    mutationFn: async (policy: ContentRefreshPolicyInput & { productId: string }) => {
+      const { productId: id, ...settings } = policy;
+      const response = await apiRequest("PUT", `/api/products/${id}/refresh-policy`, settings);
+      return response.json() as Promise<ContentRefreshPolicy>;
+    },
+    onSuccess: () => {
+      invalidate();
+      setProductId("");
+      toast({ title: "Refresh schedule saved" });
+    },
+    onError: onError("Couldn't save the schedule"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/products/${id}/refresh-policy`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Refresh schedule removed" });
+    },
+    onError: onError("Couldn't remove the schedule"),
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/products/${id}/refresh-policy/run`);
+      return response.json() as Promise<Job>;
+    },
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
+      toast({
+        title: "Refresh queued",
+        description: "You'll get a notification when it's done.",
+      });
+    },
+    onError: onError("Couldn't start the refresh"),
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: (generation: AiGeneration) => applyAiGeneration(generation.id),
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['/api/products'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/ai/generations'] });
+      toast({ title: "Refreshed copy applied" });
+    },
+    onError: onError("Apply failed"),
+  });
+
+  const toggleTool = (tool: ContentRefreshTool, on: boolean) => {
+    setTools(prev => on ? Array.from(new Set([...prev, tool])) : prev.filter(current => current !== tool));
+  };
+
+  // Editing a scheduled product loads its settings into the form
+  const edit = (policy: ContentRefreshPolicy) => {
+    setProductId(policy.productId);
+    setTools(policy.tools);
+    setIntervalDays(policy.intervalDays);
+    setBrandVoice(policy.brandVoice);
+    setAutoApply(policy.autoApply);
+  };
+
+  return (
+    <Card className="border-2 border-primary/20 shadow-2xl">
+      <CardHeader>
+        <CardTitle className="text-2xl flex items-center">
+          <RefreshCw className="w-6 h-6 mr-2 text-primary" />
+          Scheduled Refresh
+        </CardTitle>
+        <CardDescription>
+          Regenerate descriptions and SEO once they're older than the schedule. Refreshed copy waits for
+          your approval unless you let it apply automatically.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid md:grid-cols-2 gap-8">
+          <div className="space-y-4">
+            <div>
+              <Label>Product</Label>
+              <Select value={productId} onValueChange={setProductId}>
+                <SelectTrigger className="form-input mt-2" data-testid="select-refresh-product">
+                  <SelectValue placeholder="Choose a product" />
+                </SelectTrigger>
+                <SelectContent>
+                  {products.map((product) => (
+                    <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Refresh</Label>
+              {(Object.keys(TOOL_LABELS) as ContentRefreshTool[]).map((tool) => (
+                <div key={tool} className="flex items-center space-x-2">
+                  <Switch
+                    id={`refresh-tool-${tool}`}
+                    checked={tools.includes(tool)}
+                    onCheckedChange={(on) => toggleTool(tool, on)}
+                  />
+                  <Label htmlFor={`refresh-tool-${tool}`} className="text-sm">{TOOL_LABELS[tool]}</Label>
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <Label>Every</Label>
+              <Select value={String(intervalDays)} onValueChange={(value) => setIntervalDays(Number(value))}>
+                <SelectTrigger className="form-input mt-2" data-testid="select-refresh-interval">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INTERVALS.map((days) => (
+                    <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {tools.includes("description") && (
+              <div>
+                <Label>Description style</Label>
+                <Select value={brandVoice} onValueChange={setBrandVoice}>
+                  <SelectTrigger className="form-input mt-2" data-testid="select-refresh-voice">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map((template) => (
+                      <SelectItem key={template.id} value={template.key}>{template.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="flex items-center space-x-2">
+              <Switch id="refresh-auto-apply" checked={autoApply} onCheckedChange={setAutoApply} />
+              <Label htmlFor="refresh-auto-apply" className="text-sm">
+                Apply automatically (off: wait for approval)
+              </Label>
+            </div>
+
+            <Button
+              className="w-full bg-gradient-to-r from-primary to-blue-400 hover:shadow-lg"
+              onClick={() => saveMutation.mutate({ productId, tools, intervalDays, brandVoice, autoApply, enabled: true })}
+              disabled={!productId || tools.length === 0 || saveMutation.isPending}
+              data-testid="button-save-refresh-policy"
+            >
+              {saveMutation.isPending ? "Saving..." : "Save Schedule"}
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Scheduled products</Label>
+            <div className="max-h-[32rem] overflow-y-auto space-y-3">
+              {isLoading ? (
+                <p className="text-sm text-muted-foreground">Loading schedules...</p>
+              ) : statuses.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No products are scheduled yet. Pick a product and save a schedule.
+                </p>
+              ) : statuses.map(({ policy, productName, contentUpdatedAt, dueAt, due, staged }) => (
+                <div key={policy.id} className="rounded-lg border border-border p-3 space-y-2" data-testid={`refresh-policy-${policy.productId}`}>
+                  <div className="flex items-start justify-between gap-2">
+                    <button type="button" className="text-left min-w-0" onClick={() => edit(policy)}>
+                      <p className="text-sm font-medium truncate">{productName}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {policy.tools.map(tool => TOOL_LABELS[tool]).join(" & ")} every {policy.intervalDays} days
+                        {" · "}updated {formatDate(contentUpdatedAt)}
+                      </p>
+                    </button>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      {due ? (
+                        <Badge variant="outline" className="text-yellow-400">Due</Badge>
+                      ) : (
+                        <Badge variant="outline">Next {formatDate(dueAt)}</Badge>
+                      )}
+                      {policy.autoApply && <Badge variant="secondary">Auto</Badge>}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Refresh now"
+                        onClick={() => runMutation.mutate(policy.productId)}
+                        disabled={runMutation.isPending}
+                        data-testid={`button-run-refresh-${policy.productId}`}
+                      >
+                        <Play className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Remove schedule"
+                        onClick={() => deleteMutation.mutate(policy.productId)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-refresh-${policy.productId}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  {staged.map((generation) => (
+                    <div key={generation.id} className="flex items-start gap-2 bg-muted/30 rounded p-2">
+                      <Badge variant="outline">{TOOL_LABELS[generation.tool as ContentRefreshTool] || generation.tool}</Badge>
+                      <p className="text-xs flex-1 line-clamp-3">{stagedText(generation)}</p>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => approveMutation.mutate(generation)}
+                        disabled={approveMutation.isPending}
+                        data-testid={`button-approve-${generation.id}`}
+                      >
+                        <Check className="w-4 h-4 mr-1" />
+                        Approve
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
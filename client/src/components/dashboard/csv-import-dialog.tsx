@@ -0,0 +1,240 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import {
+  importProductsCsv,
+  exportProductsCsv,
+  downloadImportErrorReport,
+  type ProductImportResult
+} from "@/lib/productCsv";
+import { Upload, Download, FileWarning } from "lucide-react";
+
+interface CsvImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function CsvImportDialog({ open, onOpenChange }: CsvImportDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [file, setFile] = useState<File | null>(null);
+  // Unknown category names are row errors unless the import may create them
+  const [createCategories, setCreateCategories] = useState(false);
+  const [preview, setPreview] = useState<ProductImportResult | null>(null);
+
+  const reset = () => {
+    setFile(null);
+    setPreview(null);
+  };
+
+  // First pass is always a dry run so the user sees what will be created
+  const previewMutation = useMutation({
+    mutationFn: ({ selected, create }: { selected: File; create: boolean }) =>
+      importProductsCsv(selected, { dryRun: true, createCategories: create }),
+    onSuccess: (result) => setPreview(result),
+    onError: (error: any) => {
+      setFile(null);
+      toast({
+        title: "Could not read CSV",
+        description: error.message || "Failed to preview CSV file",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: (selected: File) => importProductsCsv(selected, { dryRun: false, mapping: preview?.mapping, createCategories }),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/products'] });
+      toast({
+        title: "Import complete!",
+        description: `${result.importedCount} products imported${result.invalidRows > 0 ? `, ${result.invalidRows} rows skipped` : ""}.`,
+      });
+      reset();
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Import failed",
+        description: error.message || "Failed to import products",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: exportProductsCsv,
+    onError: (error: any) => {
+      toast({
+        title: "Export failed",
+        description: error.message || "Failed to export products",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleChooseFile = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.csv,text/csv';
+    input.onchange = (e) => {
+      const selected = (e.target as HTMLInputElement).files?.[0];
+      if (selected) {
+        setFile(selected);
+        setPreview(null);
+        previewMutation.mutate({ selected, create: createCategories });
+      }
+    };
+    input.click();
+  };
+
+  const handleDownloadErrors = async () => {
+    if (!preview?.errorReportId) return;
+    try {
+      await downloadImportErrorReport(preview.errorReportId);
+    } catch (error: any) {
+      toast({
+        title: "Download failed",
+        description: error.message || "Failed to download error report",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => {
+      if (!next) reset();
+      onOpenChange(next);
+    }}>
+      <DialogContent className="sm:max-w-[720px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>CSV Import/Export</DialogTitle>
+          <DialogDescription>
+            Upload a CSV to preview and import products in bulk, or download your current catalog.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-3">
+          <Button
+            onClick={handleChooseFile}
+            disabled={previewMutation.isPending || importMutation.isPending}
+            data-testid="button-choose-csv"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            {previewMutation.isPending ? "Checking file..." : file ? "Choose another file" : "Upload CSV"}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => exportMutation.mutate()}
+            disabled={exportMutation.isPending}
+            data-testid="button-export-csv"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            {exportMutation.isPending ? "Exporting..." : "Export CSV"}
+          </Button>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="csv-create-categories"
+            checked={createCategories}
+            onCheckedChange={(on) => {
+              setCreateCategories(on);
+              // The preview's row errors depend on it
+              if (file) previewMutation.mutate({ selected: file, create: on });
+            }}
+            disabled={previewMutation.isPending || importMutation.isPending}
+            data-testid="switch-create-categories"
+          />
+          <Label htmlFor="csv-create-categories" className="text-sm">
+            Create categories that don't exist yet
+          </Label>
+        </div>
+
+        {preview && (
+          <div className="space-y-4" data-testid="csv-import-preview">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="secondary">{preview.totalRows} rows</Badge>
+              <Badge className="bg-green-600 hover:bg-green-600">{preview.validRows} ready to import</Badge>
+              {preview.invalidRows > 0 && (
+                <Badge variant="destructive">{preview.invalidRows} with errors</Badge>
+              )}
+            </div>
+
+            <div className="text-sm text-muted-foreground space-y-1">
+              <p>
+                Column mapping:{" "}
+                {Object.entries(preview.mapping).map(([header, field]) => `${header} → ${field}`).join(", ")}
+              </p>
+              {preview.unmappedColumns.length > 0 && (
+                <p>Ignored columns: {preview.unmappedColumns.join(", ")}</p>
+              )}
+            </div>
+
+            {preview.preview.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Price</TableHead>
+                    <TableHead>Stock</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.preview.map((row) => (
+                    <TableRow key={row.row}>
+                      <TableCell>{row.row}</TableCell>
+                      <TableCell className="max-w-[220px] truncate">{row.name}</TableCell>
+                      <TableCell>{row.category}</TableCell>
+                      <TableCell>${row.price}</TableCell>
+                      <TableCell>{row.stock}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {preview.errors.length > 0 && (
+              <div className="rounded-md border border-destructive/50 p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="flex items-center text-sm font-medium text-destructive">
+                    <FileWarning className="w-4 h-4 mr-2" />
+                    Rows with errors will be skipped
+                  </span>
+                  {preview.errorReportId && (
+                    <Button size="sm" variant="outline" onClick={handleDownloadErrors} data-testid="button-download-import-errors">
+                      Download error report
+                    </Button>
+                  )}
+                </div>
+                <ul className="text-xs text-muted-foreground space-y-1">
+                  {preview.errors.slice(0, 5).map((error, index) => (
+                    <li key={index}>Row {error.row} · {error.field}: {error.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            onClick={() => file && importMutation.mutate(file)}
+            disabled={!file || !preview || preview.validRows === 0 || importMutation.isPending}
+            data-testid="button-confirm-import"
+          >
+            {importMutation.isPending ? "Importing..." : `Import ${preview?.validRows ?? 0} products`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,253 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAllProducts } from "@/hooks/use-all-products";
+import { applyAiGeneration, fetchAiGenerations, type AiGenerationListParams } from "@/lib/openai";
+import type { AiGeneration, AiGenerationTool } from "@shared/schema";
+import { Columns2, History, Star } from "lucide-react";
+
+interface GenerationHistoryProps {
+  // Limit the list to one tool's generations
+  tool?: AiGenerationTool;
+}
+
+const ALL = "all";
+
+const TOOL_LABELS: Record<AiGenerationTool, string> = {
+  description: "Description",
+  seo: "SEO",
+  "alt-text": "Alt text",
+  translation: "Translation",
+};
+
+// Readable summary of a generation's output for the list and compare view
+function outputText(generation: AiGeneration): string {
+  const output = (generation.output || {}) as Record<string, any>;
+  if (generation.tool === "description") return output.description || "";
+  if (generation.tool === "alt-text") return output.altText || "";
+  if (generation.tool === "translation") {
+    return [output.locale && `[${output.locale}] ${output.name}`, output.description].filter(Boolean).join("\n");
+  }
+  const keywords = Array.isArray(output.keywords) ? output.keywords.join(", ") : output.keywords;
+  return [output.optimizedTitle, output.optimizedMeta, keywords && `Keywords: ${keywords}`]
+    .filter(Boolean)
+    .join("\n");
+}
+
+function inputSummary(generation: AiGeneration): string {
+  const input = (generation.input || {}) as Record<string, any>;
+  return input.productName || input.currentTitle || "";
+}
+
+export default function GenerationHistory({ tool }: GenerationHistoryProps) {
+  const { toast } = useToast();
+  const [toolFilter, setToolFilter] = useState<string>(tool || ALL);
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [targetProductId, setTargetProductId] = useState<string>("");
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const params: AiGenerationListParams = {
+    tool: toolFilter === ALL ? undefined : toolFilter as AiGenerationTool,
+    favorite: favoritesOnly || undefined,
+  };
+  const { data: generations = [], isLoading } = useQuery({
+    queryKey: ['/api/ai/generations', params],
+    queryFn: () => fetchAiGenerations(params),
+  });
+
+  const { products } = useAllProducts();
+  const productName = (id: string | null) => products.find(product => product.id === id)?.name;
+
+  const favoriteMutation = useMutation({
+    mutationFn: async (generation: AiGeneration) => {
+      const response = await apiRequest("PATCH", `/api/ai/generations/${generation.id}`, {
+        isFavorite: !generation.isFavorite,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/ai/generations'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Update failed",
+        description: error.message || "Failed to update generation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: (generation: AiGeneration) =>
+      applyAiGeneration(generation.id, targetProductId || undefined),
+    onSuccess: (generation) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/ai/generations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/products'] });
+      toast({
+        title: "Generation applied",
+        description: `Saved to ${productName(generation.productId) || "the product"}.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Apply failed",
+        description: error.message || "Failed to apply generation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleCompare = (id: string, checked: boolean) => {
+    setCompareIds(prev => checked
+      ? [...prev.filter(existing => existing !== id), id].slice(-2)
+      : prev.filter(existing => existing !== id));
+  };
+  const compared = compareIds
+    .map(id => generations.find(generation => generation.id === id))
+    .filter((generation): generation is AiGeneration => !!generation);
+
+  return (
+    <Card className="gradient-card border-0">
+      <CardContent className="p-6 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h3 className="text-lg font-semibold flex items-center">
+            <History className="w-5 h-5 text-primary mr-2" />
+            Generation History
+          </h3>
+          <div className="flex items-center gap-2">
+            {!tool && (
+              <Select value={toolFilter} onValueChange={setToolFilter}>
+                <SelectTrigger className="form-input w-[150px]" data-testid="select-generation-tool">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All tools</SelectItem>
+                  {Object.entries(TOOL_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button
+              variant={favoritesOnly ? "default" : "outline"}
+              size="sm"
+              onClick={() => setFavoritesOnly(!favoritesOnly)}
+              data-testid="button-generation-favorites"
+            >
+              <Star className="w-4 h-4 mr-2" />
+              Favourites
+            </Button>
+          </div>
+        </div>
+
+        <div>
+          <Select value={targetProductId} onValueChange={setTargetProductId}>
+            <SelectTrigger className="form-input" data-testid="select-generation-product">
+              <SelectValue placeholder="Apply to the generation's own product" />
+            </SelectTrigger>
+            <SelectContent>
+              {products.map((product) => (
+                <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground mt-1">
+            Pick a product to apply generations to it instead of the product they were made for.
+          </p>
+        </div>
+
+        {compared.length === 2 && (
+          <div className="grid md:grid-cols-2 gap-4" data-testid="generation-compare">
+            {compared.map((generation) => (
+              <div key={generation.id} className="bg-muted/30 p-4 rounded-lg space-y-2">
+                <div className="text-xs text-muted-foreground">
+                  {generation.promptTemplate} · {generation.provider} {generation.model} ·{" "}
+                  {new Date(generation.createdAt!).toLocaleString()}
+                </div>
+                <p className="text-sm whitespace-pre-line">{outputText(generation)}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isLoading && <p className="text-sm text-muted-foreground">Loading history...</p>}
+        {!isLoading && generations.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            {favoritesOnly ? "No favourite generations yet." : "Generated copy will appear here."}
+          </p>
+        )}
+
+        <div className="space-y-3">
+          {generations.map((generation) => {
+            const canApply = !!(targetProductId || generation.productId);
+            return (
+              <div
+                key={generation.id}
+                className="border border-border rounded-lg p-4 space-y-2"
+                data-testid={`generation-${generation.id}`}
+              >
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Checkbox
+                      checked={compareIds.includes(generation.id)}
+                      onCheckedChange={(checked) => toggleCompare(generation.id, checked === true)}
+                      aria-label="Select to compare"
+                      data-testid={`checkbox-compare-${generation.id}`}
+                    />
+                    <Badge variant="outline">{TOOL_LABELS[generation.tool as AiGenerationTool] || generation.tool}</Badge>
+                    <span className="text-sm font-medium">
+                      {productName(generation.productId) || inputSummary(generation)}
+                    </span>
+                    {generation.appliedAt && (
+                      <Badge variant="default" className="bg-green-400/10 text-green-400">Applied</Badge>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => favoriteMutation.mutate(generation)}
+                      disabled={favoriteMutation.isPending}
+                      data-testid={`button-favorite-${generation.id}`}
+                    >
+                      <Star className={`w-4 h-4 ${generation.isFavorite ? "fill-yellow-400 text-yellow-400" : ""}`} />
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => applyMutation.mutate(generation)}
+                      disabled={!canApply || applyMutation.isPending}
+                      title={canApply ? undefined : "Choose a product to apply this generation to"}
+                      data-testid={`button-apply-${generation.id}`}
+                    >
+                      {generation.appliedAt ? "Re-apply" : "Apply"}
+                    </Button>
+                  </div>
+                </div>
+                <p className="text-sm text-muted-foreground whitespace-pre-line line-clamp-3">
+                  {outputText(generation)}
+                </p>
+                <div className="text-xs text-muted-foreground">
+                  {generation.provider} {generation.model} · {generation.inputTokens + generation.outputTokens} tokens ·{" "}
+                  {new Date(generation.createdAt!).toLocaleString()}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {compareIds.length === 1 && (
+          <p className="text-xs text-muted-foreground flex items-center">
+            <Columns2 className="w-4 h-4 mr-1" />
+            Select one more generation to compare.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
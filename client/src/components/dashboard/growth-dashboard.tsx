@@ -1,10 +1,11 @@
 import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import type { AbTestDetail } from "@shared/schema";
 import { 
   ShoppingBag,
   Mail,
@@ -28,9 +29,25 @@ interface AnalyticsCard {
   category: 'metric' | 'performance' | 'growth';
 }
 
+// Share of decided tests where an AI variant beat the original copy
+function abTestSummary(tests: AbTestDetail[]) {
+  const running = tests.filter(detail => detail.test.status === "running").length;
+  const decided = tests.filter(detail => detail.test.winnerVariantId);
+  const challengerWins = decided.filter(detail =>
+    !detail.variants.find(variant => variant.id === detail.test.winnerVariantId)?.isControl
+  ).length;
+  const winRate = decided.length > 0 ? Math.round((challengerWins / decided.length) * 100) : null;
+  return { running, decided: decided.length, winRate };
+}
+
 export default function GrowthDashboard() {
   const { toast } = useToast();
 
+  const { data: abTests = [] } = useQuery<AbTestDetail[]>({
+    queryKey: ['/api/ab-tests'],
+  });
+  const abSummary = abTestSummary(abTests);
+
   const analyticsCards: AnalyticsCard[] = [
     {
       id: 'optimized-products',
@@ -114,8 +131,8 @@ export default function GrowthDashboard() {
       title: 'A/B Test Results',
       description: 'Performance comparison of different content versions and optimization tests',
       icon: <Zap className="w-4 h-4 sm:w-5 sm:h-5 stroke-2" style={{ color: '#C1E8FF' }} />,
-      value: '67%',
-      change: '+23% win rate',
+      value: abSummary.winRate === null ? '—' : `${abSummary.winRate}%`,
+      change: `${abSummary.running} running`,
       trend: 'up',
       actionText: 'View Tests',
       category: 'performance'
@@ -150,7 +167,9 @@ export default function GrowthDashboard() {
           message: `SEO rankings loaded. Average position: #3 (up from #10). Tracking 45 target keywords.`
         },
         'ab-test-results': {
-          message: `A/B test results loaded. 12 active tests, 67% win rate. Best performer: "Emotional vs Technical" descriptions`
+          message: abSummary.decided > 0
+            ? `${abSummary.running} tests running. AI copy beat the original in ${abSummary.winRate}% of ${abSummary.decided} decided tests.`
+            : `${abSummary.running} tests running, none decided yet. Start one from AI Tools → A/B Testing Copy.`
         }
       };
 
@@ -89,6 +89,14 @@ export default function NotificationCenter({ className }: NotificationCenterProp
     markAsReadMutation.mutate(notificationId);
   };
 
+  // Follow the notification's link, marking it read first so the badge is right on the next page
+  const handleAction = async (notification: Notification) => {
+    if (!notification.isRead) {
+      await markAsReadMutation.mutateAsync(notification.id).catch(() => undefined);
+    }
+    window.location.href = notification.actionUrl!;
+  };
+
   const handleClearAll = () => {
     clearAllMutation.mutate();
   };
@@ -202,6 +210,7 @@ export default function NotificationCenter({ className }: NotificationCenterProp
                                 variant="ghost"
                                 size="sm"
                                 className="text-xs h-6 px-2 text-primary hover:text-primary-foreground hover:bg-primary"
+                                onClick={() => handleAction(notification)}
                                 data-testid={`button-action-${notification.id}`}
                               >
                                 {notification.actionLabel}
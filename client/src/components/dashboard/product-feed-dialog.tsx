@@ -0,0 +1,417 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { exportAdsCsv } from "@/lib/productCsv";
+import { LOCALE_NAMES, SUPPORTED_LOCALES } from "@shared/schema";
+import type { AdPlatform, FeedChannel, ProductFeed, SupportedLocale } from "@shared/schema";
+import { Copy, Download, RefreshCw } from "lucide-react";
+
+interface ProductFeedDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type FeedSettings = ProductFeed & { urls: Record<string, string> };
+
+interface FeedPreview {
+  itemCount: number;
+  rejectedCount: number;
+  rejected: Array<{ productId: string; itemId: string; name: string; reasons: string[] }>;
+  urls: Record<string, string>;
+  lastFetchedAt: string | null;
+}
+
+interface AdExportPreview {
+  adCount: number;
+  shortened: number;
+  skipped: Array<{ productId: string; name: string; reason: string }>;
+}
+
+const CHANNELS: Record<FeedChannel, { label: string; help: string }> = {
+  google: {
+    label: "Google",
+    help: "Add one of these URLs as a scheduled fetch in Merchant Center.",
+  },
+  meta: {
+    label: "Meta",
+    help: "Add this URL as a scheduled data feed in your Commerce Manager catalog.",
+  },
+};
+
+// The feed in the catalog's own copy rather than a translation
+const SOURCE_LANGUAGE = "source";
+
+const AD_PLATFORM_LABELS: Record<AdPlatform, string> = {
+  "google-ads": "Google Ads (Editor CSV)",
+  "meta-ads": "Meta Ads (Ads Manager import)",
+};
+
+export default function ProductFeedDialog({ open, onOpenChange }: ProductFeedDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Feeds & ad export</DialogTitle>
+          <DialogDescription>
+            Publish your catalog to shopping channels and export the AI copy as ads. Products missing a
+            required attribute are left out and listed with the reason.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="google">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="google" data-testid="tab-feed-google">Google Merchant</TabsTrigger>
+            <TabsTrigger value="meta" data-testid="tab-feed-meta">Meta catalog</TabsTrigger>
+            <TabsTrigger value="ads" data-testid="tab-ad-export">Ad export</TabsTrigger>
+          </TabsList>
+          <TabsContent value="google">
+            <FeedPanel channel="google" enabled={open} />
+          </TabsContent>
+          <TabsContent value="meta">
+            <FeedPanel channel="meta" enabled={open} />
+          </TabsContent>
+          <TabsContent value="ads">
+            <AdExportPanel enabled={open} />
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function FeedPanel({ channel, enabled }: { channel: FeedChannel; enabled: boolean }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [linkTemplate, setLinkTemplate] = useState("");
+  const [currency, setCurrency] = useState("USD");
+  const [brand, setBrand] = useState("");
+  const [language, setLanguage] = useState<SupportedLocale | typeof SOURCE_LANGUAGE>(SOURCE_LANGUAGE);
+
+  const { data: settings } = useQuery<FeedSettings>({
+    queryKey: ['/api/feeds', channel, 'settings'],
+    enabled,
+  });
+  const { data: preview, isLoading: previewLoading } = useQuery<FeedPreview>({
+    queryKey: ['/api/feeds', channel, language === SOURCE_LANGUAGE ? 'preview' : `preview?locale=${language}`],
+    enabled,
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setLinkTemplate(settings.linkTemplate || "");
+      setCurrency(settings.currency);
+      setBrand(settings.brand || "");
+    }
+  }, [settings]);
+
+  const onError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/feeds', channel] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/feeds/${channel}/settings`, {
+        linkTemplate: linkTemplate.trim() || null,
+        currency: currency.trim().toUpperCase(),
+        brand: brand.trim() || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Feed settings saved!" });
+    },
+    onError: onError("Failed to save feed settings"),
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/feeds/${channel}/rotate-token`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Feed URL rotated", description: "Update the URL in the channel; the old one no longer works." });
+    },
+    onError: onError("Failed to rotate feed URL"),
+  });
+
+  const copyUrl = async (url: string) => {
+    await navigator.clipboard.writeText(url);
+    toast({ title: "Feed URL copied" });
+  };
+
+  // Settings only know the catalog-copy URLs
+  const urls = preview?.urls || (language === SOURCE_LANGUAGE ? settings?.urls : undefined);
+
+  return (
+    <div className="space-y-4 pt-2">
+      <p className="text-sm text-muted-foreground">{CHANNELS[channel].help}</p>
+      <div className="flex items-center gap-2">
+        <Label className="text-sm">Language</Label>
+        <Select value={language} onValueChange={(value) => setLanguage(value as SupportedLocale | typeof SOURCE_LANGUAGE)}>
+          <SelectTrigger className="w-48" data-testid={`select-feed-language-${channel}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={SOURCE_LANGUAGE}>Catalog copy</SelectItem>
+            {SUPPORTED_LOCALES.map((locale) => (
+              <SelectItem key={locale} value={locale}>{LOCALE_NAMES[locale]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {language !== SOURCE_LANGUAGE && (
+        <p className="text-xs text-muted-foreground">
+          Only products with a published {LOCALE_NAMES[language]} translation are included.
+        </p>
+      )}
+      {urls && (
+        <div className="space-y-2">
+          {Object.entries(urls).map(([format, url]) => (
+            <div key={format} className="flex items-center gap-2">
+              <Badge variant="outline" className="w-12 justify-center uppercase">{format}</Badge>
+              <Input readOnly value={url} className="font-mono text-xs" data-testid={`input-feed-url-${channel}-${format}`} />
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => copyUrl(url)}
+                data-testid={`button-copy-feed-url-${channel}-${format}`}
+              >
+                <Copy className="w-3 h-3" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>
+              {preview?.lastFetchedAt
+                ? `Last fetched ${new Date(preview.lastFetchedAt).toLocaleString()}`
+                : "Not fetched yet"}
+            </span>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => rotateMutation.mutate()}
+              disabled={rotateMutation.isPending}
+              data-testid={`button-rotate-feed-token-${channel}`}
+            >
+              <RefreshCw className="w-3 h-3 mr-1" />
+              New URL
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-4 border-t border-border pt-4">
+        <div className="space-y-2">
+          <Label htmlFor={`feed-link-template-${channel}`}>Product link template</Label>
+          <Input
+            id={`feed-link-template-${channel}`}
+            value={linkTemplate}
+            onChange={(e) => setLinkTemplate(e.target.value)}
+            placeholder="https://shop.example.com/products/{handle}"
+            data-testid={`input-feed-link-template-${channel}`}
+          />
+          <p className="text-xs text-muted-foreground">
+            {"{handle}"} is the product name in lowercase with dashes, {"{id}"} the product id and {"{sku}"} the variant SKU.
+          </p>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor={`feed-currency-${channel}`}>Currency</Label>
+            <Input
+              id={`feed-currency-${channel}`}
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value)}
+              maxLength={3}
+              data-testid={`input-feed-currency-${channel}`}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`feed-brand-${channel}`}>Brand</Label>
+            <Input
+              id={`feed-brand-${channel}`}
+              value={brand}
+              onChange={(e) => setBrand(e.target.value)}
+              placeholder="Your store or brand name"
+              data-testid={`input-feed-brand-${channel}`}
+            />
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending}
+            data-testid={`button-save-feed-settings-${channel}`}
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Settings"}
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2 border-t border-border pt-4">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold">Feed check</h3>
+          {preview && (
+            <div className="flex gap-2">
+              <Badge variant="secondary">{preview.itemCount} in feed</Badge>
+              <Badge variant={preview.rejectedCount > 0 ? "destructive" : "outline"}>
+                {preview.rejectedCount} rejected
+              </Badge>
+            </div>
+          )}
+        </div>
+        {previewLoading ? (
+          <p className="text-sm text-muted-foreground">Checking products...</p>
+        ) : preview && preview.rejected.length > 0 ? (
+          <div className="max-h-[260px] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Why it would be rejected</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.rejected.map((item) => (
+                  <TableRow key={`${item.productId}-${item.itemId}`} data-testid={`row-feed-rejected-${channel}-${item.itemId}`}>
+                    <TableCell>
+                      <a href={`/products?product=${item.productId}`} className="font-medium hover:underline">
+                        {item.name}
+                      </a>
+                      {item.itemId !== item.productId && (
+                        <div className="text-xs text-muted-foreground">{item.itemId}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs">{item.reasons.join("; ")}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Every product has the attributes this channel requires.</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function AdExportPanel({ enabled }: { enabled: boolean }) {
+  const { toast } = useToast();
+  const [platform, setPlatform] = useState<AdPlatform>("google-ads");
+  const [campaign, setCampaign] = useState("Zyra Products");
+
+  const params = new URLSearchParams({ platform, campaign: campaign.trim() || "Zyra Products", dryRun: "true" });
+  const { data: preview, isLoading } = useQuery<AdExportPreview>({
+    queryKey: [`/api/products/ad-export?${params.toString()}`],
+    enabled,
+  });
+
+  const downloadMutation = useMutation({
+    mutationFn: () => exportAdsCsv(platform, campaign.trim() || "Zyra Products"),
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to export ads",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4 pt-2">
+      <p className="text-sm text-muted-foreground">
+        One paused ad per product, written from the optimized copy and cut to each platform's character
+        limits. Links use the product link template from the feed settings.
+      </p>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Platform</Label>
+          <Select value={platform} onValueChange={(value) => setPlatform(value as AdPlatform)}>
+            <SelectTrigger data-testid="select-ad-platform">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(AD_PLATFORM_LABELS) as AdPlatform[]).map((key) => (
+                <SelectItem key={key} value={key}>{AD_PLATFORM_LABELS[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="ad-campaign">Campaign name</Label>
+          <Input
+            id="ad-campaign"
+            value={campaign}
+            onChange={(e) => setCampaign(e.target.value)}
+            maxLength={100}
+            data-testid="input-ad-campaign"
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between border-t border-border pt-4">
+        {preview ? (
+          <div className="flex gap-2">
+            <Badge variant="secondary">{preview.adCount} ads</Badge>
+            {preview.shortened > 0 && <Badge variant="outline">{preview.shortened} shortened to fit</Badge>}
+            {preview.skipped.length > 0 && <Badge variant="destructive">{preview.skipped.length} skipped</Badge>}
+          </div>
+        ) : (
+          <span className="text-sm text-muted-foreground">{isLoading ? "Building ads..." : ""}</span>
+        )}
+        <Button
+          onClick={() => downloadMutation.mutate()}
+          disabled={!preview?.adCount || downloadMutation.isPending}
+          data-testid="button-download-ads"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          {downloadMutation.isPending ? "Exporting..." : "Download CSV"}
+        </Button>
+      </div>
+
+      {preview && preview.skipped.length > 0 && (
+        <div className="max-h-[220px] overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead>Why it was skipped</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {preview.skipped.map((item) => (
+                <TableRow key={item.productId} data-testid={`row-ad-skipped-${item.productId}`}>
+                  <TableCell>
+                    <a href={`/products?product=${item.productId}`} className="font-medium hover:underline">
+                      {item.name}
+                    </a>
+                  </TableCell>
+                  <TableCell className="text-xs">{item.reason}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,291 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { aiErrorMessage, translateProduct } from "@/lib/openai";
+import AIModelSelect from "./ai-model-select";
+import { LOCALE_NAMES, SUPPORTED_LOCALES } from "@shared/schema";
+import type { AISelection, Product, ProductTranslationView, SupportedLocale } from "@shared/schema";
+import { Edit2, Languages, Trash2 } from "lucide-react";
+
+interface TranslationForm {
+  name: string;
+  description: string;
+  seoTitle: string;
+  metaDescription: string;
+}
+
+function formOf(translation: ProductTranslationView): TranslationForm {
+  return {
+    name: translation.name,
+    description: translation.description || "",
+    seoTitle: translation.seoTitle || "",
+    metaDescription: translation.metaDescription || "",
+  };
+}
+
+// Per-language copy for one product. A translation goes stale when the product's
+// own copy changes and has to be updated (or force-published) before it's live again.
+export default function ProductTranslations({ product }: { product: Product }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [locales, setLocales] = useState<SupportedLocale[]>([]);
+  const [aiSelection, setAiSelection] = useState<AISelection>({});
+  const [editing, setEditing] = useState<SupportedLocale | null>(null);
+  const [form, setForm] = useState<TranslationForm | null>(null);
+
+  const { data: translations = [], isLoading } = useQuery<ProductTranslationView[]>({
+    queryKey: ['/api/products', product.id, 'translations'],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/products', product.id, 'translations'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/feeds'] });
+  };
+
+  const onError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: aiErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const translateMutation = useMutation({
+    mutationFn: () => translateProduct(product.id, { locales, ...aiSelection }),
+    onSuccess: (result) => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['/api/ai/generations'] });
+      setLocales([]);
+      const issues = Object.entries(result.issues).flatMap(([locale, list]) =>
+        (list || []).map(issue => `${LOCALE_NAMES[locale as SupportedLocale]}: ${issue}`)
+      );
+      toast({
+        title: `${result.translations.length} translation${result.translations.length === 1 ? "" : "s"} saved as draft`,
+        description: issues.length > 0
+          ? `Check the glossary terms. ${issues.join(". ")}`
+          : result.cached.length > 0
+            ? `${result.cached.map(locale => LOCALE_NAMES[locale]).join(", ")} reused an earlier identical translation. Review and publish them when ready.`
+            : "Review and publish them when ready.",
+        variant: issues.length > 0 ? "destructive" : "default",
+      });
+    },
+    onError: onError("Failed to translate product"),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ locale, data }: { locale: SupportedLocale; data: TranslationForm }) => {
+      const response = await apiRequest("PUT", `/api/products/${product.id}/translations/${locale}`, {
+        name: data.name.trim(),
+        description: data.description.trim() || null,
+        seoTitle: data.seoTitle.trim() || null,
+        metaDescription: data.metaDescription.trim() || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setEditing(null);
+      toast({ title: "Translation saved" });
+    },
+    onError: onError("Failed to save translation"),
+  });
+
+  const publishMutation = useMutation({
+    mutationFn: async ({ locale, publish, force }: { locale: SupportedLocale; publish: boolean; force?: boolean }) => {
+      const action = publish ? "publish" : "unpublish";
+      const response = await apiRequest("POST", `/api/products/${product.id}/translations/${locale}/${action}`,
+        publish ? { force } : undefined);
+      return response.json();
+    },
+    onSuccess: invalidate,
+    onError: onError("Failed to update translation"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (locale: SupportedLocale) => {
+      await apiRequest("DELETE", `/api/products/${product.id}/translations/${locale}`);
+    },
+    onSuccess: invalidate,
+    onError: onError("Failed to delete translation"),
+  });
+
+  const startEditing = (translation: ProductTranslationView) => {
+    setEditing(translation.locale as SupportedLocale);
+    setForm(formOf(translation));
+  };
+
+  const toggleLocale = (locale: SupportedLocale, checked: boolean) => {
+    setLocales(prev => checked ? [...prev, locale] : prev.filter(other => other !== locale));
+  };
+
+  const staleCount = translations.filter(translation => translation.stale).length;
+
+  return (
+    <div className="space-y-4 border-t border-border pt-6" data-testid="section-product-translations">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold">Translations</h3>
+          <p className="text-sm text-muted-foreground">
+            Published translations are used by the localized feeds.
+          </p>
+        </div>
+        {staleCount > 0 && <Badge variant="destructive">{staleCount} out of date</Badge>}
+      </div>
+
+      <div className="space-y-3 rounded-lg border border-border p-3">
+        <Label>Translate into</Label>
+        <div className="flex flex-wrap gap-4">
+          {SUPPORTED_LOCALES.map((locale) => (
+            <label key={locale} className="flex items-center gap-2 text-sm cursor-pointer">
+              <Checkbox
+                checked={locales.includes(locale)}
+                onCheckedChange={(checked) => toggleLocale(locale, checked === true)}
+                data-testid={`checkbox-translate-locale-${locale}`}
+              />
+              {LOCALE_NAMES[locale]}
+            </label>
+          ))}
+        </div>
+        <AIModelSelect value={aiSelection} onChange={setAiSelection} />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => translateMutation.mutate()}
+          disabled={locales.length === 0 || translateMutation.isPending}
+          data-testid="button-translate-product"
+        >
+          <Languages className="w-4 h-4 mr-2" />
+          {translateMutation.isPending ? "Translating..." : "Translate"}
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading translations...</p>
+      ) : translations.length > 0 ? (
+        <div className="space-y-2">
+          {translations.map((translation) => {
+            const locale = translation.locale as SupportedLocale;
+            return (
+              <div key={translation.id} className="rounded-lg border border-border p-3 space-y-2" data-testid={`row-translation-${locale}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className="font-medium">{LOCALE_NAMES[locale] || locale}</span>
+                    <Badge variant={translation.publishedAt ? "secondary" : "outline"}>
+                      {translation.publishedAt ? "Published" : "Draft"}
+                    </Badge>
+                    {translation.stale && <Badge variant="destructive">Out of date</Badge>}
+                    {translation.source === "ai" && <Badge variant="outline">AI</Badge>}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {translation.publishedAt ? (
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => publishMutation.mutate({ locale, publish: false })}
+                        disabled={publishMutation.isPending}
+                        data-testid={`button-unpublish-translation-${locale}`}
+                      >
+                        Unpublish
+                      </Button>
+                    ) : (
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => publishMutation.mutate({ locale, publish: true, force: translation.stale })}
+                        disabled={publishMutation.isPending}
+                        data-testid={`button-publish-translation-${locale}`}
+                      >
+                        {translation.stale ? "Publish anyway" : "Publish"}
+                      </Button>
+                    )}
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => startEditing(translation)}
+                      data-testid={`button-edit-translation-${locale}`}
+                    >
+                      <Edit2 className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => deleteMutation.mutate(locale)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-translation-${locale}`}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                </div>
+
+                {editing === locale && form ? (
+                  <div className="space-y-2">
+                    <Input
+                      value={form.name}
+                      onChange={(e) => setForm({ ...form, name: e.target.value })}
+                      placeholder="Name"
+                      data-testid={`input-translation-name-${locale}`}
+                    />
+                    <Textarea
+                      value={form.description}
+                      onChange={(e) => setForm({ ...form, description: e.target.value })}
+                      placeholder="Description"
+                      className="min-h-[80px]"
+                      data-testid={`input-translation-description-${locale}`}
+                    />
+                    <Input
+                      value={form.seoTitle}
+                      onChange={(e) => setForm({ ...form, seoTitle: e.target.value })}
+                      placeholder="SEO title"
+                      data-testid={`input-translation-seo-title-${locale}`}
+                    />
+                    <Input
+                      value={form.metaDescription}
+                      onChange={(e) => setForm({ ...form, metaDescription: e.target.value })}
+                      placeholder="Meta description"
+                      data-testid={`input-translation-meta-${locale}`}
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button type="button" size="sm" variant="outline" onClick={() => setEditing(null)}>
+                        Cancel
+                      </Button>
+                      <Button
+                        type="button"
+                        size="sm"
+                        onClick={() => saveMutation.mutate({ locale, data: form })}
+                        disabled={!form.name.trim() || saveMutation.isPending}
+                        data-testid={`button-save-translation-${locale}`}
+                      >
+                        {saveMutation.isPending ? "Saving..." : "Save"}
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="text-sm">
+                    <p className="truncate">{translation.seoTitle || translation.name}</p>
+                    {translation.description && (
+                      <p className="text-xs text-muted-foreground line-clamp-2">{translation.description}</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">No translations yet.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,365 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAllProducts } from "@/hooks/use-all-products";
+import { PROMPT_TEMPLATE_VARIABLES, type PromptTemplate, type PromptTemplateVersion } from "@shared/schema";
+import { Copy, Eye, Palette, Plus, RotateCcw, Save, Trash2 } from "lucide-react";
+
+interface TemplateDraft {
+  id?: string;
+  key: string;
+  name: string;
+  description: string;
+  body: string;
+}
+
+interface TemplatePreview {
+  prompt: string;
+  instructions: string | null;
+  variables: string[];
+  missing: string[];
+  sample: boolean;
+}
+
+const EMPTY_DRAFT: TemplateDraft = { key: "", name: "", description: "", body: "" };
+
+function draftOf(template: PromptTemplate): TemplateDraft {
+  return {
+    id: template.id,
+    key: template.key,
+    name: template.name,
+    description: template.description || "",
+    body: template.body,
+  };
+}
+
+// Browse the system tones, write your own prompt templates, preview them against
+// a product and roll back to earlier versions
+export default function PromptTemplateManager() {
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<TemplateDraft>(EMPTY_DRAFT);
+  const [previewProductId, setPreviewProductId] = useState<string>("");
+  const [preview, setPreview] = useState<TemplatePreview | null>(null);
+
+  const { data: templates = [] } = useQuery<PromptTemplate[]>({
+    queryKey: ['/api/prompt-templates'],
+  });
+  const selected = templates.find(template => template.id === selectedId);
+  const readOnly = !!selected?.isSystem;
+  const isNew = !draft.id;
+
+  const { data: versions = [] } = useQuery<PromptTemplateVersion[]>({
+    queryKey: ['/api/prompt-templates', selectedId, 'versions'],
+    enabled: !!selectedId && !readOnly,
+  });
+
+  const { products } = useAllProducts();
+
+  const select = (template: PromptTemplate) => {
+    setSelectedId(template.id);
+    setDraft(draftOf(template));
+    setPreview(null);
+  };
+
+  const startNew = (from?: PromptTemplate) => {
+    setSelectedId(null);
+    setDraft(from
+      ? { key: `${from.key}-custom`, name: `${from.name} (custom)`, description: from.description || "", body: from.body }
+      : EMPTY_DRAFT);
+    setPreview(null);
+  };
+
+  const onError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message || "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: TemplateDraft) => {
+      const payload = { name: data.name, description: data.description || null, body: data.body };
+      const response = data.id
+        ? await apiRequest("PUT", `/api/prompt-templates/${data.id}`, payload)
+        : await apiRequest("POST", "/api/prompt-templates", { ...payload, key: data.key });
+      return response.json() as Promise<PromptTemplate>;
+    },
+    onSuccess: (template) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/prompt-templates'] });
+      select(template);
+      toast({
+        title: "Template saved",
+        description: `${template.name} is now at version ${template.version}.`,
+      });
+    },
+    onError: onError("Save failed"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/prompt-templates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/prompt-templates'] });
+      startNew();
+      toast({ title: "Template deleted" });
+    },
+    onError: onError("Delete failed"),
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async ({ id, version }: { id: string; version: number }) => {
+      const response = await apiRequest("POST", `/api/prompt-templates/${id}/versions/${version}/restore`);
+      return response.json() as Promise<PromptTemplate>;
+    },
+    onSuccess: (template) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/prompt-templates'] });
+      select(template);
+      toast({
+        title: "Version restored",
+        description: `Saved as version ${template.version}.`,
+      });
+    },
+    onError: onError("Restore failed"),
+  });
+
+  // Previews the text in the editor, saved or not
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/prompt-templates/preview", {
+        body: draft.body,
+        productId: previewProductId || undefined,
+      });
+      return response.json() as Promise<TemplatePreview>;
+    },
+    onSuccess: setPreview,
+    onError: onError("Preview failed"),
+  });
+
+  const insertVariable = (name: string) => {
+    setDraft(prev => ({ ...prev, body: `${prev.body}{{${name}}}` }));
+  };
+
+  return (
+    <Card className="border-2 border-primary/20 shadow-2xl">
+      <CardHeader>
+        <CardTitle className="text-2xl flex items-center">
+          <Palette className="w-6 h-6 mr-2 text-primary" />
+          Dynamic Templates
+        </CardTitle>
+        <CardDescription>
+          Pick a built-in tone or write your own prompt. Templates show up as brand voices in the description generator.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid md:grid-cols-3 gap-6">
+          <div className="space-y-2">
+            <Button variant="outline" className="w-full" onClick={() => startNew()} data-testid="button-new-template">
+              <Plus className="w-4 h-4 mr-2" />
+              New template
+            </Button>
+            {templates.map((template) => (
+              <button
+                key={template.id}
+                type="button"
+                onClick={() => select(template)}
+                className={`w-full text-left border rounded-lg p-3 transition-colors ${
+                  template.id === selectedId ? "border-primary bg-primary/10" : "border-border hover:border-primary/50"
+                }`}
+                data-testid={`template-${template.key}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">{template.name}</span>
+                  <Badge variant="outline">{template.isSystem ? "Built-in" : `v${template.version}`}</Badge>
+                </div>
+                {template.description && (
+                  <p className="text-xs text-muted-foreground mt-1">{template.description}</p>
+                )}
+              </button>
+            ))}
+          </div>
+
+          <div className="md:col-span-2 space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="template-name">Name</Label>
+                <Input
+                  id="template-name"
+                  className="mt-2"
+                  value={draft.name}
+                  disabled={readOnly}
+                  onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+                  data-testid="input-template-name"
+                />
+              </div>
+              <div>
+                <Label htmlFor="template-key">Key</Label>
+                <Input
+                  id="template-key"
+                  className="mt-2"
+                  placeholder="e.g. holiday-promo"
+                  value={draft.key}
+                  disabled={readOnly || !isNew}
+                  onChange={(event) => setDraft({ ...draft, key: event.target.value })}
+                  data-testid="input-template-key"
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="template-description">Description</Label>
+              <Input
+                id="template-description"
+                className="mt-2"
+                value={draft.description}
+                disabled={readOnly}
+                onChange={(event) => setDraft({ ...draft, description: event.target.value })}
+                data-testid="input-template-description"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="template-body">Prompt</Label>
+              <Textarea
+                id="template-body"
+                className="mt-2 h-40 font-mono text-sm"
+                placeholder='Write a description for "{{productName}}"...'
+                value={draft.body}
+                disabled={readOnly}
+                onChange={(event) => setDraft({ ...draft, body: event.target.value })}
+                data-testid="textarea-template-body"
+              />
+              {!readOnly && (
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {PROMPT_TEMPLATE_VARIABLES.map((name) => (
+                    <Button
+                      key={name}
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      className="font-mono text-xs h-7"
+                      onClick={() => insertVariable(name)}
+                    >
+                      {`{{${name}}}`}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {readOnly ? (
+                <Button onClick={() => selected && startNew(selected)} data-testid="button-duplicate-template">
+                  <Copy className="w-4 h-4 mr-2" />
+                  Customise a copy
+                </Button>
+              ) : (
+                <Button
+                  onClick={() => saveMutation.mutate(draft)}
+                  disabled={saveMutation.isPending || !draft.name || !draft.body || (isNew && !draft.key)}
+                  data-testid="button-save-template"
+                >
+                  <Save className="w-4 h-4 mr-2" />
+                  {saveMutation.isPending ? "Saving..." : "Save"}
+                </Button>
+              )}
+              {!readOnly && draft.id && (
+                <Button
+                  variant="outline"
+                  onClick={() => deleteMutation.mutate(draft.id!)}
+                  disabled={deleteMutation.isPending}
+                  data-testid="button-delete-template"
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Delete
+                </Button>
+              )}
+            </div>
+
+            <div className="border-t border-border pt-4 space-y-3">
+              <div className="flex flex-wrap items-end gap-2">
+                <div className="flex-1 min-w-[200px]">
+                  <Label>Preview with</Label>
+                  <Select value={previewProductId} onValueChange={setPreviewProductId}>
+                    <SelectTrigger className="mt-2" data-testid="select-preview-product">
+                      <SelectValue placeholder="Sample product" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {products.map((product) => (
+                        <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={() => previewMutation.mutate()}
+                  disabled={!draft.body || previewMutation.isPending}
+                  data-testid="button-preview-template"
+                >
+                  <Eye className="w-4 h-4 mr-2" />
+                  Preview
+                </Button>
+              </div>
+              {preview && (
+                <>
+                  {preview.missing.length > 0 && (
+                    <p className="text-sm text-orange-400">
+                      No value for: {preview.missing.join(", ")}
+                    </p>
+                  )}
+                  {preview.instructions && (
+                    <pre className="bg-muted/20 p-4 rounded-lg text-xs whitespace-pre-wrap text-muted-foreground">
+                      {preview.instructions}
+                    </pre>
+                  )}
+                  <pre
+                    className="bg-muted/30 p-4 rounded-lg text-xs whitespace-pre-wrap"
+                    data-testid="text-template-preview"
+                  >
+                    {preview.prompt}
+                  </pre>
+                </>
+              )}
+            </div>
+
+            {!readOnly && versions.length > 1 && (
+              <div className="border-t border-border pt-4 space-y-2">
+                <Label>Version history</Label>
+                {versions.map((version) => (
+                  <div key={version.id} className="flex items-center justify-between gap-2 text-sm">
+                    <span>
+                      v{version.version} · {version.name} · {new Date(version.createdAt!).toLocaleString()}
+                    </span>
+                    {version.version !== selected?.version && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => restoreMutation.mutate({ id: version.templateId, version: version.version })}
+                        disabled={restoreMutation.isPending}
+                        data-testid={`button-restore-template-${version.version}`}
+                      >
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useForm } from "react-hook-form";
 import { useMutation } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
@@ -9,8 +9,13 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { Search, FileText, Tags, Copy, Lightbulb, BarChart3 } from "lucide-react";
+import { queryClient } from "@/lib/queryClient";
+import { AIStreamAbortedError, aiErrorMessage, partialJsonString, streamSEOOptimization } from "@/lib/openai";
+import StructuredDataCard from "./structured-data-card";
+import AIModelSelect from "./ai-model-select";
+import GenerationHistory from "./generation-history";
+import type { AISelection } from "@shared/schema";
+import { Search, FileText, Tags, Copy, Lightbulb, BarChart3, X, RefreshCw } from "lucide-react";
 
 interface SEOForm {
   currentTitle: string;
@@ -24,11 +29,17 @@ interface SEOResult {
   optimizedMeta: string;
   keywords: string[];
   seoScore: number;
+  // Served from the AI cache
+  cached: boolean;
 }
 
 export default function SEOTools() {
   const { toast } = useToast();
   const [seoResult, setSeoResult] = useState<SEOResult | null>(null);
+  const [aiSelection, setAiSelection] = useState<AISelection>({});
+  // Title and meta as they stream in; null when nothing is generating
+  const [streaming, setStreaming] = useState<{ title: string; meta: string } | null>(null);
+  const streamController = useRef<AbortController | null>(null);
 
   const form = useForm<SEOForm>({
     defaultValues: {
@@ -40,21 +51,42 @@ export default function SEOTools() {
   });
 
   const optimizeMutation = useMutation({
-    mutationFn: async (data: SEOForm) => {
-      const response = await apiRequest("POST", "/api/optimize-seo", data);
-      return response.json();
+    // noCache asks the model again instead of reusing a cached answer
+    mutationFn: async (data: SEOForm & { noCache?: boolean }) => {
+      const controller = new AbortController();
+      streamController.current = controller;
+      setStreaming({ title: "", meta: "" });
+      try {
+        return await streamSEOOptimization({ ...data, ...aiSelection }, {
+          signal: controller.signal,
+          onText: (raw) => setStreaming({
+            title: partialJsonString(raw, "optimizedTitle"),
+            meta: partialJsonString(raw, "optimizedMeta"),
+          }),
+        });
+      } finally {
+        streamController.current = null;
+        setStreaming(null);
+      }
     },
     onSuccess: (result) => {
       setSeoResult(result);
+      queryClient.invalidateQueries({ queryKey: ['/api/ai/generations'] });
       toast({
         title: "SEO Optimized!",
-        description: "Your product SEO has been optimized successfully.",
+        description: result.cached
+          ? "Reused the result of the same request; it didn't count against your quota."
+          : "Your product SEO has been optimized successfully.",
       });
     },
     onError: (error: any) => {
+      if (error instanceof AIStreamAbortedError) {
+        toast({ title: "Optimization cancelled" });
+        return;
+      }
       toast({
         title: "Optimization failed",
-        description: error.message || "Failed to optimize SEO",
+        description: aiErrorMessage(error, "Failed to optimize SEO"),
         variant: "destructive",
       });
     },
@@ -168,6 +200,8 @@ export default function SEOTools() {
                   </Select>
                 </div>
 
+                <AIModelSelect value={aiSelection} onChange={setAiSelection} />
+
                 <Button
                   type="submit"
                   className="gradient-button w-full"
@@ -183,13 +217,65 @@ export default function SEOTools() {
                     </>
                   )}
                 </Button>
+                {streaming && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="w-full"
+                    onClick={() => streamController.current?.abort()}
+                    data-testid="button-cancel-seo"
+                  >
+                    <X className="w-4 h-4 mr-2" />
+                    Cancel
+                  </Button>
+                )}
               </form>
             </CardContent>
           </Card>
 
+          {/* Results streaming in */}
+          {streaming && (
+            <Card className="gradient-card border-0">
+              <CardContent className="p-6 space-y-4">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-lg font-semibold">Optimizing...</h3>
+                  <Badge variant="outline">Writing</Badge>
+                </div>
+                <div className="bg-muted/30 p-4 rounded-lg">
+                  <p className="text-foreground font-medium" data-testid="text-streaming-title">
+                    {streaming.title || "…"}
+                  </p>
+                </div>
+                <div className="bg-muted/30 p-4 rounded-lg">
+                  <p className="text-foreground" data-testid="text-streaming-meta">
+                    {streaming.meta || "…"}
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* SEO Results */}
           {seoResult && (
             <div className="space-y-6">
+              {seoResult.cached && (
+                <div className="flex items-center justify-between gap-4 rounded-lg border border-border p-3">
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Badge variant="outline" data-testid="badge-seo-cached">Cached</Badge>
+                    Same request as before, so the earlier result was reused.
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={optimizeMutation.isPending}
+                    onClick={() => optimizeMutation.mutate({ ...form.getValues(), noCache: true })}
+                    data-testid="button-regenerate-seo"
+                  >
+                    <RefreshCw className="w-4 h-4 mr-2" />
+                    Regenerate
+                  </Button>
+                </div>
+              )}
               {/* Optimized Title */}
               <Card className="gradient-card border-0">
                 <CardContent className="p-6">
@@ -295,6 +381,12 @@ export default function SEOTools() {
               </Card>
             </div>
           )}
+
+          {/* Structured Data and past results */}
+          <div className="mt-6 space-y-6">
+            <StructuredDataCard />
+            <GenerationHistory tool="seo" />
+          </div>
         </div>
 
         {/* Sidebar */}
@@ -16,7 +16,8 @@ import {
   LogOut,
   User,
   X,
-  Cog
+  Cog,
+  DollarSign
 } from "lucide-react";
 
 interface SidebarProps {
@@ -109,6 +110,9 @@ export default function Sidebar({ activeTab, onTabChange, user, isOpen, onClose
     { id: "campaigns", label: "Campaigns", icon: <Mail className="w-4 h-4 sm:w-5 sm:h-5" /> },
     { id: "products", label: "Products", icon: <Package className="w-4 h-4 sm:w-5 sm:h-5" /> },
     { id: "settings", label: "Settings", icon: <Settings className="w-4 h-4 sm:w-5 sm:h-5" /> },
+    ...(user?.role === "admin"
+      ? [{ id: "ai-costs", label: "AI Costs", icon: <DollarSign className="w-4 h-4 sm:w-5 sm:h-5" /> }]
+      : []),
   ];
 
   return (
@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { STOCK_MOVEMENT_REASONS, type Product, type StockHistory as StockHistoryData, type StockMovementReason } from "@shared/schema";
+
+interface StockHistoryProps {
+  product: Product;
+  // Products with variants take their stock from the variant editor instead
+  readOnly?: boolean;
+}
+
+const REASON_LABELS: Record<StockMovementReason, string> = {
+  sale: "Sale",
+  restock: "Restock",
+  adjustment: "Adjustment",
+  sync: "Store sync",
+};
+
+export default function StockHistory({ product, readOnly = false }: StockHistoryProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [quantity, setQuantity] = useState("");
+  const [reason, setReason] = useState<StockMovementReason>("restock");
+  const [note, setNote] = useState("");
+
+  const { data, isLoading } = useQuery<StockHistoryData>({
+    queryKey: ['/api/products', product.id, 'stock-history'],
+  });
+
+  const adjustMutation = useMutation({
+    mutationFn: async () => {
+      // Sales always take units out, whatever sign was typed
+      const amount = Math.abs(parseInt(quantity));
+      const response = await apiRequest("POST", `/api/products/${product.id}/stock-movements`, {
+        quantity: reason === "sale" ? -amount : parseInt(quantity),
+        reason,
+        note: note || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/products'] });
+      setQuantity("");
+      setNote("");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to record stock movement",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canSubmit = !!quantity && !isNaN(parseInt(quantity)) && parseInt(quantity) !== 0;
+
+  return (
+    <div className="space-y-4 border-t border-border pt-6" data-testid="section-stock-history">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold">Stock history</h3>
+          <p className="text-sm text-muted-foreground">
+            {data ? `${data.stock} in stock` : "Where the units went"}
+            {data?.reorderThreshold !== null && data?.reorderThreshold !== undefined &&
+              ` · alert below ${data.reorderThreshold}`}
+          </p>
+        </div>
+        {data && (
+          <div className="flex flex-wrap gap-1 justify-end">
+            {STOCK_MOVEMENT_REASONS.filter(r => data.totals[r] !== 0).map((r) => (
+              <Badge key={r} variant="outline">
+                {REASON_LABELS[r]}: {data.totals[r] > 0 ? "+" : ""}{data.totals[r]}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {!readOnly && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          <Select value={reason} onValueChange={(value) => setReason(value as StockMovementReason)}>
+            <SelectTrigger data-testid="select-stock-reason">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STOCK_MOVEMENT_REASONS.map((r) => (
+                <SelectItem key={r} value={r}>{REASON_LABELS[r]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value)}
+            placeholder={reason === "sale" ? "Units sold" : "+/- units"}
+            data-testid="input-stock-quantity"
+          />
+          <Input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note (optional)"
+            data-testid="input-stock-note"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => adjustMutation.mutate()}
+            disabled={!canSubmit || adjustMutation.isPending}
+            data-testid="button-record-stock-movement"
+          >
+            {adjustMutation.isPending ? "Saving..." : "Record"}
+          </Button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading stock history...</p>
+      ) : data && data.movements.length > 0 ? (
+        <div className="max-h-[240px] overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead className="text-right">Change</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+                <TableHead>Note</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.movements.map((movement) => (
+                <TableRow key={movement.id} data-testid={`row-stock-movement-${movement.id}`}>
+                  <TableCell className="text-xs">
+                    {movement.createdAt ? new Date(movement.createdAt).toLocaleString() : "—"}
+                  </TableCell>
+                  <TableCell>{REASON_LABELS[movement.reason as StockMovementReason] || movement.reason}</TableCell>
+                  <TableCell className={`text-right font-medium ${movement.quantity < 0 ? "text-red-500" : "text-green-600"}`}>
+                    {movement.quantity > 0 ? "+" : ""}{movement.quantity}
+                  </TableCell>
+                  <TableCell className="text-right">{movement.balance}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground">{movement.note || ""}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">No stock movements yet.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useAllProducts } from "@/hooks/use-all-products";
+import { exportStructuredData } from "@/lib/productCsv";
+import { Braces, Copy, Download } from "lucide-react";
+
+interface StructuredDataIssue {
+  property: string;
+  message: string;
+}
+
+interface StructuredDataResult {
+  productId: string;
+  snippet: string;
+  validation: {
+    valid: boolean;
+    errors: StructuredDataIssue[];
+    warnings: StructuredDataIssue[];
+  };
+}
+
+export default function StructuredDataCard() {
+  const { toast } = useToast();
+  const [productId, setProductId] = useState<string>("");
+
+  const { products } = useAllProducts();
+
+  const { data: result, isLoading } = useQuery<StructuredDataResult>({
+    queryKey: ['/api/products', productId, 'structured-data'],
+    enabled: !!productId,
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: exportStructuredData,
+    onError: (error: any) => {
+      toast({
+        title: "Export failed",
+        description: error.message || "Failed to export structured data",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copySnippet = async () => {
+    if (!result) return;
+    try {
+      await navigator.clipboard.writeText(result.snippet);
+      toast({
+        title: "Copied!",
+        description: "JSON-LD snippet copied to clipboard.",
+      });
+    } catch (error) {
+      toast({
+        title: "Copy failed",
+        description: "Failed to copy to clipboard",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="gradient-card border-0">
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold flex items-center">
+            <Braces className="w-5 h-5 text-primary mr-2" />
+            Structured Data (JSON-LD)
+          </h3>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => exportMutation.mutate()}
+            disabled={exportMutation.isPending}
+            data-testid="button-export-structured-data"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            {exportMutation.isPending ? "Exporting..." : "Export all"}
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          schema.org Product markup for a product page, so search engines can show price and availability.
+        </p>
+
+        <Select value={productId} onValueChange={setProductId}>
+          <SelectTrigger className="form-input" data-testid="select-structured-data-product">
+            <SelectValue placeholder="Choose a product" />
+          </SelectTrigger>
+          <SelectContent>
+            {products.map((product) => (
+              <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {isLoading && <p className="text-sm text-muted-foreground">Building markup...</p>}
+
+        {result && (
+          <>
+            <div className="flex flex-wrap gap-2">
+              <Badge
+                variant="default"
+                className={result.validation.valid ? "bg-green-400/10 text-green-400" : "bg-red-400/10 text-red-400"}
+                data-testid="badge-structured-data-status"
+              >
+                {result.validation.valid ? "✓ Valid Product markup" : "✗ Not eligible for rich results"}
+              </Badge>
+              {result.validation.warnings.length > 0 && (
+                <Badge variant="default" className="bg-orange-400/10 text-orange-400">
+                  {result.validation.warnings.length} recommended properties missing
+                </Badge>
+              )}
+            </div>
+
+            {[...result.validation.errors, ...result.validation.warnings].length > 0 && (
+              <ul className="space-y-1 text-sm">
+                {result.validation.errors.map((issue) => (
+                  <li key={`error-${issue.property}`} className="text-red-400">
+                    <span className="font-mono">{issue.property}</span>: {issue.message}
+                  </li>
+                ))}
+                {result.validation.warnings.map((issue) => (
+                  <li key={`warning-${issue.property}`} className="text-orange-400">
+                    <span className="font-mono">{issue.property}</span>: {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="relative">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="absolute top-2 right-2"
+                onClick={copySnippet}
+                data-testid="button-copy-structured-data"
+              >
+                <Copy className="w-4 h-4" />
+              </Button>
+              <pre
+                className="bg-muted/30 p-4 rounded-lg text-xs overflow-x-auto max-h-[320px]"
+                data-testid="text-structured-data-snippet"
+              >
+                {result.snippet}
+              </pre>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
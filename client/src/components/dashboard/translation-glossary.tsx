@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { SUPPORTED_LOCALES, type SupportedLocale, type TranslationGlossary } from "@shared/schema";
+import { Languages, Save } from "lucide-react";
+
+// One entry per line: "es: free shipping = envío gratis"
+const ENTRY_PATTERN = /^\s*([a-z]{2})\s*:\s*(.+?)\s*=\s*(.+?)\s*$/;
+
+function entriesText(glossary: TranslationGlossary): string {
+  return glossary.entries.map(entry => `${entry.locale}: ${entry.term} = ${entry.translation}`).join("\n");
+}
+
+function parseEntries(text: string) {
+  const entries: TranslationGlossary["entries"] = [];
+  const invalid: string[] = [];
+  for (const line of text.split("\n").filter(line => line.trim())) {
+    const match = line.match(ENTRY_PATTERN);
+    if (match && (SUPPORTED_LOCALES as readonly string[]).includes(match[1])) {
+      entries.push({ locale: match[1] as SupportedLocale, term: match[2], translation: match[3] });
+    } else {
+      invalid.push(line.trim());
+    }
+  }
+  return { entries, invalid };
+}
+
+// Terms the translator must keep as written, and fixed translations per language
+export default function TranslationGlossarySettings() {
+  const { toast } = useToast();
+  const [brandTerms, setBrandTerms] = useState("");
+  const [entries, setEntries] = useState("");
+
+  const { data: glossary } = useQuery<TranslationGlossary>({
+    queryKey: ['/api/translations/glossary'],
+  });
+  useEffect(() => {
+    if (glossary) {
+      setBrandTerms(glossary.brandTerms.join(", "));
+      setEntries(entriesText(glossary));
+    }
+  }, [glossary]);
+
+  const parsed = parseEntries(entries);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/translations/glossary", {
+        brandTerms: brandTerms.split(",").map(term => term.trim()).filter(Boolean),
+        entries: parsed.entries,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/translations/glossary'] });
+      toast({ title: "Glossary saved", description: "New translations will follow it." });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save failed",
+        description: error.message || "Failed to save glossary",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="border-2 border-primary/20 shadow-2xl">
+      <CardHeader>
+        <CardTitle className="text-2xl flex items-center">
+          <Languages className="w-6 h-6 mr-2 text-primary" />
+          Translation Glossary
+        </CardTitle>
+        <CardDescription>
+          Brand terms stay untranslated in every language. Glossary entries fix how a term is translated.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="glossary-brand-terms">Brand terms</Label>
+          <Input
+            id="glossary-brand-terms"
+            value={brandTerms}
+            onChange={(e) => setBrandTerms(e.target.value)}
+            placeholder="Zyra, AirWeave, ..."
+            data-testid="input-glossary-brand-terms"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="glossary-entries">Glossary entries</Label>
+          <Textarea
+            id="glossary-entries"
+            value={entries}
+            onChange={(e) => setEntries(e.target.value)}
+            placeholder={"es: free shipping = envío gratis\nfr: free shipping = livraison gratuite"}
+            className="min-h-[120px] font-mono text-sm"
+            data-testid="input-glossary-entries"
+          />
+          <p className="text-xs text-muted-foreground">
+            One per line as <code>language: term = translation</code>, using the codes {SUPPORTED_LOCALES.join(", ")}.
+          </p>
+          {parsed.invalid.length > 0 && (
+            <p className="text-xs text-red-400" data-testid="text-glossary-invalid">
+              Not understood: {parsed.invalid.join("; ")}
+            </p>
+          )}
+        </div>
+        <div className="flex justify-end">
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || parsed.invalid.length > 0}
+            data-testid="button-save-glossary"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            {saveMutation.isPending ? "Saving..." : "Save Glossary"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,223 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Product, ProductVariant, ProductVariantList } from "@shared/schema";
+import { Plus, Trash2 } from "lucide-react";
+
+interface VariantEditorProps {
+  product: Product;
+}
+
+const emptyDraft = { sku: "", price: "", stock: "0" };
+
+export default function VariantEditor({ product }: VariantEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [axisNames, setAxisNames] = useState("");
+  const [optionValues, setOptionValues] = useState<Record<string, string>>({});
+  const [draft, setDraft] = useState(emptyDraft);
+
+  const { data, isLoading } = useQuery<ProductVariantList>({
+    queryKey: ['/api/products', product.id, 'variants'],
+  });
+  const variants = data?.variants ?? [];
+
+  // Existing variants fix the option axes; the first variant defines them
+  const axes = data && data.axes.length > 0
+    ? data.axes.map(axis => axis.name)
+    : axisNames.split(",").map(name => name.trim()).filter(Boolean);
+
+  const onError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const refresh = () => {
+    // Prefix match also refreshes the product list, whose stock follows the variants
+    queryClient.invalidateQueries({ queryKey: ['/api/products'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/products/${product.id}/variants`, {
+        sku: draft.sku,
+        options: Object.fromEntries(axes.map(axis => [axis, optionValues[axis] || ""])),
+        price: draft.price || null,
+        stock: parseInt(draft.stock) || 0,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setDraft(emptyDraft);
+      setOptionValues({});
+    },
+    onError: onError("Failed to add variant"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: Partial<ProductVariant> }) => {
+      const response = await apiRequest("PATCH", `/api/products/${product.id}/variants/${id}`, updates);
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError: onError("Failed to update variant"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/products/${product.id}/variants/${id}`);
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError: onError("Failed to delete variant"),
+  });
+
+  const saveStock = (variant: ProductVariant, value: string) => {
+    const stock = parseInt(value);
+    if (isNaN(stock) || stock < 0 || stock === variant.stock) return;
+    updateMutation.mutate({ id: variant.id, updates: { stock } });
+  };
+
+  const savePrice = (variant: ProductVariant, value: string) => {
+    const price = value.trim() || null;
+    if (price === variant.price) return;
+    updateMutation.mutate({ id: variant.id, updates: { price } });
+  };
+
+  const canAdd = !!draft.sku.trim() && axes.length > 0 && axes.every(axis => optionValues[axis]?.trim());
+
+  return (
+    <div className="space-y-4 border-t border-border pt-6" data-testid="section-product-variants">
+      <div>
+        <h3 className="font-semibold">Variants</h3>
+        <p className="text-sm text-muted-foreground">
+          Sell this product in several options such as size or color. Stock is the total across variants.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading variants...</p>
+      ) : variants.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Options</TableHead>
+              <TableHead>SKU</TableHead>
+              <TableHead className="w-[110px]">Price</TableHead>
+              <TableHead className="w-[90px]">Stock</TableHead>
+              <TableHead className="w-[50px]" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {variants.map((variant) => (
+              <TableRow key={`${variant.id}:${variant.updatedAt}`} data-testid={`row-variant-${variant.id}`}>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {Object.entries(variant.options).map(([name, value]) => (
+                      <Badge key={name} variant="secondary">{name}: {value}</Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell className="font-mono text-xs">{variant.sku}</TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    defaultValue={variant.price ?? ""}
+                    placeholder={product.price}
+                    onBlur={(e) => savePrice(variant, e.target.value)}
+                    data-testid={`input-variant-price-${variant.id}`}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min={0}
+                    defaultValue={variant.stock}
+                    onBlur={(e) => saveStock(variant, e.target.value)}
+                    data-testid={`input-variant-stock-${variant.id}`}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => deleteMutation.mutate(variant.id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-variant-${variant.id}`}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {!isLoading && variants.length === 0 && (
+        <Input
+          value={axisNames}
+          onChange={(e) => setAxisNames(e.target.value)}
+          placeholder="Option names, e.g. Size, Color"
+          data-testid="input-variant-axes"
+        />
+      )}
+
+      {axes.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+          {axes.map((axis) => (
+            <Input
+              key={axis}
+              value={optionValues[axis] || ""}
+              onChange={(e) => setOptionValues({ ...optionValues, [axis]: e.target.value })}
+              placeholder={axis}
+              data-testid={`input-variant-option-${axis}`}
+            />
+          ))}
+          <Input
+            value={draft.sku}
+            onChange={(e) => setDraft({ ...draft, sku: e.target.value })}
+            placeholder="SKU"
+            data-testid="input-variant-sku"
+          />
+          <Input
+            type="number"
+            step="0.01"
+            value={draft.price}
+            onChange={(e) => setDraft({ ...draft, price: e.target.value })}
+            placeholder={`Price (${product.price})`}
+            data-testid="input-variant-price"
+          />
+          <Input
+            type="number"
+            min={0}
+            value={draft.stock}
+            onChange={(e) => setDraft({ ...draft, stock: e.target.value })}
+            placeholder="Stock"
+            data-testid="input-variant-stock"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => createMutation.mutate()}
+            disabled={!canAdd || createMutation.isPending}
+            data-testid="button-add-variant"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            {createMutation.isPending ? "Adding..." : "Add Variant"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query";
+import { fetchAllProducts, type ProductListParams } from "@/lib/products";
+
+type AllProductsParams = Omit<ProductListParams, "cursor" | "limit">;
+
+// Every product matching the filters, for pickers and exports that can't work
+// from a single page. Shares the /api/products key so product writes refresh it.
+export function useAllProducts(
+  params: AllProductsParams = { sort: "name", order: "asc" },
+  options: { enabled?: boolean } = {}
+) {
+  const { data: products = [], ...query } = useQuery({
+    queryKey: ["/api/products", { ...params, all: true }],
+    queryFn: () => fetchAllProducts(params),
+    enabled: options.enabled,
+  });
+  return { products, ...query };
+}
@@ -1,22 +1,95 @@
 import { apiRequest } from "./queryClient";
+import type {
+  AIErrorCode, AIProviderName, AiGeneration, AiGenerationTool, Job, Product, ProductTranslationView, SupportedLocale,
+} from "@shared/schema";
 
-export interface ProductDescriptionRequest {
+// Optional on every request; the server falls back to the plan default
+export interface AIRequestOptions {
+  provider?: AIProviderName;
+  model?: string;
+}
+
+// A failed AI request. code comes from the server when it knows what went wrong.
+export class AIRequestError extends Error {
+  constructor(message: string, readonly code?: AIErrorCode, readonly status?: number) {
+    super(message);
+    this.name = "AIRequestError";
+  }
+}
+
+const AI_ERROR_MESSAGES: Partial<Record<AIErrorCode, string>> = {
+  provider_not_allowed: "Your plan doesn't include this AI provider.",
+  model_not_allowed: "Your plan doesn't include this model.",
+  provider_not_configured: "This AI provider isn't set up on the server.",
+  provider_failed: "The AI provider didn't respond. Please try again.",
+  vision_not_supported: "This model can't read images. Pick a vision-capable model.",
+  invalid_response: "The AI returned an unusable answer twice. Please try again or pick another model.",
+};
+
+/**
+ * User-facing text for an error thrown by the AI helpers
+ */
+export function aiErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof AIRequestError && error.code && AI_ERROR_MESSAGES[error.code]) {
+    return AI_ERROR_MESSAGES[error.code]!;
+  }
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+async function throwAIError(res: Response): Promise<never> {
+  const text = (await res.text()) || res.statusText;
+  try {
+    const body = JSON.parse(text);
+    throw new AIRequestError(body.message || res.statusText, body.code, res.status);
+  } catch (error) {
+    if (error instanceof AIRequestError) throw error;
+    throw new AIRequestError(`${res.status}: ${text}`, undefined, res.status);
+  }
+}
+
+// apiRequest for the AI endpoints, keeping the server's error code
+async function aiRequest(method: string, url: string, data?: unknown): Promise<Response> {
+  const res = await fetch(url, {
+    method,
+    headers: data ? { "Content-Type": "application/json" } : {},
+    body: data ? JSON.stringify(data) : undefined,
+    credentials: "include",
+  });
+  if (!res.ok) await throwAIError(res);
+  return res;
+}
+
+export interface ProductDescriptionRequest extends AIRequestOptions {
   productName: string;
   category: string;
   features: string;
   audience: string;
-  brandVoice: "sales" | "seo" | "casual";
+  // Key of a prompt template, e.g. "sales" or "luxury"; templateId wins when both are set
+  brandVoice: string;
+  templateId?: string;
+  // Records the generation against this product's history
+  productId?: string;
+  // Ask the model again even if the same request was answered recently
+  noCache?: boolean;
 }
 
-export interface SEOOptimizationRequest {
+export interface SEOOptimizationRequest extends AIRequestOptions {
   currentTitle: string;
   keywords: string;
   currentMeta: string;
   category: string;
+  productId?: string;
+  noCache?: boolean;
 }
 
 export interface ProductDescriptionResponse {
   description: string;
+  generationId: string;
+  template: { id: string; key: string; name: string; version: number };
+  provider: AIProviderName;
+  model: string;
+  // Served from the AI cache; it didn't count against the plan's quota
+  cached: boolean;
 }
 
 export interface SEOOptimizationResponse {
@@ -24,6 +97,10 @@ export interface SEOOptimizationResponse {
   optimizedMeta: string;
   keywords: string[];
   seoScore: number;
+  generationId: string;
+  provider: AIProviderName;
+  model: string;
+  cached: boolean;
 }
 
 /**
@@ -33,16 +110,11 @@ export async function generateProductDescription(
   request: ProductDescriptionRequest
 ): Promise<ProductDescriptionResponse> {
   try {
-    const response = await apiRequest("POST", "/api/generate-description", request);
-    const result = await response.json();
-    
-    if (!result.description) {
-      throw new Error("No description returned from AI service");
-    }
-    
-    return result;
+    const response = await aiRequest("POST", "/api/generate-description", request);
+    return await response.json();
   } catch (error) {
     console.error("Failed to generate product description:", error);
+    if (error instanceof AIRequestError) throw error;
     throw new Error("Failed to generate product description. Please try again.");
   }
 }
@@ -54,34 +126,242 @@ export async function optimizeSEO(
   request: SEOOptimizationRequest
 ): Promise<SEOOptimizationResponse> {
   try {
-    const response = await apiRequest("POST", "/api/optimize-seo", request);
-    const result = await response.json();
-    
-    if (!result.optimizedTitle || !result.optimizedMeta) {
-      throw new Error("Incomplete optimization result from AI service");
-    }
-    
-    return result;
+    const response = await aiRequest("POST", "/api/optimize-seo", request);
+    return await response.json();
   } catch (error) {
     console.error("Failed to optimize SEO:", error);
+    if (error instanceof AIRequestError) throw error;
     throw new Error("Failed to optimize SEO. Please try again.");
   }
 }
 
+// Thrown by the streaming helpers when the user cancels
+export class AIStreamAbortedError extends Error {
+  constructor() {
+    super("Generation cancelled");
+    this.name = "AIStreamAbortedError";
+  }
+}
+
+export interface AIStreamHandlers {
+  // Raw model output so far, as it grows
+  onText?: (text: string) => void;
+  signal?: AbortSignal;
+}
+
 /**
- * Generate AI-powered alt text for images
+ * POST to a streaming AI endpoint and read its Server-Sent Events. Resolves
+ * with the "done" payload, the same body the non-streaming endpoint returns.
+ * Aborting the signal cancels the generation on the server too.
  */
-export async function generateAltText(imageBase64: string): Promise<string> {
+async function streamAIRequest<T>(url: string, body: unknown, { onText, signal }: AIStreamHandlers): Promise<T> {
+  let streamId: string | null = null;
+  const abortOnServer = () => {
+    if (streamId) {
+      apiRequest("POST", `/api/ai/streams/${streamId}/abort`).catch(() => undefined);
+    }
+  };
+  signal?.addEventListener("abort", abortOnServer);
+
   try {
-    // This would integrate with OpenAI's vision capabilities
-    // For now, return a placeholder implementation
-    throw new Error("Alt text generation not yet implemented");
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      credentials: "include",
+      signal,
+    });
+    if (!res.ok || !res.body) {
+      return throwAIError(res);
+    }
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let text = "";
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split("\n\n");
+      buffer = events.pop() || "";
+
+      for (const raw of events) {
+        const event = raw.match(/^event: (.*)$/m)?.[1];
+        const data = JSON.parse(raw.match(/^data: (.*)$/m)?.[1] || "null");
+        switch (event) {
+          case "start":
+            streamId = data.streamId;
+            break;
+          case "delta":
+            text += data.text;
+            onText?.(text);
+            break;
+          case "done":
+            return data as T;
+          case "aborted":
+            throw new AIStreamAbortedError();
+          case "error":
+            throw new AIRequestError(data.message || "AI generation failed", data.code);
+        }
+      }
+    }
+    throw new Error("The AI stream ended unexpectedly");
   } catch (error) {
-    console.error("Failed to generate alt text:", error);
-    throw new Error("Failed to generate alt text. Please try again.");
+    if (signal?.aborted) throw new AIStreamAbortedError();
+    throw error;
+  } finally {
+    signal?.removeEventListener("abort", abortOnServer);
   }
 }
 
+/**
+ * Best-effort read of a string field from JSON that is still streaming in,
+ * e.g. "description" out of '{"description":"Light and dura'
+ */
+export function partialJsonString(raw: string, key: string): string {
+  const start = raw.match(new RegExp(`"${key}"\\s*:\\s*"`));
+  if (!start || start.index === undefined) return "";
+
+  let value = "";
+  for (let i = start.index + start[0].length; i < raw.length; i++) {
+    const char = raw[i];
+    if (char === '"') break;
+    if (char === "\\") {
+      const length = raw[i + 1] === "u" ? 6 : 2;
+      const escape = raw.slice(i, i + length);
+      // Stop at an escape that hasn't fully arrived yet
+      if (escape.length < length) break;
+      try {
+        value += JSON.parse(`"${escape}"`);
+      } catch {
+        // Leave malformed escapes out
+      }
+      i += escape.length - 1;
+      continue;
+    }
+    value += char;
+  }
+  return value;
+}
+
+/**
+ * Streaming version of generateProductDescription
+ */
+export function streamProductDescription(
+  request: ProductDescriptionRequest,
+  handlers: AIStreamHandlers
+): Promise<ProductDescriptionResponse> {
+  return streamAIRequest("/api/generate-description/stream", request, handlers);
+}
+
+/**
+ * Streaming version of optimizeSEO
+ */
+export function streamSEOOptimization(
+  request: SEOOptimizationRequest,
+  handlers: AIStreamHandlers
+): Promise<SEOOptimizationResponse> {
+  return streamAIRequest("/api/optimize-seo/stream", request, handlers);
+}
+
+export interface AiGenerationListParams {
+  productId?: string;
+  tool?: AiGenerationTool;
+  favorite?: boolean;
+  limit?: number;
+}
+
+/**
+ * Fetch past generations from GET /api/ai/generations, newest first
+ */
+export async function fetchAiGenerations(params: AiGenerationListParams = {}): Promise<AiGeneration[]> {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== "") {
+      search.set(key, String(value));
+    }
+  }
+
+  const res = await fetch(`/api/ai/generations?${search.toString()}`, { credentials: "include" });
+  if (!res.ok) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+  return res.json();
+}
+
+/**
+ * Write a stored generation into a product. productId is only needed when the
+ * generation was made without one, or to apply it to a different product.
+ */
+export async function applyAiGeneration(id: string, productId?: string): Promise<AiGeneration> {
+  const response = await apiRequest("POST", `/api/ai/generations/${id}/apply`, productId ? { productId } : {});
+  const result = await response.json();
+  return result.generation;
+}
+
+export interface AltTextRequest extends AIRequestOptions {
+  // Write the alt text into the product; otherwise it's only saved to history
+  apply?: boolean;
+  noCache?: boolean;
+}
+
+export interface AltTextResponse {
+  altText: string;
+  generationId: string;
+  product?: Product;
+  provider: AIProviderName;
+  model: string;
+  cached: boolean;
+}
+
+export interface AltTextBatchRequest extends Omit<AltTextRequest, "noCache"> {
+  // Defaults to every product with an image
+  productIds?: string[];
+  // Also redo products that already have alt text
+  overwrite?: boolean;
+}
+
+/**
+ * Generate alt text for a product's image with a vision-capable model
+ */
+export async function generateAltText(productId: string, request: AltTextRequest = {}): Promise<AltTextResponse> {
+  const response = await aiRequest("POST", `/api/products/${productId}/alt-text`, request);
+  return response.json();
+}
+
+/**
+ * Queue alt text generation for many products; follow the returned job via GET /api/jobs/:id
+ */
+export async function startAltTextBatch(request: AltTextBatchRequest = {}): Promise<Job> {
+  const response = await aiRequest("POST", "/api/products/alt-text/batch", request);
+  return response.json();
+}
+
+export interface TranslateProductRequest extends AIRequestOptions {
+  locales: SupportedLocale[];
+  // Publish the new translations straight away; otherwise they're saved as drafts
+  publish?: boolean;
+  noCache?: boolean;
+}
+
+export interface TranslateProductResponse {
+  translations: ProductTranslationView[];
+  // Brand terms and glossary entries the model didn't respect, by locale
+  issues: Partial<Record<SupportedLocale, string[]>>;
+  // Languages served from the AI cache
+  cached: SupportedLocale[];
+}
+
+/**
+ * Translate a product's copy into one or more languages
+ */
+export async function translateProduct(productId: string, request: TranslateProductRequest): Promise<TranslateProductResponse> {
+  const response = await aiRequest("POST", `/api/products/${productId}/translations/translate`, request);
+  return response.json();
+}
+
 /**
  * Analyze sentiment of product descriptions
  */
@@ -0,0 +1,95 @@
+export interface ProductImportError {
+  row: number;
+  field: string;
+  message: string;
+}
+
+export interface ProductImportResult {
+  dryRun: boolean;
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  importedCount: number;
+  mapping: Record<string, string>;
+  unmappedColumns: string[];
+  preview: Array<{ row: number; name: string; price: string; category: string; stock: number }>;
+  errors: ProductImportError[];
+  errorReportId: string | null;
+}
+
+async function downloadFromApi(url: string, fallbackFilename: string): Promise<void> {
+  const res = await fetch(url, { credentials: "include" });
+  if (!res.ok) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+
+  const disposition = res.headers.get("Content-Disposition") || "";
+  const filename = disposition.match(/filename="([^"]+)"/)?.[1] || fallbackFilename;
+  const blob = await res.blob();
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(link.href);
+}
+
+/**
+ * Upload a product CSV. With dryRun the server only validates and previews the rows.
+ */
+export async function importProductsCsv(
+  file: File,
+  options: { dryRun: boolean; mapping?: Record<string, string>; createCategories?: boolean }
+): Promise<ProductImportResult> {
+  const params = new URLSearchParams({ dryRun: String(options.dryRun) });
+  if (options.createCategories) {
+    params.set("createCategories", "true");
+  }
+  if (options.mapping) {
+    params.set("mapping", JSON.stringify(options.mapping));
+  }
+
+  const res = await fetch(`/api/products/import?${params.toString()}`, {
+    method: "POST",
+    headers: { "Content-Type": "text/csv" },
+    body: file,
+    credentials: "include",
+  });
+
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.message || `Import failed (${res.status})`);
+  }
+  return res.json();
+}
+
+/**
+ * Download the full catalog as CSV
+ */
+export function exportProductsCsv(): Promise<void> {
+  return downloadFromApi("/api/products/export", "products.csv");
+}
+
+/**
+ * Download a Google Ads Editor or Meta Ads Manager bulk-upload CSV built from the AI copy
+ */
+export function exportAdsCsv(platform: string, campaign: string): Promise<void> {
+  const params = new URLSearchParams({ platform, campaign });
+  return downloadFromApi(`/api/products/ad-export?${params.toString()}`, `${platform}.csv`);
+}
+
+/**
+ * Download schema.org JSON-LD for every product, with validation results
+ */
+export function exportStructuredData(): Promise<void> {
+  return downloadFromApi("/api/products/structured-data", "structured-data.json");
+}
+
+/**
+ * Download the per-row error report from the last import or dry run
+ */
+export function downloadImportErrorReport(reportId: string): Promise<void> {
+  return downloadFromApi(`/api/products/import/errors/${reportId}`, "import-errors.csv");
+}
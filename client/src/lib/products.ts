@@ -0,0 +1,49 @@
+import type { Product, ProductPage, ProductSortKey } from "@shared/schema";
+
+export interface ProductListParams {
+  q?: string;
+  category?: string;
+  categoryId?: string;
+  isOptimized?: boolean;
+  minStock?: number;
+  maxStock?: number;
+  minPrice?: number;
+  maxPrice?: number;
+  sort?: ProductSortKey;
+  order?: "asc" | "desc";
+  cursor?: string;
+  limit?: number;
+}
+
+/**
+ * Fetch one page of the product catalog from GET /api/products
+ */
+export async function fetchProductPage(params: ProductListParams = {}): Promise<ProductPage> {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== "") {
+      search.set(key, String(value));
+    }
+  }
+
+  const res = await fetch(`/api/products?${search.toString()}`, { credentials: "include" });
+  if (!res.ok) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+  return res.json();
+}
+
+/**
+ * Fetch the whole catalog by following nextCursor page by page
+ */
+export async function fetchAllProducts(params: Omit<ProductListParams, "cursor" | "limit"> = {}): Promise<Product[]> {
+  const products: Product[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await fetchProductPage({ ...params, cursor, limit: 200 });
+    products.push(...page.items);
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return products;
+}
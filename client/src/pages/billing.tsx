@@ -8,6 +8,7 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Progress } from "@/components/ui/progress";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { AI_QUOTA_METERS, type AIQuotaMeter, type AIQuotaStatus } from "@shared/schema";
 import { 
   CreditCard, 
   Calendar, 
@@ -24,7 +25,8 @@ import {
   ArrowUp,
   ArrowDown,
   ExternalLink,
-  Plus
+  Plus,
+  Sparkles
 } from "lucide-react";
 
 interface SubscriptionPlan {
@@ -85,6 +87,11 @@ interface UsageStats {
   seoOptimizationsUsed: number;
 }
 
+const quotaLabels: Record<AIQuotaMeter, string> = {
+  aiGenerations: "AI Generations",
+  seoOptimizations: "SEO Optimizations",
+};
+
 const planIcons = {
   "Forever Free": <Zap className="w-6 h-6" style={{ color: '#C1E8FF' }} />,
   "Starter": <TrendingUp className="w-6 h-6" style={{ color: '#C1E8FF' }} />,
@@ -112,6 +119,12 @@ export default function BillingPage() {
     queryKey: ['/api/usage-stats'],
   });
 
+  // AI allowance for this period; refetched on every visit since AI calls elsewhere use it up
+  const { data: aiQuota } = useQuery<AIQuotaStatus>({
+    queryKey: ['/api/usage/ai-quota'],
+    refetchOnMount: "always",
+  });
+
   // Fetch invoices
   const { data: invoices = [], isLoading: invoicesLoading } = useQuery<Invoice[]>({
     queryKey: ['/api/invoices'],
@@ -314,6 +327,48 @@ export default function BillingPage() {
           </Card>
         )}
 
+        {/* AI quota for the current period */}
+        {aiQuota && (
+          <Card className="bg-gradient-to-br from-[#021024] to-[#052659] border-slate-700/50" data-testid="card-ai-quota">
+            <CardHeader>
+              <CardTitle className="text-white flex items-center">
+                <Sparkles className="w-5 h-5 mr-2" style={{ color: '#C1E8FF' }} />
+                AI Usage This Period
+              </CardTitle>
+              <CardDescription className="text-slate-300">
+                {aiQuota.plan} plan allowance, resets {formatDate(aiQuota.periodEnd)}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {AI_QUOTA_METERS.map((meter) => {
+                  const status = aiQuota.meters[meter];
+                  return (
+                    <div key={meter} className="space-y-2">
+                      <div className="flex justify-between text-sm">
+                        <span className="text-slate-300">{quotaLabels[meter]}</span>
+                        <span className="text-white" data-testid={`text-ai-quota-${meter}`}>
+                          {status.remaining === null ? "Unlimited" : `${status.remaining} of ${status.limit} left`}
+                        </span>
+                      </div>
+                      <Progress value={getUsagePercentage(status.used, status.limit)} className="h-2" />
+                    </div>
+                  );
+                })}
+              </div>
+              {aiQuota.upgrade && AI_QUOTA_METERS.some(meter => aiQuota.meters[meter].remaining === 0) && (
+                <p className="text-sm text-slate-300" data-testid="text-ai-quota-upgrade">
+                  You've used up part of this month's AI allowance. Upgrade to {aiQuota.upgrade.plan} for{" "}
+                  {AI_QUOTA_METERS.map(meter => {
+                    const limit = aiQuota.upgrade!.limits[meter];
+                    return `${limit === -1 ? "unlimited" : limit.toLocaleString()} ${quotaLabels[meter].toLowerCase()}`;
+                  }).join(" and ")} a month.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Tabs for different sections */}
         <Tabs defaultValue="plans" className="space-y-6">
           <TabsList className="grid w-full grid-cols-4 bg-[#041b3e]">
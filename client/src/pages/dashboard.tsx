@@ -12,6 +12,7 @@ import Campaigns from "@/components/dashboard/campaigns";
 import GrowthDashboard from "@/components/dashboard/growth-dashboard";
 import Settings from "@/components/dashboard/settings";
 import Profile from "@/components/dashboard/profile";
+import AICostsAdmin from "@/components/dashboard/ai-costs-admin";
 import NotificationCenter from "@/components/dashboard/notification-center";
 import { useAuth } from "@/lib/auth";
 import { useDashboard, useSkeletonLoader, useConnectionStatus } from "@/hooks/useDashboard";
@@ -23,7 +24,9 @@ import { Zap, TrendingUp, ShoppingCart, Eye, RotateCcw, Plus, Menu, User, LogOut
 
 export default function Dashboard() {
   const { user, logout } = useAuth();
-  const [activeTab, setActiveTab] = useState("overview");
+  const [activeTab, setActiveTab] = useState(
+    () => new URLSearchParams(window.location.search).has("job") ? "ai-tools" : "overview"
+  );
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [, setLocation] = useLocation();
   const { toast } = useToast();
@@ -193,6 +196,7 @@ export default function Dashboard() {
       products: { title: "Products", subtitle: "Manage your product catalog" },
       profile: { title: "Profile", subtitle: "Manage your account and subscription" },
       settings: { title: "Settings", subtitle: "Configure your account and integrations" },
+      "ai-costs": { title: "AI Costs", subtitle: "LLM spend per account and feature" },
     };
     return titles[activeTab as keyof typeof titles] || titles.overview;
   };
@@ -221,6 +225,8 @@ export default function Dashboard() {
         return <Profile />;
       case "settings":
         return <Settings />;
+      case "ai-costs":
+        return <AICostsAdmin />;
       default:
         return <GrowthDashboard />;
     }
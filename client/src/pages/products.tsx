@@ -1,8 +1,8 @@
 import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { Plus, Edit2, Trash2, Package, DollarSign, Archive, Image as ImageIcon, Menu } from "lucide-react";
+import { useMutation, useQuery, useInfiniteQuery, useQueryClient } from "@tanstack/react-query";
+import { Plus, Edit2, Trash2, Package, DollarSign, Archive, Image as ImageIcon, Menu, Search, FolderTree, Rss } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -13,35 +13,39 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { fetchProductPage, type ProductListParams } from "@/lib/products";
 import { insertProductSchema } from "@shared/schema";
-import type { Product, InsertProduct } from "@shared/schema";
+import type { Product, InsertProduct, ProductSortKey, ProductVariantList, CategoryWithPath } from "@shared/schema";
 import { z } from "zod";
 import Sidebar from "@/components/dashboard/sidebar";
+import VariantEditor from "@/components/dashboard/variant-editor";
+import CategoryManagerDialog from "@/components/dashboard/category-manager-dialog";
+import ProductFeedDialog from "@/components/dashboard/product-feed-dialog";
+import StockHistory from "@/components/dashboard/stock-history";
+import ProductTranslations from "@/components/dashboard/product-translations";
 import { useAuth } from "@/lib/auth";
 
-// Product categories - you can expand this list
-const PRODUCT_CATEGORIES = [
-  "Electronics",
-  "Clothing",
-  "Home & Garden",
-  "Books",
-  "Sports",
-  "Beauty",
-  "Food",
-  "Toys",
-  "Automotive",
-  "Health",
-  "Other"
+const SORT_OPTIONS: Array<{ value: string; label: string; sort: ProductSortKey; order: "asc" | "desc" }> = [
+  { value: "updatedAt-desc", label: "Recently updated", sort: "updatedAt", order: "desc" },
+  { value: "createdAt-desc", label: "Newest first", sort: "createdAt", order: "desc" },
+  { value: "name-asc", label: "Name (A-Z)", sort: "name", order: "asc" },
+  { value: "price-asc", label: "Price (low to high)", sort: "price", order: "asc" },
+  { value: "price-desc", label: "Price (high to low)", sort: "price", order: "desc" },
+  { value: "stock-asc", label: "Stock (low to high)", sort: "stock", order: "asc" },
 ];
 
+const PAGE_SIZE = 24;
+
 // Form validation schema for frontend
 const productFormSchema = z.object({
   name: z.string().min(1, "Product name is required"),
   description: z.string().optional(),
   price: z.string().min(1, "Price is required").refine((val) => !isNaN(parseFloat(val)) && parseFloat(val) > 0, "Price must be a positive number"),
-  category: z.string().min(1, "Category is required"),
+  categoryId: z.string().min(1, "Category is required"),
   stock: z.string().min(1, "Stock is required").refine((val) => !isNaN(parseInt(val)) && parseInt(val) >= 0, "Stock must be 0 or greater"),
-  image: z.string().url("Please enter a valid URL").optional().or(z.literal(""))
+  image: z.string().url("Please enter a valid URL").optional().or(z.literal("")),
+  imageAltText: z.string().max(500, "Alt text must be 500 characters or less").optional(),
+  reorderThreshold: z.string().optional().refine((val) => !val || (!isNaN(parseInt(val)) && parseInt(val) >= 0), "Threshold must be 0 or greater")
 });
 
 type ProductFormData = z.infer<typeof productFormSchema>;
@@ -57,7 +61,7 @@ function ProductCard({ product, onEdit, onDelete }: { product: Product; onEdit:
           {product.image && !imageError ? (
             <img 
               src={product.image} 
-              alt={product.name}
+              alt={product.imageAltText || product.name}
               className={`w-full h-full object-cover transition-opacity duration-200 ${imageLoading ? 'opacity-0' : 'opacity-100'}`}
               onLoad={() => setImageLoading(false)}
               onError={() => {
@@ -199,18 +203,70 @@ export default function ProductsPage() {
       name: "",
       description: "",
       price: "",
-      category: "",
+      categoryId: "",
       stock: "",
       image: "",
+      imageAltText: "",
+      reorderThreshold: "",
     },
   });
 
-  // Fetch products with real-time updates
-  const { data: products = [], isLoading } = useQuery<Product[]>({
-    queryKey: ['/api/products'],
+  const [isCategoryManagerOpen, setIsCategoryManagerOpen] = useState(false);
+  const [isFeedDialogOpen, setIsFeedDialogOpen] = useState(false);
+  const { data: categories = [] } = useQuery<CategoryWithPath[]>({
+    queryKey: ['/api/categories'],
+  });
+  const categoryName = (id: string) => categories.find(category => category.id === id)?.name;
+
+  // Catalog filters, applied server-side
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [categoryFilter, setCategoryFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [sortOption, setSortOption] = useState(SORT_OPTIONS[0].value);
+
+  // Debounce the search box so we don't query on every keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchInput.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  const selectedSort = SORT_OPTIONS.find(option => option.value === sortOption) || SORT_OPTIONS[0];
+  const listParams: ProductListParams = {
+    q: search || undefined,
+    categoryId: categoryFilter === "all" ? undefined : categoryFilter,
+    isOptimized: statusFilter === "all" ? undefined : statusFilter === "optimized",
+    sort: selectedSort.sort,
+    order: selectedSort.order,
+    limit: PAGE_SIZE,
+  };
+
+  // Fetch products page by page with real-time updates
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['/api/products', listParams],
+    queryFn: ({ pageParam }) => fetchProductPage({ ...listParams, cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
     refetchInterval: 10000, // Auto-refresh every 10 seconds
   });
 
+  const products = data?.pages.flatMap(page => page.items) ?? [];
+  const totalProducts = data?.pages[0]?.total ?? 0;
+  const hasFilters = !!search || categoryFilter !== "all" || statusFilter !== "all";
+
+  // Variants of the product being edited; their stock replaces the product's own
+  const { data: editingVariants } = useQuery<ProductVariantList>({
+    queryKey: ['/api/products', editingProduct?.id, 'variants'],
+    enabled: !!editingProduct,
+  });
+  const stockFromVariants = !!editingProduct && (editingVariants?.variants.length ?? 0) > 0;
+
   // Create product mutation
   const createMutation = useMutation({
     mutationFn: async (data: ProductFormData) => {
@@ -218,9 +274,12 @@ export default function ProductsPage() {
         name: data.name,
         description: data.description || null,
         price: data.price,
-        category: data.category,
+        categoryId: data.categoryId,
+        category: categoryName(data.categoryId),
         stock: parseInt(data.stock),
         image: data.image || null,
+        imageAltText: data.imageAltText || null,
+        reorderThreshold: data.reorderThreshold ? parseInt(data.reorderThreshold) : null,
       };
       const response = await apiRequest("POST", "/api/products", payload);
       return response.json();
@@ -250,9 +309,16 @@ export default function ProductsPage() {
       if (data.name) payload.name = data.name;
       if (data.description !== undefined) payload.description = data.description || null;
       if (data.price) payload.price = data.price;
-      if (data.category) payload.category = data.category;
+      if (data.categoryId) {
+        payload.categoryId = data.categoryId;
+        payload.category = categoryName(data.categoryId);
+      }
       if (data.stock) payload.stock = parseInt(data.stock);
       if (data.image !== undefined) payload.image = data.image || null;
+      if (data.imageAltText !== undefined) payload.imageAltText = data.imageAltText || null;
+      if (data.reorderThreshold !== undefined) {
+        payload.reorderThreshold = data.reorderThreshold ? parseInt(data.reorderThreshold) : null;
+      }
       
       const response = await apiRequest("PATCH", `/api/products/${id}`, payload);
       return response.json();
@@ -311,12 +377,31 @@ export default function ProductsPage() {
       name: product.name,
       description: product.description || "",
       price: product.price,
-      category: product.category,
+      categoryId: product.categoryId || categories.find(category => category.name === product.category)?.id || "",
       stock: product.stock.toString(),
       image: product.image || "",
+      imageAltText: product.imageAltText || "",
+      reorderThreshold: product.reorderThreshold?.toString() ?? "",
     });
   };
 
+  // Notifications link to /products?product=<id>; open that product's dialog
+  useEffect(() => {
+    const productId = new URLSearchParams(window.location.search).get("product");
+    if (!productId) return;
+    window.history.replaceState(null, "", window.location.pathname);
+    apiRequest("GET", `/api/products/${productId}`)
+      .then(response => response.json())
+      .then((product: Product) => handleEdit(product))
+      .catch(() => {
+        toast({
+          title: "Product not found",
+          description: "It may have been deleted.",
+          variant: "destructive",
+        });
+      });
+  }, []);
+
   const handleDelete = (id: string) => {
     if (confirm("Are you sure you want to delete this product?")) {
       deleteMutation.mutate(id);
@@ -375,6 +460,26 @@ export default function ProductsPage() {
               </p>
             </div>
             
+            <div className="flex items-center gap-3">
+            <Button 
+              variant="outline" 
+              onClick={() => setIsCategoryManagerOpen(true)}
+              data-testid="button-manage-categories"
+            >
+              <FolderTree className="w-4 h-4 mr-2" />
+              Categories
+            </Button>
+            <CategoryManagerDialog open={isCategoryManagerOpen} onOpenChange={setIsCategoryManagerOpen} />
+            <Button 
+              variant="outline" 
+              onClick={() => setIsFeedDialogOpen(true)}
+              data-testid="button-product-feed"
+            >
+              <Rss className="w-4 h-4 mr-2" />
+              Feeds & ads
+            </Button>
+            <ProductFeedDialog open={isFeedDialogOpen} onOpenChange={setIsFeedDialogOpen} />
+
             <Dialog open={isAddDialogOpen || !!editingProduct} onOpenChange={(open) => {
               if (!open) resetForm();
               else setIsAddDialogOpen(true);
@@ -422,7 +527,7 @@ export default function ProductsPage() {
                   
                   <FormField
                     control={form.control}
-                    name="category"
+                    name="categoryId"
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel>Category</FormLabel>
@@ -433,9 +538,9 @@ export default function ProductsPage() {
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent>
-                            {PRODUCT_CATEGORIES.map((category) => (
-                              <SelectItem key={category} value={category}>
-                                {category}
+                            {categories.map((category) => (
+                              <SelectItem key={category.id} value={category.id}>
+                                {category.path}
                               </SelectItem>
                             ))}
                           </SelectContent>
@@ -498,9 +603,13 @@ export default function ProductsPage() {
                             type="number" 
                             placeholder="0" 
                             {...field} 
+                            disabled={stockFromVariants}
                             data-testid="input-product-stock"
                           />
                         </FormControl>
+                        {stockFromVariants && (
+                          <p className="text-xs text-muted-foreground">Total of all variants</p>
+                        )}
                         <FormMessage />
                       </FormItem>
                     )}
@@ -525,6 +634,44 @@ export default function ProductsPage() {
                     </FormItem>
                   )}
                 />
+
+                <FormField
+                  control={form.control}
+                  name="imageAltText"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Image alt text (optional)</FormLabel>
+                      <FormControl>
+                        <Input 
+                          placeholder="Describe the image for screen readers" 
+                          {...field} 
+                          data-testid="input-product-image-alt-text"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="reorderThreshold"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Low-stock alert below (optional)</FormLabel>
+                      <FormControl>
+                        <Input 
+                          type="number" 
+                          min={0}
+                          placeholder="e.g. 5" 
+                          {...field} 
+                          data-testid="input-product-reorder-threshold"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
                 
                 <div className="flex justify-end gap-3 pt-4">
                   <Button 
@@ -558,10 +705,70 @@ export default function ProductsPage() {
                 </div>
               </form>
             </Form>
+
+            {editingProduct && <VariantEditor product={editingProduct} />}
+            {editingProduct && <StockHistory product={editingProduct} readOnly={stockFromVariants} />}
+            {editingProduct && <ProductTranslations product={editingProduct} />}
           </DialogContent>
             </Dialog>
+            </div>
+          </div>
+
+          {/* Filters */}
+          <div className="flex flex-col lg:flex-row gap-3 mb-6">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder="Search name, description or tags"
+                className="pl-9"
+                data-testid="input-search-products"
+              />
+            </div>
+            <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+              <SelectTrigger className="lg:w-[180px]" data-testid="select-filter-category">
+                <SelectValue placeholder="Category" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All categories</SelectItem>
+                {categories.map((category) => (
+                  <SelectItem key={category.id} value={category.id}>
+                    {category.path}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="lg:w-[160px]" data-testid="select-filter-status">
+                <SelectValue placeholder="Status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All products</SelectItem>
+                <SelectItem value="optimized">Optimized</SelectItem>
+                <SelectItem value="not-optimized">Not optimized</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={sortOption} onValueChange={setSortOption}>
+              <SelectTrigger className="lg:w-[190px]" data-testid="select-sort-products">
+                <SelectValue placeholder="Sort by" />
+              </SelectTrigger>
+              <SelectContent>
+                {SORT_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
 
+          {!isLoading && (
+            <p className="text-sm text-muted-foreground mb-4" data-testid="text-product-count">
+              Showing {products.length} of {totalProducts} products{hasFilters ? " matching your filters" : ""}
+            </p>
+          )}
+
           {/* Products Grid */}
           <ProductGrid 
             products={products}
@@ -569,6 +776,19 @@ export default function ProductsPage() {
             onEdit={handleEdit}
             onDelete={handleDelete}
           />
+
+          {hasNextPage && (
+            <div className="flex justify-center mt-8">
+              <Button 
+                variant="outline" 
+                onClick={() => fetchNextPage()} 
+                disabled={isFetchingNextPage}
+                data-testid="button-load-more-products"
+              >
+                {isFetchingNextPage ? "Loading..." : "Load more"}
+              </Button>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,272 @@
+import { createHash, randomBytes } from "crypto";
+import type {
+  AbTest,
+  AbTestAnalysis,
+  AbTestCounts,
+  AbTestDetail,
+  AbTestEvents,
+  AbTestVariant,
+  AbTestVariantStats,
+  InsertNotification,
+  OptimizedCopy,
+  Product,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+
+type PromoteStore = Pick<
+  IStorage,
+  "getProduct" | "updateProduct" | "updateAbTestByStatus" | "updateAiGeneration" | "createNotification" | "createActivityLog"
+>;
+type DetailStore = Pick<IStorage, "getAbTestVariants" | "getProduct">;
+type EventStore = PromoteStore & Pick<IStorage, "getAbTestVariants" | "incrementAbTestVariant" | "claimAbTestEvaluation">;
+
+// Tried in order when a test doesn't name its own brand voices
+export const DEFAULT_AB_TEST_VOICES = ["sales", "casual", "seo", "luxury", "minimalist"];
+
+export function generateAbTestToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+export function variantLabel(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+// Equal split in whole percents; the first variants absorb the remainder
+export function equalWeights(count: number): number[] {
+  const base = Math.floor(100 / count);
+  return Array.from({ length: count }, (_, index) => base + (index < 100 - base * count ? 1 : 0));
+}
+
+// Same visitor, same variant, for as long as the weights don't change.
+// Variants with no traffic are never assigned.
+export function assignVariant(test: AbTest, variants: AbTestVariant[], visitorId?: string): AbTestVariant | undefined {
+  const eligible = variants.filter(variant => variant.weight > 0);
+  if (eligible.length === 0) return undefined;
+
+  const bucket = visitorId
+    ? createHash("sha256").update(`${test.id}:${visitorId}`).digest().readUInt32BE(0) % 100
+    : Math.floor(Math.random() * 100);
+  const total = eligible.reduce((sum, variant) => sum + variant.weight, 0);
+  let cumulative = 0;
+  for (const variant of eligible) {
+    cumulative += variant.weight;
+    if (bucket < (cumulative * 100) / total) return variant;
+  }
+  return eligible[eligible.length - 1];
+}
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7)
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// Two-proportion z-test with a pooled standard error; two-sided p-value
+export function twoProportionZTest(
+  successesA: number,
+  trialsA: number,
+  successesB: number,
+  trialsB: number
+): { z: number; pValue: number } {
+  if (trialsA === 0 || trialsB === 0) return { z: 0, pValue: 1 };
+  const pooled = (successesA + successesB) / (trialsA + trialsB);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / trialsA + 1 / trialsB));
+  if (standardError === 0) return { z: 0, pValue: 1 };
+  const z = (successesA / trialsA - successesB / trialsB) / standardError;
+  return { z, pValue: 2 * (1 - normalCdf(Math.abs(z))) };
+}
+
+const successesOf = (test: AbTest, variant: AbTestVariant) =>
+  test.metric === "click" ? variant.clicks : variant.conversions;
+
+const rateOf = (test: AbTest, variant: AbTestVariant) =>
+  variant.impressions > 0 ? successesOf(test, variant) / variant.impressions : 0;
+
+const pValueBetween = (test: AbTest, a: AbTestVariant, b: AbTestVariant) =>
+  twoProportionZTest(successesOf(test, a), a.impressions, successesOf(test, b), b.impressions).pValue;
+
+// Only variants still getting traffic compete. A winner needs every competitor
+// to have minImpressions and must beat each of them; the significance level is
+// split across those comparisons (Bonferroni) so more variants don't mean more
+// false winners.
+export function analyzeAbTest(test: AbTest, variants: AbTestVariant[]): AbTestAnalysis {
+  const competing = variants.filter(variant => variant.weight > 0);
+  const control = variants.find(variant => variant.isControl);
+  const controlRate = control && control.impressions > 0 ? rateOf(test, control) : null;
+
+  const stats: AbTestVariantStats[] = variants.map(variant => {
+    const rate = rateOf(test, variant);
+    const others = competing.filter(other => other.id !== variant.id);
+    const best = others.reduce<AbTestVariant | undefined>(
+      (top, other) => (!top || rateOf(test, other) > rateOf(test, top) ? other : top),
+      undefined
+    );
+    return {
+      variantId: variant.id,
+      rate,
+      lift: controlRate && variant !== control && variant.impressions > 0 ? (rate - controlRate) / controlRate : null,
+      pValue: best && variant.impressions > 0 && best.impressions > 0 ? pValueBetween(test, variant, best) : null,
+    };
+  });
+
+  const leader = competing.reduce<AbTestVariant | undefined>(
+    (top, variant) => (!top || rateOf(test, variant) > rateOf(test, top) ? variant : top),
+    undefined
+  );
+  const ready = competing.length >= 2 && competing.every(variant => variant.impressions >= test.minImpressions);
+  const alpha = (1 - test.confidence / 100) / Math.max(1, competing.length - 1);
+  const wins = !!leader && ready && competing.every(other =>
+    other === leader || (rateOf(test, leader) > rateOf(test, other) && pValueBetween(test, leader, other) < alpha)
+  );
+
+  return {
+    variants: stats,
+    leaderId: leader && leader.impressions > 0 ? leader.id : null,
+    winnerId: wins ? leader!.id : null,
+    ready,
+  };
+}
+
+export async function abTestDetail(store: DetailStore, test: AbTest): Promise<AbTestDetail> {
+  const [variants, product] = await Promise.all([store.getAbTestVariants(test.id), store.getProduct(test.productId)]);
+  return { test, variants, analysis: analyzeAbTest(test, variants), productName: product?.name ?? null };
+}
+
+function promotedNotification(test: AbTest, variant: AbTestVariant, product: Product, automatic: boolean): InsertNotification {
+  return {
+    userId: test.userId,
+    title: automatic ? `A/B test winner: ${product.name}` : `A/B test ended: ${product.name}`,
+    message: variant.isControl
+      ? `The original description (variant ${variant.label}) won "${test.name}" and stays live.`
+      : `Variant ${variant.label} ${automatic ? "won" : "was promoted in"} "${test.name}" and is now the product description.`,
+    type: "success",
+    actionUrl: `/products?product=${product.id}`,
+    actionLabel: "View product",
+  };
+}
+
+function undecidedNotification(test: AbTest, product: Product): InsertNotification {
+  return {
+    userId: test.userId,
+    title: `A/B test undecided: ${product.name}`,
+    message: `No variant of "${test.name}" won at ${test.minImpressions} impressions each, so nothing was promoted. The test keeps running until you promote a variant or stop it.`,
+    type: "info",
+    actionUrl: `/products?product=${product.id}`,
+    actionLabel: "View product",
+  };
+}
+
+// Makes the variant the product's description and ends the test. The test is
+// ended first, in one conditional write, so two requests can't both promote;
+// returns undefined if another request ended it first. Automatic promotion
+// only ends running tests, while a stopped test can still be promoted by hand.
+// Writes are versioned with the test id as the operation id, so promotion can
+// be undone.
+export async function promoteAbVariant(
+  store: PromoteStore,
+  test: AbTest,
+  variant: AbTestVariant,
+  automatic: boolean
+): Promise<AbTest | undefined> {
+  const product = await store.getProduct(test.productId);
+  if (!product) throw new Error("Product not found");
+
+  const updated = await store.updateAbTestByStatus(test.id, automatic ? ["running"] : ["running", "stopped"], {
+    status: "completed",
+    winnerVariantId: variant.id,
+    endedAt: new Date(),
+  });
+  if (!updated) return undefined;
+
+  if (product.description !== variant.description) {
+    const copy = (product.optimizedCopy || {}) as OptimizedCopy;
+    await store.updateProduct(product.id, {
+      description: variant.description,
+      originalDescription: product.originalDescription ?? product.description,
+      isOptimized: true,
+      optimizedCopy: {
+        ...copy,
+        optimizedAt: new Date().toISOString(),
+        optimizationType: "ab-test",
+        ...(variant.generationId ? { generationId: variant.generationId } : {}),
+      },
+    }, { source: "ab-test", operationId: test.id });
+  }
+  if (variant.generationId) {
+    await store.updateAiGeneration(variant.generationId, { appliedAt: new Date() });
+  }
+
+  await store.createNotification(promotedNotification(updated, variant, product, automatic));
+  await store.createActivityLog(test.userId, {
+    action: "promoted_ab_variant",
+    description: `Promoted variant ${variant.label} of A/B test "${test.name}"`,
+    toolUsed: "ab-testing",
+    metadata: { testId: test.id, variantId: variant.id, automatic },
+  });
+  return updated;
+}
+
+export class UnknownAbVariantError extends Error {
+  constructor(readonly variantIds: string[]) {
+    super("Unknown variant");
+    this.name = "UnknownAbVariantError";
+  }
+}
+
+export interface AbEventsResult {
+  accepted: number;
+  // Set when this batch decided the test
+  promotedVariantId?: string;
+}
+
+// Adds a storefront batch to the variant counters. Unknown variant ids are
+// rejected as a whole so a bad batch doesn't half-apply.
+//
+// Auto-promote is a fixed-sample test: it compares the variants once, on the
+// first batch that brings every competing variant to minImpressions, and
+// promotes the winner if there is one. Testing again after every batch would
+// let noise cross the significance threshold sooner or later, so later
+// batches only count. The look is claimed in storage so concurrent batches
+// can't each take one.
+export async function recordAbTestEvents(store: EventStore, test: AbTest, { events }: AbTestEvents): Promise<AbEventsResult> {
+  const variants = await store.getAbTestVariants(test.id);
+  const known = new Set(variants.map(variant => variant.id));
+  const unknown = events.filter(event => !known.has(event.variantId));
+  if (unknown.length > 0) {
+    throw new UnknownAbVariantError(unknown.map(event => event.variantId));
+  }
+
+  const totals = new Map<string, AbTestCounts>();
+  for (const event of events) {
+    const counts = totals.get(event.variantId) || {};
+    const field = event.type === "impression" ? "impressions" : event.type === "click" ? "clicks" : "conversions";
+    counts[field] = (counts[field] ?? 0) + event.count;
+    totals.set(event.variantId, counts);
+  }
+  for (const [variantId, counts] of Array.from(totals)) {
+    await store.incrementAbTestVariant(variantId, counts);
+  }
+
+  const result: AbEventsResult = { accepted: events.length };
+  if (!test.autoPromote || test.evaluatedAt) return result;
+
+  const updated = await store.getAbTestVariants(test.id);
+  const { ready, winnerId } = analyzeAbTest(test, updated);
+  if (!ready) return result;
+  const claimed = await store.claimAbTestEvaluation(test.id);
+  if (!claimed) return result;
+
+  const winner = updated.find(variant => variant.id === winnerId);
+  if (winner) {
+    if (await promoteAbVariant(store, claimed, winner, true)) {
+      result.promotedVariantId = winner.id;
+    }
+  } else {
+    const product = await store.getProduct(test.productId);
+    if (product) await store.createNotification(undecidedNotification(claimed, product));
+  }
+  return result;
+}
@@ -0,0 +1,246 @@
+import type { AdPlatform, OptimizedCopy } from "@shared/schema";
+import { productHandle, productLink, type FeedProduct } from "./catalog-feed";
+import { toCsv } from "./csv";
+
+// Responsive search ads: 3-15 headlines of 30 characters, 2-4 descriptions of
+// 90, and two 15-character display path segments
+export const GOOGLE_ADS_LIMITS = {
+  headline: 30,
+  description: 90,
+  path: 15,
+  minHeadlines: 3,
+  maxHeadlines: 15,
+  minDescriptions: 2,
+  maxDescriptions: 4,
+};
+
+// Meta single-image ads: past these lengths the text is cut off in most placements
+export const META_ADS_LIMITS = {
+  primaryText: 125,
+  headline: 40,
+  linkDescription: 30,
+};
+
+export interface SkippedAd {
+  productId: string;
+  name: string;
+  reason: string;
+}
+
+export interface AdExport {
+  platform: AdPlatform;
+  adCount: number;
+  rows: string[][];
+  skipped: SkippedAd[];
+  // Products where some copy was too long and was shortened to fit
+  shortened: number;
+}
+
+// Shortens text to the limit at a word boundary, without an ellipsis since ad
+// platforms count it against the limit and it reads badly in a headline
+export function fitToLimit(text: string, max: number): string {
+  const clean = text.replace(/\s+/g, " ").trim();
+  if (clean.length <= max) return clean;
+
+  const cut = clean.slice(0, max + 1);
+  const lastSpace = cut.lastIndexOf(" ");
+  const shortened = lastSpace > max / 2 ? cut.slice(0, lastSpace) : clean.slice(0, max);
+  return shortened.replace(/[\s,;:&\-–—]+$/, "");
+}
+
+function sentences(text: string | null | undefined): string[] {
+  if (!text) return [];
+  return text.replace(/\s+/g, " ").trim().split(/(?<=[.!?])\s+/).filter(Boolean);
+}
+
+// Fits each candidate, dropping empties and case-insensitive duplicates, and
+// reports whether anything had to be cut
+function pickCopy(candidates: Array<string | null | undefined>, max: number, count: number) {
+  const picked: string[] = [];
+  const seen = new Set<string>();
+  let shortened = false;
+
+  for (const candidate of candidates) {
+    if (picked.length >= count) break;
+    if (!candidate || !candidate.trim()) continue;
+
+    const fitted = fitToLimit(candidate, max);
+    const key = fitted.toLowerCase();
+    if (!fitted || seen.has(key)) continue;
+
+    if (fitted.length < candidate.replace(/\s+/g, " ").trim().length) shortened = true;
+    seen.add(key);
+    picked.push(fitted);
+  }
+  return { picked, shortened };
+}
+
+function optimizedCopyOf(entry: FeedProduct): OptimizedCopy {
+  const copy = entry.product.optimizedCopy;
+  return copy && typeof copy === "object" ? copy as OptimizedCopy : {};
+}
+
+function categoryLeaf(entry: FeedProduct): string | null {
+  return entry.categoryPath?.split(" > ").pop() || null;
+}
+
+const GOOGLE_ADS_HEADER = [
+  "Campaign",
+  "Ad Group",
+  "Ad type",
+  "Status",
+  ...Array.from({ length: GOOGLE_ADS_LIMITS.maxHeadlines }, (_, i) => `Headline ${i + 1}`),
+  ...Array.from({ length: GOOGLE_ADS_LIMITS.maxDescriptions }, (_, i) => `Description ${i + 1}`),
+  "Path 1",
+  "Path 2",
+  "Final URL",
+];
+
+const META_ADS_HEADER = [
+  "Campaign Name",
+  "Ad Set Name",
+  "Ad Name",
+  "Ad Status",
+  "Title",
+  "Body",
+  "Link Description",
+  "Link",
+  "Call to Action",
+];
+
+function padded(values: string[], length: number): string[] {
+  return [...values, ...Array(length - values.length).fill("")];
+}
+
+// One paused responsive search ad per product, in an ad group named after it,
+// in the layout Google Ads Editor imports
+export function buildGoogleAdsExport(entries: FeedProduct[], linkTemplate: string | null, campaign: string): AdExport {
+  const result: AdExport = { platform: "google-ads", adCount: 0, rows: [GOOGLE_ADS_HEADER], skipped: [], shortened: 0 };
+
+  for (const entry of entries) {
+    const { product, seo } = entry;
+    const copy = optimizedCopyOf(entry);
+    const link = productLink(linkTemplate, product);
+    if (!link) {
+      result.skipped.push({ productId: product.id, name: product.name, reason: "Missing link: set a product link template in the feed settings" });
+      continue;
+    }
+
+    const leaf = categoryLeaf(entry);
+    const headlines = pickCopy([
+      ...(copy.headlines || []),
+      product.name,
+      seo?.optimizedTitle,
+      seo?.seoTitle,
+      `Buy ${product.name}`,
+      leaf && `Shop ${leaf}`,
+    ], GOOGLE_ADS_LIMITS.headline, GOOGLE_ADS_LIMITS.maxHeadlines);
+    const descriptions = pickCopy([
+      ...(copy.descriptions || []),
+      seo?.optimizedMeta,
+      seo?.metaDescription,
+      ...sentences(product.description),
+    ], GOOGLE_ADS_LIMITS.description, GOOGLE_ADS_LIMITS.maxDescriptions);
+
+    if (headlines.picked.length < GOOGLE_ADS_LIMITS.minHeadlines) {
+      result.skipped.push({
+        productId: product.id,
+        name: product.name,
+        reason: `Needs at least ${GOOGLE_ADS_LIMITS.minHeadlines} distinct headlines; add ad headlines or SEO titles`,
+      });
+      continue;
+    }
+    if (descriptions.picked.length < GOOGLE_ADS_LIMITS.minDescriptions) {
+      result.skipped.push({
+        productId: product.id,
+        name: product.name,
+        reason: `Needs at least ${GOOGLE_ADS_LIMITS.minDescriptions} descriptions; add a product description or SEO meta description`,
+      });
+      continue;
+    }
+
+    if (headlines.shortened || descriptions.shortened) result.shortened++;
+    result.adCount++;
+    result.rows.push([
+      campaign,
+      fitToLimit(product.name, 255),
+      "Responsive search ad",
+      "Paused",
+      ...padded(headlines.picked, GOOGLE_ADS_LIMITS.maxHeadlines),
+      ...padded(descriptions.picked, GOOGLE_ADS_LIMITS.maxDescriptions),
+      fitToLimit(productHandle(leaf || ""), GOOGLE_ADS_LIMITS.path),
+      fitToLimit(productHandle(product.name), GOOGLE_ADS_LIMITS.path),
+      link,
+    ]);
+  }
+  return result;
+}
+
+// One paused link ad per product, in an ad set named after its category, in the
+// layout the Ads Manager bulk import takes. Images come from the Meta catalog.
+export function buildMetaAdsExport(entries: FeedProduct[], linkTemplate: string | null, campaign: string): AdExport {
+  const result: AdExport = { platform: "meta-ads", adCount: 0, rows: [META_ADS_HEADER], skipped: [], shortened: 0 };
+
+  for (const entry of entries) {
+    const { product, seo } = entry;
+    const copy = optimizedCopyOf(entry);
+    const link = productLink(linkTemplate, product);
+    if (!link) {
+      result.skipped.push({ productId: product.id, name: product.name, reason: "Missing link: set a product link template in the feed settings" });
+      continue;
+    }
+
+    const body = pickCopy([
+      copy.primaryText,
+      ...(copy.descriptions || []),
+      seo?.optimizedMeta,
+      seo?.metaDescription,
+      ...sentences(product.description),
+    ], META_ADS_LIMITS.primaryText, 1);
+    if (body.picked.length === 0) {
+      result.skipped.push({
+        productId: product.id,
+        name: product.name,
+        reason: "No primary text; add a product description or SEO meta description",
+      });
+      continue;
+    }
+
+    const title = pickCopy([...(copy.headlines || []), seo?.optimizedTitle, product.name], META_ADS_LIMITS.headline, 1);
+    const linkDescription = pickCopy([
+      ...(copy.headlines || []).slice(1),
+      ...(copy.descriptions || []),
+      categoryLeaf(entry) && `Shop ${categoryLeaf(entry)}`,
+    ], META_ADS_LIMITS.linkDescription, 1);
+
+    if (body.shortened || title.shortened || linkDescription.shortened) result.shortened++;
+    result.adCount++;
+    result.rows.push([
+      campaign,
+      categoryLeaf(entry) || product.category,
+      fitToLimit(product.name, 100),
+      "Paused",
+      title.picked[0],
+      body.picked[0],
+      linkDescription.picked[0] || "",
+      link,
+      "SHOP_NOW",
+    ]);
+  }
+  return result;
+}
+
+export function buildAdExport(
+  platform: AdPlatform,
+  entries: FeedProduct[],
+  linkTemplate: string | null,
+  campaign: string
+): AdExport {
+  return platform === "meta-ads"
+    ? buildMetaAdsExport(entries, linkTemplate, campaign)
+    : buildGoogleAdsExport(entries, linkTemplate, campaign);
+}
+
+export function adExportCsv(adExport: AdExport): string {
+  return toCsv(adExport.rows);
+}
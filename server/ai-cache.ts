@@ -0,0 +1,118 @@
+import { createHash } from "crypto";
+import type { AIProviderName, AiGenerationTool } from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { ResolvedAIProvider } from "./ai-providers";
+import type { StructuredCompletion } from "./ai-responses";
+
+// Content-addressed cache of AI results. A request is keyed by a hash of the
+// tool, the prompt template and its version, the normalized inputs, the
+// provider and model, and the brand voice sent as system instructions, so the
+// same request made again within the TTL is answered without a provider call.
+// Keys don't include the user: identical inputs get the same copy whoever asks.
+
+// Bump to drop every entry when the prompts or the stored output change shape
+const CACHE_FORMAT_VERSION = 1;
+const DEFAULT_TTL_HOURS = 24 * 7;
+
+type CacheStore = Pick<IStorage, "getAiCacheEntry" | "saveAiCacheEntry" | "recordAiCacheHit">;
+
+// AI_CACHE_TTL_HOURS sets how long results are reused; 0 turns the cache off
+export function aiCacheTtlMs(): number {
+  const hours = Number(process.env.AI_CACHE_TTL_HOURS ?? DEFAULT_TTL_HOURS);
+  return Number.isFinite(hours) && hours > 0 ? hours * 60 * 60 * 1000 : 0;
+}
+
+function normalizeText(value: string): string {
+  return value.normalize("NFC").replace(/\s+/g, " ").trim();
+}
+
+// Whitespace and key order don't change the answer, and neither do empty
+// fields, which the prompts leave out or print the same way
+function normalizeInput(value: unknown): unknown {
+  if (typeof value === "string") return normalizeText(value);
+  if (Array.isArray(value)) return value.map(normalizeInput);
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    const normalized: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      const field = normalizeInput((value as Record<string, unknown>)[key]);
+      if (field !== undefined && field !== null && field !== "") normalized[key] = field;
+    }
+    return normalized;
+  }
+  return value;
+}
+
+// "Organic cotton, tee" and "tee,organic cotton" ask for the same thing
+export function normalizeKeywords(keywords: string): string {
+  return Array.from(new Set(
+    keywords.split(",").map(keyword => normalizeText(keyword).toLowerCase()).filter(Boolean)
+  )).sort().join(", ");
+}
+
+export interface AICacheRequest {
+  tool: AiGenerationTool;
+  // The prompt template and version, e.g. "description:<template id>@v3"
+  template: string;
+  inputs: Record<string, unknown>;
+  ai: ResolvedAIProvider;
+}
+
+export function aiCacheKey({ tool, template, inputs, ai }: AICacheRequest): string {
+  const material = JSON.stringify([
+    CACHE_FORMAT_VERSION,
+    tool,
+    template,
+    normalizeInput(inputs),
+    ai.provider.name,
+    ai.model,
+    normalizeText(ai.instructions || ""),
+  ]);
+  return createHash("sha256").update(material).digest("hex");
+}
+
+export interface CachedCompletion<T> extends StructuredCompletion<T> {
+  // True when the result came from the cache; completion.usage is then zero
+  cached: boolean;
+}
+
+// Answers from the cache when it can, otherwise runs complete and stores the
+// result. noCache skips the lookup but still refreshes the entry.
+export async function completeCached<T>(
+  store: CacheStore,
+  request: AICacheRequest,
+  noCache: boolean | undefined,
+  complete: () => Promise<StructuredCompletion<T>>
+): Promise<CachedCompletion<T>> {
+  const ttl = aiCacheTtlMs();
+  if (ttl === 0) return { ...await complete(), cached: false };
+
+  const key = aiCacheKey(request);
+  if (!noCache) {
+    const entry = await store.getAiCacheEntry(key);
+    if (entry) {
+      await store.recordAiCacheHit(key);
+      return {
+        data: entry.output as T,
+        completion: {
+          text: JSON.stringify(entry.output),
+          provider: entry.provider as AIProviderName,
+          model: entry.model,
+          usage: { inputTokens: 0, outputTokens: 0 },
+        },
+        attempts: 0,
+        cached: true,
+      };
+    }
+  }
+
+  const result = await complete();
+  await store.saveAiCacheEntry({
+    key,
+    tool: request.tool,
+    output: result.data as Record<string, unknown>,
+    provider: result.completion.provider,
+    model: result.completion.model,
+    expiresAt: new Date(Date.now() + ttl),
+  });
+  return { ...result, cached: false };
+}
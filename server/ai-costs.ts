@@ -0,0 +1,161 @@
+import type {
+  AICostReport,
+  AICostTotals,
+  AiCostQuery,
+  AiUsageFeature,
+  AiUsageTally,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { AICompletion, ResolvedAIProvider } from "./ai-providers";
+
+// What each customer costs in LLM spend. Every provider response is recorded
+// in ai_usage_events with its tokens and a cost from the price table below,
+// and GET /api/usage/ai-costs adds them up.
+
+export interface ModelPrice {
+  // US dollars per million tokens
+  input: number;
+  output: number;
+}
+
+// List prices per model. AI_PRICES overrides or adds entries as JSON, e.g.
+// AI_PRICES='{"gpt-5":{"input":1.25,"output":10}}'.
+const DEFAULT_AI_PRICES: Record<string, ModelPrice> = {
+  "gpt-5": { input: 1.25, output: 10 },
+  "gpt-5-mini": { input: 0.25, output: 2 },
+  "claude-opus-4-1": { input: 15, output: 75 },
+  "claude-sonnet-4-5": { input: 3, output: 15 },
+  "claude-haiku-4-5": { input: 1, output: 5 },
+};
+
+// Self-hosted and test models have no per-token price
+const FREE_PROVIDERS = new Set(["local", "mock"]);
+
+let priceTable: Record<string, ModelPrice> | undefined;
+
+function isModelPrice(value: unknown): value is ModelPrice {
+  const price = value as ModelPrice;
+  return typeof price === "object" && price !== null
+    && Number.isFinite(price.input) && price.input >= 0
+    && Number.isFinite(price.output) && price.output >= 0;
+}
+
+export function aiPriceTable(): Record<string, ModelPrice> {
+  if (priceTable) return priceTable;
+  priceTable = { ...DEFAULT_AI_PRICES };
+  if (process.env.AI_PRICES) {
+    try {
+      const overrides = JSON.parse(process.env.AI_PRICES) as Record<string, unknown>;
+      for (const [model, price] of Object.entries(overrides)) {
+        if (isModelPrice(price)) {
+          priceTable[model] = { input: price.input, output: price.output };
+        } else {
+          console.warn(`AI_PRICES: ignoring the price for ${model}; it needs numeric input and output`);
+        }
+      }
+    } catch (error) {
+      console.error("AI_PRICES is not valid JSON; using the default prices:", error);
+    }
+  }
+  return priceTable;
+}
+
+export interface AICallCost {
+  costMicros: number;
+  // False when the model isn't in the price table
+  priced: boolean;
+}
+
+export function aiCallCost(completion: Pick<AICompletion, "provider" | "model" | "usage">): AICallCost {
+  if (FREE_PROVIDERS.has(completion.provider)) return { costMicros: 0, priced: true };
+  const price = aiPriceTable()[completion.model];
+  if (!price) return { costMicros: 0, priced: false };
+  // A dollar per million tokens is a micro-dollar per token
+  return {
+    costMicros: Math.round(completion.usage.inputTokens * price.input + completion.usage.outputTokens * price.output),
+    priced: true,
+  };
+}
+
+type UsageStore = Pick<IStorage, "createAiUsageEvent">;
+
+export async function recordAIUsage(
+  store: UsageStore,
+  userId: string,
+  feature: AiUsageFeature,
+  completion: AICompletion
+): Promise<void> {
+  const { costMicros, priced } = aiCallCost(completion);
+  await store.createAiUsageEvent({
+    userId,
+    feature,
+    provider: completion.provider,
+    model: completion.model,
+    inputTokens: completion.usage.inputTokens,
+    outputTokens: completion.usage.outputTokens,
+    costMicros,
+    priced,
+  });
+}
+
+// The same provider, recording every response it returns against the user
+// and feature, repair attempts included
+export function trackAIUsage(
+  ai: ResolvedAIProvider,
+  store: UsageStore,
+  userId: string,
+  feature: AiUsageFeature
+): ResolvedAIProvider {
+  return { ...ai, onCompletion: completion => recordAIUsage(store, userId, feature, completion) };
+}
+
+function totalsOf(tally: Omit<AiUsageTally, "key">): AICostTotals {
+  return {
+    calls: tally.calls,
+    inputTokens: tally.inputTokens,
+    outputTokens: tally.outputTokens,
+    costUsd: tally.costMicros / 1000000,
+  };
+}
+
+type ReportStore = Pick<IStorage, "getAiUsageTallies" | "getUnpricedAiModels" | "getUser">;
+
+// Totals for the last query.days days by UTC day, feature and user, summed in
+// the database. Scope "me" covers userId only; the route checks that "all" is
+// asked for by an admin.
+export async function buildAICostReport(store: ReportStore, userId: string, query: AiCostQuery): Promise<AICostReport> {
+  const to = new Date();
+  const from = new Date(to.getTime() - query.days * 24 * 60 * 60 * 1000);
+  const only = query.scope === "all" ? undefined : userId;
+
+  const [days, features, users, unpricedModels] = await Promise.all([
+    store.getAiUsageTallies(from, "day", { userId: only }),
+    store.getAiUsageTallies(from, "feature", { userId: only }),
+    store.getAiUsageTallies(from, "user", { userId: only, limit: query.limit }),
+    store.getUnpricedAiModels(from, only),
+  ]);
+
+  // Every call has exactly one feature, so the features add up to the total
+  const total = features.reduce((sum, tally) => ({
+    calls: sum.calls + tally.calls,
+    inputTokens: sum.inputTokens + tally.inputTokens,
+    outputTokens: sum.outputTokens + tally.outputTokens,
+    costMicros: sum.costMicros + tally.costMicros,
+  }), { calls: 0, inputTokens: 0, outputTokens: 0, costMicros: 0 });
+
+  const byUser = await Promise.all(users.map(async tally => {
+    const user = await store.getUser(tally.key);
+    return { userId: tally.key, email: user?.email ?? null, plan: user?.plan ?? null, ...totalsOf(tally) };
+  }));
+
+  return {
+    scope: query.scope,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    totals: totalsOf(total),
+    byDay: days.map(tally => ({ day: tally.key, ...totalsOf(tally) })),
+    byFeature: features.map(tally => ({ feature: tally.key, ...totalsOf(tally) })),
+    byUser,
+    unpricedModels,
+  };
+}
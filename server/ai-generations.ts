@@ -0,0 +1,374 @@
+import {
+  ALT_TEXT_MAX_LENGTH,
+  META_DESCRIPTION_MAX_LENGTH,
+  SEO_TITLE_MAX_LENGTH,
+  type AiGeneration,
+  type OptimizedCopy,
+  type Product,
+  type ProductTranslation,
+  type PromptTemplate,
+  type SeoMeta,
+  type SupportedLocale,
+  type TranslationGlossary,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { AICompletion, AICompletionRequest, ResolvedAIProvider } from "./ai-providers";
+import {
+  ALT_TEXT_RESPONSE_LIMITS,
+  SEO_RESPONSE_LIMITS,
+  TRANSLATION_RESPONSE_LIMITS,
+  altTextResponseSchema,
+  completeStructured,
+  descriptionResponseSchema,
+  seoResponseSchema,
+  translationResponseSchema,
+} from "./ai-responses";
+import { renderPromptTemplate, type TemplateVariables } from "./prompt-templates";
+import type { VersionContext } from "./product-versions";
+import { glossaryIssues, sourceHash, translationPrompt, type TranslationSource } from "./translations";
+import { UNTRUSTED_DATA_NOTICE, screenPromptInput, untrusted } from "./prompt-safety";
+import { trackAIUsage } from "./ai-costs";
+import { completeCached, normalizeKeywords } from "./ai-cache";
+
+type GenerationStore = Pick<
+  IStorage,
+  | "updateProduct"
+  | "getSeoMeta"
+  | "createSeoMeta"
+  | "updateSeoMeta"
+  | "updateAiGeneration"
+  | "getProductTranslation"
+  | "saveProductTranslation"
+>;
+// Suspicious input is logged as activity before the request goes out, every
+// provider response is recorded with its cost, and results are cached
+type RecordStore = Pick<
+  IStorage,
+  | "createAiGeneration"
+  | "createActivityLog"
+  | "createAiUsageEvent"
+  | "getAiCacheEntry"
+  | "saveAiCacheEntry"
+  | "recordAiCacheHit"
+>;
+
+// onText and signal are set by the streaming endpoints: forward tokens as they
+// arrive, and stop without recording anything if the signal aborts. noCache
+// asks the provider again even if the same request is cached.
+export type GenerationOptions = Pick<AICompletionRequest, "onText" | "signal"> & { noCache?: boolean };
+
+export interface DescriptionGeneration {
+  description: string;
+  generation: AiGeneration;
+  completion: AICompletion;
+  // Answered from the AI cache without a provider call
+  cached: boolean;
+}
+
+// Renders the template, asks the model and records the generation
+export async function generateDescription(
+  store: RecordStore,
+  ai: ResolvedAIProvider,
+  userId: string,
+  template: PromptTemplate,
+  variables: TemplateVariables,
+  productId: string | null,
+  options: GenerationOptions = {}
+): Promise<DescriptionGeneration> {
+  await screenPromptInput(store, userId, variables, { tool: "description", productId });
+  const { prompt } = renderPromptTemplate(template.body, variables);
+  const promptTemplate = `description:${template.key}@v${template.version}`;
+  const { data: result, completion, cached } = await completeCached(store, {
+    tool: "description",
+    template: `${promptTemplate}:${template.id}`,
+    inputs: { ...variables },
+    ai,
+  }, options.noCache, () => completeStructured(trackAIUsage(ai, store, userId, "description"), {
+    messages: [{ role: "user", content: prompt }],
+    onText: options.onText,
+    signal: options.signal,
+  }, descriptionResponseSchema));
+
+  const generation = await store.createAiGeneration({
+    userId,
+    productId,
+    tool: "description",
+    promptTemplate,
+    input: { ...variables, brandVoice: template.key, templateId: template.id },
+    provider: completion.provider,
+    model: completion.model,
+    output: { description: result.description },
+    inputTokens: completion.usage.inputTokens,
+    outputTokens: completion.usage.outputTokens,
+  });
+  return { description: result.description, generation, completion, cached };
+}
+
+export interface SeoInput {
+  currentTitle: string;
+  keywords: string;
+  currentMeta?: string;
+  category?: string;
+}
+
+export interface SeoResult {
+  optimizedTitle: string;
+  optimizedMeta: string;
+  keywords: string[];
+  seoScore: number;
+}
+
+export interface SeoGeneration {
+  result: SeoResult;
+  generation: AiGeneration;
+  completion: AICompletion;
+  cached: boolean;
+}
+
+export function seoPrompt({ currentTitle, keywords, currentMeta, category }: SeoInput): string {
+  return `${UNTRUSTED_DATA_NOTICE}
+
+                      Optimize the following product for SEO:
+                      Current Title: "${untrusted(currentTitle)}"
+                      Keywords: "${untrusted(keywords)}"
+                      Category: "${untrusted(category)}"
+                      Current Meta: "${untrusted(currentMeta)}"
+                      
+                      Create an optimized SEO title (under ${SEO_TITLE_MAX_LENGTH} characters), meta description (under ${META_DESCRIPTION_MAX_LENGTH} characters), 
+                      and suggest 5-7 relevant keywords. Calculate an SEO score out of 100.
+                      
+                      Respond with JSON in this format:
+                      {
+                        "optimizedTitle": "your title",
+                        "optimizedMeta": "your meta description", 
+                        "keywords": ["keyword1", "keyword2", "keyword3"],
+                        "seoScore": 85
+                      }`;
+}
+
+export async function generateSeo(
+  store: RecordStore,
+  ai: ResolvedAIProvider,
+  userId: string,
+  input: SeoInput,
+  productId: string | null,
+  options: GenerationOptions = {}
+): Promise<SeoGeneration> {
+  await screenPromptInput(store, userId, { ...input }, { tool: "seo", productId });
+  const { data: result, completion, cached } = await completeCached(store, {
+    tool: "seo",
+    template: "seo:optimize",
+    inputs: { ...input, keywords: normalizeKeywords(input.keywords) },
+    ai,
+  }, options.noCache, () => completeStructured(trackAIUsage(ai, store, userId, "seo"), {
+    messages: [{ role: "user", content: seoPrompt(input) }],
+    onText: options.onText,
+    signal: options.signal,
+  }, seoResponseSchema, SEO_RESPONSE_LIMITS));
+
+  const generation = await store.createAiGeneration({
+    userId,
+    productId,
+    tool: "seo",
+    promptTemplate: "seo:optimize",
+    input,
+    provider: completion.provider,
+    model: completion.model,
+    output: result,
+    inputTokens: completion.usage.inputTokens,
+    outputTokens: completion.usage.outputTokens,
+  });
+  return { result, generation, completion, cached };
+}
+
+export interface AltTextGeneration {
+  altText: string;
+  generation: AiGeneration;
+  completion: AICompletion;
+  cached: boolean;
+}
+
+export function altTextPrompt(product: Pick<Product, "name" | "category" | "features">): string {
+  return `${UNTRUSTED_DATA_NOTICE}
+
+Write alt text for the attached image of the product "${untrusted(product.name)}" (category: ${untrusted(product.category)}${product.features ? `; features: ${untrusted(product.features)}` : ""}).
+Describe what is visible (the product, its color, material and setting) for someone who can't see the image.
+Don't start with "Image of" or "Picture of" and don't add marketing claims. Keep it under ${ALT_TEXT_MAX_LENGTH} characters.
+
+Respond with JSON in this format:
+{
+  "altText": "your alt text"
+}`;
+}
+
+// Sends the product image to the model. Callers check the product has one.
+export async function generateAltText(
+  store: RecordStore,
+  ai: ResolvedAIProvider,
+  userId: string,
+  product: Product,
+  options: Pick<GenerationOptions, "noCache"> = {}
+): Promise<AltTextGeneration> {
+  if (!product.image) throw new Error("Product has no image");
+  const fields = { name: product.name, category: product.category, features: product.features };
+  await screenPromptInput(store, userId, fields, { tool: "alt-text", productId: product.id });
+
+  const { data: { altText }, completion, cached } = await completeCached(store, {
+    tool: "alt-text",
+    template: "alt-text:describe",
+    inputs: { ...fields, image: product.image },
+    ai,
+  }, options.noCache, () => completeStructured(trackAIUsage(ai, store, userId, "alt-text"), {
+    messages: [{ role: "user", content: altTextPrompt(product), images: [product.image!] }],
+  }, altTextResponseSchema, ALT_TEXT_RESPONSE_LIMITS));
+
+  const generation = await store.createAiGeneration({
+    userId,
+    productId: product.id,
+    tool: "alt-text",
+    promptTemplate: "alt-text:describe",
+    input: { productName: product.name, image: product.image },
+    provider: completion.provider,
+    model: completion.model,
+    output: { altText },
+    inputTokens: completion.usage.inputTokens,
+    outputTokens: completion.usage.outputTokens,
+  });
+  return { altText, generation, completion, cached };
+}
+
+export interface TranslationGeneration {
+  translated: Partial<TranslationSource>;
+  // Brand terms or glossary entries the model didn't follow
+  issues: string[];
+  generation: AiGeneration;
+  completion: AICompletion;
+  cached: boolean;
+}
+
+// Translates the fields the source has. The source hash is recorded with the
+// generation so an applied translation is stale if the product changed since.
+export async function generateTranslation(
+  store: RecordStore,
+  ai: ResolvedAIProvider,
+  userId: string,
+  productId: string,
+  source: TranslationSource,
+  locale: SupportedLocale,
+  glossary: TranslationGlossary,
+  options: Pick<GenerationOptions, "noCache"> = {}
+): Promise<TranslationGeneration> {
+  await screenPromptInput(store, userId, { ...source }, { tool: "translation", productId });
+  const { data: result, completion, cached } = await completeCached(store, {
+    tool: "translation",
+    template: `translation:${locale}`,
+    inputs: { source, glossary },
+    ai,
+  }, options.noCache, () => completeStructured(trackAIUsage(ai, store, userId, "translation"), {
+    messages: [{ role: "user", content: translationPrompt(source, locale, glossary) }],
+  }, translationResponseSchema, TRANSLATION_RESPONSE_LIMITS));
+
+  // Only the fields the source has
+  const translated: Partial<TranslationSource> = {};
+  for (const key of Object.keys(source) as Array<keyof TranslationSource>) {
+    if (source[key] && result[key]) {
+      translated[key] = result[key];
+    }
+  }
+
+  const generation = await store.createAiGeneration({
+    userId,
+    productId,
+    tool: "translation",
+    promptTemplate: `translation:${locale}`,
+    input: { productName: source.name, locale, source, sourceHash: sourceHash(source) },
+    provider: completion.provider,
+    model: completion.model,
+    output: { locale, ...translated },
+    inputTokens: completion.usage.inputTokens,
+    outputTokens: completion.usage.outputTokens,
+  });
+  return { translated, issues: glossaryIssues(source, translated, glossary, locale), generation, completion, cached };
+}
+
+export interface AppliedGeneration {
+  generation: AiGeneration;
+  product?: Product;
+  seoMeta?: SeoMeta;
+  translation?: ProductTranslation;
+}
+
+// Writes a stored generation into a product: descriptions replace the product
+// description (keeping the first original for rollback), alt text goes into
+// imageAltText, translations replace the product's copy for that locale (and
+// keep its published state), SEO results go into the product's seo_meta row. Product writes are versioned with source "ai" unless
+// the caller passes its own context (e.g. a bulk job's operation id).
+export async function applyGeneration(
+  store: GenerationStore,
+  generation: AiGeneration,
+  product: Product,
+  context: VersionContext = { source: "ai" }
+): Promise<AppliedGeneration> {
+  const output = (generation.output || {}) as Record<string, any>;
+  const result: Partial<AppliedGeneration> = {};
+
+  if (generation.tool === "description") {
+    if (typeof output.description !== "string" || !output.description.trim()) {
+      throw new Error("Generation has no description to apply");
+    }
+    const copy = (product.optimizedCopy || {}) as OptimizedCopy;
+    result.product = await store.updateProduct(product.id, {
+      description: output.description,
+      originalDescription: product.originalDescription ?? product.description,
+      isOptimized: true,
+      optimizedCopy: {
+        ...copy,
+        optimizedAt: new Date().toISOString(),
+        optimizationType: "ai-generation",
+        generationId: generation.id,
+      },
+    }, context);
+  } else if (generation.tool === "alt-text") {
+    if (typeof output.altText !== "string" || !output.altText.trim()) {
+      throw new Error("Generation has no alt text to apply");
+    }
+    result.product = await store.updateProduct(product.id, { imageAltText: output.altText }, context);
+  } else if (generation.tool === "translation") {
+    const input = (generation.input || {}) as Record<string, any>;
+    if (typeof output.name !== "string" || !output.locale) {
+      throw new Error("Generation has no translation to apply");
+    }
+    const existing = await store.getProductTranslation(product.id, output.locale);
+    result.translation = await store.saveProductTranslation({
+      productId: product.id,
+      userId: product.userId,
+      locale: output.locale,
+      name: output.name,
+      description: output.description ?? null,
+      seoTitle: output.seoTitle ?? null,
+      metaDescription: output.metaDescription ?? null,
+      imageAltText: output.imageAltText ?? null,
+      source: "ai",
+      generationId: generation.id,
+      sourceHash: input.sourceHash,
+      publishedAt: existing?.publishedAt ?? null,
+    });
+  } else {
+    const updates = {
+      optimizedTitle: output.optimizedTitle ?? null,
+      optimizedMeta: output.optimizedMeta ?? null,
+      keywords: Array.isArray(output.keywords) ? output.keywords.join(", ") : output.keywords ?? null,
+      seoScore: typeof output.seoScore === "number" ? Math.round(output.seoScore) : null,
+    };
+    const existing = await store.getSeoMeta(product.id);
+    result.seoMeta = existing
+      ? await store.updateSeoMeta(product.id, updates)
+      : await store.createSeoMeta({ productId: product.id, seoTitle: product.name, ...updates });
+  }
+
+  result.generation = await store.updateAiGeneration(generation.id, {
+    productId: product.id,
+    appliedAt: new Date(),
+  });
+  return result as AppliedGeneration;
+}
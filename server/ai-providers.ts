@@ -0,0 +1,562 @@
+import OpenAI from "openai";
+import { createHash } from "crypto";
+import type { AIErrorCode, AIProviderName, AIProviderOptions, AISelection } from "@shared/schema";
+
+// Provider-neutral chat completion, so routes don't depend on one vendor's SDK
+
+export interface AIMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+  // Image URLs (http(s) or data:) the model should look at along with the text
+  images?: string[];
+}
+
+export interface AICompletionRequest {
+  messages: AIMessage[];
+  model: string;
+  // Ask for a single JSON object as the reply
+  json?: boolean;
+  maxTokens?: number;
+  // Streams the reply: called with each chunk of text as it arrives. The
+  // completion still resolves with the full text.
+  onText?: (delta: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface AIUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface AICompletion {
+  text: string;
+  provider: AIProviderName;
+  model: string;
+  usage: AIUsage;
+}
+
+export interface AIProvider {
+  readonly name: AIProviderName;
+  readonly defaultModel: string;
+  isConfigured(): boolean;
+  // Whether requests may carry images
+  supportsImages(): boolean;
+  complete(request: AICompletionRequest): Promise<AICompletion>;
+}
+
+export class AIProviderError extends Error {
+  constructor(
+    readonly code: AIErrorCode,
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = "AIProviderError";
+  }
+}
+
+// OpenAI itself, or any server speaking the same chat completions API
+// (Ollama, vLLM, LM Studio, llama.cpp server)
+class OpenAICompatibleProvider implements AIProvider {
+  private client: OpenAI | null = null;
+
+  constructor(
+    readonly name: AIProviderName,
+    readonly defaultModel: string,
+    private readonly options: { apiKey?: string; baseURL?: string; vision?: boolean }
+  ) {}
+
+  isConfigured(): boolean {
+    return this.name === "local" ? !!this.options.baseURL : !!this.options.apiKey;
+  }
+
+  supportsImages(): boolean {
+    return this.options.vision ?? true;
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        // Local servers usually ignore the key, but the SDK insists on one
+        apiKey: this.options.apiKey || "not-needed",
+        baseURL: this.options.baseURL,
+      });
+    }
+    return this.client;
+  }
+
+  async complete(request: AICompletionRequest): Promise<AICompletion> {
+    const body = {
+      model: request.model,
+      messages: request.messages.map(toOpenAIMessage),
+      ...(request.json ? { response_format: { type: "json_object" as const } } : {}),
+      ...(request.maxTokens ? { max_completion_tokens: request.maxTokens } : {}),
+    };
+    if (request.onText) {
+      return this.stream(body, request.onText, request.signal);
+    }
+
+    const response = await this.getClient().chat.completions.create(body, { signal: request.signal });
+
+    return {
+      text: response.choices[0]?.message.content || "",
+      provider: this.name,
+      model: response.model || request.model,
+      usage: {
+        inputTokens: response.usage?.prompt_tokens ?? 0,
+        outputTokens: response.usage?.completion_tokens ?? 0,
+      },
+    };
+  }
+
+  private async stream(
+    body: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming,
+    onText: (delta: string) => void,
+    signal?: AbortSignal
+  ): Promise<AICompletion> {
+    const stream = await this.getClient().chat.completions.create(
+      { ...body, stream: true, stream_options: { include_usage: true } },
+      { signal }
+    );
+
+    let text = "";
+    let model = body.model;
+    const usage: AIUsage = { inputTokens: 0, outputTokens: 0 };
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onText(delta);
+      }
+      model = chunk.model || model;
+      if (chunk.usage) {
+        usage.inputTokens = chunk.usage.prompt_tokens;
+        usage.outputTokens = chunk.usage.completion_tokens;
+      }
+    }
+    return { text, provider: this.name, model, usage };
+  }
+}
+
+function toOpenAIMessage({ role, content, images }: AIMessage): OpenAI.Chat.ChatCompletionMessageParam {
+  if (role !== "user" || !images?.length) {
+    return { role, content };
+  }
+  return {
+    role,
+    content: [
+      { type: "text", text: content },
+      ...images.map(url => ({ type: "image_url" as const, image_url: { url } })),
+    ],
+  };
+}
+
+// Anthropic Messages API over plain fetch; there is no SDK dependency for it
+class AnthropicProvider implements AIProvider {
+  readonly name = "anthropic" as const;
+
+  constructor(
+    readonly defaultModel: string,
+    private readonly apiKey: string | undefined,
+    private readonly baseURL = "https://api.anthropic.com"
+  ) {}
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  supportsImages(): boolean {
+    return true;
+  }
+
+  async complete(request: AICompletionRequest): Promise<AICompletion> {
+    const system = request.messages
+      .filter(message => message.role === "system")
+      .map(message => message.content)
+      .join("\n\n");
+    const messages: Array<{ role: string; content: string | AnthropicContentBlock[] }> = request.messages
+      .filter(message => message.role !== "system")
+      .map(({ role, content, images }) => ({
+        role,
+        content: images?.length ? [...images.map(anthropicImage), { type: "text", text: content }] : content,
+      }));
+
+    // The Messages API has no JSON mode; starting the reply with "{" keeps the
+    // model on a bare JSON object
+    if (request.json) {
+      messages.push({ role: "assistant", content: "{" });
+    }
+
+    const streaming = !!request.onText;
+    const response = await fetch(`${this.baseURL}/v1/messages`, {
+      method: "POST",
+      signal: request.signal,
+      headers: {
+        "content-type": "application/json",
+        "x-api-key": this.apiKey || "",
+        "anthropic-version": "2023-06-01",
+      },
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: request.maxTokens ?? 1024,
+        ...(system ? { system } : {}),
+        messages,
+        ...(streaming ? { stream: true } : {}),
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Anthropic API error ${response.status}: ${await response.text()}`);
+    }
+    if (streaming) {
+      return this.readStream(response, request);
+    }
+
+    const body = await response.json() as {
+      model?: string;
+      content: Array<{ type: string; text?: string }>;
+      usage?: { input_tokens?: number; output_tokens?: number };
+    };
+    const text = body.content.filter(block => block.type === "text").map(block => block.text).join("");
+
+    return {
+      text: request.json ? `{${text}` : text,
+      provider: this.name,
+      model: body.model || request.model,
+      usage: {
+        inputTokens: body.usage?.input_tokens ?? 0,
+        outputTokens: body.usage?.output_tokens ?? 0,
+      },
+    };
+  }
+
+  // Reads the Messages API event stream; only text deltas and usage matter here
+  private async readStream(response: Response, request: AICompletionRequest): Promise<AICompletion> {
+    const onText = request.onText!;
+    let text = "";
+    let model = request.model;
+    const usage: AIUsage = { inputTokens: 0, outputTokens: 0 };
+    if (request.json) {
+      text = "{";
+      onText("{");
+    }
+
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+      for (const line of lines) {
+        if (!line.startsWith("data:")) continue;
+        let event;
+        try {
+          event = JSON.parse(line.slice(5));
+        } catch {
+          console.warn(`AI provider ${this.name} sent an unreadable stream event:`, line.slice(0, 200));
+          throw new AIProviderError(
+            "invalid_response",
+            `The ${this.name} provider returned a reply in the wrong format`,
+            502
+          );
+        }
+        if (event.type === "message_start") {
+          model = event.message?.model || model;
+          usage.inputTokens = event.message?.usage?.input_tokens ?? 0;
+        } else if (event.type === "content_block_delta" && event.delta?.type === "text_delta") {
+          text += event.delta.text;
+          onText(event.delta.text);
+        } else if (event.type === "message_delta") {
+          usage.outputTokens = event.usage?.output_tokens ?? usage.outputTokens;
+        } else if (event.type === "error") {
+          throw new Error(`Anthropic stream error: ${event.error?.message || "unknown"}`);
+        }
+      }
+    }
+    return { text, provider: this.name, model, usage };
+  }
+}
+
+type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | { type: "image"; source: { type: "url"; url: string } | { type: "base64"; media_type: string; data: string } };
+
+// Remote images are fetched by Anthropic; data: URLs are sent inline
+function anthropicImage(url: string): AnthropicContentBlock {
+  const inline = url.match(/^data:([^;,]+);base64,(.*)$/);
+  return inline
+    ? { type: "image", source: { type: "base64", media_type: inline[1], data: inline[2] } }
+    : { type: "image", source: { type: "url", url } };
+}
+
+// Offline provider for development and tests. The same prompt always gets the
+// same reply. For JSON requests it fills in the example object the prompt
+// asks for ("Respond with JSON in this format: {...}").
+class MockProvider implements AIProvider {
+  readonly name = "mock" as const;
+  readonly defaultModel = "mock-1";
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  // Images never leave the machine; they only change the seed
+  supportsImages(): boolean {
+    return true;
+  }
+
+  async complete(request: AICompletionRequest): Promise<AICompletion> {
+    const prompt = request.messages
+      .map(message => [message.content, ...(message.images || [])].join("\n"))
+      .join("\n");
+    const seed = createHash("sha256").update(`${request.model}\n${prompt}`).digest();
+    // The reply's shape comes from the request itself, not system instructions
+    const userPrompt = request.messages.filter(message => message.role !== "system").map(message => message.content).join("\n");
+    // Markup such as the <product_data> delimiters is left out of the subject
+    const subject = userPrompt.match(/"([^"\n]{2,80})"/)?.[1]?.replace(/<[^>]*>/g, "").trim() || "your product";
+
+    let text: string;
+    if (request.json) {
+      const template = extractJsonTemplate(userPrompt);
+      text = JSON.stringify(template ? mockValue(template, "", subject, seed) : { text: `Mock reply about ${subject}` });
+    } else {
+      text = `Mock reply about ${subject} (${seed.toString("hex").slice(0, 8)}).`;
+    }
+
+    if (request.onText) {
+      await mockStream(text, request.onText, request.signal);
+    }
+
+    return {
+      text,
+      provider: this.name,
+      model: request.model,
+      usage: { inputTokens: Math.ceil(prompt.length / 4), outputTokens: Math.ceil(text.length / 4) },
+    };
+  }
+}
+
+// Replays the reply a few characters at a time, slowly enough to cancel
+async function mockStream(text: string, onText: (delta: string) => void, signal?: AbortSignal): Promise<void> {
+  const delayMs = Number(process.env.MOCK_STREAM_DELAY_MS ?? 20);
+  for (let i = 0; i < text.length; i += 8) {
+    if (signal?.aborted) throw new Error("Mock stream aborted");
+    onText(text.slice(i, i + 8));
+    if (delayMs > 0) await new Promise(resolve => setTimeout(resolve, delayMs));
+  }
+  if (signal?.aborted) throw new Error("Mock stream aborted");
+}
+
+// First balanced {...} after "format" in the prompt, if it parses as JSON
+function extractJsonTemplate(prompt: string): unknown {
+  const start = prompt.indexOf("{", Math.max(0, prompt.search(/format/i)));
+  if (start < 0) return null;
+
+  let depth = 0;
+  for (let i = start; i < prompt.length; i++) {
+    if (prompt[i] === "{") depth++;
+    if (prompt[i] === "}" && --depth === 0) {
+      try {
+        return JSON.parse(prompt.slice(start, i + 1));
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+}
+
+function mockValue(template: unknown, key: string, subject: string, seed: Buffer): unknown {
+  if (Array.isArray(template)) {
+    const words = subject.toLowerCase().split(/\s+/).filter(Boolean);
+    return template.map((_, index) => `${words[index % words.length]} ${key.replace(/s$/, "")} ${index + 1}`.trim());
+  }
+  if (template && typeof template === "object") {
+    return Object.fromEntries(
+      Object.entries(template).map(([childKey, value]) => [childKey, mockValue(value, childKey, subject, seed)])
+    );
+  }
+  if (typeof template === "number") {
+    // Keep scores in a believable 60-100 range
+    return 60 + (seed[key.length % seed.length] % 41);
+  }
+  if (typeof template === "boolean") {
+    return seed[0] % 2 === 0;
+  }
+  const label = key.replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase();
+  return `Mock ${label || "text"} for ${subject}`;
+}
+
+let providers: Record<AIProviderName, AIProvider> | null = null;
+
+// Built on first use so the environment is read after the server has loaded it
+function getProviders(): Record<AIProviderName, AIProvider> {
+  if (!providers) {
+    providers = {
+      openai: new OpenAICompatibleProvider("openai", "gpt-5", {
+        apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR,
+      }),
+      anthropic: new AnthropicProvider(
+        process.env.ANTHROPIC_MODEL || "claude-sonnet-4-5",
+        process.env.ANTHROPIC_API_KEY
+      ),
+      local: new OpenAICompatibleProvider("local", process.env.LOCAL_LLM_MODEL || "llama3.1", {
+        apiKey: process.env.LOCAL_LLM_API_KEY,
+        baseURL: process.env.LOCAL_LLM_BASE_URL,
+        // Most local models are text-only; set when LOCAL_LLM_MODEL is a vision model
+        vision: process.env.LOCAL_LLM_VISION === "true",
+      }),
+      mock: new MockProvider(),
+    };
+  }
+  return providers;
+}
+
+export function getAIProvider(name: AIProviderName): AIProvider {
+  return getProviders()[name];
+}
+
+// Which providers and models each subscription plan may use. Models missing
+// from a provider's list are refused; providers without a list (local, mock)
+// accept any model name.
+interface PlanAIPolicy {
+  defaultProvider: AIProviderName;
+  defaultModel: string;
+  models: Partial<Record<AIProviderName, string[] | null>>;
+}
+
+const BASIC_POLICY: PlanAIPolicy = {
+  defaultProvider: "openai",
+  defaultModel: "gpt-5",
+  models: { openai: ["gpt-5", "gpt-5-mini"] },
+};
+
+const PRO_POLICY: PlanAIPolicy = {
+  defaultProvider: "openai",
+  defaultModel: "gpt-5",
+  models: {
+    openai: ["gpt-5", "gpt-5-mini"],
+    anthropic: ["claude-sonnet-4-5", "claude-haiku-4-5"],
+  },
+};
+
+const GROWTH_POLICY: PlanAIPolicy = {
+  defaultProvider: "openai",
+  defaultModel: "gpt-5",
+  models: {
+    openai: ["gpt-5", "gpt-5-mini"],
+    anthropic: ["claude-opus-4-1", "claude-sonnet-4-5", "claude-haiku-4-5"],
+    local: null,
+  },
+};
+
+// Keyed by users.plan, lower-cased. Trial users get Pro so they see the real thing.
+const PLAN_AI_POLICIES: Record<string, PlanAIPolicy> = {
+  "forever free": BASIC_POLICY,
+  starter: BASIC_POLICY,
+  trial: PRO_POLICY,
+  pro: PRO_POLICY,
+  growth: GROWTH_POLICY,
+  enterprise: GROWTH_POLICY,
+};
+
+// AI_PROVIDER=mock (or any provider name) switches the default of every plan
+// that allows that provider, e.g. for local development without API keys.
+// AI_MODEL picks the model when the plan allows it; otherwise the default is
+// the plan's own model for that provider. The mock provider is also open to
+// everyone outside production.
+function policyFor(plan: string): PlanAIPolicy {
+  const policy = PLAN_AI_POLICIES[plan.toLowerCase()] || BASIC_POLICY;
+  const override = process.env.AI_PROVIDER as AIProviderName | undefined;
+  const mockAllowed = process.env.NODE_ENV !== "production" || override === "mock";
+  const models = mockAllowed ? { ...policy.models, mock: null } : policy.models;
+  if (!override || !(override in models)) return { ...policy, models };
+
+  const allowed = models[override];
+  const requested = process.env.AI_MODEL;
+  let defaultModel: string;
+  if (requested && (!allowed || allowed.includes(requested))) {
+    defaultModel = requested;
+  } else if (override === policy.defaultProvider) {
+    defaultModel = policy.defaultModel;
+  } else {
+    defaultModel = allowed?.[0] || getAIProvider(override).defaultModel;
+  }
+  return { defaultProvider: override, defaultModel, models };
+}
+
+export interface ResolvedAIProvider {
+  provider: AIProvider;
+  model: string;
+  // Sent as a system message ahead of every request, e.g. the user's brand voice
+  instructions?: string;
+  // Called with every response the provider returns, e.g. to record its cost
+  onCompletion?: (completion: AICompletion) => Promise<void>;
+}
+
+// Picks the provider and model for one request: the caller's choice if their
+// plan allows it, otherwise the plan default
+export function resolveAIProvider(selection: AISelection, plan: string): ResolvedAIProvider {
+  const policy = policyFor(plan);
+  const name = selection.provider || policy.defaultProvider;
+  if (!(name in policy.models)) {
+    throw new AIProviderError("provider_not_allowed", `Your plan does not include the ${name} provider`, 403);
+  }
+
+  const provider = getAIProvider(name);
+  const allowedModels = policy.models[name];
+  const model = selection.model
+    || (name === policy.defaultProvider ? policy.defaultModel : allowedModels?.[0] || provider.defaultModel);
+  if (allowedModels && !allowedModels.includes(model)) {
+    throw new AIProviderError("model_not_allowed", `Your plan does not include the ${model} model`, 403);
+  }
+  if (!provider.isConfigured()) {
+    throw new AIProviderError("provider_not_configured", `The ${name} provider is not configured on this server`, 503);
+  }
+  return { provider, model };
+}
+
+export async function completeWith(
+  { provider, model, instructions, onCompletion }: ResolvedAIProvider,
+  request: Omit<AICompletionRequest, "model">
+): Promise<AICompletion> {
+  const messages: AIMessage[] = instructions
+    ? [{ role: "system", content: instructions }, ...request.messages]
+    : request.messages;
+  if (messages.some(message => message.images?.length) && !provider.supportsImages()) {
+    throw new AIProviderError("vision_not_supported", `The ${provider.name} provider can't read images`, 422);
+  }
+  let completion: AICompletion;
+  try {
+    completion = await provider.complete({ ...request, messages, model });
+  } catch (error) {
+    if (request.signal?.aborted) {
+      throw new AIProviderError("aborted", "The request was cancelled", 499);
+    }
+    console.error(`AI provider ${provider.name} error:`, error);
+    throw new AIProviderError("provider_failed", `The ${provider.name} provider failed to respond`, 502);
+  }
+  // Bookkeeping mustn't cost the user their result
+  await onCompletion?.(completion).catch(error => console.error("AI completion hook error:", error));
+  return completion;
+}
+
+export function aiProviderOptions(plan: string): AIProviderOptions {
+  const policy = policyFor(plan);
+  return {
+    defaultProvider: policy.defaultProvider,
+    defaultModel: policy.defaultModel,
+    providers: (Object.keys(policy.models) as AIProviderName[]).map(name => {
+      const provider = getAIProvider(name);
+      const models = policy.models[name] || [];
+      return {
+        name,
+        configured: provider.isConfigured(),
+        defaultModel: name === policy.defaultProvider ? policy.defaultModel : models[0] || provider.defaultModel,
+        models,
+      };
+    }),
+  };
+}
@@ -0,0 +1,250 @@
+import type { NextFunction, Request, Response } from "express";
+import {
+  AI_QUOTA_METERS,
+  type AIQuotaMeter,
+  type AIQuotaStatus,
+  type AIQuotaUpgrade,
+  type User,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import { AIProviderError } from "./ai-providers";
+
+// Plan limits for the AI endpoints. Every AI call is counted against the
+// user's plan before it runs: a used-up monthly allowance gets 402 with the
+// plan to upgrade to, and too many requests in a minute get 429. Calls that
+// fail are given back.
+
+type QuotaStore = Pick<IStorage, "consumeAIQuota" | "releaseAIQuota" | "getAIQuotaUsage">;
+type QuotaUser = Pick<User, "id" | "plan">;
+
+interface PlanAIQuota {
+  plan: string;
+  // Calls per period for each meter; -1 is unlimited
+  limits: Record<AIQuotaMeter, number>;
+  // AI requests per minute, whatever they cost
+  perMinute: number;
+}
+
+const FREE_QUOTA: PlanAIQuota = {
+  plan: "Forever Free",
+  limits: { aiGenerations: 25, seoOptimizations: 10 },
+  perMinute: 5,
+};
+
+// Keyed by users.plan, lower-cased, like the AI provider policies. Trial users
+// get Pro models but a smaller allowance.
+const PLAN_AI_QUOTAS: Record<string, PlanAIQuota> = {
+  "forever free": FREE_QUOTA,
+  starter: { plan: "Starter", limits: { aiGenerations: 500, seoOptimizations: 200 }, perMinute: 20 },
+  trial: { plan: "Trial", limits: { aiGenerations: 100, seoOptimizations: 50 }, perMinute: 10 },
+  pro: { plan: "Pro", limits: { aiGenerations: 2500, seoOptimizations: 1000 }, perMinute: 30 },
+  growth: { plan: "Growth", limits: { aiGenerations: 10000, seoOptimizations: 5000 }, perMinute: 60 },
+  enterprise: { plan: "Enterprise", limits: { aiGenerations: -1, seoOptimizations: -1 }, perMinute: 120 },
+};
+
+// The plan offered when a quota runs out
+const PLAN_UPGRADES: Record<string, string> = {
+  "forever free": "starter",
+  trial: "pro",
+  starter: "pro",
+  pro: "growth",
+  growth: "enterprise",
+};
+
+const UPGRADE_URL = "/billing";
+const RATE_WINDOW_MS = 60 * 1000;
+
+function quotaFor(plan: string): PlanAIQuota {
+  return PLAN_AI_QUOTAS[plan.toLowerCase()] || FREE_QUOTA;
+}
+
+// For the seeded subscription_plans rows, so the plan pages show the same numbers
+export function aiQuotaLimits(plan: string): Record<AIQuotaMeter, number> {
+  return quotaFor(plan).limits;
+}
+
+function upgradeFor(plan: string): AIQuotaUpgrade | null {
+  const next = PLAN_UPGRADES[plan.toLowerCase()];
+  if (!next) return null;
+  const quota = PLAN_AI_QUOTAS[next];
+  return { plan: quota.plan, limits: quota.limits, url: UPGRADE_URL };
+}
+
+// Quotas run by calendar month (UTC)
+export function aiQuotaPeriod(now = new Date()): { start: Date; end: Date } {
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
+
+export class AIQuotaError extends AIProviderError {
+  constructor(
+    code: "quota_exceeded" | "rate_limited",
+    message: string,
+    status: 402 | 429,
+    // Sent with the error: the quota status, or retryAfter in seconds
+    readonly details: Record<string, unknown>
+  ) {
+    super(code, message, status);
+    this.name = "AIQuotaError";
+  }
+}
+
+export async function getAIQuotaStatus(store: QuotaStore, user: QuotaUser): Promise<AIQuotaStatus> {
+  const quota = quotaFor(user.plan);
+  const period = aiQuotaPeriod();
+  const usage = await store.getAIQuotaUsage(user.id, period.start);
+  const meters = {} as AIQuotaStatus["meters"];
+  for (const meter of AI_QUOTA_METERS) {
+    const limit = quota.limits[meter];
+    meters[meter] = {
+      used: usage[meter],
+      limit,
+      remaining: limit < 0 ? null : Math.max(limit - usage[meter], 0),
+    };
+  }
+  return {
+    plan: quota.plan,
+    periodStart: period.start.toISOString(),
+    periodEnd: period.end.toISOString(),
+    meters,
+    upgrade: upgradeFor(user.plan),
+  };
+}
+
+async function quotaExceeded(store: QuotaStore, user: QuotaUser, meter: AIQuotaMeter): Promise<AIQuotaError> {
+  const status = await getAIQuotaStatus(store, user);
+  const label = meter === "seoOptimizations" ? "SEO optimizations" : "AI generations";
+  const upgrade = status.upgrade ? ` Upgrade to ${status.upgrade.plan} for more.` : "";
+  return new AIQuotaError(
+    "quota_exceeded",
+    `Your ${status.plan} plan's ${label} for this month are used up.${upgrade}`,
+    402,
+    { meter, ...status }
+  );
+}
+
+// Counts amount calls against the meter, or throws a 402 AIQuotaError
+export async function consumeAIQuota(store: QuotaStore, user: QuotaUser, meter: AIQuotaMeter, amount = 1): Promise<void> {
+  const limit = quotaFor(user.plan).limits[meter];
+  const used = await store.consumeAIQuota(user.id, meter, amount, limit, aiQuotaPeriod().start);
+  if (used === null) {
+    throw await quotaExceeded(store, user, meter);
+  }
+}
+
+// For work queued now and metered as it runs: throws a 402 AIQuotaError if
+// any of the meters is already used up
+export async function requireAIQuota(store: QuotaStore, user: QuotaUser, meters: AIQuotaMeter[]): Promise<void> {
+  const status = await getAIQuotaStatus(store, user);
+  const empty = meters.find(meter => status.meters[meter].remaining === 0);
+  if (empty) {
+    throw await quotaExceeded(store, user, empty);
+  }
+}
+
+// Runs one AI call against the quota, giving it back if the call fails or
+// was answered from the AI cache
+export async function withAIQuota<T extends { cached?: boolean }>(
+  store: QuotaStore,
+  user: QuotaUser,
+  meter: AIQuotaMeter,
+  run: () => Promise<T>
+): Promise<T> {
+  await consumeAIQuota(store, user, meter);
+  let result: T;
+  try {
+    result = await run();
+  } catch (error) {
+    await store.releaseAIQuota(user.id, meter, 1);
+    throw error;
+  }
+  if (result.cached) {
+    await store.releaseAIQuota(user.id, meter, 1);
+  }
+  return result;
+}
+
+const recentRequests = new Map<string, number[]>();
+
+// Throws a 429 AIQuotaError past the plan's requests per minute
+export function checkAIRateLimit(user: QuotaUser, now = Date.now()): void {
+  const { perMinute } = quotaFor(user.plan);
+  const recent = (recentRequests.get(user.id) || []).filter(time => time > now - RATE_WINDOW_MS);
+  if (recent.length >= perMinute) {
+    recentRequests.set(user.id, recent);
+    const retryAfter = Math.ceil((recent[0] + RATE_WINDOW_MS - now) / 1000);
+    throw new AIQuotaError(
+      "rate_limited",
+      `Too many AI requests. Your plan allows ${perMinute} a minute; try again in ${retryAfter} seconds.`,
+      429,
+      { retryAfter }
+    );
+  }
+  recent.push(now);
+  recentRequests.set(user.id, recent);
+}
+
+export function sendAIQuotaError(res: Response, error: AIQuotaError) {
+  if (typeof error.details.retryAfter === "number") {
+    res.setHeader("Retry-After", String(error.details.retryAfter));
+  }
+  return res.status(error.status).json({ message: error.message, code: error.code, ...error.details });
+}
+
+interface AIQuotaReservation {
+  userId: string;
+  meter: AIQuotaMeter;
+  amount: number;
+}
+
+// Route middleware that counts the request against the meter before the
+// handler runs. count gives the number of AI calls the request will make
+// (0 for none). The calls are given back if the response is an error, or if a
+// stream ends with an error event; cancelled streams still count.
+export function meterAI(store: QuotaStore, meter: AIQuotaMeter, count: (req: Request) => number = () => 1) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const user = req.user!;
+    const amount = count(req);
+    if (amount <= 0) return next();
+
+    try {
+      checkAIRateLimit(user);
+      await consumeAIQuota(store, user, meter, amount);
+    } catch (error) {
+      if (error instanceof AIQuotaError) return sendAIQuotaError(res, error);
+      console.error("AI quota error:", error);
+      return res.status(500).json({ message: "Failed to check AI quota" });
+    }
+
+    const reservation: AIQuotaReservation = { userId: user.id, meter, amount };
+    res.locals.aiQuota = reservation;
+    res.on("finish", () => {
+      if (res.statusCode >= 400 || res.locals.aiFailed) {
+        refundAIQuota(store, res).catch(error => console.error("AI quota refund error:", error));
+      }
+    });
+    next();
+  };
+}
+
+// Gives back calls a metered request counted but didn't make, or answered
+// from the AI cache; all of them unless amount is given
+export async function refundAIQuota(store: QuotaStore, res: Response, amount?: number): Promise<void> {
+  const reservation = res.locals.aiQuota as AIQuotaReservation | undefined;
+  if (!reservation || reservation.amount <= 0) return;
+  const refund = Math.min(amount ?? reservation.amount, reservation.amount);
+  reservation.amount -= refund;
+  await store.releaseAIQuota(reservation.userId, reservation.meter, refund);
+}
+
+// For a request that fails after making some of its calls: gives back the
+// ones it didn't make and keeps the rest counted, which the error response
+// would otherwise refund too
+export async function settleAIQuota(store: QuotaStore, res: Response, made: number): Promise<void> {
+  const reservation = res.locals.aiQuota as AIQuotaReservation | undefined;
+  if (!reservation) return;
+  await refundAIQuota(store, res, reservation.amount - made);
+  reservation.amount = 0;
+}
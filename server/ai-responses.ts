@@ -0,0 +1,190 @@
+import { z } from "zod";
+import { ALT_TEXT_MAX_LENGTH, META_DESCRIPTION_MAX_LENGTH, SEO_TITLE_MAX_LENGTH } from "@shared/schema";
+import {
+  AIProviderError,
+  completeWith,
+  type AICompletion,
+  type AICompletionRequest,
+  type AIMessage,
+  type ResolvedAIProvider,
+} from "./ai-providers";
+
+// What each AI task has to reply with. Replies are checked against these
+// before anything is recorded or shown, and a reply that doesn't fit gets one
+// repair prompt before the request fails with invalid_response.
+
+const requiredText = z.string().trim().min(1);
+const optionalText = z.string().trim().nullish().transform(value => value || undefined);
+// Scores sometimes come back as "85"
+const score = z.preprocess(
+  value => typeof value === "string" && value.trim() ? Number(value) : value,
+  z.number().min(0).max(100)
+).transform(Math.round);
+
+export const descriptionResponseSchema = z.object({
+  description: requiredText,
+});
+
+export const seoResponseSchema = z.object({
+  optimizedTitle: requiredText,
+  optimizedMeta: requiredText,
+  // Some models send "a, b, c" instead of a list
+  keywords: z.union([z.array(z.string()), z.string()])
+    .transform(value => (typeof value === "string" ? value.split(",") : value).map(k => k.trim()).filter(Boolean))
+    .pipe(z.array(z.string()).min(1).max(15)),
+  seoScore: score,
+});
+
+export const altTextResponseSchema = z.object({
+  altText: requiredText,
+});
+
+export const translationResponseSchema = z.object({
+  name: requiredText,
+  description: optionalText,
+  seoTitle: optionalText,
+  metaDescription: optionalText,
+  imageAltText: optionalText,
+});
+
+export const toneCheckResponseSchema = z.object({
+  toneScore: score,
+  notes: z.string().trim().default(""),
+});
+
+export const SEO_RESPONSE_LIMITS = {
+  optimizedTitle: SEO_TITLE_MAX_LENGTH,
+  optimizedMeta: META_DESCRIPTION_MAX_LENGTH,
+};
+
+export const TRANSLATION_RESPONSE_LIMITS = {
+  seoTitle: SEO_TITLE_MAX_LENGTH,
+  metaDescription: META_DESCRIPTION_MAX_LENGTH,
+  imageAltText: ALT_TEXT_MAX_LENGTH,
+};
+
+export const ALT_TEXT_RESPONSE_LIMITS = {
+  altText: ALT_TEXT_MAX_LENGTH,
+};
+
+// Character limits for string fields of a reply
+export type ResponseLimits<T> = Partial<Record<keyof T, number>>;
+
+// One call plus one repair prompt
+const MAX_ATTEMPTS = 2;
+
+// Cuts at the last word boundary that fits
+export function truncateAtWord(text: string, max: number): string {
+  const clean = text.replace(/\s+/g, " ").trim();
+  if (clean.length <= max) return clean;
+  const cut = clean.slice(0, max + 1);
+  const space = cut.lastIndexOf(" ");
+  return (space > 0 ? cut.slice(0, space) : cut.slice(0, max)).replace(/[\s,.;:-]+$/, "");
+}
+
+// The JSON object in a reply, allowing for code fences or a sentence around it
+function extractJson(text: string): unknown {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    const start = trimmed.indexOf("{");
+    const end = trimmed.lastIndexOf("}");
+    if (start < 0 || end <= start) return undefined;
+    try {
+      return JSON.parse(trimmed.slice(start, end + 1));
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+export type ParsedResponse<T> = { success: true; data: T } | { success: false; issues: string[] };
+
+export function parseAIResponse<T>(text: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): ParsedResponse<T> {
+  const json = extractJson(text);
+  if (json === undefined || typeof json !== "object" || json === null || Array.isArray(json)) {
+    return { success: false, issues: ["the reply is not a JSON object"] };
+  }
+  const result = schema.safeParse(json);
+  if (result.success) return { success: true, data: result.data };
+  return {
+    success: false,
+    issues: result.error.errors.map(issue => issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message),
+  };
+}
+
+function overLimit<T>(data: T, limits: ResponseLimits<T>): string[] {
+  return (Object.entries(limits) as Array<[keyof T & string, number]>)
+    .filter(([key, max]) => typeof data[key] === "string" && (data[key] as string).length > max)
+    .map(([key, max]) => `${key} is ${(data[key] as string).length} characters; it must be at most ${max}`);
+}
+
+function truncateFields<T>(data: T, limits: ResponseLimits<T>): T {
+  const result = { ...data };
+  for (const [key, max] of Object.entries(limits) as Array<[keyof T, number]>) {
+    if (typeof result[key] === "string") {
+      result[key] = truncateAtWord(result[key] as string, max) as T[keyof T];
+    }
+  }
+  return result;
+}
+
+export interface StructuredCompletion<T> {
+  data: T;
+  // The last reply; usage covers every attempt
+  completion: AICompletion;
+  attempts: number;
+}
+
+// Completes a JSON request and validates the reply. A reply that doesn't
+// match the schema, or runs over a length limit, is sent back with what's
+// wrong; after the last attempt invalid replies fail and long fields are
+// truncated. Only the first attempt streams.
+export async function completeStructured<T>(
+  ai: ResolvedAIProvider,
+  request: Omit<AICompletionRequest, "model" | "json">,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  limits: ResponseLimits<T> = {}
+): Promise<StructuredCompletion<T>> {
+  const messages: AIMessage[] = [...request.messages];
+  const usage = { inputTokens: 0, outputTokens: 0 };
+
+  for (let attempt = 1; ; attempt++) {
+    const completion = await completeWith(ai, {
+      ...request,
+      messages,
+      json: true,
+      onText: attempt === 1 ? request.onText : undefined,
+    });
+    // An abort that lands after the last token counts the same as one mid-stream
+    if (request.signal?.aborted) {
+      throw new AIProviderError("aborted", "The request was cancelled", 499);
+    }
+    usage.inputTokens += completion.usage.inputTokens;
+    usage.outputTokens += completion.usage.outputTokens;
+    const total = { ...completion, usage: { ...usage } };
+
+    const parsed = parseAIResponse(completion.text, schema);
+    const problems = parsed.success ? overLimit(parsed.data, limits) : parsed.issues;
+    if (parsed.success && (problems.length === 0 || attempt >= MAX_ATTEMPTS)) {
+      return { data: truncateFields(parsed.data, limits), completion: total, attempts: attempt };
+    }
+    if (attempt >= MAX_ATTEMPTS) {
+      console.warn(`AI provider ${completion.provider} returned an invalid reply:`, problems.join("; "));
+      throw new AIProviderError(
+        "invalid_response",
+        `The ${completion.provider} provider returned a reply in the wrong format`,
+        502
+      );
+    }
+
+    messages.push(
+      { role: "assistant", content: completion.text },
+      {
+        role: "user",
+        content: `Your reply can't be used: ${problems.join("; ")}. Reply again with only the JSON object, in the format asked for above, fixing these problems.`,
+      },
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { randomUUID } from "crypto";
+import type { Response } from "express";
+import { AIProviderError } from "./ai-providers";
+
+// Server-Sent Events for streaming AI endpoints. Each stream gets an id (sent
+// in the first "start" event) that POST /api/ai/streams/:id/abort can cancel.
+// Events: start {streamId}, delta {text}, done <normal JSON response>,
+// aborted {}, error {message, code?}.
+
+export interface AIStream {
+  id: string;
+  // Aborted by the abort endpoint or when the client disconnects
+  signal: AbortSignal;
+  // Forwards model output as delta events
+  onText: (delta: string) => void;
+  // Sends a final event and closes the stream
+  end(event: "done" | "aborted" | "error", data: unknown): void;
+  // Ends the stream for an error thrown after it opened
+  fail(error: unknown, message: string): void;
+}
+
+interface ActiveStream {
+  userId: string;
+  controller: AbortController;
+}
+
+const activeStreams = new Map<string, ActiveStream>();
+
+export function openAIStream(res: Response, userId: string): AIStream {
+  const id = randomUUID();
+  const controller = new AbortController();
+  activeStreams.set(id, { userId, controller });
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    // Stops proxies buffering the response
+    "X-Accel-Buffering": "no",
+  });
+
+  const write = (event: string, data: unknown) => {
+    if (!res.writableEnded) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+
+  res.on("close", () => {
+    activeStreams.delete(id);
+    if (!res.writableEnded) controller.abort();
+  });
+
+  const end: AIStream["end"] = (event, data) => {
+    activeStreams.delete(id);
+    // The status is already 200, so this is how the AI quota meter sees a failure
+    if (event === "error") res.locals.aiFailed = true;
+    write(event, data);
+    res.end();
+  };
+
+  write("start", { streamId: id });
+  return {
+    id,
+    signal: controller.signal,
+    onText: (text) => write("delta", { text }),
+    end,
+    fail: (error, message) => {
+      if (error instanceof AIProviderError) {
+        return error.code === "aborted"
+          ? end("aborted", {})
+          : end("error", { message: error.message, code: error.code });
+      }
+      console.error("AI stream error:", error);
+      end("error", { message });
+    },
+  };
+}
+
+export type AbortStreamResult = "aborted" | "not_found" | "forbidden";
+
+export function abortAIStream(id: string, userId: string): AbortStreamResult {
+  const stream = activeStreams.get(id);
+  if (!stream) return "not_found";
+  if (stream.userId !== userId) return "forbidden";
+  stream.controller.abort();
+  return "aborted";
+}
@@ -0,0 +1,155 @@
+import type { AISelection, BrandVoice, User } from "@shared/schema";
+import { resolveAIProvider, type ResolvedAIProvider } from "./ai-providers";
+import type { IStorage } from "./storage";
+import { UNTRUSTED_DATA_NOTICE, untrusted } from "./prompt-safety";
+
+type PreferencesStore = Pick<IStorage, "getUserPreferences">;
+
+export const EMPTY_BRAND_VOICE: BrandVoice = {
+  tone: [],
+  bannedWords: [],
+  requiredPhrases: [],
+  sampleCopy: "",
+  readingLevel: null,
+};
+
+export function isBrandVoiceSet(voice: BrandVoice): boolean {
+  return voice.tone.length > 0
+    || voice.bannedWords.length > 0
+    || voice.requiredPhrases.length > 0
+    || !!voice.sampleCopy
+    || voice.readingLevel !== null;
+}
+
+export async function loadBrandVoice(store: PreferencesStore, userId: string): Promise<BrandVoice> {
+  const { brandVoice } = await store.getUserPreferences(userId);
+  return { ...EMPTY_BRAND_VOICE, ...brandVoice };
+}
+
+// System prompt describing the brand voice, or null when nothing is set
+export function brandVoiceInstructions(voice: BrandVoice): string | null {
+  if (!isBrandVoiceSet(voice)) return null;
+
+  const lines = ["Write all copy in this brand's voice."];
+  if (voice.tone.length > 0) {
+    lines.push(`Tone: ${voice.tone.join(", ")}.`);
+  }
+  if (voice.bannedWords.length > 0) {
+    lines.push(`Never use these words or phrases: ${voice.bannedWords.join(", ")}.`);
+  }
+  if (voice.requiredPhrases.length > 0) {
+    lines.push(`Work these phrases in where they fit naturally: ${voice.requiredPhrases.join("; ")}.`);
+  }
+  if (voice.readingLevel !== null) {
+    lines.push(`Aim for a US school grade ${voice.readingLevel} reading level.`);
+  }
+  if (voice.sampleCopy) {
+    lines.push(`Example of the brand's copy, for style only (do not reuse its content):\n${voice.sampleCopy}`);
+  }
+  lines.push("Follow the output instructions in the request exactly.");
+  return lines.join("\n");
+}
+
+// resolveAIProvider plus the user's brand voice as system instructions. Every AI
+// endpoint should resolve its provider through this.
+export async function resolveUserAI(
+  store: PreferencesStore,
+  user: Pick<User, "id" | "plan">,
+  selection: AISelection
+): Promise<ResolvedAIProvider> {
+  const resolved = resolveAIProvider(selection, user.plan);
+  const instructions = brandVoiceInstructions(await loadBrandVoice(store, user.id));
+  return instructions ? { ...resolved, instructions } : resolved;
+}
+
+export interface BrandVoiceScore {
+  // 0-100; 100 means no rule was broken
+  score: number;
+  bannedWordsFound: string[];
+  requiredPhrasesMissing: string[];
+  readingLevel: { grade: number; target: number | null };
+  tone?: { score: number; notes: string };
+  issues: string[];
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function countSyllables(word: string): number {
+  const cleaned = word.toLowerCase().replace(/[^a-z]/g, "");
+  if (cleaned.length <= 3) return cleaned ? 1 : 0;
+  const groups = cleaned.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, "").replace(/^y/, "").match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups?.length || 0);
+}
+
+// Flesch-Kincaid grade level, rounded to one decimal
+export function readingGrade(text: string): number {
+  const words = text.split(/\s+/).filter(word => /[a-z]/i.test(word));
+  if (words.length === 0) return 0;
+  const sentences = Math.max(1, (text.match(/[.!?]+(\s|$)/g) || []).length);
+  const syllables = words.reduce((total, word) => total + countSyllables(word), 0);
+  const grade = 0.39 * (words.length / sentences) + 11.8 * (syllables / words.length) - 15.59;
+  return Math.round(Math.max(0, grade) * 10) / 10;
+}
+
+// Rule-based conformance: banned words, required phrases and reading level.
+// Tone can't be checked by rules; pass an AI tone rating to blend it in.
+export function scoreBrandVoice(
+  text: string,
+  voice: BrandVoice,
+  tone?: { score: number; notes: string }
+): BrandVoiceScore {
+  const issues: string[] = [];
+  let score = 100;
+
+  const bannedWordsFound = voice.bannedWords.filter(word =>
+    new RegExp(`(^|\\W)${escapeRegExp(word)}(\\W|$)`, "i").test(text)
+  );
+  if (bannedWordsFound.length > 0) {
+    score -= Math.min(45, bannedWordsFound.length * 15);
+    issues.push(`Uses banned words: ${bannedWordsFound.join(", ")}`);
+  }
+
+  const lowerText = text.toLowerCase();
+  const requiredPhrasesMissing = voice.requiredPhrases.filter(phrase => !lowerText.includes(phrase.toLowerCase()));
+  if (requiredPhrasesMissing.length > 0) {
+    score -= Math.round(30 * requiredPhrasesMissing.length / voice.requiredPhrases.length);
+    issues.push(`Missing required phrases: ${requiredPhrasesMissing.join("; ")}`);
+  }
+
+  const grade = readingGrade(text);
+  if (voice.readingLevel !== null) {
+    // One grade either way is close enough
+    const off = Math.abs(grade - voice.readingLevel) - 1;
+    if (off > 0) {
+      score -= Math.min(25, Math.round(off * 5));
+      issues.push(`Reads at grade ${grade}; target is grade ${voice.readingLevel}`);
+    }
+  }
+
+  score = Math.max(0, score);
+  if (tone) {
+    score = Math.round(score * 0.7 + Math.max(0, Math.min(100, tone.score)) * 0.3);
+    if (tone.score < 70 && tone.notes) issues.push(`Tone: ${tone.notes}`);
+  }
+
+  return {
+    score,
+    bannedWordsFound,
+    requiredPhrasesMissing,
+    readingLevel: { grade, target: voice.readingLevel },
+    ...(tone ? { tone } : {}),
+    issues,
+  };
+}
+
+// Prompt for the optional AI tone rating
+export function toneCheckPrompt(text: string, voice: BrandVoice): string {
+  return `${UNTRUSTED_DATA_NOTICE}
+
+Rate from 0 to 100 how well this copy matches a brand tone described as: ${voice.tone.join(", ")}.
+Copy:
+${untrusted(text)}
+Respond with JSON in this format: { "toneScore": 80, "notes": "one sentence on what to change" }`;
+}
@@ -0,0 +1,133 @@
+import type { AIQuotaMeter, BulkOptimizeParams, Job, JobItem, Product } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { AIProviderError } from "./ai-providers";
+import { AIQuotaError, withAIQuota } from "./ai-quota";
+import { applyGeneration, generateAltText, generateDescription, generateSeo, generateTranslation } from "./ai-generations";
+import { resolveUserAI } from "./brand-voice";
+import { PermanentJobError } from "./job-queue";
+import { findTemplateByKey, templateVariables } from "./prompt-templates";
+import type { VersionContext } from "./product-versions";
+import { loadGlossary, sourceHash, translationSource } from "./translations";
+
+type BulkOptimizeStore = Pick<
+  IStorage,
+  | "getUser"
+  | "getProduct"
+  | "getPromptTemplates"
+  | "getUserPreferences"
+  | "createAiGeneration"
+  | "updateAiGeneration"
+  | "createActivityLog"
+  | "createAiUsageEvent"
+  | "getAiCacheEntry"
+  | "saveAiCacheEntry"
+  | "recordAiCacheHit"
+  | "updateProduct"
+  | "getSeoMeta"
+  | "createSeoMeta"
+  | "updateSeoMeta"
+  | "getProductTranslation"
+  | "saveProductTranslation"
+  | "consumeAIQuota"
+  | "releaseAIQuota"
+  | "getAIQuotaUsage"
+>;
+
+export interface BulkOptimizeItemResult {
+  generationIds: string[];
+  applied: boolean;
+}
+
+// One product of a bulk-optimize job: generate the requested copy and, unless the
+// job is review-only, apply it. Writes share the job id as their operation id so
+// the whole run can be undone like any other bulk operation.
+export async function runBulkOptimizeItem(
+  store: BulkOptimizeStore,
+  job: Job,
+  item: JobItem
+): Promise<BulkOptimizeItemResult> {
+  const params = job.params as BulkOptimizeParams;
+  const [user, product] = await Promise.all([store.getUser(job.userId), store.getProduct(item.productId)]);
+  if (!user) throw new PermanentJobError("User not found");
+  if (!product || product.userId !== user.id) throw new PermanentJobError("Product not found");
+
+  let ai;
+  try {
+    ai = await resolveUserAI(store, user, { provider: params.provider, model: params.model });
+  } catch (error) {
+    // Plan and configuration problems won't go away on retry
+    if (error instanceof AIProviderError) throw new PermanentJobError(error.message);
+    throw error;
+  }
+
+  // Each generation counts against the plan's AI quota. Running out fails the
+  // item for good; retrying wouldn't help until the next period.
+  const metered = async <T extends { cached: boolean }>(meter: AIQuotaMeter, run: () => Promise<T>): Promise<T> => {
+    try {
+      return await withAIQuota(store, user, meter, run);
+    } catch (error) {
+      if (error instanceof AIQuotaError) throw new PermanentJobError(error.message);
+      throw error;
+    }
+  };
+
+  const context: VersionContext = { source: "ai", operationId: job.id };
+  const result: BulkOptimizeItemResult = { generationIds: [], applied: params.apply };
+  let current: Product = product;
+
+  if (params.tools.includes("description")) {
+    const template = await findTemplateByKey(store, user.id, params.brandVoice);
+    if (!template) throw new PermanentJobError(`Prompt template "${params.brandVoice}" not found`);
+    const variables = templateVariables({ audience: params.audience }, current);
+    const { generation } = await metered("aiGenerations", () =>
+      generateDescription(store, ai, user.id, template, variables, current.id, { noCache: params.noCache }));
+    result.generationIds.push(generation.id);
+    if (params.apply) {
+      current = (await applyGeneration(store, generation, current, context)).product || current;
+    }
+  }
+
+  if (params.tools.includes("seo")) {
+    const seo = await store.getSeoMeta(current.id);
+    const { generation } = await metered("seoOptimizations", () => generateSeo(store, ai, user.id, {
+      currentTitle: seo?.seoTitle || current.name,
+      keywords: seo?.keywords || current.tags || current.category,
+      currentMeta: seo?.metaDescription || "",
+      category: current.category,
+    }, current.id, { noCache: params.noCache }));
+    result.generationIds.push(generation.id);
+    if (params.apply) {
+      await applyGeneration(store, generation, current, context);
+    }
+  }
+
+  // Products without an image have nothing to describe; the batch endpoint
+  // leaves them out, but the image may have been removed since
+  if (params.tools.includes("alt-text") && current.image) {
+    const { generation } = await metered("aiGenerations", () => generateAltText(store, ai, user.id, current, { noCache: params.noCache }));
+    result.generationIds.push(generation.id);
+    if (params.apply) {
+      current = (await applyGeneration(store, generation, current, context)).product || current;
+    }
+  }
+
+  // Runs last so it translates the copy written above. Translations that
+  // already match the source are left alone.
+  if (params.tools.includes("translation")) {
+    const source = translationSource(current, await store.getSeoMeta(current.id));
+    const hash = sourceHash(source);
+    const glossary = await loadGlossary(store, user.id);
+    for (const locale of params.locales) {
+      const existing = await store.getProductTranslation(current.id, locale);
+      if (existing?.sourceHash === hash) continue;
+      const { generation } = await metered("aiGenerations", () =>
+        generateTranslation(store, ai, user.id, current.id, source, locale, glossary, { noCache: params.noCache }));
+      result.generationIds.push(generation.id);
+      if (params.apply) {
+        await applyGeneration(store, generation, current, context);
+      }
+    }
+  }
+
+  return result;
+}
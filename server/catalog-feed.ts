@@ -0,0 +1,151 @@
+import { randomBytes } from "crypto";
+import {
+  FEED_CHANNELS,
+  type Category,
+  type FeedChannel,
+  type Product,
+  type ProductFeed,
+  type ProductTranslation,
+  type ProductVariant,
+  type SeoMeta,
+  type SupportedLocale,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import { categoryPath, inheritedGoogleCategory } from "./categories";
+
+// Everything a channel feed needs about one product, gathered up front so the
+// feed builders stay pure
+export interface FeedProduct {
+  product: Product;
+  variants: ProductVariant[];
+  seo: SeoMeta | undefined;
+  categoryPath: string | null;
+  googleCategoryId: string | null;
+  // Published translation, when the feed was asked for in another language
+  translation?: ProductTranslation;
+}
+
+export function generateFeedToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+// Feed settings are created on first use so every user has a feed URL to hand
+// out. A new channel starts from the settings of one the user already set up.
+export async function ensureProductFeed(
+  store: Pick<IStorage, "getProductFeed" | "createProductFeed">,
+  userId: string,
+  channel: FeedChannel
+): Promise<ProductFeed> {
+  const existing = await store.getProductFeed(userId, channel);
+  if (existing) return existing;
+
+  const others = await Promise.all(
+    FEED_CHANNELS.filter(other => other !== channel).map(other => store.getProductFeed(userId, other))
+  );
+  const source = others.find(feed => feed?.linkTemplate);
+  return store.createProductFeed({
+    userId,
+    channel,
+    token: generateFeedToken(),
+    linkTemplate: source?.linkTemplate ?? null,
+    currency: source?.currency ?? "USD",
+    brand: source?.brand ?? null,
+  });
+}
+
+type FeedStore = Pick<IStorage, "getProducts" | "getProductVariants" | "getSeoMeta" | "getCategories" | "getUserProductTranslations">;
+
+async function toFeedProduct(
+  store: FeedStore,
+  byId: Map<string, Category>,
+  product: Product,
+  translation?: ProductTranslation
+): Promise<FeedProduct> {
+  const [variants, seo] = await Promise.all([
+    store.getProductVariants(product.id),
+    store.getSeoMeta(product.id),
+  ]);
+  const category = product.categoryId ? byId.get(product.categoryId) : undefined;
+  return {
+    product,
+    variants,
+    seo,
+    categoryPath: category ? categoryPath(byId, category) : product.category || null,
+    googleCategoryId: inheritedGoogleCategory(byId, product.categoryId),
+    ...(translation ? { translation } : {}),
+  };
+}
+
+export async function loadFeedProducts(store: FeedStore, userId: string, locale?: SupportedLocale): Promise<FeedProduct[]> {
+  const [products, categories, translations] = await Promise.all([
+    store.getProducts(userId),
+    store.getCategories(userId),
+    locale ? store.getUserProductTranslations(userId, locale) : Promise.resolve([]),
+  ]);
+  const byId = new Map(categories.map(category => [category.id, category]));
+  const published = new Map(
+    translations.filter(translation => translation.publishedAt).map(translation => [translation.productId, translation])
+  );
+  return Promise.all(products.map(product => toFeedProduct(store, byId, product, published.get(product.id))));
+}
+
+export async function loadFeedProduct(store: FeedStore, product: Product): Promise<FeedProduct> {
+  const categories = await store.getCategories(product.userId);
+  return toFeedProduct(store, new Map(categories.map(category => [category.id, category])), product);
+}
+
+// Link template, currency and brand for output that isn't tied to one channel
+// (ads, structured data): the preferred channel's feed if it has a link
+// template, otherwise any feed that does
+export async function storefrontSettings(
+  store: Pick<IStorage, "getProductFeed">,
+  userId: string,
+  preferred: FeedChannel = "google"
+): Promise<Pick<ProductFeed, "linkTemplate" | "currency" | "brand">> {
+  const feeds = await Promise.all(
+    [preferred, ...FEED_CHANNELS.filter(channel => channel !== preferred)].map(channel => store.getProductFeed(userId, channel))
+  );
+  const feed = feeds.find(f => f?.linkTemplate) || feeds.find(Boolean);
+  return {
+    linkTemplate: feed?.linkTemplate ?? null,
+    currency: feed?.currency ?? "USD",
+    brand: feed?.brand ?? null,
+  };
+}
+
+// URL-safe product handle in the style Shopify uses, e.g. "Red Cotton Tee" -> "red-cotton-tee"
+export function productHandle(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+// Fills {handle}, {id} and {sku} in a feed's link template
+export function productLink(
+  template: string | null,
+  product: Product,
+  variant?: ProductVariant
+): string | null {
+  if (!template) return null;
+  return template
+    .replace(/\{handle\}/g, productHandle(product.name))
+    .replace(/\{id\}/g, encodeURIComponent(product.id))
+    .replace(/\{sku\}/g, encodeURIComponent(variant?.sku || product.id));
+}
+
+export function isHttpUrl(value: string | null | undefined): boolean {
+  if (!value) return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+export function truncate(value: string, max: number): string {
+  return value.length <= max ? value : `${value.slice(0, max - 1).trimEnd()}…`;
+}
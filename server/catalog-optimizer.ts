@@ -0,0 +1,145 @@
+import { createHash } from "crypto";
+import type { Category, Product } from "@shared/schema";
+import { categoryDefaults, renderDescriptionTemplate } from "./categories";
+
+export const MERGE_STRATEGIES = ["newest", "highest-stock", "shopify"] as const;
+export type MergeStrategy = typeof MERGE_STRATEGIES[number];
+
+// Helper function to capitalize names properly
+export const capitalizeName = (name: string): string => {
+  return name.split(' ')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join(' ');
+};
+
+export interface ProductChange {
+  productId: string;
+  originalName: string;
+  name: string;
+  description: string;
+  descriptionGenerated: boolean;
+  tags: string;
+  tagsGenerated: boolean;
+  stock: number;
+  // Empty fields on the survivor that are filled from one of its duplicates
+  mergedFields: Partial<Pick<Product, "image" | "features" | "shopifyId">>;
+}
+
+export interface DuplicateGroup {
+  key: string;
+  survivorId: string;
+  duplicateIds: string[];
+  combinedStock: number;
+}
+
+export interface OptimizationPlan {
+  planId: string;
+  mergeStrategy: MergeStrategy;
+  changes: ProductChange[];
+  duplicateGroups: DuplicateGroup[];
+  summary: {
+    optimizedCount: number;
+    duplicatesRemoved: number;
+    namesCapitalized: number;
+    descriptionsGenerated: number;
+    tagsAdded: number;
+  };
+}
+
+const time = (date: Date | null) => date?.getTime() || 0;
+
+// Orders a duplicate group so the product that should survive comes first
+function rankDuplicates(group: Product[], strategy: MergeStrategy): Product[] {
+  const newestFirst = (a: Product, b: Product) => time(b.createdAt) - time(a.createdAt);
+  return [...group].sort((a, b) => {
+    if (strategy === "highest-stock" && a.stock !== b.stock) {
+      return b.stock - a.stock;
+    }
+    if (strategy === "shopify" && !!a.shopifyId !== !!b.shopifyId) {
+      return a.shopifyId ? -1 : 1;
+    }
+    return newestFirst(a, b);
+  });
+}
+
+// Identifies the exact catalog state a plan was built from. Applying a plan is
+// refused if the products changed in between, so the user only ever confirms
+// what they were shown.
+function fingerprint(products: Product[], strategy: MergeStrategy, categories: Category[]): string {
+  // Category defaults feed the generated copy, so editing a category changes the plan too
+  const state = [...products, ...categories]
+    .map(row => `${row.id}:${time(row.updatedAt)}`)
+    .sort()
+    .join("|");
+  return createHash("sha256").update(`${strategy}|${state}`).digest("hex").slice(0, 32);
+}
+
+export function buildOptimizationPlan(
+  products: Product[],
+  strategy: MergeStrategy = "newest",
+  categories: Category[] = []
+): OptimizationPlan {
+  const categoriesById = new Map(categories.map(category => [category.id, category]));
+
+  // Group duplicates by name and category (linked category if there is one)
+  const groups = new Map<string, Product[]>();
+  for (const product of products) {
+    const key = `${product.name.toLowerCase()}-${product.categoryId || product.category.toLowerCase()}`;
+    groups.set(key, [...(groups.get(key) || []), product]);
+  }
+
+  const changes: ProductChange[] = [];
+  const duplicateGroups: DuplicateGroup[] = [];
+
+  Array.from(groups.entries()).forEach(([key, group]) => {
+    const [survivor, ...duplicates] = rankDuplicates(group, strategy);
+    const fillFrom = <K extends keyof ProductChange["mergedFields"]>(field: K) =>
+      survivor[field] ? undefined : duplicates.find(d => d[field])?.[field];
+
+    const description = survivor.description || duplicates.find(d => d.description)?.description;
+    const tags = survivor.tags || duplicates.find(d => d.tags)?.tags;
+    const combinedStock = group.reduce((sum, p) => sum + p.stock, 0);
+    const defaults = categoryDefaults(categoriesById, survivor.categoryId);
+
+    const mergedFields: ProductChange["mergedFields"] = {};
+    for (const field of ["image", "features", "shopifyId"] as const) {
+      const value = fillFrom(field);
+      if (value) mergedFields[field] = value;
+    }
+
+    changes.push({
+      productId: survivor.id,
+      originalName: survivor.name,
+      name: capitalizeName(survivor.name),
+      description: description || renderDescriptionTemplate(defaults.descriptionTemplate, survivor.name),
+      descriptionGenerated: !description,
+      tags: tags || defaults.tags,
+      tagsGenerated: !tags,
+      stock: combinedStock,
+      mergedFields,
+    });
+
+    if (duplicates.length > 0) {
+      duplicateGroups.push({
+        key,
+        survivorId: survivor.id,
+        duplicateIds: duplicates.map(d => d.id),
+        combinedStock,
+      });
+    }
+  });
+
+  return {
+    planId: fingerprint(products, strategy, categories),
+    mergeStrategy: strategy,
+    changes,
+    duplicateGroups,
+    summary: {
+      optimizedCount: changes.length,
+      duplicatesRemoved: duplicateGroups.reduce((sum, g) => sum + g.duplicateIds.length, 0),
+      namesCapitalized: changes.filter(c => c.originalName !== c.name).length,
+      descriptionsGenerated: changes.filter(c => c.descriptionGenerated).length,
+      tagsAdded: changes.filter(c => c.tagsGenerated).length,
+    },
+  };
+}
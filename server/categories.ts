@@ -0,0 +1,253 @@
+import type { Category, InsertCategory } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// The storage methods category helpers need, so they also run against
+// DatabaseStorage directly from the migration script
+export type CategoryStore = Pick<IStorage, "getCategories" | "getCategory" | "createCategories">;
+
+type CategoryDefaults = Pick<
+  InsertCategory,
+  "name" | "googleCategoryId" | "googleCategoryPath" | "defaultTags" | "descriptionTemplate"
+>;
+
+// Starter categories every user gets. These used to be hard-coded in optimize-all;
+// they are now ordinary rows the user can rename, nest and edit.
+export const DEFAULT_CATEGORIES: CategoryDefaults[] = [
+  {
+    name: "Electronics",
+    googleCategoryId: "222",
+    googleCategoryPath: "Electronics",
+    defaultTags: "technology, innovation, gadgets, electronics, modern",
+    descriptionTemplate: "Experience the latest in electronic innovation with {name}. Designed for modern living with premium quality and reliable performance.",
+  },
+  {
+    name: "Clothing",
+    googleCategoryId: "1604",
+    googleCategoryPath: "Apparel & Accessories > Clothing",
+    defaultTags: "fashion, style, apparel, comfortable, trendy",
+    descriptionTemplate: "Discover stylish comfort with {name}. Premium quality materials and contemporary design for your wardrobe essentials.",
+  },
+  {
+    name: "Home & Garden",
+    googleCategoryId: "536",
+    googleCategoryPath: "Home & Garden",
+    defaultTags: "home improvement, decor, garden, lifestyle, quality",
+    descriptionTemplate: "Transform your living space with {name}. Quality craftsmanship meets functional design for your home.",
+  },
+  {
+    name: "Books",
+    googleCategoryId: "784",
+    googleCategoryPath: "Media > Books",
+    defaultTags: "reading, education, literature, knowledge, entertainment",
+    descriptionTemplate: "Immerse yourself in {name}. A captivating read that combines engaging content with valuable insights.",
+  },
+  {
+    name: "Health",
+    googleCategoryId: "491",
+    googleCategoryPath: "Health & Beauty > Health Care",
+    defaultTags: "wellness, health, fitness, natural, supplements",
+    descriptionTemplate: "Enhance your wellness journey with {name}. Quality ingredients and trusted formulation for your health goals.",
+  },
+  {
+    name: "Sports",
+    googleCategoryId: "988",
+    googleCategoryPath: "Sporting Goods",
+    defaultTags: "fitness, sports, athletic, performance, training",
+    descriptionTemplate: "Elevate your performance with {name}. Professional-grade quality for athletes and fitness enthusiasts.",
+  },
+  {
+    name: "Beauty",
+    googleCategoryId: "473",
+    googleCategoryPath: "Health & Beauty > Personal Care > Cosmetics",
+    defaultTags: "skincare, beauty, cosmetics, self-care, premium",
+    descriptionTemplate: "Discover your natural radiance with {name}. Premium formulation for effective and gentle care.",
+  },
+  {
+    name: "Toys",
+    googleCategoryId: "1239",
+    googleCategoryPath: "Toys & Games",
+    defaultTags: "kids, fun, educational, safe, entertainment",
+    descriptionTemplate: "Spark imagination and fun with {name}. Safe, durable, and designed for endless entertainment.",
+  },
+  { name: "Food", googleCategoryId: "412", googleCategoryPath: "Food, Beverages & Tobacco" },
+  { name: "Automotive", googleCategoryId: "888", googleCategoryPath: "Vehicles & Parts" },
+  { name: "Other" },
+];
+
+// Used when neither the category nor any of its ancestors sets a default
+export const FALLBACK_TAGS = "quality, premium, reliable, popular, recommended";
+export const FALLBACK_DESCRIPTION_TEMPLATE =
+  "Discover the exceptional quality and value of {name}. Carefully crafted to meet your needs with superior performance and reliability.";
+
+// Top levels of the Google product taxonomy plus the paths the defaults use.
+// Offered as suggestions; any numeric id from the full taxonomy is accepted.
+export const GOOGLE_TAXONOMY: Array<{ id: string; path: string }> = [
+  { id: "1", path: "Animals & Pet Supplies" },
+  { id: "166", path: "Apparel & Accessories" },
+  { id: "1604", path: "Apparel & Accessories > Clothing" },
+  { id: "187", path: "Apparel & Accessories > Shoes" },
+  { id: "188", path: "Apparel & Accessories > Jewelry" },
+  { id: "8", path: "Arts & Entertainment" },
+  { id: "537", path: "Baby & Toddler" },
+  { id: "111", path: "Business & Industrial" },
+  { id: "141", path: "Cameras & Optics" },
+  { id: "222", path: "Electronics" },
+  { id: "412", path: "Food, Beverages & Tobacco" },
+  { id: "436", path: "Furniture" },
+  { id: "632", path: "Hardware" },
+  { id: "469", path: "Health & Beauty" },
+  { id: "491", path: "Health & Beauty > Health Care" },
+  { id: "2915", path: "Health & Beauty > Personal Care" },
+  { id: "473", path: "Health & Beauty > Personal Care > Cosmetics" },
+  { id: "536", path: "Home & Garden" },
+  { id: "5181", path: "Luggage & Bags" },
+  { id: "783", path: "Media" },
+  { id: "784", path: "Media > Books" },
+  { id: "922", path: "Office Supplies" },
+  { id: "5605", path: "Religious & Ceremonial" },
+  { id: "2092", path: "Software" },
+  { id: "988", path: "Sporting Goods" },
+  { id: "1239", path: "Toys & Games" },
+  { id: "888", path: "Vehicles & Parts" },
+];
+
+export function categoryPath(byId: Map<string, Category>, category: Category): string {
+  const names: string[] = [];
+  const seen = new Set<string>();
+  let current: Category | undefined = category;
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    names.unshift(current.name);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return names.join(" > ");
+}
+
+// The category and every category nested below it
+export function descendantIds(categories: Category[], rootId: string): string[] {
+  const ids = [rootId];
+  for (let i = 0; i < ids.length; i++) {
+    for (const category of categories) {
+      if (category.parentId === ids[i] && !ids.includes(category.id)) ids.push(category.id);
+    }
+  }
+  return ids;
+}
+
+export function wouldCreateCycle(categories: Category[], categoryId: string, parentId: string): boolean {
+  return descendantIds(categories, categoryId).includes(parentId);
+}
+
+// Tags and description template for a category, inherited from the nearest
+// ancestor that sets them
+export function categoryDefaults(
+  byId: Map<string, Category>,
+  categoryId: string | null
+): { tags: string; descriptionTemplate: string } {
+  let tags: string | null = null;
+  let descriptionTemplate: string | null = null;
+  const seen = new Set<string>();
+  let current = categoryId ? byId.get(categoryId) : undefined;
+  while (current && !seen.has(current.id) && (!tags || !descriptionTemplate)) {
+    seen.add(current.id);
+    tags = tags || current.defaultTags;
+    descriptionTemplate = descriptionTemplate || current.descriptionTemplate;
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return {
+    tags: tags || FALLBACK_TAGS,
+    descriptionTemplate: descriptionTemplate || FALLBACK_DESCRIPTION_TEMPLATE,
+  };
+}
+
+// Google product category id, inherited from the nearest mapped ancestor
+export function inheritedGoogleCategory(byId: Map<string, Category>, categoryId: string | null): string | null {
+  const seen = new Set<string>();
+  let current = categoryId ? byId.get(categoryId) : undefined;
+  while (current && !seen.has(current.id)) {
+    if (current.googleCategoryId) return current.googleCategoryId;
+    seen.add(current.id);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return null;
+}
+
+export function renderDescriptionTemplate(template: string, name: string): string {
+  return template.replace(/\{name\}/g, name);
+}
+
+// Seeds the starter categories the first time a user's categories are needed.
+// Requests racing to seed them insert the same names, and all but one are skipped.
+export async function ensureDefaultCategories(store: CategoryStore, userId: string): Promise<Category[]> {
+  const existing = await store.getCategories(userId);
+  if (existing.length > 0) return existing;
+
+  await store.createCategories(DEFAULT_CATEGORIES.map(defaults => ({ ...defaults, userId })));
+  return store.getCategories(userId);
+}
+
+// Whether another category at the same level already has this name (ignoring case)
+export function categoryNameTaken(
+  categories: Category[],
+  name: string,
+  parentId: string | null,
+  exceptId?: string
+): boolean {
+  const needle = name.trim().toLowerCase();
+  return categories.some(category =>
+    category.id !== exceptId &&
+    (category.parentId || null) === parentId &&
+    category.name.toLowerCase() === needle
+  );
+}
+
+// Matches a free-text category name to one of the user's categories
+// (case-insensitive, top-level first)
+export function findCategory(categories: Category[], name: string): Category | undefined {
+  const needle = name.trim().toLowerCase();
+  const matches = categories.filter(category => category.name.toLowerCase() === needle);
+  return matches.find(category => !category.parentId) || matches[0];
+}
+
+// Like findCategory, but creates a new top-level category when nothing matches.
+// Only for the category migration and imports that opt in; product writes
+// reject unknown names instead.
+export async function findOrCreateCategory(
+  store: CategoryStore,
+  userId: string,
+  name: string,
+  existing?: Category[]
+): Promise<Category> {
+  const categories = existing || await ensureDefaultCategories(store, userId);
+  const match = findCategory(categories, name);
+  if (match) return match;
+
+  const needle = name.trim().toLowerCase();
+  const defaults = DEFAULT_CATEGORIES.find(category => category.name.toLowerCase() === needle);
+  const [created] = await store.createCategories([{ ...defaults, name: name.trim(), userId }]);
+  // Someone else created it first
+  const category = created || findCategory(await store.getCategories(userId), name)!;
+  categories.push(category);
+  return category;
+}
+
+// Fills in categoryId from a category name or category from a categoryId so a
+// product write always carries both. Returns false if the category isn't one
+// of the user's.
+export async function applyProductCategory(
+  store: CategoryStore,
+  userId: string,
+  fields: { category?: string; categoryId?: string | null }
+): Promise<boolean> {
+  if (fields.categoryId) {
+    const category = await store.getCategory(fields.categoryId);
+    if (!category || category.userId !== userId) return false;
+    fields.category = category.name;
+  } else if (fields.category) {
+    const category = findCategory(await ensureDefaultCategories(store, userId), fields.category);
+    if (!category) return false;
+    fields.category = category.name;
+    fields.categoryId = category.id;
+  }
+  return true;
+}
@@ -0,0 +1,54 @@
+import { LOCALE_NAMES, type FeedChannel, type ProductFeed, type SupportedLocale } from "@shared/schema";
+import type { FeedProduct } from "./catalog-feed";
+import { buildMerchantFeed, merchantFeedTsv, merchantFeedXml, type MerchantFeed } from "./merchant-feed";
+import { buildMetaCatalog, metaCatalogCsv } from "./meta-catalog";
+
+// File formats each channel's tokenized URL can be fetched in, first one is the default
+export const FEED_FORMATS: Record<FeedChannel, readonly string[]> = {
+  google: ["xml", "tsv"],
+  meta: ["csv"],
+};
+
+export const FEED_CHANNEL_LABELS: Record<FeedChannel, string> = {
+  google: "Google Merchant Center",
+  meta: "Meta catalog",
+};
+
+// With a locale, products are listed in that language and those without a
+// published translation are rejected
+export function buildChannelFeed(
+  channel: FeedChannel,
+  entries: FeedProduct[],
+  feed: ProductFeed,
+  locale?: SupportedLocale
+): MerchantFeed {
+  const listed = locale ? entries.filter(entry => entry.translation) : entries;
+  const built = channel === "meta" ? buildMetaCatalog(listed, feed) : buildMerchantFeed(listed, feed);
+  if (locale) {
+    for (const entry of entries.filter(entry => !entry.translation)) {
+      built.rejected.push({
+        productId: entry.product.id,
+        itemId: entry.product.id,
+        name: entry.product.name,
+        reasons: [`No published ${LOCALE_NAMES[locale]} translation`],
+      });
+    }
+  }
+  return built;
+}
+
+export function renderChannelFeed(
+  format: string,
+  { items }: MerchantFeed,
+  feed: ProductFeed,
+  storeName: string
+): { contentType: string; body: string } {
+  switch (format) {
+    case "csv":
+      return { contentType: "text/csv; charset=utf-8", body: metaCatalogCsv(items) };
+    case "tsv":
+      return { contentType: "text/tab-separated-values; charset=utf-8", body: merchantFeedTsv(items) };
+    default:
+      return { contentType: "application/xml; charset=utf-8", body: merchantFeedXml(items, feed, storeName) };
+  }
+}
@@ -0,0 +1,202 @@
+import {
+  bulkOptimizeSchema,
+  type AiGeneration,
+  type ContentRefreshPolicy,
+  type ContentRefreshStatus,
+  type ContentRefreshTool,
+  type Job,
+  type JobItem,
+  type OptimizedCopy,
+  type Product,
+  type SeoMeta,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import { AIQuotaError, requireAIQuota } from "./ai-quota";
+import type { BulkOptimizeItemResult } from "./bulk-optimize";
+
+// Scheduled refresh of AI copy. Each product can have a policy saying which
+// copy to regenerate and how often; the scheduler finds products whose copy is
+// older than that and queues a content-refresh job per user. The jobs run like
+// a bulk optimization without the AI cache, and only write into the products
+// when the policy has autoApply; otherwise the results wait in the generation
+// history to be approved.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_CHECK_MINUTES = 60;
+// A refresh that failed or was cancelled is tried again after this long
+// rather than a full interval later
+const FAILED_RETRY_MS = DAY_MS;
+
+type RefreshStore = Pick<
+  IStorage,
+  | "getUser"
+  | "getProduct"
+  | "getSeoMeta"
+  | "getContentRefreshPolicies"
+  | "updateContentRefreshPolicy"
+  | "createJob"
+  | "getJobItems"
+  | "getAiGeneration"
+  | "createActivityLog"
+  | "consumeAIQuota"
+  | "releaseAIQuota"
+  | "getAIQuotaUsage"
+>;
+
+// When the copy a tool writes was last updated. Copy that was never optimized
+// is as old as the product.
+function copyUpdatedAt(tool: ContentRefreshTool, product: Product, seo: SeoMeta | undefined): Date {
+  const created = product.createdAt || new Date(0);
+  if (tool === "description") {
+    const optimizedAt = (product.optimizedCopy as OptimizedCopy | null)?.optimizedAt;
+    return optimizedAt ? new Date(optimizedAt) : created;
+  }
+  return seo?.updatedAt || seo?.createdAt || created;
+}
+
+export interface RefreshSchedule {
+  // The oldest of the policy's copy
+  contentUpdatedAt: Date;
+  dueAt: Date;
+}
+
+// A product is due intervalDays after its oldest copy was written, or after
+// the last refresh was queued, so staged results aren't regenerated while they
+// wait for approval. If that refresh failed, it's due a day after it was queued.
+export function refreshSchedule(
+  policy: ContentRefreshPolicy,
+  product: Product,
+  seo: SeoMeta | undefined,
+  lastRefreshFailed = false
+): RefreshSchedule {
+  const contentUpdatedAt = new Date(Math.min(...policy.tools.map(tool => copyUpdatedAt(tool, product, seo).getTime())));
+  const lastQueued = policy.lastQueuedAt?.getTime() || 0;
+  let dueAt = Math.max(contentUpdatedAt.getTime(), lastQueued) + policy.intervalDays * DAY_MS;
+  if (lastRefreshFailed && lastQueued) dueAt = Math.min(dueAt, lastQueued + FAILED_RETRY_MS);
+  return { contentUpdatedAt, dueAt: new Date(dueAt) };
+}
+
+// The policy's item in its latest refresh job
+async function lastRefreshItem(store: RefreshStore, policy: ContentRefreshPolicy): Promise<JobItem | undefined> {
+  if (!policy.lastJobId) return undefined;
+  return (await store.getJobItems(policy.lastJobId)).find(candidate => candidate.productId === policy.productId);
+}
+
+const refreshFailed = (item: JobItem | undefined) => item?.status === "failed" || item?.status === "cancelled";
+
+async function scheduleOf(store: RefreshStore, policy: ContentRefreshPolicy, product: Product): Promise<RefreshSchedule> {
+  const failed = refreshFailed(await lastRefreshItem(store, policy));
+  return refreshSchedule(policy, product, await store.getSeoMeta(product.id), failed);
+}
+
+// Generations from the policy's latest refresh that haven't been applied
+async function stagedGenerations(store: RefreshStore, policy: ContentRefreshPolicy): Promise<AiGeneration[]> {
+  const item = await lastRefreshItem(store, policy);
+  const result = item?.result as BulkOptimizeItemResult | null | undefined;
+  if (!result || result.applied) return [];
+  const generations = await Promise.all(result.generationIds.map(id => store.getAiGeneration(id)));
+  return generations.filter((generation): generation is AiGeneration => !!generation && !generation.appliedAt);
+}
+
+export async function getContentRefreshStatuses(store: RefreshStore, userId: string, now = new Date()): Promise<ContentRefreshStatus[]> {
+  const statuses: ContentRefreshStatus[] = [];
+  for (const policy of await store.getContentRefreshPolicies(userId)) {
+    const product = await store.getProduct(policy.productId);
+    if (!product) continue;
+    const { contentUpdatedAt, dueAt } = await scheduleOf(store, policy, product);
+    statuses.push({
+      policy,
+      productName: product.name,
+      contentUpdatedAt: contentUpdatedAt.toISOString(),
+      dueAt: dueAt.toISOString(),
+      due: policy.enabled && dueAt <= now,
+      staged: await stagedGenerations(store, policy),
+    });
+  }
+  return statuses;
+}
+
+// Policies with the same settings share a job
+function jobKey(policy: ContentRefreshPolicy): string {
+  return [Array.from(policy.tools).sort().join(","), policy.brandVoice, policy.autoApply].join("|");
+}
+
+export interface RefreshQueueOptions {
+  // Only this user's policies; the scheduler covers everyone
+  userId?: string;
+  // Refresh these products now, whether or not they're due or enabled
+  productIds?: string[];
+}
+
+// Queues a content-refresh job for every group of due products. Scheduled runs
+// skip users whose AI quota is used up and try again next time; runs for
+// given products throw the AIQuotaError instead. Returns the jobs created; the
+// caller wakes the job queue.
+export async function queueContentRefresh(store: RefreshStore, options: RefreshQueueOptions = {}, now = new Date()): Promise<Job[]> {
+  const due = new Map<string, Map<string, ContentRefreshPolicy[]>>();
+  for (const policy of await store.getContentRefreshPolicies(options.userId)) {
+    const forced = !!options.productIds?.includes(policy.productId);
+    if (options.productIds ? !forced : !policy.enabled) continue;
+    const product = await store.getProduct(policy.productId);
+    if (!product) continue;
+    if (!forced && (await scheduleOf(store, policy, product)).dueAt > now) continue;
+    const groups = due.get(policy.userId) || new Map<string, ContentRefreshPolicy[]>();
+    const key = jobKey(policy);
+    groups.set(key, [...(groups.get(key) || []), policy]);
+    due.set(policy.userId, groups);
+  }
+
+  const jobs: Job[] = [];
+  for (const [ownerId, groups] of Array.from(due)) {
+    const user = await store.getUser(ownerId);
+    if (!user) continue;
+    for (const policies of Array.from(groups.values())) {
+      const [{ tools, brandVoice, autoApply }] = policies;
+      try {
+        await requireAIQuota(store, user, tools.map(tool => tool === "seo" ? "seoOptimizations" : "aiGenerations"));
+      } catch (error) {
+        if (error instanceof AIQuotaError && !options.productIds) continue;
+        throw error;
+      }
+
+      const productIds = policies.map(policy => policy.productId);
+      const params = bulkOptimizeSchema.parse({ productIds, tools, brandVoice, apply: autoApply, noCache: true });
+      const job = await store.createJob({ userId: ownerId, type: "content-refresh", params }, productIds);
+      for (const policy of policies) {
+        await store.updateContentRefreshPolicy(policy.id, { lastQueuedAt: now, lastJobId: job.id });
+      }
+      await store.createActivityLog(ownerId, {
+        action: "queued_content_refresh",
+        description: `Queued a refresh of ${productIds.length} product${productIds.length === 1 ? "" : "s"} with stale copy`,
+        toolUsed: "scheduled-refresh",
+        metadata: { jobId: job.id, tools, autoApply }
+      });
+      jobs.push(job);
+    }
+  }
+  return jobs;
+}
+
+// Checks for due products every CONTENT_REFRESH_CHECK_MINUTES (default 60;
+// 0 turns the scheduler off) and hands the jobs to onQueued
+export function startContentRefreshScheduler(store: RefreshStore, onQueued: (jobs: Job[]) => void): NodeJS.Timeout | null {
+  const minutes = Number(process.env.CONTENT_REFRESH_CHECK_MINUTES ?? DEFAULT_CHECK_MINUTES);
+  if (!Number.isFinite(minutes) || minutes <= 0) return null;
+
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      const jobs = await queueContentRefresh(store);
+      if (jobs.length > 0) onQueued(jobs);
+    } catch (error) {
+      console.error("Content refresh scheduler error:", error);
+    } finally {
+      running = false;
+    }
+  }, minutes * 60 * 1000);
+  // Doesn't keep the process alive on its own
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,133 @@
+// Minimal RFC 4180 CSV reader/writer used by the catalog import/export routes.
+// The parser is incremental so uploads can be consumed chunk by chunk instead
+// of buffering the whole request body first.
+
+export class CsvParser {
+  private field = "";
+  private row: string[] = [];
+  private inQuotes = false;
+  private pendingQuote = false;
+  private skipLineFeed = false;
+
+  push(chunk: string): string[][] {
+    const rows: string[][] = [];
+
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false;
+        if (char === "\n") continue;
+      }
+
+      if (this.inQuotes) {
+        if (this.pendingQuote) {
+          this.pendingQuote = false;
+          if (char === '"') {
+            this.field += '"';
+            continue;
+          }
+          this.inQuotes = false;
+          // fall through and treat char as unquoted input
+        } else if (char === '"') {
+          this.pendingQuote = true;
+          continue;
+        } else {
+          this.field += char;
+          continue;
+        }
+      }
+
+      if (char === '"' && this.field === "") {
+        this.inQuotes = true;
+      } else if (char === ",") {
+        this.endField();
+      } else if (char === "\r" || char === "\n") {
+        this.endField();
+        rows.push(this.endRow());
+        this.skipLineFeed = char === "\r";
+      } else {
+        this.field += char;
+      }
+    }
+
+    return rows.filter(row => !isBlankRow(row));
+  }
+
+  flush(): string[][] {
+    if (this.pendingQuote) {
+      this.pendingQuote = false;
+      this.inQuotes = false;
+    }
+    if (this.inQuotes) {
+      throw new Error("Unterminated quoted field at end of CSV");
+    }
+    if (this.field === "" && this.row.length === 0) {
+      return [];
+    }
+    this.endField();
+    const row = this.endRow();
+    return isBlankRow(row) ? [] : [row];
+  }
+
+  private endField() {
+    this.row.push(this.field);
+    this.field = "";
+  }
+
+  private endRow(): string[] {
+    const row = this.row;
+    this.row = [];
+    return row;
+  }
+}
+
+function isBlankRow(row: string[]): boolean {
+  return row.every(value => value.trim() === "");
+}
+
+// Reads CSV rows from a stream (e.g. an Express request) without buffering it.
+export async function* readCsvRows(
+  stream: AsyncIterable<Buffer | string>,
+  maxBytes: number
+): AsyncGenerator<string[]> {
+  const parser = new CsvParser();
+  const decoder = new TextDecoder("utf-8");
+  let bytesRead = 0;
+  let first = true;
+
+  for await (const chunk of stream) {
+    const buffer = typeof chunk === "string" ? Buffer.from(chunk) : chunk;
+    bytesRead += buffer.length;
+    if (bytesRead > maxBytes) {
+      throw new Error(`CSV upload exceeds the ${Math.round(maxBytes / 1024 / 1024)}MB limit`);
+    }
+
+    let text = decoder.decode(buffer, { stream: true });
+    if (first) {
+      text = text.replace(/^\uFEFF/, "");
+      first = false;
+    }
+
+    for (const row of parser.push(text)) {
+      yield row;
+    }
+  }
+
+  for (const row of parser.push(decoder.decode())) {
+    yield row;
+  }
+  for (const row of parser.flush()) {
+    yield row;
+  }
+}
+
+export function escapeCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: unknown[][]): string {
+  return rows.map(row => row.map(escapeCsvValue).join(",")).join("\r\n") + "\r\n";
+}
@@ -3,6 +3,7 @@ import { neon } from "@neondatabase/serverless";
 import { eq, desc, and, gte, lt } from "drizzle-orm";
 import bcrypt from "bcrypt";
 import { randomUUID } from "crypto";
+import { aiQuotaLimits } from "./ai-quota";
 import {
   users,
   profiles,
@@ -242,7 +243,8 @@ export async function seedSubscriptionPlans(): Promise<void> {
         limits: {
           products: 5,
           emails: 1,
-          sms: 1
+          sms: 1,
+          ...aiQuotaLimits("Forever Free")
         }
       },
       {
@@ -259,7 +261,8 @@ export async function seedSubscriptionPlans(): Promise<void> {
         limits: {
           products: 50,
           emails: 500,
-          sms: 200
+          sms: 200,
+          ...aiQuotaLimits("Starter")
         }
       },
       {
@@ -278,7 +281,8 @@ export async function seedSubscriptionPlans(): Promise<void> {
         limits: {
           products: -1,
           emails: 5000,
-          sms: 1000
+          sms: 1000,
+          ...aiQuotaLimits("Pro")
         }
       },
       {
@@ -297,7 +301,8 @@ export async function seedSubscriptionPlans(): Promise<void> {
         limits: {
           products: -1,
           emails: 25000,
-          sms: 5000
+          sms: 5000,
+          ...aiQuotaLimits("Growth")
         }
       },
       {
@@ -315,7 +320,8 @@ export async function seedSubscriptionPlans(): Promise<void> {
         limits: {
           products: -1,
           emails: -1,
-          sms: -1
+          sms: -1,
+          ...aiQuotaLimits("Enterprise")
         }
       },
     ];
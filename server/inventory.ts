@@ -0,0 +1,31 @@
+import type { InsertNotification, Product, StockMovementReason } from "@shared/schema";
+import type { VersionContext } from "./product-versions";
+
+// Ledger reason for a stock change that didn't name one explicitly
+export function stockReasonFor(context: VersionContext): StockMovementReason {
+  if (context.stockReason) return context.stockReason;
+  switch (context.source) {
+    case "sync":
+      return "sync";
+    case "import":
+      return "restock";
+    default:
+      return "adjustment";
+  }
+}
+
+// Alert once, when stock crosses below the reorder threshold; further drops
+// while already below it stay quiet.
+export function lowStockNotification(before: Product, after: Product): InsertNotification | null {
+  const threshold = after.reorderThreshold;
+  if (threshold === null || after.stock >= threshold || before.stock < threshold) return null;
+
+  return {
+    userId: after.userId,
+    title: `Low stock: ${after.name}`,
+    message: `${after.name} is down to ${after.stock} ${after.stock === 1 ? "unit" : "units"} (reorder threshold ${threshold}).`,
+    type: "warning",
+    actionUrl: `/products?product=${after.id}`,
+    actionLabel: "View product",
+  };
+}
@@ -0,0 +1,237 @@
+import type { InsertNotification, Job, JobItem, JobType } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+type JobStore = Pick<
+  IStorage,
+  | "getActiveJobs"
+  | "getJob"
+  | "updateJob"
+  | "getJobItems"
+  | "updateJobItem"
+  | "updateJobItemsByStatus"
+  | "createNotification"
+>;
+
+// Processes one item. The return value is stored as the item's result; a thrown
+// error fails the attempt.
+export type JobHandler = (job: Job, item: JobItem) => Promise<unknown>;
+
+// Thrown by a handler when retrying can't help (missing product, plan limits)
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentJobError";
+  }
+}
+
+export interface JobQueueOptions {
+  // Items processed at once, across all users' jobs
+  concurrency: number;
+  maxAttempts: number;
+  // First retry waits this long; each further retry doubles it
+  retryBaseMs: number;
+}
+
+export const DEFAULT_JOB_QUEUE_OPTIONS: JobQueueOptions = {
+  concurrency: Number(process.env.JOB_CONCURRENCY) || 3,
+  maxAttempts: 3,
+  retryBaseMs: 2000,
+};
+
+const JOB_LABELS: Record<JobType, string> = {
+  "bulk-optimize": "Bulk optimization",
+  "content-refresh": "Content refresh",
+};
+
+const isActive = (job: Job | undefined) => job?.status === "queued" || job?.status === "running";
+
+function countItems(items: JobItem[]) {
+  return {
+    succeeded: items.filter(item => item.status === "succeeded").length,
+    failed: items.filter(item => item.status === "failed").length,
+  };
+}
+
+function jobNotification(job: Job): InsertNotification {
+  const label = JOB_LABELS[job.type as JobType] || "Job";
+  const counts = `${job.succeeded} of ${job.total} products succeeded, ${job.failed} failed`;
+  const title = job.status === "cancelled"
+    ? `${label} cancelled`
+    : job.status === "failed" ? `${label} failed` : `${label} finished`;
+  return {
+    userId: job.userId,
+    title,
+    message: `${counts}.`,
+    type: job.status === "completed" && job.failed === 0 ? "success" : job.failed > 0 ? "warning" : "info",
+    actionUrl: `/dashboard?job=${job.id}`,
+    actionLabel: "View results",
+  };
+}
+
+// Persisted work queue. Jobs and items live in storage, so a restart picks up
+// where it left off; the queue itself only tracks what's in flight.
+export class JobQueue {
+  private handlers = new Map<JobType, JobHandler>();
+  private inFlight = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  private wakeAt = Infinity;
+  private started = false;
+  private ticking = false;
+  private rerun = false;
+
+  constructor(
+    private store: JobStore,
+    private options: JobQueueOptions = DEFAULT_JOB_QUEUE_OPTIONS
+  ) {}
+
+  register(type: JobType, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  async start(): Promise<void> {
+    // Items that were running when the server stopped get another go
+    for (const job of await this.store.getActiveJobs()) {
+      await this.store.updateJobItemsByStatus(job.id, "running", { status: "pending" });
+    }
+    this.started = true;
+    this.wake();
+  }
+
+  // Schedules a pass over the queue; call after creating or cancelling a job
+  wake(delayMs = 0): void {
+    if (!this.started) return;
+    const at = Date.now() + delayMs;
+    if (this.timer && this.wakeAt <= at) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.wakeAt = at;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.wakeAt = Infinity;
+      void this.tick();
+    }, Math.max(0, delayMs));
+  }
+
+  async cancel(job: Job): Promise<Job> {
+    // Running items finish, but nothing new starts
+    await this.store.updateJobItemsByStatus(job.id, "pending", { status: "cancelled", finishedAt: new Date() });
+    const cancelled = await this.store.updateJob(job.id, {
+      ...countItems(await this.store.getJobItems(job.id)),
+      status: "cancelled",
+      finishedAt: new Date(),
+    });
+    await this.store.createNotification(jobNotification(cancelled));
+    return cancelled;
+  }
+
+  private async tick(): Promise<void> {
+    if (this.ticking) {
+      this.rerun = true;
+      return;
+    }
+    this.ticking = true;
+    try {
+      await this.fill();
+    } catch (error) {
+      console.error("Job queue error:", error);
+      this.wake(this.options.retryBaseMs);
+    } finally {
+      this.ticking = false;
+      if (this.rerun) {
+        this.rerun = false;
+        this.wake();
+      }
+    }
+  }
+
+  // Starts due items up to the concurrency limit, oldest job first, and
+  // finishes jobs with nothing left to do
+  private async fill(): Promise<void> {
+    let nextDue = Infinity;
+    for (const job of await this.store.getActiveJobs()) {
+      const items = await this.store.getJobItems(job.id);
+      const busy = items.some(item => item.status === "running" || this.inFlight.has(item.id));
+      const pending = items.filter(item => item.status === "pending" && !this.inFlight.has(item.id));
+      if (pending.length === 0) {
+        if (!busy) await this.finish(job, items);
+        continue;
+      }
+
+      for (const item of pending) {
+        // Finishing items wake the queue again
+        if (this.inFlight.size >= this.options.concurrency) return;
+        const due = item.nextAttemptAt?.getTime() || 0;
+        if (due > Date.now()) {
+          nextDue = Math.min(nextDue, due);
+          continue;
+        }
+        void this.run(job, item);
+      }
+    }
+    if (nextDue !== Infinity) this.wake(nextDue - Date.now());
+  }
+
+  private async run(job: Job, item: JobItem): Promise<void> {
+    this.inFlight.add(item.id);
+    const attempts = item.attempts + 1;
+    try {
+      await this.store.updateJobItem(item.id, { status: "running", attempts, startedAt: new Date(), nextAttemptAt: null });
+      if (job.status === "queued") {
+        const current = await this.store.getJob(job.id);
+        if (current?.status === "queued") {
+          await this.store.updateJob(job.id, { status: "running", startedAt: new Date() });
+        }
+      }
+
+      const handler = this.handlers.get(job.type as JobType);
+      if (!handler) throw new PermanentJobError(`No handler for ${job.type} jobs`);
+      const result = await handler(job, item);
+      await this.store.updateJobItem(item.id, {
+        status: "succeeded",
+        result: result ?? null,
+        lastError: null,
+        finishedAt: new Date(),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const retryable = !(error instanceof PermanentJobError) && attempts < this.options.maxAttempts;
+      try {
+        const active = isActive(await this.store.getJob(job.id));
+        if (retryable && active) {
+          const delay = this.options.retryBaseMs * 2 ** (attempts - 1) * (1 + Math.random() * 0.2);
+          await this.store.updateJobItem(item.id, {
+            status: "pending",
+            lastError: message,
+            nextAttemptAt: new Date(Date.now() + delay),
+          });
+        } else {
+          await this.store.updateJobItem(item.id, {
+            status: retryable ? "cancelled" : "failed",
+            lastError: message,
+            finishedAt: new Date(),
+          });
+        }
+      } catch (updateError) {
+        // run() is started without being awaited, so it must never reject
+        console.error("Job item update error:", updateError);
+      }
+    } finally {
+      this.inFlight.delete(item.id);
+      try {
+        await this.store.updateJob(job.id, countItems(await this.store.getJobItems(job.id)));
+      } catch (error) {
+        console.error("Job progress update error:", error);
+      }
+      this.wake();
+    }
+  }
+
+  private async finish(job: Job, items: JobItem[]): Promise<void> {
+    const counts = countItems(items);
+    const finished = await this.store.updateJob(job.id, {
+      ...counts,
+      status: counts.succeeded === 0 && counts.failed > 0 ? "failed" : "completed",
+      finishedAt: new Date(),
+    });
+    await this.store.createNotification(jobNotification(finished));
+  }
+}
@@ -0,0 +1,200 @@
+import type { ProductFeed, ProductVariant } from "@shared/schema";
+import { isHttpUrl, productLink, truncate, type FeedProduct } from "./catalog-feed";
+
+// Google Merchant Center attributes we emit, in TSV column order
+export const MERCHANT_ATTRIBUTES = [
+  "id",
+  "title",
+  "description",
+  "link",
+  "image_link",
+  "price",
+  "availability",
+  "condition",
+  "brand",
+  "google_product_category",
+  "product_type",
+  "item_group_id",
+  "color",
+  "size",
+  "material",
+] as const;
+
+export type MerchantAttribute = typeof MERCHANT_ATTRIBUTES[number];
+export type MerchantItem = Partial<Record<MerchantAttribute, string>>;
+
+export const REQUIRED_MERCHANT_ATTRIBUTES: MerchantAttribute[] = [
+  "id",
+  "title",
+  "description",
+  "link",
+  "image_link",
+  "price",
+  "availability",
+];
+
+export interface FeedLimits {
+  id: number;
+  title: number;
+  description: number;
+}
+
+export const MERCHANT_LIMITS: FeedLimits = { id: 50, title: 150, description: 5000 };
+
+// Variant option axes that map onto Merchant Center attributes
+const OPTION_ATTRIBUTES: Record<string, MerchantAttribute> = {
+  color: "color",
+  colour: "color",
+  size: "size",
+  material: "material",
+};
+
+export interface RejectedItem {
+  productId: string;
+  itemId: string;
+  name: string;
+  reasons: string[];
+}
+
+export interface MerchantFeed {
+  items: MerchantItem[];
+  rejected: RejectedItem[];
+}
+
+function buildItem(entry: FeedProduct, feed: ProductFeed, limits: FeedLimits, variant?: ProductVariant): MerchantItem {
+  const { product, seo, translation } = entry;
+  const title = translation
+    ? translation.seoTitle || translation.name
+    : seo?.optimizedTitle || seo?.seoTitle || product.name;
+  const description = translation
+    ? translation.description || translation.metaDescription || ""
+    : product.description || seo?.optimizedMeta || seo?.metaDescription || "";
+  const price = parseFloat(variant?.price ?? product.price);
+  const stock = variant ? variant.stock : product.stock;
+
+  const item: MerchantItem = {
+    id: variant?.sku || product.id,
+    title: truncate(title.trim(), limits.title),
+    description: truncate(description.trim(), limits.description),
+    link: productLink(feed.linkTemplate, product, variant) || "",
+    image_link: variant?.image || product.image || "",
+    price: isNaN(price) ? "" : `${price.toFixed(2)} ${feed.currency}`,
+    availability: stock > 0 ? "in_stock" : "out_of_stock",
+    condition: "new",
+    brand: feed.brand || undefined,
+    google_product_category: entry.googleCategoryId || undefined,
+    product_type: entry.categoryPath || undefined,
+  };
+
+  if (variant) {
+    item.item_group_id = product.id;
+    for (const [axis, value] of Object.entries(variant.options)) {
+      const attribute = OPTION_ATTRIBUTES[axis.toLowerCase()];
+      if (attribute) item[attribute] = value;
+    }
+  }
+  return item;
+}
+
+// One item per product, or one per variant grouped by item_group_id
+export function buildFeedItems(entry: FeedProduct, feed: ProductFeed, limits: FeedLimits): MerchantItem[] {
+  return entry.variants.length > 0
+    ? entry.variants.map(variant => buildItem(entry, feed, limits, variant))
+    : [buildItem(entry, feed, limits)];
+}
+
+// Reasons Merchant Center would disapprove the item, empty if it is fine
+export function validateMerchantItem(item: MerchantItem, limits: FeedLimits = MERCHANT_LIMITS): string[] {
+  const reasons: string[] = [];
+  for (const attribute of REQUIRED_MERCHANT_ATTRIBUTES) {
+    if (!item[attribute]) {
+      reasons.push(attribute === "link"
+        ? "Missing link: set a product link template in the feed settings"
+        : `Missing ${attribute}`);
+    }
+  }
+  if (item.id && item.id.length > limits.id) {
+    reasons.push(`id is longer than ${limits.id} characters`);
+  }
+  if (item.link && !isHttpUrl(item.link)) {
+    reasons.push("link must be an http(s) URL");
+  }
+  if (item.image_link && !isHttpUrl(item.image_link)) {
+    reasons.push("image_link must be an http(s) URL");
+  }
+  if (item.price && !(parseFloat(item.price) > 0)) {
+    reasons.push("price must be greater than 0");
+  }
+  return reasons;
+}
+
+// Items that fail validation are left out of the feed and reported instead
+export function buildMerchantFeed(entries: FeedProduct[], feed: ProductFeed): MerchantFeed {
+  const result: MerchantFeed = { items: [], rejected: [] };
+  for (const entry of entries) {
+    for (const item of buildFeedItems(entry, feed, MERCHANT_LIMITS)) {
+      const reasons = validateMerchantItem(item);
+      if (reasons.length > 0) {
+        result.rejected.push({ productId: entry.product.id, itemId: item.id || "", name: entry.product.name, reasons });
+      } else {
+        result.items.push(item);
+      }
+    }
+  }
+  return result;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+}
+
+// The store's home page, taken from the product link template. Settings saved
+// before templates were checked may not parse; the feed then has no channel link.
+function storeLinkOf(linkTemplate: string | null): string {
+  if (!linkTemplate) return "";
+  try {
+    return new URL(linkTemplate.replace(/\{\w+\}/g, "x")).origin;
+  } catch {
+    return "";
+  }
+}
+
+// RSS 2.0 with the g: namespace, the format Merchant Center fetches
+export function merchantFeedXml(items: MerchantItem[], feed: ProductFeed, storeName: string): string {
+  const storeLink = storeLinkOf(feed.linkTemplate);
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<rss version="2.0" xmlns:g="http://base.google.com/ns/1.0">`,
+    `<channel>`,
+    `<title>${escapeXml(storeName)}</title>`,
+    `<link>${escapeXml(storeLink)}</link>`,
+    `<description>${escapeXml(`Product feed for ${storeName}`)}</description>`,
+  ];
+  for (const item of items) {
+    lines.push("<item>");
+    for (const attribute of MERCHANT_ATTRIBUTES) {
+      const value = item[attribute];
+      if (value) lines.push(`<g:${attribute}>${escapeXml(value)}</g:${attribute}>`);
+    }
+    lines.push("</item>");
+  }
+  lines.push("</channel>", "</rss>", "");
+  return lines.join("\n");
+}
+
+// Tab-separated, header row first. Tabs and line breaks inside values become spaces.
+export function merchantFeedTsv(items: MerchantItem[]): string {
+  const clean = (value: string | undefined) => (value || "").replace(/[\t\r\n]+/g, " ");
+  const rows = [MERCHANT_ATTRIBUTES.join("\t")];
+  for (const item of items) {
+    rows.push(MERCHANT_ATTRIBUTES.map(attribute => clean(item[attribute])).join("\t"));
+  }
+  return rows.join("\n") + "\n";
+}
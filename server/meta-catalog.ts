@@ -0,0 +1,46 @@
+import type { ProductFeed } from "@shared/schema";
+import type { FeedProduct } from "./catalog-feed";
+import { toCsv } from "./csv";
+import {
+  MERCHANT_ATTRIBUTES,
+  buildFeedItems,
+  validateMerchantItem,
+  type FeedLimits,
+  type MerchantFeed,
+  type MerchantItem,
+} from "./merchant-feed";
+
+// Meta (Facebook/Instagram) commerce catalogs take the Google attribute names,
+// with longer limits, spaced availability values and a mandatory brand.
+export const META_LIMITS: FeedLimits = { id: 100, title: 200, description: 9999 };
+
+const META_AVAILABILITY: Record<string, string> = {
+  in_stock: "in stock",
+  out_of_stock: "out of stock",
+};
+
+export function buildMetaCatalog(entries: FeedProduct[], feed: ProductFeed): MerchantFeed {
+  const result: MerchantFeed = { items: [], rejected: [] };
+  for (const entry of entries) {
+    for (const item of buildFeedItems(entry, feed, META_LIMITS)) {
+      const reasons = validateMerchantItem(item, META_LIMITS);
+      if (!item.brand) {
+        reasons.push("Missing brand: set a brand in the feed settings");
+      }
+
+      if (reasons.length > 0) {
+        result.rejected.push({ productId: entry.product.id, itemId: item.id || "", name: entry.product.name, reasons });
+      } else {
+        result.items.push({ ...item, availability: META_AVAILABILITY[item.availability!] });
+      }
+    }
+  }
+  return result;
+}
+
+export function metaCatalogCsv(items: MerchantItem[]): string {
+  return toCsv([
+    [...MERCHANT_ATTRIBUTES],
+    ...items.map(item => MERCHANT_ATTRIBUTES.map(attribute => item[attribute] || "")),
+  ]);
+}
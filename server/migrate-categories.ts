@@ -0,0 +1,61 @@
+import { isNull } from "drizzle-orm";
+import { products } from "@shared/schema";
+import { db } from "./db";
+import { DatabaseStorage, type IStorage } from "./storage";
+import { ensureDefaultCategories, findOrCreateCategory, type CategoryStore } from "./categories";
+
+export interface CategoryMigrationResult {
+  categoriesCreated: number;
+  productsUpdated: number;
+}
+
+// Converts a user's free-text product categories into category rows and points
+// every product at one. Safe to run repeatedly; linked products are left alone.
+export async function migrateUserCategories(
+  store: CategoryStore & Pick<IStorage, "getProducts" | "updateProduct">,
+  userId: string
+): Promise<CategoryMigrationResult> {
+  const before = (await store.getCategories(userId)).length;
+  const categories = await ensureDefaultCategories(store, userId);
+
+  let productsUpdated = 0;
+  for (const product of await store.getProducts(userId)) {
+    if (product.categoryId) continue;
+    const category = await findOrCreateCategory(store, userId, product.category || "Other", categories);
+    await store.updateProduct(product.id, { categoryId: category.id, category: category.name }, { source: "migration" });
+    productsUpdated++;
+  }
+
+  return {
+    categoriesCreated: categories.length - before,
+    productsUpdated,
+  };
+}
+
+export async function migrateAllCategories(): Promise<void> {
+  if (!db) throw new Error("Database not configured");
+  console.log("🚀 [MIGRATE] Converting product categories...");
+
+  const rows: Array<{ userId: string }> = await db
+    .selectDistinct({ userId: products.userId })
+    .from(products)
+    .where(isNull(products.categoryId));
+
+  const store = new DatabaseStorage();
+  for (const { userId } of rows) {
+    const result = await migrateUserCategories(store, userId);
+    console.log(`[MIGRATE] User ${userId}: ${result.categoriesCreated} categories created, ${result.productsUpdated} products linked`);
+  }
+
+  console.log(`✅ [MIGRATE] Category migration completed for ${rows.length} users`);
+}
+
+// Auto-run if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  migrateAllCategories()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error("[MIGRATE] Category migration failed:", error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,265 @@
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { insertProductSchema, type InsertProduct, type Product } from "@shared/schema";
+import { readCsvRows, toCsv } from "./csv";
+
+// Product columns that can be filled from a CSV upload
+export const IMPORTABLE_FIELDS = [
+  "name",
+  "description",
+  "originalDescription",
+  "price",
+  "category",
+  "stock",
+  "image",
+  "imageAltText",
+  "features",
+  "tags",
+  "shopifyId",
+] as const;
+
+export type ImportableField = typeof IMPORTABLE_FIELDS[number];
+export type ColumnMapping = Record<string, ImportableField>;
+
+// Header aliases used when the client doesn't send an explicit mapping
+const HEADER_ALIASES: Record<string, ImportableField> = {
+  name: "name",
+  title: "name",
+  productname: "name",
+  description: "description",
+  bodyhtml: "description",
+  originaldescription: "originalDescription",
+  price: "price",
+  variantprice: "price",
+  category: "category",
+  type: "category",
+  producttype: "category",
+  stock: "stock",
+  quantity: "stock",
+  inventory: "stock",
+  inventoryqty: "stock",
+  variantinventoryqty: "stock",
+  image: "image",
+  imageurl: "image",
+  imagesrc: "image",
+  imagealttext: "imageAltText", // Shopify's "Image Alt Text"
+  alttext: "imageAltText",
+  features: "features",
+  tags: "tags",
+  shopifyid: "shopifyId",
+};
+
+const EXPORT_COLUMNS: Array<{ header: string; value: (product: Product) => unknown }> = [
+  { header: "id", value: p => p.id },
+  { header: "name", value: p => p.name },
+  { header: "description", value: p => p.description },
+  { header: "originalDescription", value: p => p.originalDescription },
+  { header: "price", value: p => p.price },
+  { header: "category", value: p => p.category },
+  { header: "stock", value: p => p.stock },
+  { header: "image", value: p => p.image },
+  { header: "imageAltText", value: p => p.imageAltText },
+  { header: "features", value: p => p.features },
+  { header: "tags", value: p => p.tags },
+  { header: "shopifyId", value: p => p.shopifyId },
+  { header: "isOptimized", value: p => (p.isOptimized ? "true" : "false") },
+  { header: "createdAt", value: p => p.createdAt },
+  { header: "updatedAt", value: p => p.updatedAt },
+];
+
+export const MAX_IMPORT_BYTES = 10 * 1024 * 1024;
+const PREVIEW_LIMIT = 20;
+const ERROR_REPORT_TTL_MS = 60 * 60 * 1000;
+
+export interface ImportRowError {
+  row: number; // 1-based record number in the uploaded file, header is row 1
+  field: string;
+  message: string;
+  raw: string[];
+}
+
+export interface ParsedImport {
+  headers: string[];
+  mapping: ColumnMapping;
+  unmappedColumns: string[];
+  totalRows: number;
+  validRows: Array<{ row: number; product: InsertProduct }>;
+  errors: ImportRowError[];
+}
+
+// The insert schema only checks that price is a non-empty string, which is
+// enough for the form but lets spreadsheet junk through on import
+const importRowSchema = insertProductSchema.extend({
+  price: z.string()
+    .min(1, "Price is required")
+    .refine(val => /^\d+(\.\d{1,2})?$/.test(val), "Price must be a number with up to 2 decimals"),
+  stock: z.number({ invalid_type_error: "Stock must be a number" })
+    .int("Stock must be a whole number")
+    .min(0, "Stock must be 0 or greater"),
+});
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+export function detectColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const taken = new Set<ImportableField>();
+  for (const header of headers) {
+    const field = HEADER_ALIASES[normalizeHeader(header)];
+    if (field && !taken.has(field)) {
+      mapping[header] = field;
+      taken.add(field);
+    }
+  }
+  return mapping;
+}
+
+// Validates a user supplied mapping, returning a list of problems (empty when valid)
+export function validateColumnMapping(mapping: unknown): string[] {
+  if (!mapping || typeof mapping !== "object" || Array.isArray(mapping)) {
+    return ["Mapping must be an object of CSV header to product field"];
+  }
+  const problems: string[] = [];
+  const seen = new Set<string>();
+  for (const [header, field] of Object.entries(mapping as Record<string, unknown>)) {
+    if (!IMPORTABLE_FIELDS.includes(field as ImportableField)) {
+      problems.push(`Column "${header}" maps to unknown field "${String(field)}"`);
+    } else if (seen.has(field as string)) {
+      problems.push(`Field "${String(field)}" is mapped more than once`);
+    } else {
+      seen.add(field as string);
+    }
+  }
+  return problems;
+}
+
+function assertRequiredColumns(mapping: ColumnMapping) {
+  const mappedFields = new Set(Object.values(mapping));
+  for (const required of ["name", "price", "category"] as const) {
+    if (!mappedFields.has(required)) {
+      throw new Error(`No column is mapped to the required "${required}" field`);
+    }
+  }
+}
+
+function toProductInput(record: Partial<Record<ImportableField, string>>): Record<string, unknown> {
+  const input: Record<string, unknown> = {};
+  for (const [field, rawValue] of Object.entries(record)) {
+    const value = rawValue?.trim() ?? "";
+    if (field === "stock") {
+      input.stock = value === "" ? 0 : Number(value);
+    } else if (field === "price") {
+      input.price = value.replace(/^\$/, "");
+    } else if (field === "name" || field === "category") {
+      input[field] = value;
+    } else {
+      input[field] = value === "" ? null : value;
+    }
+  }
+  return input;
+}
+
+// Extra validation for a row that passed the schema, e.g. that its category
+// exists. Returns the error for the row, or null if it's fine.
+export type ImportRowCheck = (product: InsertProduct) => Pick<ImportRowError, "field" | "message"> | null;
+
+export async function parseProductCsv(
+  stream: AsyncIterable<Buffer | string>,
+  mapping?: ColumnMapping,
+  checkRow?: ImportRowCheck
+): Promise<ParsedImport> {
+  let headers: string[] | null = null;
+  let columnMapping: ColumnMapping = {};
+  let rowNumber = 1;
+  const validRows: ParsedImport["validRows"] = [];
+  const errors: ImportRowError[] = [];
+
+  for await (const raw of readCsvRows(stream, MAX_IMPORT_BYTES)) {
+    if (!headers) {
+      headers = raw.map(header => header.trim());
+      columnMapping = mapping ?? detectColumnMapping(headers);
+      assertRequiredColumns(columnMapping);
+      continue;
+    }
+    rowNumber++;
+
+    const record: Partial<Record<ImportableField, string>> = {};
+    headers.forEach((header, index) => {
+      const field = columnMapping[header];
+      if (field) record[field] = raw[index] ?? "";
+    });
+
+    const validation = importRowSchema.safeParse(toProductInput(record));
+    const rowError = validation.success ? checkRow?.(validation.data) : null;
+    if (rowError) {
+      errors.push({ row: rowNumber, ...rowError, raw });
+    } else if (validation.success) {
+      validRows.push({ row: rowNumber, product: validation.data });
+    } else {
+      for (const issue of validation.error.errors) {
+        errors.push({
+          row: rowNumber,
+          field: issue.path.join(".") || "row",
+          message: issue.message,
+          raw,
+        });
+      }
+    }
+  }
+
+  if (!headers) {
+    throw new Error("CSV file is empty");
+  }
+
+  return {
+    headers,
+    mapping: columnMapping,
+    unmappedColumns: headers.filter(header => !columnMapping[header]),
+    totalRows: rowNumber - 1,
+    validRows,
+    errors,
+  };
+}
+
+export function buildPreview(parsed: ParsedImport) {
+  return parsed.validRows.slice(0, PREVIEW_LIMIT).map(({ row, product }) => ({ row, ...product }));
+}
+
+export function productsToCsv(products: Product[]): string {
+  return toCsv([
+    EXPORT_COLUMNS.map(column => column.header),
+    ...products.map(product => EXPORT_COLUMNS.map(column => column.value(product))),
+  ]);
+}
+
+// Error reports are kept in memory for an hour so the client can download them
+// after an import or dry run without re-uploading the file.
+const errorReports = new Map<string, { userId: string; csv: string; createdAt: number }>();
+
+export function saveErrorReport(userId: string, parsed: ParsedImport): string | null {
+  if (parsed.errors.length === 0) return null;
+
+  const now = Date.now();
+  Array.from(errorReports.entries()).forEach(([id, report]) => {
+    if (now - report.createdAt > ERROR_REPORT_TTL_MS) errorReports.delete(id);
+  });
+
+  const id = randomUUID();
+  const csv = toCsv([
+    ["row", "field", "error", ...parsed.headers],
+    ...parsed.errors.map(error => [error.row, error.field, error.message, ...error.raw]),
+  ]);
+  errorReports.set(id, { userId, csv, createdAt: now });
+  return id;
+}
+
+export function getErrorReport(userId: string, reportId: string): string | undefined {
+  const report = errorReports.get(reportId);
+  if (!report || report.userId !== userId) return undefined;
+  if (Date.now() - report.createdAt > ERROR_REPORT_TTL_MS) {
+    errorReports.delete(reportId);
+    return undefined;
+  }
+  return report.csv;
+}
@@ -0,0 +1,95 @@
+import type { Product, ProductQuery, ProductSortKey } from "@shared/schema";
+
+// Keyset cursor: the sort value and id of the last product on the previous page
+export interface ProductCursor {
+  value: string | number | null;
+  id: string;
+}
+
+// What storage receives: the parsed query with the cursor already decoded and
+// categoryId expanded to the category plus all of its descendants
+export type ProductListOptions = Omit<ProductQuery, "cursor" | "categoryId"> & {
+  cursor?: ProductCursor;
+  categoryIds?: string[];
+};
+export type ProductFilters = Pick<
+  ProductListOptions,
+  "q" | "category" | "categoryIds" | "isOptimized" | "minStock" | "maxStock" | "minPrice" | "maxPrice"
+>;
+
+export function cursorValue(product: Product, sort: ProductSortKey): string | number | null {
+  switch (sort) {
+    case "createdAt":
+    case "updatedAt":
+      return product[sort]?.toISOString() ?? null;
+    case "price":
+      return product.price;
+    case "stock":
+      return product.stock;
+    case "name":
+      return product.name;
+  }
+}
+
+export function encodeProductCursor(product: Product, sort: ProductSortKey): string {
+  const cursor: ProductCursor = { value: cursorValue(product, sort), id: product.id };
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeProductCursor(cursor: string): ProductCursor {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (typeof decoded?.id !== "string") throw new Error();
+    return { value: decoded.value ?? null, id: decoded.id };
+  } catch {
+    throw new Error("Invalid cursor");
+  }
+}
+
+// In-memory equivalents of the SQL filters and ordering, used by MemStorage
+
+function comparable(value: string | number | null, sort: ProductSortKey): string | number {
+  if (value === null) return sort === "name" ? "" : 0;
+  if (sort === "createdAt" || sort === "updatedAt") return new Date(value).getTime();
+  if (sort === "price") return parseFloat(String(value));
+  return value;
+}
+
+export function matchesProductFilters(product: Product, filters: ProductFilters): boolean {
+  const price = parseFloat(product.price);
+  if (filters.category && product.category !== filters.category) return false;
+  if (filters.categoryIds && !filters.categoryIds.includes(product.categoryId || "")) return false;
+  if (filters.isOptimized !== undefined && !!product.isOptimized !== filters.isOptimized) return false;
+  if (filters.minStock !== undefined && product.stock < filters.minStock) return false;
+  if (filters.maxStock !== undefined && product.stock > filters.maxStock) return false;
+  if (filters.minPrice !== undefined && price < filters.minPrice) return false;
+  if (filters.maxPrice !== undefined && price > filters.maxPrice) return false;
+  if (filters.q) {
+    const needle = filters.q.toLowerCase();
+    const haystack = [product.name, product.description, product.tags].filter(Boolean).join(" ").toLowerCase();
+    if (!haystack.includes(needle)) return false;
+  }
+  return true;
+}
+
+function compareKeys(
+  a: { value: string | number | null; id: string },
+  b: { value: string | number | null; id: string },
+  sort: ProductSortKey
+): number {
+  const left = comparable(a.value, sort);
+  const right = comparable(b.value, sort);
+  if (left !== right) return left < right ? -1 : 1;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+export function sortAndPageProducts(items: Product[], options: ProductListOptions): Product[] {
+  const direction = options.order === "asc" ? 1 : -1;
+  const keyOf = (product: Product) => ({ value: cursorValue(product, options.sort), id: product.id });
+  const sorted = [...items].sort((a, b) => direction * compareKeys(keyOf(a), keyOf(b), options.sort));
+  const cursor = options.cursor;
+  const afterCursor = cursor
+    ? sorted.filter(product => direction * compareKeys(keyOf(product), cursor, options.sort) > 0)
+    : sorted;
+  return afterCursor.slice(0, options.limit);
+}
@@ -0,0 +1,53 @@
+import type { Product, ProductOptionAxis, ProductVariant } from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { VersionContext } from "./product-versions";
+
+// Option axes in first-seen order, e.g. [{ name: "Size", values: ["S", "M"] }, ...]
+export function variantAxes(variants: ProductVariant[]): ProductOptionAxis[] {
+  const axes = new Map<string, string[]>();
+  for (const variant of variants) {
+    for (const [name, value] of Object.entries(variant.options)) {
+      const values = axes.get(name) || [];
+      if (!values.includes(value)) values.push(value);
+      axes.set(name, values);
+    }
+  }
+  return Array.from(axes.entries()).map(([name, values]) => ({ name, values }));
+}
+
+const optionKey = (options: Record<string, string>) =>
+  Object.keys(options).sort().map(name => `${name}=${options[name]}`).join("|");
+
+// Returns why a variant with these options can't join the product, or null if it can.
+// All variants must share the same axes and no two may have the same combination.
+export function checkVariantOptions(
+  siblings: ProductVariant[],
+  options: Record<string, string>
+): string | null {
+  if (siblings.length === 0) return null;
+
+  const expected = Object.keys(siblings[0].options).sort();
+  const actual = Object.keys(options).sort();
+  if (expected.join("|") !== actual.join("|")) {
+    return `Variants of this product use the options: ${expected.join(", ")}`;
+  }
+
+  const key = optionKey(options);
+  if (siblings.some(variant => optionKey(variant.options) === key)) {
+    return "A variant with these options already exists";
+  }
+  return null;
+}
+
+// Runs after every variant write. A product with variants sells from their
+// stock, so its own stock is kept as the total, and the write records a product
+// version so history and restores include the new variants.
+export async function syncVariantStock(
+  store: IStorage,
+  product: Product,
+  context: VersionContext
+): Promise<Product> {
+  const variants = await store.getProductVariants(product.id);
+  const total = variants.reduce((sum, variant) => sum + variant.stock, 0);
+  return store.updateProduct(product.id, variants.length > 0 ? { stock: total } : {}, context);
+}
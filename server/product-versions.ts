@@ -0,0 +1,201 @@
+import type { Product, ProductVariant, ProductVersion, StockMovementReason } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+export type ProductVersionSource = "manual" | "ai" | "sync" | "import" | "optimize-all" | "ab-test" | "rollback" | "migration";
+export type ProductVersionAction = "create" | "update" | "delete" | "restore";
+
+// Who is writing a product. Bulk operations share one operationId so the whole
+// run can be reverted in one go.
+export interface VersionContext {
+  source: ProductVersionSource;
+  operationId?: string;
+  // Ledger reason and note for a stock change; the reason defaults from the source
+  stockReason?: StockMovementReason;
+  stockNote?: string;
+}
+
+export const MANUAL_WRITE: VersionContext = { source: "manual" };
+
+// Fields that a restore writes back. id/userId/timestamps are never rolled back.
+export const VERSIONED_FIELDS = [
+  "shopifyId",
+  "name",
+  "description",
+  "originalDescription",
+  "price",
+  "category",
+  "categoryId",
+  "stock",
+  "reorderThreshold",
+  "image",
+  "imageAltText",
+  "features",
+  "tags",
+  "optimizedCopy",
+  "isOptimized",
+] as const;
+
+type VersionedField = typeof VERSIONED_FIELDS[number];
+type ProductSnapshot = Record<string, unknown>;
+
+// JSON-safe copy of the product and its variants, the same shape jsonb hands
+// back from the database
+export function snapshotOf(product: Product, variants: ProductVariant[]): ProductSnapshot {
+  return JSON.parse(JSON.stringify({ ...product, variants }));
+}
+
+export function fieldsFromSnapshot(snapshot: unknown): Partial<Product> {
+  const data = (snapshot || {}) as ProductSnapshot;
+  const fields: Record<string, unknown> = {};
+  for (const field of VERSIONED_FIELDS) {
+    if (field in data) fields[field] = data[field];
+  }
+  return fields as Partial<Product>;
+}
+
+// Rebuilds a full product row from a snapshot, used when restoring a deleted product
+export function productFromSnapshot(snapshot: unknown): Product {
+  const { variants: _variants, ...data } = (snapshot || {}) as ProductSnapshot;
+  const toDate = (value: unknown) => (value ? new Date(value as string) : null);
+  return {
+    ...(data as unknown as Product),
+    createdAt: toDate(data.createdAt),
+    updatedAt: new Date(),
+  };
+}
+
+// The variants stored with a snapshot. Snapshots taken before variants were
+// versioned have none, and restoring them leaves the current variants alone.
+export function variantsFromSnapshot(snapshot: unknown): ProductVariant[] | undefined {
+  const data = (snapshot || {}) as ProductSnapshot;
+  if (!Array.isArray(data.variants)) return undefined;
+  const toDate = (value: unknown) => (value ? new Date(value as string) : null);
+  return (data.variants as ProductVariant[]).map(variant => ({
+    ...variant,
+    createdAt: toDate(variant.createdAt),
+    updatedAt: toDate(variant.updatedAt),
+  }));
+}
+
+export interface FieldChange {
+  field: VersionedField | "variants";
+  from: unknown;
+  to: unknown;
+}
+
+export function diffSnapshots(from: unknown, to: unknown): FieldChange[] {
+  const before = (from || {}) as ProductSnapshot;
+  const after = (to || {}) as ProductSnapshot;
+  const changes: FieldChange[] = [];
+  for (const field of VERSIONED_FIELDS) {
+    const a = before[field] ?? null;
+    const b = after[field] ?? null;
+    if (JSON.stringify(a) !== JSON.stringify(b)) {
+      changes.push({ field, from: a, to: b });
+    }
+  }
+  if (Array.isArray(before.variants) && Array.isArray(after.variants) &&
+      JSON.stringify(before.variants) !== JSON.stringify(after.variants)) {
+    changes.push({ field: "variants", from: before.variants, to: after.variants });
+  }
+  return changes;
+}
+
+export class VariantSkuConflictError extends Error {
+  constructor(readonly skus: string[]) {
+    super(`SKUs now used by another product: ${skus.join(", ")}`);
+    this.name = "VariantSkuConflictError";
+  }
+}
+
+// Writes a stored snapshot back with its variants, recreating the product if
+// it has since been deleted. Throws VariantSkuConflictError when another
+// product has taken one of the variants' SKUs in the meantime.
+export async function restoreVersion(
+  store: IStorage,
+  version: ProductVersion,
+  context: VersionContext
+): Promise<Product | null> {
+  const existing = await store.getProduct(version.productId);
+
+  if (version.action === "delete") {
+    if (existing) await store.deleteProduct(version.productId, context);
+    return null;
+  }
+
+  const variants = variantsFromSnapshot(version.snapshot);
+  if (variants) {
+    const conflicts: string[] = [];
+    for (const variant of variants) {
+      const holder = await store.getProductVariantBySku(version.userId, variant.sku);
+      if (holder && holder.productId !== version.productId) conflicts.push(variant.sku);
+    }
+    if (conflicts.length > 0) throw new VariantSkuConflictError(conflicts);
+  }
+
+  if (existing) {
+    // Variants first, so the version recorded by the update includes them
+    if (variants) await store.replaceProductVariants(version.productId, variants);
+    return store.updateProduct(version.productId, fieldsFromSnapshot(version.snapshot), context);
+  }
+  return store.reinstateProduct(productFromSnapshot(version.snapshot), variants || [], context);
+}
+
+export interface RevertResult {
+  operationId: string;
+  restored: string[];
+  removed: string[];
+  skipped: Array<{ productId: string; reason: string }>;
+}
+
+// Reverts every product touched by one bulk operation to the state it was in
+// just before the operation ran. Products edited again afterwards are skipped
+// unless force is set, so a later manual edit isn't silently thrown away.
+export async function revertOperation(
+  store: IStorage,
+  userId: string,
+  operationId: string,
+  force = false
+): Promise<RevertResult> {
+  const opVersions = await store.getOperationVersions(userId, operationId);
+  const result: RevertResult = { operationId, restored: [], removed: [], skipped: [] };
+  const context: VersionContext = { source: "rollback", operationId };
+
+  const productIds = Array.from(new Set(opVersions.map(v => v.productId)));
+  for (const productId of productIds) {
+    const history = await store.getProductVersions(productId);
+    const touched = history.filter(v => v.operationId === operationId && v.source !== "rollback");
+    const firstTouched = Math.min(...touched.map(v => v.version));
+    const lastTouched = Math.max(...touched.map(v => v.version));
+
+    if (!force && history.some(v => v.version > lastTouched)) {
+      result.skipped.push({ productId, reason: "Changed after the operation" });
+      continue;
+    }
+
+    const before = history.find(v => v.version < firstTouched);
+    if (!before) {
+      // The operation created this product
+      if (await store.getProduct(productId)) {
+        await store.deleteProduct(productId, context);
+      }
+      result.removed.push(productId);
+      continue;
+    }
+
+    try {
+      await restoreVersion(store, before, context);
+    } catch (error) {
+      if (!(error instanceof VariantSkuConflictError)) throw error;
+      result.skipped.push({ productId, reason: error.message });
+      continue;
+    }
+    if (before.action === "delete") {
+      result.removed.push(productId);
+    } else {
+      result.restored.push(productId);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,182 @@
+import {
+  PROMPT_TEMPLATE_VARIABLES,
+  type InsertPromptTemplate,
+  type Product,
+  type PromptTemplate,
+  type PromptTemplateVariable,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import { UNTRUSTED_DATA_NOTICE, untrusted } from "./prompt-safety";
+
+type TemplateStore = Pick<
+  IStorage,
+  "getPromptTemplates" | "createPromptTemplate" | "updatePromptTemplate"
+>;
+
+export type TemplateVariables = Partial<Record<PromptTemplateVariable, string>>;
+
+// Appended to every rendered description prompt so user templates can't break
+// the JSON reply the endpoint parses
+export const DESCRIPTION_RESPONSE_FORMAT =
+  'Respond with JSON in this format: { "description": "your description here" }';
+
+export const SYSTEM_PROMPT_TEMPLATES: InsertPromptTemplate[] = [
+  {
+    key: "sales",
+    name: "Sales",
+    description: "Persuasive and benefit-focused, with a call-to-action",
+    body: `Create a compelling sales-focused product description for "{{productName}}" in the {{category}} category.
+Target audience: {{audience}}. Key features: {{features}}.
+Make it persuasive, benefit-focused, and include a clear call-to-action. Keep it under 150 words.`,
+  },
+  {
+    key: "seo",
+    name: "SEO",
+    description: "Search-friendly wording with natural keywords",
+    body: `Create an SEO-optimized product description for "{{productName}}" in the {{category}} category.
+Target audience: {{audience}}. Key features: {{features}}.
+Include relevant keywords naturally, focus on search-friendly language, and maintain readability.
+Keep it under 160 words.`,
+  },
+  {
+    key: "casual",
+    name: "Casual",
+    description: "Conversational and friendly, emojis where they fit",
+    body: `Create a casual, friendly product description for "{{productName}}" in the {{category}} category.
+Target audience: {{audience}}. Key features: {{features}}.
+Use conversational tone, emojis where appropriate, and make it relatable and fun.
+Keep it under 150 words.`,
+  },
+  {
+    key: "luxury",
+    name: "Luxury",
+    description: "Refined and exclusive, focused on craftsmanship",
+    body: `Write an elegant, premium product description for "{{productName}}" in the {{category}} category.
+Target audience: {{audience}}. Key features: {{features}}.
+Emphasise craftsmanship, materials and exclusivity. Use refined, understated language with no exclamation marks or emojis.
+Keep it under 140 words.`,
+  },
+  {
+    key: "gen-z",
+    name: "Gen Z",
+    description: "Punchy, playful and social-first",
+    body: `Write a punchy, playful product description for "{{productName}}" in the {{category}} category that speaks to Gen Z shoppers.
+Target audience: {{audience}}. Key features: {{features}}.
+Use short sentences, current but not forced slang, and a confident, self-aware tone. Emojis are fine.
+Keep it under 100 words.`,
+  },
+  {
+    key: "eco",
+    name: "Eco",
+    description: "Sustainability and responsible choices first",
+    body: `Write a product description for "{{productName}}" in the {{category}} category for environmentally conscious shoppers.
+Target audience: {{audience}}. Key features: {{features}}.
+Highlight durability, materials and any sustainability benefits the features support. Do not invent certifications or claims.
+Keep it under 150 words.`,
+  },
+  {
+    key: "minimalist",
+    name: "Minimalist",
+    description: "Short, calm and to the point",
+    body: `Write a minimalist product description for "{{productName}}" in the {{category}} category.
+Target audience: {{audience}}. Key features: {{features}}.
+Use plain, calm language and only the essential facts. No hype, no emojis.
+Keep it under 60 words.`,
+  },
+];
+
+// Used by the preview endpoint when no product is given
+export const SAMPLE_TEMPLATE_VARIABLES: Record<PromptTemplateVariable, string> = {
+  productName: "Wireless Bluetooth Headphones",
+  category: "Electronics",
+  features: "Noise cancelling, 30-hour battery, wireless charging",
+  audience: "General consumers",
+  price: "129.99",
+  description: "Over-ear headphones with active noise cancelling.",
+  tags: "audio, headphones, wireless",
+};
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z]+)\s*\}\}/g;
+
+// Names of every {{variable}} in a template body, in order of first use
+export function templateVariableNames(body: string): string[] {
+  const names = Array.from(body.matchAll(VARIABLE_PATTERN), match => match[1]);
+  return names.filter((name, index) => names.indexOf(name) === index);
+}
+
+export function unknownTemplateVariables(body: string): string[] {
+  return templateVariableNames(body)
+    .filter(name => !(PROMPT_TEMPLATE_VARIABLES as readonly string[]).includes(name));
+}
+
+export interface RenderedPrompt {
+  prompt: string;
+  // Variables the body uses that had no value; rendered as empty strings
+  missing: string[];
+}
+
+export function renderPromptTemplate(body: string, variables: TemplateVariables): RenderedPrompt {
+  const missing: string[] = [];
+  const rendered = body.replace(VARIABLE_PATTERN, (_match, name: string) => {
+    const value = variables[name as PromptTemplateVariable];
+    if (value === undefined || value === "") {
+      if (!missing.includes(name)) missing.push(name);
+      return "";
+    }
+    return untrusted(value);
+  });
+  return { prompt: `${UNTRUSTED_DATA_NOTICE}\n\n${rendered.trim()}\n${DESCRIPTION_RESPONSE_FORMAT}`, missing };
+}
+
+// Request fields win over the product's own values, so a form can override
+// what's stored
+export function templateVariables(input: TemplateVariables, product?: Product): TemplateVariables {
+  const fromProduct: TemplateVariables = product ? {
+    productName: product.name,
+    category: product.category,
+    features: product.features ?? undefined,
+    price: product.price,
+    description: product.description ?? undefined,
+    tags: product.tags ?? undefined,
+  } : {};
+  const variables: TemplateVariables = { ...fromProduct };
+  for (const name of PROMPT_TEMPLATE_VARIABLES) {
+    const value = input[name];
+    if (typeof value === "string" && value.trim()) variables[name] = value.trim();
+  }
+  return variables;
+}
+
+// A template the user may use: a system template or one of their own
+export function canUseTemplate(template: PromptTemplate, userId: string): boolean {
+  return template.isSystem || template.userId === userId;
+}
+
+// Looks a template up by key, preferring the user's own over a system one
+export async function findTemplateByKey(
+  store: Pick<IStorage, "getPromptTemplates">,
+  userId: string,
+  key: string
+): Promise<PromptTemplate | undefined> {
+  const templates = (await store.getPromptTemplates(userId)).filter(template => template.key === key);
+  return templates.find(template => !template.isSystem) || templates[0];
+}
+
+// Creates missing system templates and updates ones whose text changed in code,
+// which records a new version. Safe to run on every start.
+export async function ensureSystemPromptTemplates(store: TemplateStore): Promise<void> {
+  // Any user id works here: system templates are returned for every user
+  const existing = (await store.getPromptTemplates("")).filter(template => template.isSystem);
+  for (const template of SYSTEM_PROMPT_TEMPLATES) {
+    const current = existing.find(candidate => candidate.key === template.key);
+    if (!current) {
+      await store.createPromptTemplate(null, template);
+    } else if (current.body !== template.body || current.name !== template.name) {
+      await store.updatePromptTemplate(current.id, {
+        name: template.name,
+        description: template.description,
+        body: template.body,
+      });
+    }
+  }
+}
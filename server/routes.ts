@@ -1,11 +1,117 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
 import bcrypt from "bcrypt";
+import { randomUUID } from "crypto";
 import session from "express-session";
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { insertUserSchema, insertProductSchema, insertNotificationSchema } from "@shared/schema";
+import { 
+  insertUserSchema, 
+  insertProductSchema, 
+  insertProductVariantSchema, 
+  insertCategorySchema, 
+  stockAdjustmentSchema, 
+  insertNotificationSchema, 
+  productQuerySchema, 
+  productFeedSettingsSchema, 
+  aiSelectionSchema, 
+  aiGenerationQuerySchema, 
+  aiGenerationUpdateSchema, 
+  insertPromptTemplateSchema, 
+  updatePromptTemplateSchema, 
+  promptTemplatePreviewSchema, 
+  brandVoiceSchema, 
+  brandVoiceScoreSchema, 
+  bulkOptimizeSchema, 
+  contentRefreshPolicyInputSchema, 
+  altTextRequestSchema, 
+  altTextBatchSchema, 
+  productTranslationInputSchema, 
+  translateProductSchema, 
+  publishTranslationSchema, 
+  translationGlossarySchema, 
+  createAbTestSchema, 
+  updateAbTestSchema, 
+  abTestEventsSchema, 
+  promoteAbVariantSchema, 
+  adExportQuerySchema, 
+  aiCostQuerySchema, 
+  FEED_CHANNELS, 
+  type FeedChannel, 
+  type ProductFeed, 
+  type Product, 
+  type ProductTranslationView, 
+  type SupportedLocale, 
+  type PromptTemplate, 
+  type JobProgress, 
+  type InsertAbTestVariant, 
+  type StockHistory, 
+  type StockMovementReason 
+} from "@shared/schema";
 import { storage } from "./storage";
+import {
+  parseProductCsv,
+  validateColumnMapping,
+  buildPreview,
+  productsToCsv,
+  saveErrorReport,
+  getErrorReport,
+  type ColumnMapping,
+  type ImportRowCheck
+} from "./product-csv";
+import { decodeProductCursor, encodeProductCursor } from "./product-query";
+import { buildOptimizationPlan, MERGE_STRATEGIES, type MergeStrategy } from "./catalog-optimizer";
+import { diffSnapshots, restoreVersion, revertOperation, snapshotOf, MANUAL_WRITE, VariantSkuConflictError } from "./product-versions";
+import { checkVariantOptions, syncVariantStock, variantAxes } from "./product-variants";
+import {
+  GOOGLE_TAXONOMY,
+  applyProductCategory,
+  categoryPath,
+  descendantIds,
+  categoryNameTaken,
+  ensureDefaultCategories,
+  findCategory,
+  findOrCreateCategory,
+  wouldCreateCycle
+} from "./categories";
+import { migrateUserCategories } from "./migrate-categories";
+import { ensureProductFeed, generateFeedToken, loadFeedProduct, loadFeedProducts, storefrontSettings } from "./catalog-feed";
+import { FEED_CHANNEL_LABELS, FEED_FORMATS, buildChannelFeed, renderChannelFeed } from "./channel-feeds";
+import { adExportCsv, buildAdExport } from "./ad-export";
+import { applyGeneration, generateAltText, generateDescription, generateSeo, generateTranslation } from "./ai-generations";
+import { loadGlossary, sourceHash, supportedLocale, translationSource, translationView } from "./translations";
+import { JobQueue } from "./job-queue";
+import { abortAIStream, openAIStream, type AIStream } from "./ai-streams";
+import { runBulkOptimizeItem } from "./bulk-optimize";
+import { getContentRefreshStatuses, queueContentRefresh, startContentRefreshScheduler } from "./content-refresh";
+import {
+  DEFAULT_AB_TEST_VOICES,
+  UnknownAbVariantError,
+  abTestDetail,
+  assignVariant,
+  equalWeights,
+  generateAbTestToken,
+  promoteAbVariant,
+  recordAbTestEvents,
+  variantLabel,
+} from "./ab-testing";
+import { brandVoiceInstructions, loadBrandVoice, resolveUserAI, scoreBrandVoice, toneCheckPrompt } from "./brand-voice";
+import {
+  canUseTemplate,
+  ensureSystemPromptTemplates,
+  findTemplateByKey,
+  renderPromptTemplate,
+  SAMPLE_TEMPLATE_VARIABLES,
+  templateVariableNames,
+  templateVariables,
+  unknownTemplateVariables,
+} from "./prompt-templates";
+import { AIProviderError, aiProviderOptions, resolveAIProvider } from "./ai-providers";
+import { completeStructured, toneCheckResponseSchema } from "./ai-responses";
+import { buildAICostReport, trackAIUsage } from "./ai-costs";
+import { AIQuotaError, getAIQuotaStatus, meterAI, refundAIQuota, requireAIQuota, sendAIQuotaError, settleAIQuota } from "./ai-quota";
+import { screenPromptInput } from "./prompt-safety";
+import { buildProductJsonLd, jsonLdScriptTag, validateProductJsonLd } from "./structured-data";
 import { 
   testDatabaseConnection,
   seedSubscriptionPlans,
@@ -15,14 +121,8 @@ import {
   getSession,
   deleteSession
 } from "./db";
-import OpenAI from "openai";
 import Stripe from "stripe";
 
-// Initialize OpenAI
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR || ""
-});
-
 // Initialize Stripe if keys are provided
 let stripe: Stripe | null = null;
 if (process.env.STRIPE_SECRET_KEY) {
@@ -51,7 +151,34 @@ declare global {
   }
 }
 
+// How applied generations appear in the activity log
+const GENERATION_TOOL_LOG: Record<string, { label: string; toolUsed: string }> = {
+  description: { label: "description", toolUsed: "product-descriptions" },
+  seo: { label: "SEO", toolUsed: "seo-titles" },
+  "alt-text": { label: "alt text", toolUsed: "image-alt-text" },
+  translation: { label: "translation", toolUsed: "translations" },
+};
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // System prompt templates are defined in code; keep the stored copies in step
+  try {
+    await ensureSystemPromptTemplates(storage);
+  } catch (error) {
+    console.error("Prompt template seeding error:", error);
+  }
+
+  // Background jobs run in this process; unfinished ones resume on start
+  const jobQueue = new JobQueue(storage);
+  jobQueue.register("bulk-optimize", (job, item) => runBulkOptimizeItem(storage, job, item));
+  // Content refreshes are bulk optimizations queued by the scheduler
+  jobQueue.register("content-refresh", (job, item) => runBulkOptimizeItem(storage, job, item));
+  try {
+    await jobQueue.start();
+  } catch (error) {
+    console.error("Job queue start error:", error);
+  }
+  startContentRefreshScheduler(storage, () => jobQueue.wake());
+
   // Session configuration
   app.use(
     session({
@@ -92,406 +219,2592 @@ export async function registerRoutes(app: Express): Promise<Server> {
     )
   );
 
-  passport.serializeUser((user, done) => {
-    done(null, user.id);
+  passport.serializeUser((user, done) => {
+    done(null, user.id);
+  });
+
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  // Auth middleware
+  const requireAuth = (req: any, res: any, next: any) => {
+    if (req.isAuthenticated()) {
+      return next();
+    }
+    res.status(401).json({ message: "Authentication required" });
+  };
+
+  const isAdmin = (user?: Express.User) => user?.role === "admin";
+
+  // Auth routes
+  app.post("/api/register", async (req, res) => {
+    try {
+      const validatedData = insertUserSchema.parse(req.body);
+      
+      // Check if user already exists
+      const existingUser = await storage.getUserByEmail(validatedData.email);
+      if (existingUser) {
+        return res.status(400).json({ message: "User already exists" });
+      }
+
+      const user = await storage.createUser(validatedData);
+      
+      // Auto-login after registration
+      req.login(user, (err) => {
+        if (err) {
+          return res.status(500).json({ message: "Login failed after registration" });
+        }
+        res.json({ user: { id: user.id, email: user.email, fullName: user.fullName, plan: user.plan, role: user.role } });
+      });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: any, user: any, info: any) => {
+      if (err) {
+        return res.status(500).json({ message: "Authentication error" });
+      }
+      
+      if (!user) {
+        return res.status(401).json({ message: info?.message || "Invalid email or password" });
+      }
+      
+      req.logIn(user, (err) => {
+        if (err) {
+          return res.status(500).json({ message: "Session creation failed" });
+        }
+        
+        res.json({ 
+          user: { 
+            id: user.id, 
+            email: user.email, 
+            fullName: user.fullName, 
+            plan: user.plan, 
+            role: user.role 
+          } 
+        });
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res) => {
+    req.logout((err) => {
+      if (err) {
+        return res.status(500).json({ message: "Logout failed" });
+      }
+      res.json({ message: "Logged out successfully" });
+    });
+  });
+
+  app.get("/api/me", requireAuth, (req, res) => {
+    const user = req.user!;
+    res.json({ 
+      user: { 
+        id: user.id, 
+        email: user.email, 
+        fullName: user.fullName, 
+        plan: user.plan, 
+        role: user.role 
+      } 
+    });
+  });
+
+  // Providers and models the user's plan can pick from for the AI endpoints
+  app.get("/api/ai/providers", requireAuth, async (req, res) => {
+    try {
+      res.json(aiProviderOptions(req.user!.plan));
+    } catch (error: any) {
+      console.error("Get AI providers error:", error);
+      res.status(500).json({ message: "Failed to fetch AI providers" });
+    }
+  });
+
+  // AI Product Description Generator. The /stream variant sends the model's
+  // tokens as Server-Sent Events and the usual response as its final event.
+  app.post(["/api/generate-description", "/api/generate-description/stream"], requireAuth, meterAI(storage, "aiGenerations"), async (req, res) => {
+    let stream: AIStream | undefined;
+    try {
+      const { productName, category, features, audience, brandVoice, templateId, noCache } = req.body;
+
+      const selection = aiSelectionSchema.safeParse(req.body);
+      if (!selection.success) {
+        return res.status(400).json({ 
+          message: "Invalid AI provider selection", 
+          errors: selection.error.errors 
+        });
+      }
+
+      // Optionally tie the generation to a product so it shows in that product's history.
+      // The product's own fields fill any template variables the request leaves out.
+      const { productId } = req.body;
+      let product: Product | undefined;
+      if (productId) {
+        product = await storage.getProduct(productId);
+        if (!product) {
+          return res.status(404).json({ message: "Product not found" });
+        }
+        if (product.userId !== req.user!.id) {
+          return res.status(403).json({ message: "Unauthorized" });
+        }
+      }
+      if (!productName && !product) {
+        return res.status(400).json({ message: "Product name is required" });
+      }
+
+      // templateId picks any usable template; brandVoice picks one by key
+      let template: PromptTemplate | undefined;
+      if (templateId) {
+        template = await storage.getPromptTemplate(templateId);
+        if (!template || !canUseTemplate(template, req.user!.id)) {
+          return res.status(404).json({ message: "Prompt template not found" });
+        }
+      } else {
+        template = await findTemplateByKey(storage, req.user!.id, brandVoice || "sales")
+          || await findTemplateByKey(storage, req.user!.id, "sales");
+        if (!template) {
+          return res.status(404).json({ message: "Prompt template not found" });
+        }
+      }
+
+      const variables = templateVariables({ productName, category, features, audience }, product);
+      const ai = await resolveUserAI(storage, req.user!, selection.data);
+      if (req.path.endsWith("/stream")) {
+        stream = openAIStream(res, req.user!.id);
+      }
+      const { description, generation, completion, cached } = await generateDescription(
+        storage, ai, req.user!.id, template, variables, productId || null,
+        { onText: stream?.onText, signal: stream?.signal, noCache: noCache === true }
+      );
+      // Cached results don't count against the quota
+      if (cached) {
+        await refundAIQuota(storage, res);
+      }
+
+      const result = { 
+        description, 
+        generationId: generation.id, 
+        template: { id: template.id, key: template.key, name: template.name, version: template.version }, 
+        provider: completion.provider, 
+        model: completion.model,
+        cached
+      };
+      if (stream) {
+        return stream.end("done", result);
+      }
+      res.json(result);
+    } catch (error: any) {
+      if (stream) {
+        return stream.fail(error, "Failed to generate description");
+      }
+      console.error("AI generation error:", error);
+      if (error instanceof AIProviderError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      res.status(500).json({ message: "Failed to generate description" });
+    }
+  });
+
+  // SEO Optimization, with the same /stream variant
+  app.post(["/api/optimize-seo", "/api/optimize-seo/stream"], requireAuth, meterAI(storage, "seoOptimizations"), async (req, res) => {
+    let stream: AIStream | undefined;
+    try {
+      const { currentTitle, keywords, currentMeta, category, noCache } = req.body;
+
+      if (!currentTitle || !keywords) {
+        return res.status(400).json({ message: "Title and keywords are required" });
+      }
+      const selection = aiSelectionSchema.safeParse(req.body);
+      if (!selection.success) {
+        return res.status(400).json({ 
+          message: "Invalid AI provider selection", 
+          errors: selection.error.errors 
+        });
+      }
+
+      // Optionally tie the generation to a product so it shows in that product's history
+      const { productId } = req.body;
+      if (productId) {
+        const product = await storage.getProduct(productId);
+        if (!product) {
+          return res.status(404).json({ message: "Product not found" });
+        }
+        if (product.userId !== req.user!.id) {
+          return res.status(403).json({ message: "Unauthorized" });
+        }
+      }
+
+      const ai = await resolveUserAI(storage, req.user!, selection.data);
+      if (req.path.endsWith("/stream")) {
+        stream = openAIStream(res, req.user!.id);
+      }
+      const { result, generation, completion, cached } = await generateSeo(
+        storage, ai, req.user!.id, { currentTitle, keywords, currentMeta, category }, productId || null,
+        { onText: stream?.onText, signal: stream?.signal, noCache: noCache === true }
+      );
+      if (cached) {
+        await refundAIQuota(storage, res);
+      }
+
+      const response = { ...result, generationId: generation.id, provider: completion.provider, model: completion.model, cached };
+      if (stream) {
+        return stream.end("done", response);
+      }
+      res.json(response);
+    } catch (error: any) {
+      if (stream) {
+        return stream.fail(error, "Failed to optimize SEO");
+      }
+      console.error("SEO optimization error:", error);
+      if (error instanceof AIProviderError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      res.status(500).json({ message: "Failed to optimize SEO" });
+    }
+  });
+
+  // Cancels a streaming generation; nothing from it is recorded
+  app.post("/api/ai/streams/:id/abort", requireAuth, async (req, res) => {
+    const outcome = abortAIStream(req.params.id, req.user!.id);
+    if (outcome === "not_found") {
+      return res.status(404).json({ message: "Stream not found" });
+    }
+    if (outcome === "forbidden") {
+      return res.status(403).json({ message: "Unauthorized" });
+    }
+    res.json({ aborted: true });
+  });
+
+  // AI generation history. Generations can be starred, and applied to a
+  // product (their own or, for unlinked ones, any of the user's products).
+  app.get("/api/ai/generations", requireAuth, async (req, res) => {
+    try {
+      const validation = aiGenerationQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid query parameters", 
+          errors: validation.error.errors 
+        });
+      }
+
+      const generations = await storage.getAiGenerations(req.user!.id, validation.data);
+      res.json(generations);
+    } catch (error: any) {
+      console.error("Get AI generations error:", error);
+      res.status(500).json({ message: "Failed to fetch AI generations" });
+    }
+  });
+
+  app.get("/api/ai/generations/:id", requireAuth, async (req, res) => {
+    try {
+      const generation = await storage.getAiGeneration(req.params.id);
+      if (!generation) {
+        return res.status(404).json({ message: "Generation not found" });
+      }
+      if (generation.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+      res.json(generation);
+    } catch (error: any) {
+      console.error("Get AI generation error:", error);
+      res.status(500).json({ message: "Failed to fetch AI generation" });
+    }
+  });
+
+  app.patch("/api/ai/generations/:id", requireAuth, async (req, res) => {
+    try {
+      const validation = aiGenerationUpdateSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid generation data", 
+          errors: validation.error.errors 
+        });
+      }
+
+      const generation = await storage.getAiGeneration(req.params.id);
+      if (!generation) {
+        return res.status(404).json({ message: "Generation not found" });
+      }
+      if (generation.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const updated = await storage.updateAiGeneration(generation.id, validation.data);
+      res.json(updated);
+    } catch (error: any) {
+      console.error("Update AI generation error:", error);
+      res.status(500).json({ message: "Failed to update AI generation" });
+    }
+  });
+
+  app.post("/api/ai/generations/:id/apply", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const generation = await storage.getAiGeneration(req.params.id);
+      if (!generation) {
+        return res.status(404).json({ message: "Generation not found" });
+      }
+      if (generation.userId !== userId) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const productId = req.body?.productId || generation.productId;
+      if (!productId) {
+        return res.status(400).json({ message: "Choose a product to apply this generation to" });
+      }
+      const product = await storage.getProduct(productId);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      if (product.userId !== userId) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const applied = await applyGeneration(storage, generation, product);
+
+      await storage.createActivityLog(userId, {
+        action: "applied_ai_generation",
+        description: `Applied ${GENERATION_TOOL_LOG[generation.tool]?.label ?? generation.tool} generation to ${product.name}`,
+        toolUsed: GENERATION_TOOL_LOG[generation.tool]?.toolUsed ?? generation.tool,
+        metadata: { generationId: generation.id, productId: product.id }
+      });
+
+      res.json(applied);
+    } catch (error: any) {
+      console.error("Apply AI generation error:", error);
+      res.status(500).json({ message: "Failed to apply AI generation" });
+    }
+  });
+
+  // Prompt templates: system templates plus the user's own
+  app.get("/api/prompt-templates", requireAuth, async (req, res) => {
+    try {
+      const templates = await storage.getPromptTemplates(req.user!.id);
+      res.json(templates);
+    } catch (error: any) {
+      console.error("Get prompt templates error:", error);
+      res.status(500).json({ message: "Failed to fetch prompt templates" });
+    }
+  });
+
+  app.post("/api/prompt-templates", requireAuth, async (req, res) => {
+    try {
+      const validation = insertPromptTemplateSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid prompt template data", 
+          errors: validation.error.errors 
+        });
+      }
+
+      const unknown = unknownTemplateVariables(validation.data.body);
+      if (unknown.length > 0) {
+        return res.status(400).json({ message: `Unknown template variables: ${unknown.join(", ")}` });
+      }
+      const templates = await storage.getPromptTemplates(req.user!.id);
+      if (templates.some(template => !template.isSystem && template.key === validation.data.key)) {
+        return res.status(409).json({ message: "You already have a template with this key" });
+      }
+
+      const template = await storage.createPromptTemplate(req.user!.id, validation.data);
+      res.status(201).json(template);
+    } catch (error: any) {
+      console.error("Create prompt template error:", error);
+      res.status(500).json({ message: "Failed to create prompt template" });
+    }
+  });
+
+  // Renders a saved template or an unsaved draft. Declared before /:id so
+  // "preview" isn't taken for a template id.
+  app.post("/api/prompt-templates/preview", requireAuth, async (req, res) => {
+    try {
+      const validation = promptTemplatePreviewSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid preview request", 
+          errors: validation.error.errors 
+        });
+      }
+      const { templateId, productId, variables: overrides } = validation.data;
+
+      let body = validation.data.body;
+      if (!body) {
+        const template = await storage.getPromptTemplate(templateId!);
+        if (!template || !canUseTemplate(template, req.user!.id)) {
+          return res.status(404).json({ message: "Prompt template not found" });
+        }
+        body = template.body;
+      }
+
+      const unknown = unknownTemplateVariables(body);
+      if (unknown.length > 0) {
+        return res.status(400).json({ message: `Unknown template variables: ${unknown.join(", ")}` });
+      }
+
+      let product: Product | undefined;
+      if (productId) {
+        product = await storage.getProduct(productId);
+        if (!product) {
+          return res.status(404).json({ message: "Product not found" });
+        }
+        if (product.userId !== req.user!.id) {
+          return res.status(403).json({ message: "Unauthorized" });
+        }
+      }
+
+      // Without a product the sample fills every variable. Products don't store an
+      // audience, so the sample one is used there too unless overridden.
+      const variables = product
+        ? templateVariables({ audience: SAMPLE_TEMPLATE_VARIABLES.audience, ...overrides }, product)
+        : { ...SAMPLE_TEMPLATE_VARIABLES, ...templateVariables(overrides || {}) };
+      const rendered = renderPromptTemplate(body, variables);
+      res.json({
+        prompt: rendered.prompt,
+        // The brand voice system message sent along with the prompt
+        instructions: brandVoiceInstructions(await loadBrandVoice(storage, req.user!.id)),
+        variables: templateVariableNames(body),
+        missing: rendered.missing,
+        sample: !product,
+      });
+    } catch (error: any) {
+      console.error("Preview prompt template error:", error);
+      res.status(500).json({ message: "Failed to preview prompt template" });
+    }
+  });
+
+  app.get("/api/prompt-templates/:id", requireAuth, async (req, res) => {
+    try {
+      const template = await storage.getPromptTemplate(req.params.id);
+      if (!template || !canUseTemplate(template, req.user!.id)) {
+        return res.status(404).json({ message: "Prompt template not found" });
+      }
+      res.json(template);
+    } catch (error: any) {
+      console.error("Get prompt template error:", error);
+      res.status(500).json({ message: "Failed to fetch prompt template" });
+    }
+  });
+
+  // Each save bumps the version; earlier versions stay readable
+  app.put("/api/prompt-templates/:id", requireAuth, async (req, res) => {
+    try {
+      const validation = updatePromptTemplateSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid prompt template data", 
+          errors: validation.error.errors 
+        });
+      }
+
+      const template = await storage.getPromptTemplate(req.params.id);
+      if (!template || !canUseTemplate(template, req.user!.id)) {
+        return res.status(404).json({ message: "Prompt template not found" });
+      }
+      if (template.isSystem) {
+        return res.status(403).json({ message: "System templates are read-only; create your own copy instead" });
+      }
+      const unknown = validation.data.body ? unknownTemplateVariables(validation.data.body) : [];
+      if (unknown.length > 0) {
+        return res.status(400).json({ message: `Unknown template variables: ${unknown.join(", ")}` });
+      }
+
+      const updated = await storage.updatePromptTemplate(template.id, validation.data);
+      res.json(updated);
+    } catch (error: any) {
+      console.error("Update prompt template error:", error);
+      res.status(500).json({ message: "Failed to update prompt template" });
+    }
+  });
+
+  app.delete("/api/prompt-templates/:id", requireAuth, async (req, res) => {
+    try {
+      const template = await storage.getPromptTemplate(req.params.id);
+      if (!template || !canUseTemplate(template, req.user!.id)) {
+        return res.status(404).json({ message: "Prompt template not found" });
+      }
+      if (template.isSystem) {
+        return res.status(403).json({ message: "System templates can't be deleted" });
+      }
+
+      await storage.deletePromptTemplate(template.id);
+      res.json({ message: "Prompt template deleted successfully" });
+    } catch (error: any) {
+      console.error("Delete prompt template error:", error);
+      res.status(500).json({ message: "Failed to delete prompt template" });
+    }
+  });
+
+  app.get("/api/prompt-templates/:id/versions", requireAuth, async (req, res) => {
+    try {
+      const template = await storage.getPromptTemplate(req.params.id);
+      if (!template || !canUseTemplate(template, req.user!.id)) {
+        return res.status(404).json({ message: "Prompt template not found" });
+      }
+      const versions = await storage.getPromptTemplateVersions(template.id);
+      res.json(versions);
+    } catch (error: any) {
+      console.error("Get prompt template versions error:", error);
+      res.status(500).json({ message: "Failed to fetch prompt template versions" });
+    }
+  });
+
+  // Saves an earlier version's text as a new version
+  app.post("/api/prompt-templates/:id/versions/:version/restore", requireAuth, async (req, res) => {
+    try {
+      const template = await storage.getPromptTemplate(req.params.id);
+      if (!template || !canUseTemplate(template, req.user!.id)) {
+        return res.status(404).json({ message: "Prompt template not found" });
+      }
+      if (template.isSystem) {
+        return res.status(403).json({ message: "System templates are read-only; create your own copy instead" });
+      }
+      const versions = await storage.getPromptTemplateVersions(template.id);
+      const version = versions.find(candidate => candidate.version === Number(req.params.version));
+      if (!version) {
+        return res.status(404).json({ message: "Template version not found" });
+      }
+
+      const updated = await storage.updatePromptTemplate(template.id, { name: version.name, body: version.body });
+      res.json(updated);
+    } catch (error: any) {
+      console.error("Restore prompt template version error:", error);
+      res.status(500).json({ message: "Failed to restore prompt template version" });
+    }
+  });
+
+  // Brand Voice Memory, stored in profiles.preferences and added to every AI prompt
+  app.get("/api/brand-voice", requireAuth, async (req, res) => {
+    try {
+      const voice = await loadBrandVoice(storage, req.user!.id);
+      res.json(voice);
+    } catch (error: any) {
+      console.error("Get brand voice error:", error);
+      res.status(500).json({ message: "Failed to fetch brand voice" });
+    }
+  });
+
+  app.put("/api/brand-voice", requireAuth, async (req, res) => {
+    try {
+      const validation = brandVoiceSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid brand voice", 
+          errors: validation.error.errors 
+        });
+      }
+
+      const preferences = await storage.updateUserPreferences(req.user!.id, { brandVoice: validation.data });
+      await storage.createActivityLog(req.user!.id, {
+        action: "updated_brand_voice",
+        description: "Updated brand voice",
+        toolUsed: "brand-voice",
+      });
+      res.json(preferences.brandVoice);
+    } catch (error: any) {
+      console.error("Update brand voice error:", error);
+      res.status(500).json({ message: "Failed to update brand voice" });
+    }
+  });
+
+  // Translation glossary: brand terms kept as written, and fixed translations
+  // of recurring terms, applied to every AI translation
+  app.get("/api/translations/glossary", requireAuth, async (req, res) => {
+    try {
+      res.json(await loadGlossary(storage, req.user!.id));
+    } catch (error: any) {
+      console.error("Get translation glossary error:", error);
+      res.status(500).json({ message: "Failed to fetch translation glossary" });
+    }
+  });
+
+  app.put("/api/translations/glossary", requireAuth, async (req, res) => {
+    try {
+      const validation = translationGlossarySchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid translation glossary", 
+          errors: validation.error.errors 
+        });
+      }
+
+      const preferences = await storage.updateUserPreferences(req.user!.id, { translationGlossary: validation.data });
+      await storage.createActivityLog(req.user!.id, {
+        action: "updated_translation_glossary",
+        description: "Updated translation glossary",
+        toolUsed: "translations",
+      });
+      res.json(preferences.translationGlossary);
+    } catch (error: any) {
+      console.error("Update translation glossary error:", error);
+      res.status(500).json({ message: "Failed to update translation glossary" });
+    }
+  });
+
+  // Scores copy against the brand voice. Rules cover banned words, required
+  // phrases and reading level; ai: true adds a model rating for tone.
+  // Only the optional AI tone check counts against the AI quota
+  const meterToneCheck = meterAI(storage, "aiGenerations", req => req.body?.ai === true ? 1 : 0);
+  app.post("/api/brand-voice/score", requireAuth, meterToneCheck, async (req, res) => {
+    try {
+      const validation = brandVoiceScoreSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid score request", 
+          errors: validation.error.errors 
+        });
+      }
+      const selection = aiSelectionSchema.safeParse(req.body);
+      if (!selection.success) {
+        return res.status(400).json({ 
+          message: "Invalid AI provider selection", 
+          errors: selection.error.errors 
+        });
+      }
+
+      let text = validation.data.text;
+      if (!text) {
+        const product = await storage.getProduct(validation.data.productId!);
+        if (!product) {
+          return res.status(404).json({ message: "Product not found" });
+        }
+        if (product.userId !== req.user!.id) {
+          return res.status(403).json({ message: "Unauthorized" });
+        }
+        if (!product.description) {
+          return res.status(400).json({ message: "Product has no description to score" });
+        }
+        text = product.description;
+      }
+
+      const voice = await loadBrandVoice(storage, req.user!.id);
+      let tone: { score: number; notes: string } | undefined;
+      if (validation.data.ai && voice.tone.length > 0) {
+        // Rated without the brand voice instructions, which are written for producing copy
+        const ai = resolveAIProvider(selection.data, req.user!.plan);
+        await screenPromptInput(storage, req.user!.id, { text }, {
+          tool: "tone-check",
+          productId: validation.data.productId ?? null,
+        });
+        const { data } = await completeStructured(trackAIUsage(ai, storage, req.user!.id, "tone-check"), {
+          messages: [{ role: "user", content: toneCheckPrompt(text, voice) }],
+        }, toneCheckResponseSchema);
+        tone = { score: data.toneScore, notes: data.notes };
+      } else {
+        await refundAIQuota(storage, res);
+      }
+
+      res.json(scoreBrandVoice(text, voice, tone));
+    } catch (error: any) {
+      console.error("Brand voice score error:", error);
+      if (error instanceof AIProviderError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      res.status(500).json({ message: "Failed to score copy" });
+    }
+  });
+
+  // Background jobs. Bulk optimization runs one product at a time in the job
+  // queue; poll GET /api/jobs/:id for progress.
+  app.post("/api/jobs/bulk-optimize", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const validation = bulkOptimizeSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid bulk optimization request", 
+          errors: validation.error.errors 
+        });
+      }
+      const params = validation.data;
+
+      const products = await storage.getProducts(userId);
+      let productIds = products.map(product => product.id);
+      if (params.productIds) {
+        const owned = new Set(productIds);
+        const unknown = params.productIds.filter(id => !owned.has(id));
+        if (unknown.length > 0) {
+          return res.status(404).json({ message: "Some products were not found", productIds: unknown });
+        }
+        productIds = Array.from(new Set(params.productIds));
+      }
+      if (productIds.length === 0) {
+        return res.status(400).json({ message: "No products to optimize" });
+      }
+
+      // Fail fast on problems every item would hit
+      const ai = await resolveUserAI(storage, req.user!, { provider: params.provider, model: params.model });
+      if (params.tools.includes("alt-text") && !ai.provider.supportsImages()) {
+        return res.status(422).json({ 
+          message: `The ${ai.provider.name} provider can't read images`, 
+          code: "vision_not_supported" 
+        });
+      }
+      if (params.tools.includes("description") && !await findTemplateByKey(storage, userId, params.brandVoice)) {
+        return res.status(404).json({ message: "Prompt template not found" });
+      }
+      // Items are metered as they run; this only stops a job that couldn't do anything
+      await requireAIQuota(storage, req.user!, params.tools.map(tool => tool === "seo" ? "seoOptimizations" : "aiGenerations"));
+
+      const job = await storage.createJob({ userId, type: "bulk-optimize", params }, productIds);
+      jobQueue.wake();
+
+      await storage.createActivityLog(userId, {
+        action: "started_bulk_optimization",
+        description: `Started bulk optimization of ${productIds.length} products`,
+        toolUsed: "bulk-optimization",
+        metadata: { jobId: job.id, tools: params.tools, apply: params.apply }
+      });
+
+      res.status(202).json(job);
+    } catch (error: any) {
+      console.error("Bulk optimize job error:", error);
+      if (error instanceof AIQuotaError) {
+        return sendAIQuotaError(res, error);
+      }
+      if (error instanceof AIProviderError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      res.status(500).json({ message: "Failed to start bulk optimization" });
+    }
+  });
+
+  app.get("/api/jobs", requireAuth, async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      const jobs = await storage.getJobs(req.user!.id, limit);
+      res.json(jobs);
+    } catch (error: any) {
+      console.error("Get jobs error:", error);
+      res.status(500).json({ message: "Failed to fetch jobs" });
+    }
+  });
+
+  app.get("/api/jobs/:id", requireAuth, async (req, res) => {
+    try {
+      const job = await storage.getJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      if (job.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const [items, products] = await Promise.all([
+        storage.getJobItems(job.id),
+        storage.getProducts(job.userId),
+      ]);
+      const names = new Map(products.map(product => [product.id, product.name]));
+      const progress: JobProgress = {
+        job,
+        items: items.map(item => ({
+          id: item.id,
+          productId: item.productId,
+          productName: names.get(item.productId) ?? null,
+          status: item.status,
+          attempts: item.attempts,
+          lastError: item.lastError,
+          finishedAt: item.finishedAt,
+        })),
+      };
+      res.json(progress);
+    } catch (error: any) {
+      console.error("Get job error:", error);
+      res.status(500).json({ message: "Failed to fetch job" });
+    }
+  });
+
+  app.post("/api/jobs/:id/cancel", requireAuth, async (req, res) => {
+    try {
+      const job = await storage.getJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      if (job.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+      if (job.status !== "queued" && job.status !== "running") {
+        return res.status(409).json({ message: `Job is already ${job.status}` });
+      }
+
+      const cancelled = await jobQueue.cancel(job);
+      res.json(cancelled);
+    } catch (error: any) {
+      console.error("Cancel job error:", error);
+      res.status(500).json({ message: "Failed to cancel job" });
+    }
+  });
+
+  // Scheduled content refresh. Each product can have a policy; the scheduler
+  // queues content-refresh jobs for products whose copy is older than it.
+  app.get("/api/content-refresh", requireAuth, async (req, res) => {
+    try {
+      const statuses = await getContentRefreshStatuses(storage, req.user!.id);
+      res.json(statuses);
+    } catch (error: any) {
+      console.error("Get content refresh error:", error);
+      res.status(500).json({ message: "Failed to fetch content refresh policies" });
+    }
+  });
+
+  app.put("/api/products/:id/refresh-policy", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const validation = contentRefreshPolicyInputSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid refresh policy", 
+          errors: validation.error.errors 
+        });
+      }
+      const product = await storage.getProduct(req.params.id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      if (product.userId !== userId) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+      const policy = validation.data;
+      if (policy.tools.includes("description") && !await findTemplateByKey(storage, userId, policy.brandVoice)) {
+        return res.status(404).json({ message: "Prompt template not found" });
+      }
+
+      const saved = await storage.saveContentRefreshPolicy({
+        ...policy,
+        tools: Array.from(new Set(policy.tools)),
+        userId,
+        productId: product.id,
+      });
+      res.json(saved);
+    } catch (error: any) {
+      console.error("Save refresh policy error:", error);
+      res.status(500).json({ message: "Failed to save refresh policy" });
+    }
+  });
+
+  app.delete("/api/products/:id/refresh-policy", requireAuth, async (req, res) => {
+    try {
+      const policy = await storage.getContentRefreshPolicy(req.params.id);
+      if (!policy) {
+        return res.status(404).json({ message: "Refresh policy not found" });
+      }
+      if (policy.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+      await storage.deleteContentRefreshPolicy(policy.id);
+      res.json({ message: "Refresh policy deleted" });
+    } catch (error: any) {
+      console.error("Delete refresh policy error:", error);
+      res.status(500).json({ message: "Failed to delete refresh policy" });
+    }
+  });
+
+  // Refreshes the product now, whatever its schedule
+  app.post("/api/products/:id/refresh-policy/run", requireAuth, async (req, res) => {
+    try {
+      const policy = await storage.getContentRefreshPolicy(req.params.id);
+      if (!policy) {
+        return res.status(404).json({ message: "Refresh policy not found" });
+      }
+      if (policy.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const [job] = await queueContentRefresh(storage, { userId: policy.userId, productIds: [policy.productId] });
+      if (!job) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      jobQueue.wake();
+      res.status(202).json(job);
+    } catch (error: any) {
+      console.error("Run content refresh error:", error);
+      if (error instanceof AIQuotaError) {
+        return sendAIQuotaError(res, error);
+      }
+      res.status(500).json({ message: "Failed to start content refresh" });
+    }
+  });
+
+  // A/B tests of product copy. The AI writes the challengers; the storefront
+  // reports traffic through the test's tokenized /api/ab/:token URLs.
+  app.get("/api/ab-tests", requireAuth, async (req, res) => {
+    try {
+      const tests = await storage.getAbTests(req.user!.id);
+      res.json(await Promise.all(tests.map(test => abTestDetail(storage, test))));
+    } catch (error: any) {
+      console.error("Get A/B tests error:", error);
+      res.status(500).json({ message: "Failed to fetch A/B tests" });
+    }
+  });
+
+  // One generation per challenger
+  const meterAbTest = meterAI(storage, "aiGenerations", req => {
+    const parsed = createAbTestSchema.safeParse(req.body);
+    return parsed.success ? parsed.data.variantCount : 1;
+  });
+  app.post("/api/ab-tests", requireAuth, meterAbTest, async (req, res) => {
+    const written: Array<{ description: string; generationId: string }> = [];
+    try {
+      const userId = req.user!.id;
+      const validation = createAbTestSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid A/B test data", 
+          errors: validation.error.errors 
+        });
+      }
+      const params = validation.data;
+
+      const product = await storage.getProduct(params.productId);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      if (product.userId !== userId) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+      if (params.includeControl && !product.description?.trim()) {
+        return res.status(400).json({ message: "Product has no description to use as the control" });
+      }
+      const running = (await storage.getAbTests(userId))
+        .find(test => test.productId === product.id && test.status === "running");
+      if (running) {
+        return res.status(409).json({ message: "This product already has a running A/B test", testId: running.id });
+      }
+
+      const voices = params.brandVoices || DEFAULT_AB_TEST_VOICES;
+      const templates: PromptTemplate[] = [];
+      for (let index = 0; index < params.variantCount; index++) {
+        const key = voices[index % voices.length];
+        const template = await findTemplateByKey(storage, userId, key);
+        if (!template) {
+          return res.status(404).json({ message: `Prompt template "${key}" not found` });
+        }
+        templates.push(template);
+      }
+
+      const ai = await resolveUserAI(storage, req.user!, { provider: params.provider, model: params.model });
+      const variables = templateVariables({ audience: params.audience }, product);
+      // Variants that cycle back to a voice would otherwise get the cached copy
+      // of the first one
+      for (const template of templates) {
+        const { description, generation } = await generateDescription(
+          storage, ai, userId, template, variables, product.id, { noCache: true }
+        );
+        written.push({ description, generationId: generation.id });
+      }
+
+      const count = written.length + (params.includeControl ? 1 : 0);
+      const weights = params.weights || equalWeights(count);
+      const variants: InsertAbTestVariant[] = [
+        ...(params.includeControl ? [{ description: product.description!, isControl: true }] : []),
+        ...written,
+      ].map((variant, index) => ({ ...variant, label: variantLabel(index), weight: weights[index] }));
+
+      const test = await storage.createAbTest({
+        userId,
+        productId: product.id,
+        name: params.name || `${product.name} copy test`,
+        metric: params.metric,
+        confidence: params.confidence,
+        minImpressions: params.minImpressions,
+        autoPromote: params.autoPromote,
+        ingestToken: generateAbTestToken(),
+      }, variants);
+
+      await storage.createActivityLog(userId, {
+        action: "started_ab_test",
+        description: `Started A/B test "${test.name}" with ${count} variants`,
+        toolUsed: "ab-testing",
+        metadata: { testId: test.id, productId: product.id }
+      });
+
+      res.status(201).json(await abTestDetail(storage, test));
+    } catch (error: any) {
+      console.error("Create A/B test error:", error);
+      // Variants already written were real calls; only the rest are given back
+      await settleAIQuota(storage, res, written.length)
+        .catch(refundError => console.error("AI quota refund error:", refundError));
+      if (error instanceof AIProviderError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      res.status(500).json({ message: "Failed to create A/B test" });
+    }
+  });
+
+  app.get("/api/ab-tests/:id", requireAuth, async (req, res) => {
+    try {
+      const test = await storage.getAbTest(req.params.id);
+      if (!test) {
+        return res.status(404).json({ message: "A/B test not found" });
+      }
+      if (test.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+      res.json(await abTestDetail(storage, test));
+    } catch (error: any) {
+      console.error("Get A/B test error:", error);
+      res.status(500).json({ message: "Failed to fetch A/B test" });
+    }
+  });
+
+  // Change traffic weights or auto-promotion, or stop the test without a winner
+  app.patch("/api/ab-tests/:id", requireAuth, async (req, res) => {
+    try {
+      const validation = updateAbTestSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid A/B test update", 
+          errors: validation.error.errors 
+        });
+      }
+      const test = await storage.getAbTest(req.params.id);
+      if (!test) {
+        return res.status(404).json({ message: "A/B test not found" });
+      }
+      if (test.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+      if (test.status !== "running") {
+        return res.status(409).json({ message: `A/B test is already ${test.status}` });
+      }
+
+      const { weights, autoPromote, status } = validation.data;
+      if (weights) {
+        const variants = await storage.getAbTestVariants(test.id);
+        if (variants.length !== Object.keys(weights).length || variants.some(variant => !(variant.id in weights))) {
+          return res.status(400).json({ message: "weights must list every variant of the test" });
+        }
+        for (const variant of variants) {
+          await storage.updateAbTestVariant(variant.id, { weight: weights[variant.id] });
+        }
+      }
+      // Conditional, so a stop can't overwrite a promotion that landed meanwhile
+      const updated = await storage.updateAbTestByStatus(test.id, ["running"], {
+        ...(autoPromote !== undefined ? { autoPromote } : {}),
+        ...(status ? { status, endedAt: new Date() } : {}),
+      });
+      if (!updated) {
+        return res.status(409).json({ message: "A/B test has already ended" });
+      }
+
+      res.json(await abTestDetail(storage, updated));
+    } catch (error: any) {
+      console.error("Update A/B test error:", error);
+      res.status(500).json({ message: "Failed to update A/B test" });
+    }
+  });
+
+  // Promote a variant by hand, significant or not
+  app.post("/api/ab-tests/:id/promote", requireAuth, async (req, res) => {
+    try {
+      const validation = promoteAbVariantSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid promotion request", 
+          errors: validation.error.errors 
+        });
+      }
+      const test = await storage.getAbTest(req.params.id);
+      if (!test) {
+        return res.status(404).json({ message: "A/B test not found" });
+      }
+      if (test.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+      if (test.status === "completed") {
+        return res.status(409).json({ message: "A/B test already has a winner" });
+      }
+      const variant = (await storage.getAbTestVariants(test.id)).find(v => v.id === validation.data.variantId);
+      if (!variant) {
+        return res.status(404).json({ message: "Variant not found" });
+      }
+
+      const updated = await promoteAbVariant(storage, test, variant, false);
+      if (!updated) {
+        return res.status(409).json({ message: "A/B test already has a winner" });
+      }
+      res.json(await abTestDetail(storage, updated));
+    } catch (error: any) {
+      console.error("Promote A/B variant error:", error);
+      res.status(500).json({ message: "Failed to promote variant" });
+    }
+  });
+
+  app.delete("/api/ab-tests/:id", requireAuth, async (req, res) => {
+    try {
+      const test = await storage.getAbTest(req.params.id);
+      if (!test) {
+        return res.status(404).json({ message: "A/B test not found" });
+      }
+      if (test.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+      await storage.deleteAbTest(test.id);
+      res.json({ message: "A/B test deleted" });
+    } catch (error: any) {
+      console.error("Delete A/B test error:", error);
+      res.status(500).json({ message: "Failed to delete A/B test" });
+    }
+  });
+
+  // Public storefront endpoints; the token is the credential. Shops call these
+  // from their own domain, so any origin is allowed.
+  app.use("/api/ab", (req, res, next) => {
+    res.set({
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type",
+    });
+    if (req.method === "OPTIONS") {
+      return res.sendStatus(204);
+    }
+    next();
+  });
+
+  // Which variant to show a visitor; stable per visitorId
+  app.get("/api/ab/:token/assign", async (req, res) => {
+    try {
+      const test = await storage.getAbTestByToken(req.params.token);
+      if (!test) {
+        return res.status(404).json({ message: "A/B test not found" });
+      }
+      if (test.status !== "running") {
+        return res.status(409).json({ message: `A/B test is ${test.status}` });
+      }
+      const visitorId = typeof req.query.visitorId === "string" ? req.query.visitorId : undefined;
+      const variant = assignVariant(test, await storage.getAbTestVariants(test.id), visitorId);
+      if (!variant) {
+        return res.status(409).json({ message: "No variant is receiving traffic" });
+      }
+      res.json({ testId: test.id, variantId: variant.id, label: variant.label, description: variant.description });
+    } catch (error: any) {
+      console.error("A/B assign error:", error);
+      res.status(500).json({ message: "Failed to assign variant" });
+    }
+  });
+
+  // Impressions, clicks and conversions, batched
+  app.post("/api/ab/:token/events", async (req, res) => {
+    try {
+      const validation = abTestEventsSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid events", 
+          errors: validation.error.errors 
+        });
+      }
+      const test = await storage.getAbTestByToken(req.params.token);
+      if (!test) {
+        return res.status(404).json({ message: "A/B test not found" });
+      }
+      if (test.status !== "running") {
+        return res.status(409).json({ message: `A/B test is ${test.status}` });
+      }
+
+      const result = await recordAbTestEvents(storage, test, validation.data);
+      res.status(202).json(result);
+    } catch (error: any) {
+      if (error instanceof UnknownAbVariantError) {
+        return res.status(400).json({ message: error.message, variantIds: error.variantIds });
+      }
+      console.error("A/B events error:", error);
+      res.status(500).json({ message: "Failed to record events" });
+    }
+  });
+
+  // Products CRUD
+  // Paginated product list. Filters, sort and cursor come from the query string
+  // (see productQuerySchema); pass nextCursor back as ?cursor= for the next page.
+  app.get("/api/products", requireAuth, async (req, res) => {
+    try {
+      const validation = productQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid product query", 
+          errors: validation.error.errors 
+        });
+      }
+
+      const { cursor, categoryId, ...query } = validation.data;
+      let decodedCursor;
+      if (cursor) {
+        try {
+          decodedCursor = decodeProductCursor(cursor);
+        } catch {
+          return res.status(400).json({ message: "Invalid cursor" });
+        }
+      }
+
+      const userId = req.user!.id;
+      const categoryIds = categoryId
+        ? descendantIds(await storage.getCategories(userId), categoryId)
+        : undefined;
+      const filters = { ...query, categoryIds };
+      const [items, total] = await Promise.all([
+        storage.getProducts(userId, { ...filters, cursor: decodedCursor, limit: query.limit + 1 }),
+        storage.countProducts(userId, filters)
+      ]);
+
+      const hasMore = items.length > query.limit;
+      const page = hasMore ? items.slice(0, query.limit) : items;
+      res.json({
+        items: page,
+        total,
+        nextCursor: hasMore ? encodeProductCursor(page[page.length - 1], query.sort) : null
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch products" });
+    }
+  });
+
+  app.post("/api/products", requireAuth, async (req, res) => {
+    try {
+      // Validate the request body using the insertProductSchema
+      const validation = insertProductSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid product data", 
+          errors: validation.error.errors 
+        });
+      }
+      
+      const productData = { ...validation.data, userId: req.user!.id };
+      if (!await applyProductCategory(storage, req.user!.id, productData)) {
+        return res.status(400).json({ message: "Category not found" });
+      }
+      const product = await storage.createProduct(productData);
+      res.json(product);
+    } catch (error: any) {
+      console.error("Create product error:", error);
+      res.status(500).json({ message: "Failed to create product" });
+    }
+  });
+
+  // CSV export of the full catalog
+  app.get("/api/products/export", requireAuth, async (req, res) => {
+    try {
+      const products = await storage.getProducts(req.user!.id);
+      const filename = `zyra-products-${new Date().toISOString().split('T')[0]}.csv`;
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.send(productsToCsv(products));
+    } catch (error: any) {
+      console.error("Export products error:", error);
+      res.status(500).json({ message: "Failed to export products" });
+    }
+  });
+
+  // Bulk-upload CSV of ads for Google Ads Editor or Meta Ads Manager, written
+  // from the AI copy. ?dryRun=true returns counts and skipped products instead.
+  app.get("/api/products/ad-export", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const validation = adExportQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid ad export options", 
+          errors: validation.error.errors 
+        });
+      }
+      const { platform, campaign, dryRun } = validation.data;
+
+      // Ads link to the same product pages as the channel feeds
+      const { linkTemplate } = await storefrontSettings(storage, userId, platform === "meta-ads" ? "meta" : "google");
+      const adExport = buildAdExport(platform, await loadFeedProducts(storage, userId), linkTemplate, campaign);
+      if (dryRun) {
+        const { rows, ...summary } = adExport;
+        return res.json({ dryRun: true, ...summary, preview: rows.slice(0, 6) });
+      }
+
+      await storage.createActivityLog(userId, {
+        action: "exported_ads",
+        description: `Exported ${adExport.adCount} ${platform === "meta-ads" ? "Meta" : "Google"} ads`,
+        toolUsed: "ad-export",
+        metadata: { platform, campaign, adCount: adExport.adCount, skipped: adExport.skipped.length }
+      });
+
+      const filename = `zyra-${platform}-${new Date().toISOString().split('T')[0]}.csv`;
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.send(adExportCsv(adExport));
+    } catch (error: any) {
+      console.error("Ad export error:", error);
+      res.status(500).json({ message: "Failed to export ads" });
+    }
+  });
+
+  // schema.org Product JSON-LD for the whole catalog, one entry per product
+  // with its validation result, as a downloadable JSON file
+  app.get("/api/products/structured-data", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const settings = await storefrontSettings(storage, userId);
+      const entries = await loadFeedProducts(storage, userId);
+
+      const products = entries.map(entry => {
+        const jsonLd = buildProductJsonLd(entry, settings);
+        return { productId: entry.product.id, name: entry.product.name, jsonLd, validation: validateProductJsonLd(jsonLd) };
+      });
+
+      const filename = `zyra-structured-data-${new Date().toISOString().split('T')[0]}.json`;
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.json({
+        generatedAt: new Date().toISOString(),
+        total: products.length,
+        invalid: products.filter(product => !product.validation.valid).length,
+        products,
+      });
+    } catch (error: any) {
+      console.error("Export structured data error:", error);
+      res.status(500).json({ message: "Failed to export structured data" });
+    }
+  });
+
+  // Validate Product JSON-LD from anywhere, as an object or a JSON string
+  app.post("/api/structured-data/validate", requireAuth, async (req, res) => {
+    try {
+      let jsonLd = req.body?.jsonLd;
+      if (typeof jsonLd === "string") {
+        try {
+          jsonLd = JSON.parse(jsonLd);
+        } catch {
+          return res.status(400).json({ message: "jsonLd is not valid JSON" });
+        }
+      }
+      if (!jsonLd || typeof jsonLd !== "object") {
+        return res.status(400).json({ message: "jsonLd is required" });
+      }
+      res.json(validateProductJsonLd(jsonLd));
+    } catch (error: any) {
+      console.error("Validate structured data error:", error);
+      res.status(500).json({ message: "Failed to validate structured data" });
+    }
+  });
+
+  // CSV import. The body is the raw CSV file, streamed straight from the request.
+  // ?dryRun=true validates and previews without writing, ?mapping= takes a JSON
+  // object of CSV header -> product field to override header auto-detection.
+  // Rows naming a category the user doesn't have are rejected unless
+  // ?createCategories=true, which creates them as top-level categories.
+  app.post("/api/products/import", requireAuth, async (req, res) => {
+    try {
+      const contentType = req.headers["content-type"] || "";
+      if (!/text\/csv|text\/plain|application\/octet-stream/.test(contentType)) {
+        return res.status(415).json({ message: "Upload the CSV file with Content-Type text/csv" });
+      }
+
+      let mapping: ColumnMapping | undefined;
+      if (typeof req.query.mapping === "string" && req.query.mapping) {
+        try {
+          mapping = JSON.parse(req.query.mapping);
+        } catch {
+          return res.status(400).json({ message: "Column mapping must be valid JSON" });
+        }
+        const problems = validateColumnMapping(mapping);
+        if (problems.length > 0) {
+          return res.status(400).json({ message: "Invalid column mapping", errors: problems });
+        }
+      }
+
+      const dryRun = req.query.dryRun === "true";
+      const createCategories = req.query.createCategories === "true";
+      const userId = req.user!.id;
+      const categories = await ensureDefaultCategories(storage, userId);
+      const checkCategory: ImportRowCheck = product => findCategory(categories, product.category) ? null : {
+        field: "category",
+        message: `Unknown category "${product.category}". Create it first or allow new categories.`,
+      };
+
+      let parsed;
+      try {
+        parsed = await parseProductCsv(req, mapping, createCategories ? undefined : checkCategory);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message || "Could not read CSV file" });
+      }
+
+      const operationId = dryRun ? null : randomUUID();
+      let importedCount = 0;
+      if (!dryRun) {
+        for (const { product } of parsed.validRows) {
+          const category = await findOrCreateCategory(storage, userId, product.category, categories);
+          const productData = { ...product, category: category.name, categoryId: category.id, userId };
+          await storage.createProduct(productData, { source: "import", operationId: operationId! });
+          importedCount++;
+        }
+
+        await storage.createActivityLog(userId, {
+          action: "imported_products",
+          description: `Imported ${importedCount} products from CSV`,
+          toolUsed: "csv-import-export",
+          metadata: { importedCount, failedRows: parsed.totalRows - parsed.validRows.length, operationId }
+        });
+      }
+
+      res.json({
+        dryRun,
+        totalRows: parsed.totalRows,
+        validRows: parsed.validRows.length,
+        invalidRows: new Set(parsed.errors.map(e => e.row)).size,
+        importedCount,
+        operationId,
+        mapping: parsed.mapping,
+        unmappedColumns: parsed.unmappedColumns,
+        preview: buildPreview(parsed),
+        errors: parsed.errors.slice(0, 50).map(({ raw, ...error }) => error),
+        errorReportId: saveErrorReport(userId, parsed),
+      });
+    } catch (error: any) {
+      console.error("Import products error:", error);
+      res.status(500).json({ message: "Failed to import products" });
+    }
+  });
+
+  app.get("/api/products/import/errors/:reportId", requireAuth, async (req, res) => {
+    const report = getErrorReport(req.user!.id, req.params.reportId);
+    if (!report) {
+      return res.status(404).json({ message: "Error report not found or expired" });
+    }
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="import-errors-${req.params.reportId}.csv"`);
+    res.send(report);
+  });
+
+  app.get("/api/products/:id", requireAuth, async (req, res) => {
+    try {
+      const product = await storage.getProduct(req.params.id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      // Check if the product belongs to the authenticated user
+      if (product.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+      res.json(product);
+    } catch (error: any) {
+      console.error("Get product error:", error);
+      res.status(500).json({ message: "Failed to fetch product" });
+    }
+  });
+
+  app.get("/api/products/:id/structured-data", requireAuth, async (req, res) => {
+    try {
+      const product = await storage.getProduct(req.params.id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      if (product.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const settings = await storefrontSettings(storage, product.userId);
+      const jsonLd = buildProductJsonLd(await loadFeedProduct(storage, product), settings);
+      res.json({
+        productId: product.id,
+        jsonLd,
+        snippet: jsonLdScriptTag(jsonLd),
+        validation: validateProductJsonLd(jsonLd),
+      });
+    } catch (error: any) {
+      console.error("Structured data error:", error);
+      res.status(500).json({ message: "Failed to build structured data" });
+    }
+  });
+
+  app.patch("/api/products/:id", requireAuth, async (req, res) => {
+    try {
+      // Validate partial update data
+      const validation = insertProductSchema.partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid product data", 
+          errors: validation.error.errors 
+        });
+      }
+
+      // Check if the product exists and belongs to the user
+      const existingProduct = await storage.getProduct(req.params.id);
+      if (!existingProduct) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      if (existingProduct.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      // Stock of a product with variants is the total of its variants' stock
+      const updates = validation.data;
+      if (!await applyProductCategory(storage, req.user!.id, updates)) {
+        return res.status(400).json({ message: "Category not found" });
+      }
+      if (updates.stock !== undefined && (await storage.getProductVariants(req.params.id)).length > 0) {
+        delete updates.stock;
+      }
+
+      const product = await storage.updateProduct(req.params.id, updates);
+      res.json(product);
+    } catch (error: any) {
+      console.error("Update product error:", error);
+      res.status(500).json({ message: "Failed to update product" });
+    }
+  });
+
+  app.delete("/api/products/:id", requireAuth, async (req, res) => {
+    try {
+      // Check if the product exists and belongs to the user
+      const existingProduct = await storage.getProduct(req.params.id);
+      if (!existingProduct) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      if (existingProduct.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      await storage.deleteProduct(req.params.id);
+      res.json({ message: "Product deleted successfully" });
+    } catch (error: any) {
+      console.error("Delete product error:", error);
+      res.status(500).json({ message: "Failed to delete product" });
+    }
+  });
+
+  // Optimize all products endpoint. Send { dryRun: true } first to get the
+  // proposed renames, copy, tags and duplicate merges plus a planId; nothing is
+  // written or deleted until the same plan is confirmed with { planId }.
+  app.post("/api/products/optimize-all", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const { dryRun = false, planId, mergeStrategy = "newest" } = req.body || {};
+
+      if (!MERGE_STRATEGIES.includes(mergeStrategy)) {
+        return res.status(400).json({ 
+          message: `Invalid merge strategy. Use one of: ${MERGE_STRATEGIES.join(", ")}` 
+        });
+      }
+      
+      // Fetch all products for the user
+      const products = await storage.getProducts(userId);
+      
+      if (products.length === 0) {
+        return res.json({ 
+          message: "No products found to optimize", 
+          optimizedCount: 0 
+        });
+      }
+
+      const categories = await storage.getCategories(userId);
+      const plan = buildOptimizationPlan(products, mergeStrategy as MergeStrategy, categories);
+
+      if (dryRun) {
+        return res.json({ dryRun: true, ...plan });
+      }
+
+      if (!planId) {
+        return res.status(400).json({ 
+          message: "Preview the plan with dryRun first, then confirm it by sending its planId" 
+        });
+      }
+      if (planId !== plan.planId) {
+        return res.status(409).json({ 
+          message: "Your catalog or merge strategy changed since the plan was previewed. Please review the new plan.",
+          plan: { dryRun: true, ...plan }
+        });
+      }
+
+      // Every write in this run shares one operation id so it can be undone as a unit
+      const versionContext = { source: "optimize-all" as const, operationId: randomUUID() };
+      const optimizedAt = new Date().toISOString();
+      const originals = new Map(products.map(p => [p.id, p]));
+
+      // Update all optimized products in database
+      const updatePromises = plan.changes.map(change => {
+        const original = originals.get(change.productId)!;
+        return storage.updateProduct(change.productId, {
+          ...change.mergedFields,
+          name: change.name,
+          description: change.description,
+          tags: change.tags,
+          stock: change.stock,
+          isOptimized: true,
+          optimizedCopy: {
+            originalName: original.name,
+            originalDescription: original.description,
+            originalTags: original.tags,
+            optimizedAt,
+            optimizationType: 'database-only'
+          }
+        }, versionContext);
+      });
+
+      await Promise.all(updatePromises);
+
+      // Delete the duplicates whose stock was merged into the survivor
+      const duplicateIds = plan.duplicateGroups.flatMap(group => group.duplicateIds);
+      await Promise.all(duplicateIds.map(id => storage.deleteProduct(id, versionContext)));
+
+      res.json({
+        message: "All products optimized successfully",
+        operationId: versionContext.operationId,
+        mergeStrategy: plan.mergeStrategy,
+        optimizedCount: plan.summary.optimizedCount,
+        duplicatesRemoved: plan.summary.duplicatesRemoved,
+        duplicateGroups: plan.duplicateGroups,
+        details: {
+          namesCapitalized: plan.summary.namesCapitalized,
+          descriptionsGenerated: plan.summary.descriptionsGenerated,
+          tagsAdded: plan.summary.tagsAdded
+        }
+      });
+    } catch (error: any) {
+      console.error("Optimize products error:", error);
+      res.status(500).json({ message: "Failed to optimize products" });
+    }
+  });
+
+  // Undo the most recent bulk operation (optimize-all run, CSV import) across the catalog
+  app.post("/api/products/bulk-operations/undo-last", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const operationId = await storage.getLatestBulkOperationId(userId);
+      if (!operationId) {
+        return res.status(404).json({ message: "No bulk operation to undo" });
+      }
+
+      const result = await revertOperation(storage, userId, operationId, req.body?.force === true);
+
+      await storage.createActivityLog(userId, {
+        action: "rolled_back_products",
+        description: `Rolled back ${result.restored.length + result.removed.length} products`,
+        toolUsed: "rollback-changes",
+        metadata: { operationId, skipped: result.skipped.length }
+      });
+
+      res.json({
+        message: result.skipped.length > 0
+          ? "Bulk operation partially undone; some products were edited afterwards"
+          : "Bulk operation undone",
+        ...result
+      });
+    } catch (error: any) {
+      console.error("Undo bulk operation error:", error);
+      res.status(500).json({ message: "Failed to undo bulk operation" });
+    }
+  });
+
+  // AI alt text for a product's image. The image URL is sent to a vision-capable
+  // model; with apply (the default) the result is written to imageAltText.
+  app.post("/api/products/:id/alt-text", requireAuth, meterAI(storage, "aiGenerations"), async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const validation = altTextRequestSchema.safeParse(req.body || {});
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid alt text request", 
+          errors: validation.error.errors 
+        });
+      }
+
+      const product = await storage.getProduct(req.params.id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      if (product.userId !== userId) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+      if (!product.image) {
+        return res.status(400).json({ message: "Product has no image" });
+      }
+
+      const { apply, noCache, ...selection } = validation.data;
+      const ai = await resolveUserAI(storage, req.user!, selection);
+      const { altText, generation, completion, cached } = await generateAltText(storage, ai, userId, product, { noCache });
+      if (cached) {
+        await refundAIQuota(storage, res);
+      }
+      const applied = apply ? await applyGeneration(storage, generation, product) : undefined;
+
+      await storage.createActivityLog(userId, {
+        action: "generated_alt_text",
+        description: `Generated image alt text for ${product.name}`,
+        toolUsed: "image-alt-text",
+        metadata: { generationId: generation.id, productId: product.id, applied: apply }
+      });
+
+      res.json({
+        altText,
+        generationId: generation.id,
+        product: applied?.product,
+        provider: completion.provider,
+        model: completion.model,
+        cached
+      });
+    } catch (error: any) {
+      console.error("Alt text generation error:", error);
+      if (error instanceof AIProviderError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      res.status(500).json({ message: "Failed to generate alt text" });
+    }
+  });
+
+  // Alt text for the whole catalog, run as a bulk-optimize job limited to the
+  // alt-text tool. Poll GET /api/jobs/:id for progress.
+  app.post("/api/products/alt-text/batch", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const validation = altTextBatchSchema.safeParse(req.body || {});
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid alt text batch request", 
+          errors: validation.error.errors 
+        });
+      }
+      const { productIds: requested, overwrite, apply, provider, model } = validation.data;
+
+      const products = await storage.getProducts(userId);
+      let candidates = products;
+      if (requested) {
+        const owned = new Map(products.map(product => [product.id, product]));
+        const unknown = requested.filter(id => !owned.has(id));
+        if (unknown.length > 0) {
+          return res.status(404).json({ message: "Some products were not found", productIds: unknown });
+        }
+        candidates = Array.from(new Set(requested)).map(id => owned.get(id)!);
+      }
+      const productIds = candidates
+        .filter(product => product.image && (overwrite || !product.imageAltText))
+        .map(product => product.id);
+      if (productIds.length === 0) {
+        return res.status(400).json({ 
+          message: overwrite ? "No products with images" : "Every product with an image already has alt text" 
+        });
+      }
+
+      // Fail fast instead of failing every item
+      const ai = await resolveUserAI(storage, req.user!, { provider, model });
+      if (!ai.provider.supportsImages()) {
+        return res.status(422).json({ 
+          message: `The ${ai.provider.name} provider can't read images`, 
+          code: "vision_not_supported" 
+        });
+      }
+      await requireAIQuota(storage, req.user!, ["aiGenerations"]);
+
+      const params = bulkOptimizeSchema.parse({ productIds, tools: ["alt-text"], apply, provider, model });
+      const job = await storage.createJob({ userId, type: "bulk-optimize", params }, productIds);
+      jobQueue.wake();
+
+      await storage.createActivityLog(userId, {
+        action: "started_alt_text_batch",
+        description: `Started alt text generation for ${productIds.length} products`,
+        toolUsed: "image-alt-text",
+        metadata: { jobId: job.id, overwrite, apply }
+      });
+
+      res.status(202).json(job);
+    } catch (error: any) {
+      console.error("Alt text batch error:", error);
+      if (error instanceof AIQuotaError) {
+        return sendAIQuotaError(res, error);
+      }
+      if (error instanceof AIProviderError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      res.status(500).json({ message: "Failed to start alt text generation" });
+    }
+  });
+
+  // Product translations. Each is returned with stale: true once the product's
+  // source copy (name, description, SEO title and meta, alt text) has changed
+  // since it was written.
+  const currentSourceHash = async (product: Product) =>
+    sourceHash(translationSource(product, await storage.getSeoMeta(product.id)));
+
+  app.get("/api/products/:id/translations", requireAuth, async (req, res) => {
+    try {
+      const product = await storage.getProduct(req.params.id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      if (product.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const [translations, hash] = await Promise.all([
+        storage.getProductTranslations(product.id),
+        currentSourceHash(product),
+      ]);
+      res.json(translations.map(translation => translationView(translation, hash)));
+    } catch (error: any) {
+      console.error("Get translations error:", error);
+      res.status(500).json({ message: "Failed to fetch translations" });
+    }
+  });
+
+  // AI translation into one or more languages, following the user's glossary.
+  // Each language is one generation.
+  const meterTranslation = meterAI(storage, "aiGenerations", req =>
+    Array.isArray(req.body?.locales) ? new Set(req.body.locales).size : 1);
+  app.post("/api/products/:id/translations/translate", requireAuth, meterTranslation, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const validation = translateProductSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid translation request", 
+          errors: validation.error.errors 
+        });
+      }
+      const product = await storage.getProduct(req.params.id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      if (product.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const { locales, publish, noCache, ...selection } = validation.data;
+      const ai = await resolveUserAI(storage, req.user!, selection);
+      const glossary = await loadGlossary(storage, userId);
+      const source = translationSource(product, await storage.getSeoMeta(product.id));
+      const hash = sourceHash(source);
+
+      const translations: ProductTranslationView[] = [];
+      const issues: Record<string, string[]> = {};
+      // Languages answered from the AI cache, which don't count against the quota
+      const cached: SupportedLocale[] = [];
+      for (const locale of Array.from(new Set(locales))) {
+        const generated = await generateTranslation(storage, ai, userId, product.id, source, locale, glossary, { noCache });
+        if (generated.cached) {
+          cached.push(locale);
+          await refundAIQuota(storage, res, 1);
+        }
+        let { translation } = await applyGeneration(storage, generated.generation, product);
+        if (publish !== undefined) {
+          translation = await storage.updateProductTranslation(translation!.id, { publishedAt: publish ? new Date() : null });
+        }
+        translations.push(translationView(translation!, hash));
+        if (generated.issues.length > 0) issues[locale] = generated.issues;
+      }
+
+      await storage.createActivityLog(userId, {
+        action: "translated_product",
+        description: `Translated ${product.name} into ${locales.length} language${locales.length === 1 ? "" : "s"}`,
+        toolUsed: "translations",
+        metadata: { productId: product.id, locales, publish }
+      });
+
+      res.json({ translations, issues, cached });
+    } catch (error: any) {
+      console.error("Product translation error:", error);
+      if (error instanceof AIProviderError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      res.status(500).json({ message: "Failed to translate product" });
+    }
+  });
+
+  // Hand-written or edited translation. It's marked up to date with the
+  // current source copy.
+  app.put("/api/products/:id/translations/:locale", requireAuth, async (req, res) => {
+    try {
+      const locale = supportedLocale(req.params.locale);
+      if (!locale) {
+        return res.status(400).json({ message: "Unsupported language" });
+      }
+      const validation = productTranslationInputSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid translation", 
+          errors: validation.error.errors 
+        });
+      }
+      const product = await storage.getProduct(req.params.id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      if (product.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const { publish, ...copy } = validation.data;
+      const [existing, hash] = await Promise.all([
+        storage.getProductTranslation(product.id, locale),
+        currentSourceHash(product),
+      ]);
+      const translation = await storage.saveProductTranslation({
+        productId: product.id,
+        userId: product.userId,
+        locale,
+        name: copy.name,
+        description: copy.description ?? null,
+        seoTitle: copy.seoTitle ?? null,
+        metaDescription: copy.metaDescription ?? null,
+        imageAltText: copy.imageAltText ?? null,
+        source: "manual",
+        generationId: null,
+        sourceHash: hash,
+        publishedAt: publish === undefined ? existing?.publishedAt ?? null : publish ? new Date() : null,
+      });
+      res.json(translationView(translation, hash));
+    } catch (error: any) {
+      console.error("Save translation error:", error);
+      res.status(500).json({ message: "Failed to save translation" });
+    }
+  });
+
+  app.delete("/api/products/:id/translations/:locale", requireAuth, async (req, res) => {
+    try {
+      const product = await storage.getProduct(req.params.id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      if (product.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const translation = await storage.getProductTranslation(product.id, req.params.locale);
+      if (!translation) {
+        return res.status(404).json({ message: "Translation not found" });
+      }
+      await storage.deleteProductTranslation(translation.id);
+      res.json({ message: "Translation deleted" });
+    } catch (error: any) {
+      console.error("Delete translation error:", error);
+      res.status(500).json({ message: "Failed to delete translation" });
+    }
+  });
+
+  // Publishing puts a translation into that language's feeds
+  app.post("/api/products/:id/translations/:locale/publish", requireAuth, async (req, res) => {
+    try {
+      const validation = publishTranslationSchema.safeParse(req.body || {});
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid publish request", 
+          errors: validation.error.errors 
+        });
+      }
+      const product = await storage.getProduct(req.params.id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      if (product.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const translation = await storage.getProductTranslation(product.id, req.params.locale);
+      if (!translation) {
+        return res.status(404).json({ message: "Translation not found" });
+      }
+      const hash = await currentSourceHash(product);
+      if (translation.sourceHash !== hash && !validation.data.force) {
+        return res.status(409).json({ 
+          message: "The product copy changed since this translation was written. Update it, or publish anyway with force." 
+        });
+      }
+
+      const published = await storage.updateProductTranslation(translation.id, { publishedAt: new Date() });
+      await storage.createActivityLog(req.user!.id, {
+        action: "published_translation",
+        description: `Published the ${translation.locale} translation of ${product.name}`,
+        toolUsed: "translations",
+        metadata: { productId: product.id, locale: translation.locale }
+      });
+      res.json(translationView(published, hash));
+    } catch (error: any) {
+      console.error("Publish translation error:", error);
+      res.status(500).json({ message: "Failed to publish translation" });
+    }
+  });
+
+  app.post("/api/products/:id/translations/:locale/unpublish", requireAuth, async (req, res) => {
+    try {
+      const product = await storage.getProduct(req.params.id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      if (product.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const translation = await storage.getProductTranslation(product.id, req.params.locale);
+      if (!translation) {
+        return res.status(404).json({ message: "Translation not found" });
+      }
+      const updated = await storage.updateProductTranslation(translation.id, { publishedAt: null });
+      res.json(translationView(updated, await currentSourceHash(product)));
+    } catch (error: any) {
+      console.error("Unpublish translation error:", error);
+      res.status(500).json({ message: "Failed to unpublish translation" });
+    }
+  });
+
+  // Product version history. History outlives the product, so ownership is
+  // checked against the versions rather than the (possibly deleted) product.
+  app.get("/api/products/:id/versions", requireAuth, async (req, res) => {
+    try {
+      const versions = await storage.getProductVersions(req.params.id);
+      if (versions.length === 0) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      if (versions[0].userId !== req.user!.id) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+      res.json(versions);
+    } catch (error: any) {
+      console.error("Get product versions error:", error);
+      res.status(500).json({ message: "Failed to fetch product versions" });
+    }
+  });
+
+  // Diff a version against the current product (default) or ?against=<versionId>
+  app.get("/api/products/:id/versions/:versionId/diff", requireAuth, async (req, res) => {
+    try {
+      const version = await storage.getProductVersion(req.params.versionId);
+      if (!version || version.productId !== req.params.id) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+      if (version.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const against = typeof req.query.against === "string" ? req.query.against : "current";
+      let target: unknown = null;
+      if (against === "current") {
+        const product = await storage.getProduct(req.params.id);
+        target = product ? snapshotOf(product, await storage.getProductVariants(product.id)) : null;
+      } else {
+        const other = await storage.getProductVersion(against);
+        if (!other || other.productId !== req.params.id) {
+          return res.status(404).json({ message: "Comparison version not found" });
+        }
+        target = other.snapshot;
+      }
+
+      res.json({
+        versionId: version.id,
+        against,
+        changes: diffSnapshots(version.snapshot, target)
+      });
+    } catch (error: any) {
+      console.error("Diff product version error:", error);
+      res.status(500).json({ message: "Failed to diff product version" });
+    }
+  });
+
+  app.post("/api/products/:id/versions/:versionId/restore", requireAuth, async (req, res) => {
+    try {
+      const version = await storage.getProductVersion(req.params.versionId);
+      if (!version || version.productId !== req.params.id) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+      if (version.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+      if (version.action === "delete") {
+        return res.status(400).json({ message: "Cannot restore a deletion; pick an earlier version" });
+      }
+
+      const product = await restoreVersion(storage, version, { source: "rollback" });
+      res.json(product);
+    } catch (error: any) {
+      if (error instanceof VariantSkuConflictError) {
+        return res.status(409).json({ message: error.message, skus: error.skus });
+      }
+      console.error("Restore product version error:", error);
+      res.status(500).json({ message: "Failed to restore product version" });
+    }
+  });
+
+  // Category tree. The starter categories are created the first time it's listed.
+  app.get("/api/categories", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const [categories, products] = await Promise.all([
+        ensureDefaultCategories(storage, userId),
+        storage.getProducts(userId)
+      ]);
+
+      const byId = new Map(categories.map(category => [category.id, category]));
+      const counts = new Map<string, number>();
+      for (const product of products) {
+        if (product.categoryId) counts.set(product.categoryId, (counts.get(product.categoryId) || 0) + 1);
+      }
+
+      res.json(categories
+        .map(category => ({
+          ...category,
+          path: categoryPath(byId, category),
+          productCount: counts.get(category.id) || 0
+        }))
+        .sort((a, b) => a.path.localeCompare(b.path)));
+    } catch (error: any) {
+      console.error("Get categories error:", error);
+      res.status(500).json({ message: "Failed to fetch categories" });
+    }
+  });
+
+  // Suggestions for mapping a category to the Google product taxonomy
+  app.get("/api/categories/google-taxonomy", requireAuth, async (req, res) => {
+    const q = typeof req.query.q === "string" ? req.query.q.trim().toLowerCase() : "";
+    res.json(q ? GOOGLE_TAXONOMY.filter(entry => entry.path.toLowerCase().includes(q) || entry.id === q) : GOOGLE_TAXONOMY);
+  });
+
+  // Link products that still only have a free-text category to category rows
+  app.post("/api/categories/migrate", requireAuth, async (req, res) => {
+    try {
+      const result = await migrateUserCategories(storage, req.user!.id);
+      res.json(result);
+    } catch (error: any) {
+      console.error("Migrate categories error:", error);
+      res.status(500).json({ message: "Failed to migrate categories" });
+    }
+  });
+
+  app.post("/api/categories", requireAuth, async (req, res) => {
+    try {
+      const validation = insertCategorySchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid category data", 
+          errors: validation.error.errors 
+        });
+      }
+
+      const userId = req.user!.id;
+      if (validation.data.parentId) {
+        const parent = await storage.getCategory(validation.data.parentId);
+        if (!parent || parent.userId !== userId) {
+          return res.status(400).json({ message: "Parent category not found" });
+        }
+      }
+      const categories = await storage.getCategories(userId);
+      if (categoryNameTaken(categories, validation.data.name, validation.data.parentId || null)) {
+        return res.status(409).json({ message: "A category with this name already exists here" });
+      }
+
+      const category = await storage.createCategory({ ...validation.data, userId });
+      res.json(category);
+    } catch (error: any) {
+      console.error("Create category error:", error);
+      res.status(500).json({ message: "Failed to create category" });
+    }
+  });
+
+  app.patch("/api/categories/:id", requireAuth, async (req, res) => {
+    try {
+      const validation = insertCategorySchema.partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid category data", 
+          errors: validation.error.errors 
+        });
+      }
+
+      const userId = req.user!.id;
+      const category = await storage.getCategory(req.params.id);
+      if (!category) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      if (category.userId !== userId) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const updates = validation.data;
+      const categories = await storage.getCategories(userId);
+      if (updates.parentId) {
+        if (!categories.some(c => c.id === updates.parentId)) {
+          return res.status(400).json({ message: "Parent category not found" });
+        }
+        if (wouldCreateCycle(categories, category.id, updates.parentId)) {
+          return res.status(400).json({ message: "A category cannot be nested inside itself" });
+        }
+      }
+      const parentId = updates.parentId !== undefined ? updates.parentId || null : category.parentId;
+      if (categoryNameTaken(categories, updates.name ?? category.name, parentId, category.id)) {
+        return res.status(409).json({ message: "A category with this name already exists here" });
+      }
+
+      const updated = await storage.updateCategory(category.id, updates);
+
+      // Products keep the category name for display and exports
+      if (updates.name && updates.name !== category.name) {
+        const products = await storage.getProducts(userId);
+        await Promise.all(products
+          .filter(product => product.categoryId === category.id)
+          .map(product => storage.updateProduct(product.id, { category: updated.name })));
+      }
+
+      res.json(updated);
+    } catch (error: any) {
+      console.error("Update category error:", error);
+      res.status(500).json({ message: "Failed to update category" });
+    }
   });
 
-  passport.deserializeUser(async (id: string, done) => {
+  app.delete("/api/categories/:id", requireAuth, async (req, res) => {
     try {
-      const user = await storage.getUser(id);
-      done(null, user);
-    } catch (error) {
-      done(error);
+      const userId = req.user!.id;
+      const category = await storage.getCategory(req.params.id);
+      if (!category) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      if (category.userId !== userId) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const categories = await storage.getCategories(userId);
+      if (categories.some(c => c.parentId === category.id)) {
+        return res.status(409).json({ message: "Move or delete its subcategories first" });
+      }
+      const productCount = await storage.countProducts(userId, { categoryIds: [category.id] });
+      if (productCount > 0) {
+        return res.status(409).json({ 
+          message: `${productCount} products are still in this category. Move them to another category first.` 
+        });
+      }
+
+      await storage.deleteCategory(category.id);
+      res.json({ message: "Category deleted successfully" });
+    } catch (error: any) {
+      console.error("Delete category error:", error);
+      res.status(500).json({ message: "Failed to delete category" });
     }
   });
 
-  // Auth middleware
-  const requireAuth = (req: any, res: any, next: any) => {
-    if (req.isAuthenticated()) {
-      return next();
-    }
-    res.status(401).json({ message: "Authentication required" });
+  // Shopping channel feeds (Google Merchant Center, Meta catalog). Settings and
+  // preview are for the signed-in user; the feed itself is served from a
+  // tokenized URL the channel polls without a session.
+  const feedUrls = (req: Request, feed: ProductFeed, locale?: string) => {
+    const base = `${req.protocol}://${req.get("host")}/api/feeds/${feed.channel}/${feed.token}`;
+    const query = locale ? `?locale=${locale}` : "";
+    return Object.fromEntries(FEED_FORMATS[feed.channel as FeedChannel].map(format => [format, `${base}.${format}${query}`]));
   };
 
-  // Auth routes
-  app.post("/api/register", async (req, res) => {
+  const feedChannel = (channel: string): FeedChannel | null =>
+    (FEED_CHANNELS as readonly string[]).includes(channel) ? channel as FeedChannel : null;
+
+  app.get("/api/feeds/:channel/settings", requireAuth, async (req, res) => {
     try {
-      const validatedData = insertUserSchema.parse(req.body);
-      
-      // Check if user already exists
-      const existingUser = await storage.getUserByEmail(validatedData.email);
-      if (existingUser) {
-        return res.status(400).json({ message: "User already exists" });
+      const channel = feedChannel(req.params.channel);
+      if (!channel) {
+        return res.status(404).json({ message: "Unknown feed channel" });
       }
 
-      const user = await storage.createUser(validatedData);
-      
-      // Auto-login after registration
-      req.login(user, (err) => {
-        if (err) {
-          return res.status(500).json({ message: "Login failed after registration" });
-        }
-        res.json({ user: { id: user.id, email: user.email, fullName: user.fullName, plan: user.plan } });
-      });
+      const feed = await ensureProductFeed(storage, req.user!.id, channel);
+      res.json({ ...feed, urls: feedUrls(req, feed) });
     } catch (error: any) {
-      res.status(400).json({ message: error.message });
+      console.error("Get feed settings error:", error);
+      res.status(500).json({ message: "Failed to fetch feed settings" });
     }
   });
 
-  app.post("/api/login", (req, res, next) => {
-    passport.authenticate("local", (err: any, user: any, info: any) => {
-      if (err) {
-        return res.status(500).json({ message: "Authentication error" });
-      }
-      
-      if (!user) {
-        return res.status(401).json({ message: info?.message || "Invalid email or password" });
+  app.put("/api/feeds/:channel/settings", requireAuth, async (req, res) => {
+    try {
+      const channel = feedChannel(req.params.channel);
+      if (!channel) {
+        return res.status(404).json({ message: "Unknown feed channel" });
       }
-      
-      req.logIn(user, (err) => {
-        if (err) {
-          return res.status(500).json({ message: "Session creation failed" });
-        }
-        
-        res.json({ 
-          user: { 
-            id: user.id, 
-            email: user.email, 
-            fullName: user.fullName, 
-            plan: user.plan 
-          } 
-        });
-      });
-    })(req, res, next);
-  });
 
-  app.post("/api/logout", (req, res) => {
-    req.logout((err) => {
-      if (err) {
-        return res.status(500).json({ message: "Logout failed" });
+      const validation = productFeedSettingsSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid feed settings", 
+          errors: validation.error.errors 
+        });
       }
-      res.json({ message: "Logged out successfully" });
-    });
-  });
 
-  app.get("/api/me", requireAuth, (req, res) => {
-    const user = req.user!;
-    res.json({ 
-      user: { 
-        id: user.id, 
-        email: user.email, 
-        fullName: user.fullName, 
-        plan: user.plan 
-      } 
-    });
+      const feed = await ensureProductFeed(storage, req.user!.id, channel);
+      const updated = await storage.updateProductFeed(feed.id, validation.data);
+      res.json({ ...updated, urls: feedUrls(req, updated) });
+    } catch (error: any) {
+      console.error("Update feed settings error:", error);
+      res.status(500).json({ message: "Failed to update feed settings" });
+    }
   });
 
-  // AI Product Description Generator
-  app.post("/api/generate-description", requireAuth, async (req, res) => {
+  app.post("/api/feeds/:channel/rotate-token", requireAuth, async (req, res) => {
     try {
-      const { productName, category, features, audience, brandVoice } = req.body;
-
-      if (!productName) {
-        return res.status(400).json({ message: "Product name is required" });
+      const userId = req.user!.id;
+      const channel = feedChannel(req.params.channel);
+      if (!channel) {
+        return res.status(404).json({ message: "Unknown feed channel" });
       }
 
-      const prompts = {
-        sales: `Create a compelling sales-focused product description for "${productName}" in the ${category} category. 
-                Target audience: ${audience}. Key features: ${features}. 
-                Make it persuasive, benefit-focused, and include a clear call-to-action. Keep it under 150 words.
-                Respond with JSON in this format: { "description": "your description here" }`,
-        
-        seo: `Create an SEO-optimized product description for "${productName}" in the ${category} category.
-              Target audience: ${audience}. Key features: ${features}.
-              Include relevant keywords naturally, focus on search-friendly language, and maintain readability.
-              Keep it under 160 words.
-              Respond with JSON in this format: { "description": "your description here" }`,
-        
-        casual: `Create a casual, friendly product description for "${productName}" in the ${category} category.
-                 Target audience: ${audience}. Key features: ${features}.
-                 Use conversational tone, emojis where appropriate, and make it relatable and fun.
-                 Keep it under 150 words.
-                 Respond with JSON in this format: { "description": "your description here" }`
-      };
-
-      const selectedPrompt = prompts[brandVoice as keyof typeof prompts] || prompts.sales;
+      const feed = await ensureProductFeed(storage, userId, channel);
+      const updated = await storage.updateProductFeed(feed.id, { token: generateFeedToken() });
 
-      // the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
-      const response = await openai.chat.completions.create({
-        model: "gpt-5",
-        messages: [{ role: "user", content: selectedPrompt }],
-        response_format: { type: "json_object" },
+      await storage.createActivityLog(userId, {
+        action: "rotated_feed_token",
+        description: `Rotated the ${FEED_CHANNEL_LABELS[channel]} feed URL`,
+        toolUsed: "product-feeds",
+        metadata: { channel }
       });
 
-      const result = JSON.parse(response.choices[0].message.content || "{}");
-      res.json({ description: result.description });
+      res.json({ ...updated, urls: feedUrls(req, updated) });
     } catch (error: any) {
-      console.error("AI generation error:", error);
-      res.status(500).json({ message: "Failed to generate description" });
+      console.error("Rotate feed token error:", error);
+      res.status(500).json({ message: "Failed to rotate feed URL" });
     }
   });
 
-  // SEO Optimization
-  app.post("/api/optimize-seo", requireAuth, async (req, res) => {
+  // What the channel would receive, and which products would be rejected and why.
+  // ?locale= previews the feed in one of the translated languages.
+  app.get("/api/feeds/:channel/preview", requireAuth, async (req, res) => {
     try {
-      const { currentTitle, keywords, currentMeta, category } = req.body;
-
-      if (!currentTitle || !keywords) {
-        return res.status(400).json({ message: "Title and keywords are required" });
+      const userId = req.user!.id;
+      const channel = feedChannel(req.params.channel);
+      if (!channel) {
+        return res.status(404).json({ message: "Unknown feed channel" });
+      }
+      const locale = req.query.locale ? supportedLocale(req.query.locale) : undefined;
+      if (locale === null) {
+        return res.status(400).json({ message: "Unsupported language" });
       }
 
-      const prompt = `Optimize the following product for SEO:
-                      Current Title: "${currentTitle}"
-                      Keywords: "${keywords}"
-                      Category: "${category}"
-                      Current Meta: "${currentMeta}"
-                      
-                      Create an optimized SEO title (under 60 characters), meta description (under 160 characters), 
-                      and suggest 5-7 relevant keywords. Calculate an SEO score out of 100.
-                      
-                      Respond with JSON in this format:
-                      {
-                        "optimizedTitle": "your title",
-                        "optimizedMeta": "your meta description", 
-                        "keywords": ["keyword1", "keyword2", "keyword3"],
-                        "seoScore": 85
-                      }`;
-
-      // the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
-      const response = await openai.chat.completions.create({
-        model: "gpt-5",
-        messages: [{ role: "user", content: prompt }],
-        response_format: { type: "json_object" },
+      const feed = await ensureProductFeed(storage, userId, channel);
+      const { items, rejected } = buildChannelFeed(channel, await loadFeedProducts(storage, userId, locale), feed, locale);
+      res.json({
+        itemCount: items.length,
+        rejectedCount: rejected.length,
+        items: items.slice(0, 20),
+        rejected,
+        urls: feedUrls(req, feed, locale),
+        lastFetchedAt: feed.lastFetchedAt,
       });
+    } catch (error: any) {
+      console.error("Feed preview error:", error);
+      res.status(500).json({ message: "Failed to build feed preview" });
+    }
+  });
 
-      const result = JSON.parse(response.choices[0].message.content || "{}");
-      res.json(result);
+  app.get("/api/feeds/:channel/:token.:format(xml|tsv|csv)", async (req, res) => {
+    try {
+      const feed = await storage.getProductFeedByToken(req.params.token);
+      const channel = feedChannel(req.params.channel);
+      if (!feed || !channel || feed.channel !== channel || !FEED_FORMATS[channel].includes(req.params.format)) {
+        return res.status(404).json({ message: "Feed not found" });
+      }
+      const locale = req.query.locale ? supportedLocale(req.query.locale) : undefined;
+      if (locale === null) {
+        return res.status(400).json({ message: "Unsupported language" });
+      }
+
+      const user = await storage.getUser(feed.userId);
+      const built = buildChannelFeed(channel, await loadFeedProducts(storage, feed.userId, locale), feed, locale);
+      await storage.updateProductFeed(feed.id, { lastFetchedAt: new Date() });
+
+      const storeName = feed.brand || user?.fullName || "Product feed";
+      const { contentType, body } = renderChannelFeed(req.params.format, built, feed, storeName);
+      res.type(contentType).send(body);
     } catch (error: any) {
-      console.error("SEO optimization error:", error);
-      res.status(500).json({ message: "Failed to optimize SEO" });
+      console.error("Serve feed error:", error);
+      res.status(500).json({ message: "Failed to generate feed" });
     }
   });
 
-  // Products CRUD
-  app.get("/api/products", requireAuth, async (req, res) => {
+  // Product variants. Writing a variant keeps the product's stock equal to the
+  // total across its variants.
+  app.get("/api/products/:id/variants", requireAuth, async (req, res) => {
     try {
-      const products = await storage.getProducts(req.user!.id);
-      res.json(products);
+      const product = await storage.getProduct(req.params.id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      if (product.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const variants = await storage.getProductVariants(product.id);
+      res.json({ axes: variantAxes(variants), variants });
     } catch (error: any) {
-      res.status(500).json({ message: "Failed to fetch products" });
+      console.error("Get product variants error:", error);
+      res.status(500).json({ message: "Failed to fetch product variants" });
     }
   });
 
-  app.post("/api/products", requireAuth, async (req, res) => {
+  app.post("/api/products/:id/variants", requireAuth, async (req, res) => {
     try {
-      // Validate the request body using the insertProductSchema
-      const validation = insertProductSchema.safeParse(req.body);
+      const validation = insertProductVariantSchema.safeParse(req.body);
       if (!validation.success) {
         return res.status(400).json({ 
-          message: "Invalid product data", 
+          message: "Invalid variant data", 
           errors: validation.error.errors 
         });
       }
-      
-      const productData = { ...validation.data, userId: req.user!.id };
-      const product = await storage.createProduct(productData);
-      res.json(product);
-    } catch (error: any) {
-      console.error("Create product error:", error);
-      res.status(500).json({ message: "Failed to create product" });
-    }
-  });
 
-  app.get("/api/products/:id", requireAuth, async (req, res) => {
-    try {
       const product = await storage.getProduct(req.params.id);
       if (!product) {
         return res.status(404).json({ message: "Product not found" });
       }
-      // Check if the product belongs to the authenticated user
       if (product.userId !== req.user!.id) {
         return res.status(403).json({ message: "Unauthorized" });
       }
-      res.json(product);
+
+      const siblings = await storage.getProductVariants(product.id);
+      const optionError = checkVariantOptions(siblings, validation.data.options);
+      if (optionError) {
+        return res.status(400).json({ message: optionError });
+      }
+      if (await storage.getProductVariantBySku(req.user!.id, validation.data.sku)) {
+        return res.status(409).json({ message: `SKU ${validation.data.sku} is already in use` });
+      }
+
+      const variant = await storage.createProductVariant({
+        ...validation.data,
+        position: validation.data.position ?? siblings.length,
+        productId: product.id,
+        userId: req.user!.id
+      });
+      await syncVariantStock(storage, product, MANUAL_WRITE);
+      res.json(variant);
     } catch (error: any) {
-      console.error("Get product error:", error);
-      res.status(500).json({ message: "Failed to fetch product" });
+      console.error("Create product variant error:", error);
+      res.status(500).json({ message: "Failed to create product variant" });
     }
   });
 
-  app.patch("/api/products/:id", requireAuth, async (req, res) => {
+  app.patch("/api/products/:id/variants/:variantId", requireAuth, async (req, res) => {
     try {
-      // Validate partial update data
-      const validation = insertProductSchema.partial().safeParse(req.body);
+      const validation = insertProductVariantSchema.partial().safeParse(req.body);
       if (!validation.success) {
         return res.status(400).json({ 
-          message: "Invalid product data", 
+          message: "Invalid variant data", 
           errors: validation.error.errors 
         });
       }
 
-      // Check if the product exists and belongs to the user
-      const existingProduct = await storage.getProduct(req.params.id);
-      if (!existingProduct) {
-        return res.status(404).json({ message: "Product not found" });
+      const variant = await storage.getProductVariant(req.params.variantId);
+      if (!variant || variant.productId !== req.params.id) {
+        return res.status(404).json({ message: "Variant not found" });
       }
-      if (existingProduct.userId !== req.user!.id) {
+      if (variant.userId !== req.user!.id) {
         return res.status(403).json({ message: "Unauthorized" });
       }
 
-      const product = await storage.updateProduct(req.params.id, validation.data);
-      res.json(product);
+      const updates = validation.data;
+      if (updates.options) {
+        const siblings = (await storage.getProductVariants(variant.productId))
+          .filter(sibling => sibling.id !== variant.id);
+        const optionError = checkVariantOptions(siblings, updates.options);
+        if (optionError) {
+          return res.status(400).json({ message: optionError });
+        }
+      }
+      if (updates.sku && updates.sku !== variant.sku && 
+          await storage.getProductVariantBySku(req.user!.id, updates.sku)) {
+        return res.status(409).json({ message: `SKU ${updates.sku} is already in use` });
+      }
+
+      const updated = await storage.updateProductVariant(variant.id, updates);
+      if (updates.stock !== undefined) {
+        const product = await storage.getProduct(variant.productId);
+        if (product) await syncVariantStock(storage, product, MANUAL_WRITE);
+      }
+      res.json(updated);
     } catch (error: any) {
-      console.error("Update product error:", error);
-      res.status(500).json({ message: "Failed to update product" });
+      console.error("Update product variant error:", error);
+      res.status(500).json({ message: "Failed to update product variant" });
     }
   });
 
-  app.delete("/api/products/:id", requireAuth, async (req, res) => {
+  app.delete("/api/products/:id/variants/:variantId", requireAuth, async (req, res) => {
     try {
-      // Check if the product exists and belongs to the user
-      const existingProduct = await storage.getProduct(req.params.id);
-      if (!existingProduct) {
-        return res.status(404).json({ message: "Product not found" });
+      const variant = await storage.getProductVariant(req.params.variantId);
+      if (!variant || variant.productId !== req.params.id) {
+        return res.status(404).json({ message: "Variant not found" });
       }
-      if (existingProduct.userId !== req.user!.id) {
+      if (variant.userId !== req.user!.id) {
         return res.status(403).json({ message: "Unauthorized" });
       }
 
-      await storage.deleteProduct(req.params.id);
-      res.json({ message: "Product deleted successfully" });
+      await storage.deleteProductVariant(variant.id);
+      const product = await storage.getProduct(variant.productId);
+      if (product) await syncVariantStock(storage, product, MANUAL_WRITE);
+      res.json({ message: "Variant deleted successfully" });
     } catch (error: any) {
-      console.error("Delete product error:", error);
-      res.status(500).json({ message: "Failed to delete product" });
+      console.error("Delete product variant error:", error);
+      res.status(500).json({ message: "Failed to delete product variant" });
     }
   });
 
-  // Optimize all products endpoint
-  app.post("/api/products/optimize-all", requireAuth, async (req, res) => {
+  // Record a stock movement (sale, restock, adjustment, sync) against the ledger.
+  // Quantity is signed: -2 for a sale of two units, 10 for a restock of ten.
+  app.post("/api/products/:id/stock-movements", requireAuth, async (req, res) => {
     try {
-      const userId = req.user!.id;
-      
-      // Fetch all products for the user
-      const products = await storage.getProducts(userId);
-      
-      if (products.length === 0) {
-        return res.json({ 
-          message: "No products found to optimize", 
-          optimizedCount: 0 
+      const validation = stockAdjustmentSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid stock movement", 
+          errors: validation.error.errors 
         });
       }
 
-      // Helper function to capitalize names properly
-      const capitalizeName = (name: string): string => {
-        return name.split(' ')
-          .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
-          .join(' ');
-      };
-
-      // Helper function to generate default descriptions
-      const generateDefaultDescription = (name: string, category: string): string => {
-        const categoryDescriptions: Record<string, string> = {
-          'Electronics': `Experience the latest in electronic innovation with ${name}. Designed for modern living with premium quality and reliable performance.`,
-          'Clothing': `Discover stylish comfort with ${name}. Premium quality materials and contemporary design for your wardrobe essentials.`,
-          'Home & Garden': `Transform your living space with ${name}. Quality craftsmanship meets functional design for your home.`,
-          'Books': `Immerse yourself in ${name}. A captivating read that combines engaging content with valuable insights.`,
-          'Health': `Enhance your wellness journey with ${name}. Quality ingredients and trusted formulation for your health goals.`,
-          'Sports': `Elevate your performance with ${name}. Professional-grade quality for athletes and fitness enthusiasts.`,
-          'Beauty': `Discover your natural radiance with ${name}. Premium formulation for effective and gentle care.`,
-          'Toys': `Spark imagination and fun with ${name}. Safe, durable, and designed for endless entertainment.`
-        };
-        
-        return categoryDescriptions[category] || `Discover the exceptional quality and value of ${name}. Carefully crafted to meet your needs with superior performance and reliability.`;
-      };
-
-      // Helper function to generate default tags
-      const generateDefaultTags = (category: string): string => {
-        const categoryTags: Record<string, string> = {
-          'Electronics': 'technology, innovation, gadgets, electronics, modern',
-          'Clothing': 'fashion, style, apparel, comfortable, trendy',
-          'Home & Garden': 'home improvement, decor, garden, lifestyle, quality',
-          'Books': 'reading, education, literature, knowledge, entertainment',
-          'Health': 'wellness, health, fitness, natural, supplements',
-          'Sports': 'fitness, sports, athletic, performance, training',
-          'Beauty': 'skincare, beauty, cosmetics, self-care, premium',
-          'Toys': 'kids, fun, educational, safe, entertainment'
-        };
-        
-        return categoryTags[category] || 'quality, premium, reliable, popular, recommended';
-      };
-
-      // Remove duplicates by name and category
-      const uniqueProducts = [];
-      const seen = new Set();
-      
-      for (const product of products) {
-        const key = `${product.name.toLowerCase()}-${product.category.toLowerCase()}`;
-        if (!seen.has(key)) {
-          seen.add(key);
-          uniqueProducts.push(product);
-        }
+      const product = await storage.getProduct(req.params.id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      if (product.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+      if ((await storage.getProductVariants(product.id)).length > 0) {
+        return res.status(400).json({ message: "This product's stock comes from its variants; adjust a variant instead" });
       }
 
-      // Optimize each unique product
-      const optimizedProducts = uniqueProducts.map(product => {
-        const optimizedName = capitalizeName(product.name);
-        const optimizedDescription = product.description || generateDefaultDescription(product.name, product.category);
-        const optimizedTags = product.tags || generateDefaultTags(product.category);
-        
-        return {
-          id: product.id,
-          name: optimizedName,
-          description: optimizedDescription,
-          tags: optimizedTags,
-          isOptimized: true,
-          optimizedCopy: {
-            originalName: product.name,
-            originalDescription: product.description,
-            originalTags: product.tags,
-            optimizedAt: new Date().toISOString(),
-            optimizationType: 'database-only'
-          }
-        };
+      const { quantity, reason, note } = validation.data;
+      const updated = await storage.adjustStock(product.id, quantity, {
+        source: reason === "sync" ? "sync" : "manual",
+        stockReason: reason,
+        stockNote: note
       });
+      if (!updated) {
+        const current = await storage.getProduct(product.id);
+        return res.status(400).json({ message: `Not enough stock: ${current?.stock ?? 0} left` });
+      }
+      res.json(updated);
+    } catch (error: any) {
+      console.error("Record stock movement error:", error);
+      res.status(500).json({ message: "Failed to record stock movement" });
+    }
+  });
 
-      // Update all optimized products in database
-      const updatePromises = optimizedProducts.map(product => 
-        storage.updateProduct(product.id, {
-          name: product.name,
-          description: product.description,
-          tags: product.tags,
-          isOptimized: product.isOptimized,
-          optimizedCopy: product.optimizedCopy
-        })
-      );
-
-      await Promise.all(updatePromises);
+  // Stock ledger for a product, newest first. Like version history it outlives
+  // the product, so ownership falls back to the movements themselves.
+  app.get("/api/products/:id/stock-history", requireAuth, async (req, res) => {
+    try {
+      const [product, movements] = await Promise.all([
+        storage.getProduct(req.params.id),
+        storage.getStockMovements(req.params.id)
+      ]);
+      const ownerId = product?.userId ?? movements[0]?.userId;
+      if (!ownerId) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      if (ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
 
-      // Delete duplicate products (keep only the unique ones)
-      const duplicateCount = products.length - uniqueProducts.length;
-      if (duplicateCount > 0) {
-        const uniqueIds = new Set(uniqueProducts.map(p => p.id));
-        const duplicateIds = products
-          .filter(p => !uniqueIds.has(p.id))
-          .map(p => p.id);
-        
-        const deletePromises = duplicateIds.map(id => storage.deleteProduct(id));
-        await Promise.all(deletePromises);
+      const totals: StockHistory["totals"] = { sale: 0, restock: 0, adjustment: 0, sync: 0 };
+      for (const movement of movements) {
+        totals[movement.reason as StockMovementReason] += movement.quantity;
       }
 
-      res.json({
-        message: "All products optimized successfully",
-        optimizedCount: optimizedProducts.length,
-        duplicatesRemoved: duplicateCount,
-        details: {
-          namesCapitalized: optimizedProducts.filter(p => p.optimizedCopy.originalName !== p.name).length,
-          descriptionsGenerated: optimizedProducts.filter(p => !p.optimizedCopy.originalDescription).length,
-          tagsAdded: optimizedProducts.filter(p => !p.optimizedCopy.originalTags).length
-        }
-      });
+      const history: StockHistory = {
+        productId: req.params.id,
+        stock: product?.stock ?? 0,
+        reorderThreshold: product?.reorderThreshold ?? null,
+        totals,
+        movements
+      };
+      res.json(history);
     } catch (error: any) {
-      console.error("Optimize products error:", error);
-      res.status(500).json({ message: "Failed to optimize products" });
+      console.error("Get stock history error:", error);
+      res.status(500).json({ message: "Failed to fetch stock history" });
     }
   });
 
@@ -692,18 +3005,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get usage stats
+  // Get usage stats. The AI counts are the metered ones for this period.
   app.get("/api/usage-stats", requireAuth, async (req, res) => {
     try {
       const usageStats = await storage.getUserUsageStats(req.user!.id);
-      res.json(usageStats || {
-        productsCount: 0,
-        emailsSent: 0,
-        emailsRemaining: 0,
-        smsSent: 0,
-        smsRemaining: 0,
-        aiGenerationsUsed: 0,
-        seoOptimizationsUsed: 0
+      const quota = await getAIQuotaStatus(storage, req.user!);
+      res.json({
+        ...(usageStats || {
+          productsCount: 0,
+          emailsSent: 0,
+          emailsRemaining: 0,
+          smsSent: 0,
+          smsRemaining: 0,
+        }),
+        aiGenerationsUsed: quota.meters.aiGenerations.used,
+        seoOptimizationsUsed: quota.meters.seoOptimizations.used
       });
     } catch (error: any) {
       console.error("Error fetching usage stats:", error);
@@ -714,6 +3030,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // LLM spend by day, feature and user. scope=all covers every account and is
+  // admin-only; byUser then lists the most expensive accounts first.
+  app.get("/api/usage/ai-costs", requireAuth, async (req, res) => {
+    try {
+      const validation = aiCostQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid query parameters", 
+          errors: validation.error.errors 
+        });
+      }
+      if (validation.data.scope === "all" && !isAdmin(req.user)) {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+      res.json(await buildAICostReport(storage, req.user!.id, validation.data));
+    } catch (error: any) {
+      console.error("Get AI costs error:", error);
+      res.status(500).json({ message: "Failed to fetch AI costs" });
+    }
+  });
+
+  // AI allowance left this period, and the plan to upgrade to
+  app.get("/api/usage/ai-quota", requireAuth, async (req, res) => {
+    try {
+      res.json(await getAIQuotaStatus(storage, req.user!));
+    } catch (error: any) {
+      console.error("Get AI quota error:", error);
+      res.status(500).json({ message: "Failed to fetch AI quota" });
+    }
+  });
+
   // Get invoices
   app.get("/api/invoices", requireAuth, async (req, res) => {
     try {
@@ -1,11 +1,46 @@
 import { drizzle } from "drizzle-orm/neon-http";
 import { neon } from "@neondatabase/serverless";
-import { eq, desc, and } from "drizzle-orm";
+import { eq, desc, asc, and, or, ne, gt, lt, gte, lte, ilike, inArray, isNull, isNotNull, count, sql, type AnyColumn, type SQL } from "drizzle-orm";
 import { 
   type User, 
   type InsertUser, 
   type Product, 
   type InsertProduct,
+  type Category,
+  type InsertCategory,
+  type ProductVariant,
+  type InsertProductVariant,
+  type ProductVersion,
+  type StockMovement,
+  type ProductFeed,
+  type InsertProductFeed,
+  type AiGeneration,
+  type InsertAiGeneration,
+  type AiGenerationQuery,
+  type AiUsageEvent,
+  type AiUsageGrouping,
+  type AiUsageTally,
+  type InsertAiUsageEvent,
+  type AiCacheEntry,
+  type InsertAiCacheEntry,
+  type ContentRefreshPolicy,
+  type InsertContentRefreshPolicy,
+  type PromptTemplate,
+  type InsertPromptTemplate,
+  type UpdatePromptTemplate,
+  type PromptTemplateVersion,
+  type UserPreferences,
+  type Job,
+  type JobItem,
+  type JobItemStatus,
+  type AbTest,
+  type InsertAbTest,
+  type AbTestVariant,
+  type InsertAbTestVariant,
+  type AbTestCounts,
+  type AbTestStatus,
+  type ProductTranslation,
+  type InsertProductTranslation,
   type SeoMeta,
   type InsertSeoMeta,
   type Campaign,
@@ -16,16 +51,44 @@ import {
   type InsertNotification,
   type StoreConnection,
   type InsertStoreConnection,
+  type AIQuotaMeter,
+  AI_QUOTA_METERS,
   users, 
   products, 
+  categories,
+  productVariants,
+  productVersions,
+  stockMovements,
+  productFeeds,
+  aiGenerations,
+  aiUsageEvents,
+  aiCacheEntries,
+  contentRefreshPolicies,
+  promptTemplates,
+  promptTemplateVersions,
+  profiles,
+  jobs,
+  jobItems,
+  abTests,
+  abTestVariants,
+  productTranslations,
   seoMeta, 
   campaigns, 
   analytics,
   notifications,
-  storeConnections
+  storeConnections,
+  usageStats
 } from "@shared/schema";
 import { randomUUID } from "crypto";
 import bcrypt from "bcrypt";
+import { MANUAL_WRITE, snapshotOf, type ProductVersionAction, type VersionContext } from "./product-versions";
+import { lowStockNotification, stockReasonFor } from "./inventory";
+import {
+  matchesProductFilters,
+  sortAndPageProducts,
+  type ProductFilters,
+  type ProductListOptions
+} from "./product-query";
 
 let db: any;
 
@@ -34,6 +97,42 @@ if (process.env.DATABASE_URL) {
   db = drizzle(sql);
 }
 
+// usage_stats counter behind each AI quota meter
+const AI_QUOTA_COLUMNS = {
+  aiGenerations: "aiGenerationsUsed",
+  seoOptimizations: "seoOptimizationsUsed",
+} as const;
+
+function productFilterConditions(userId: string, filters: ProductFilters): SQL[] {
+  const conditions: SQL[] = [eq(products.userId, userId)];
+  if (filters.category) conditions.push(eq(products.category, filters.category));
+  if (filters.categoryIds) conditions.push(inArray(products.categoryId, filters.categoryIds));
+  if (filters.isOptimized === true) conditions.push(eq(products.isOptimized, true));
+  if (filters.isOptimized === false) {
+    conditions.push(or(eq(products.isOptimized, false), isNull(products.isOptimized))!);
+  }
+  if (filters.minStock !== undefined) conditions.push(gte(products.stock, filters.minStock));
+  if (filters.maxStock !== undefined) conditions.push(lte(products.stock, filters.maxStock));
+  if (filters.minPrice !== undefined) conditions.push(gte(products.price, String(filters.minPrice)));
+  if (filters.maxPrice !== undefined) conditions.push(lte(products.price, String(filters.maxPrice)));
+  if (filters.q) {
+    const pattern = `%${filters.q.replace(/[%_\\]/g, "\\$&")}%`;
+    conditions.push(or(
+      ilike(products.name, pattern),
+      ilike(products.description, pattern),
+      ilike(products.tags, pattern)
+    )!);
+  }
+  return conditions;
+}
+
+// Picks the newest bulk operation that has not been rolled back yet.
+// Rows must be ordered newest first.
+function latestUnrevertedOperation(rows: Array<{ operationId: string; source: string }>): string | undefined {
+  const reverted = new Set(rows.filter(row => row.source === "rollback").map(row => row.operationId));
+  return rows.find(row => row.source !== "rollback" && !reverted.has(row.operationId))?.operationId;
+}
+
 export interface IStorage {
   // User methods
   getUser(id: string): Promise<User | undefined>;
@@ -52,18 +151,137 @@ export interface IStorage {
   updateStoreConnection(id: string, updates: Partial<StoreConnection>): Promise<StoreConnection>;
   deleteStoreConnection(id: string): Promise<void>;
 
-  // Product methods
-  getProducts(userId: string): Promise<Product[]>;
+  // Product methods (every write records a product version)
+  // Without options returns the whole catalog, newest first
+  getProducts(userId: string, options?: ProductListOptions): Promise<Product[]>;
+  countProducts(userId: string, filters?: ProductFilters): Promise<number>;
   getProduct(id: string): Promise<Product | undefined>;
-  createProduct(product: InsertProduct): Promise<Product>;
-  updateProduct(id: string, updates: Partial<Product>): Promise<Product>;
-  deleteProduct(id: string): Promise<void>;
+  createProduct(product: InsertProduct, context?: VersionContext): Promise<Product>;
+  updateProduct(id: string, updates: Partial<Product>, context?: VersionContext): Promise<Product>;
+  deleteProduct(id: string, context?: VersionContext): Promise<void>;
+  reinstateProduct(product: Product, variants: ProductVariant[], context?: VersionContext): Promise<Product>;
+
+  // Category methods
+  getCategories(userId: string): Promise<Category[]>;
+  getCategory(id: string): Promise<Category | undefined>;
+  createCategory(category: InsertCategory & { userId: string }): Promise<Category>;
+  // Skips categories whose name is already taken at their level, so concurrent
+  // callers can't create duplicates. Returns the ones created.
+  createCategories(categories: Array<InsertCategory & { userId: string }>): Promise<Category[]>;
+  updateCategory(id: string, updates: Partial<Category>): Promise<Category>;
+  deleteCategory(id: string): Promise<void>;
+
+  // Product variant methods (variants are deleted along with their product)
+  getProductVariants(productId: string): Promise<ProductVariant[]>;
+  getProductVariant(id: string): Promise<ProductVariant | undefined>;
+  getProductVariantBySku(userId: string, sku: string): Promise<ProductVariant | undefined>;
+  createProductVariant(variant: InsertProductVariant & { productId: string; userId: string }): Promise<ProductVariant>;
+  updateProductVariant(id: string, updates: Partial<ProductVariant>): Promise<ProductVariant>;
+  deleteProductVariant(id: string): Promise<void>;
+  // Swaps the product's variants for the given rows, ids included (used by restores)
+  replaceProductVariants(productId: string, variants: ProductVariant[]): Promise<void>;
+
+  // Stock ledger, newest movement first. Movements are recorded by product writes.
+  getStockMovements(productId: string): Promise<StockMovement[]>;
+  // Adds quantity (signed) to the product's stock and records the movement in
+  // one step. Returns undefined, changing nothing, if stock would go below zero.
+  adjustStock(productId: string, quantity: number, context: VersionContext): Promise<Product | undefined>;
+
+  // Product version methods
+  getProductVersions(productId: string): Promise<ProductVersion[]>;
+  getProductVersion(versionId: string): Promise<ProductVersion | undefined>;
+  getOperationVersions(userId: string, operationId: string): Promise<ProductVersion[]>;
+  getLatestBulkOperationId(userId: string): Promise<string | undefined>;
+
+  // Product feed methods (one feed per user and channel)
+  getProductFeed(userId: string, channel: string): Promise<ProductFeed | undefined>;
+  getProductFeedByToken(token: string): Promise<ProductFeed | undefined>;
+  createProductFeed(feed: InsertProductFeed): Promise<ProductFeed>;
+  updateProductFeed(id: string, updates: Partial<ProductFeed>): Promise<ProductFeed>;
+
+  // AI generation history, newest first
+  createAiGeneration(generation: InsertAiGeneration): Promise<AiGeneration>;
+  getAiGeneration(id: string): Promise<AiGeneration | undefined>;
+  getAiGenerations(userId: string, query: AiGenerationQuery): Promise<AiGeneration[]>;
+  updateAiGeneration(id: string, updates: Partial<AiGeneration>): Promise<AiGeneration>;
+
+  // Tokens and cost of each provider response. Without userId, every user's.
+  createAiUsageEvent(event: InsertAiUsageEvent): Promise<AiUsageEvent>;
+  // Usage since a date summed per UTC day (oldest first), feature or user
+  // (most expensive first, at most limit), optionally for one user only
+  getAiUsageTallies(since: Date, groupBy: AiUsageGrouping, options?: { userId?: string; limit?: number }): Promise<AiUsageTally[]>;
+  // Models called since a date that weren't in the price table
+  getUnpricedAiModels(since: Date, userId?: string): Promise<string[]>;
+
+  // Cached AI results. Expired entries read as missing and are deleted;
+  // saving over a key replaces the entry.
+  getAiCacheEntry(key: string): Promise<AiCacheEntry | undefined>;
+  saveAiCacheEntry(entry: InsertAiCacheEntry): Promise<AiCacheEntry>;
+  recordAiCacheHit(key: string): Promise<void>;
+
+  // Prompt template operations. userId null creates a system template.
+  // Every create and update records a version row.
+  getPromptTemplates(userId: string): Promise<PromptTemplate[]>;
+  getPromptTemplate(id: string): Promise<PromptTemplate | undefined>;
+  createPromptTemplate(userId: string | null, template: InsertPromptTemplate): Promise<PromptTemplate>;
+  updatePromptTemplate(id: string, updates: UpdatePromptTemplate): Promise<PromptTemplate>;
+  deletePromptTemplate(id: string): Promise<void>;
+  getPromptTemplateVersions(templateId: string): Promise<PromptTemplateVersion[]>;
+
+  // Per-user settings kept in profiles.preferences; updates merge by top-level key
+  getUserPreferences(userId: string): Promise<UserPreferences>;
+  updateUserPreferences(userId: string, updates: Partial<UserPreferences>): Promise<UserPreferences>;
+
+  // Background jobs. createJob adds one pending item per product.
+  createJob(job: Pick<Job, "userId" | "type" | "params">, productIds: string[]): Promise<Job>;
+  getJob(id: string): Promise<Job | undefined>;
+  getJobs(userId: string, limit: number): Promise<Job[]>;
+  // Queued and running jobs of every user, oldest first
+  getActiveJobs(): Promise<Job[]>;
+  updateJob(id: string, updates: Partial<Job>): Promise<Job>;
+  getJobItems(jobId: string): Promise<JobItem[]>;
+  updateJobItem(id: string, updates: Partial<JobItem>): Promise<JobItem>;
+  updateJobItemsByStatus(jobId: string, status: JobItemStatus, updates: Partial<JobItem>): Promise<void>;
+
+  // A/B tests, newest first. Variants are created with their test and listed by
+  // label; event counters only ever grow, by increment.
+  getAbTests(userId: string): Promise<AbTest[]>;
+  getAbTest(id: string): Promise<AbTest | undefined>;
+  getAbTestByToken(token: string): Promise<AbTest | undefined>;
+  createAbTest(test: InsertAbTest, variants: InsertAbTestVariant[]): Promise<AbTest>;
+  // Applies the updates only while the test has one of the statuses, so two
+  // requests can't both end it; undefined when another request got there first
+  updateAbTestByStatus(id: string, statuses: AbTestStatus[], updates: Partial<AbTest>): Promise<AbTest | undefined>;
+  // Sets evaluatedAt on a running test that hasn't been evaluated; undefined
+  // when it already was
+  claimAbTestEvaluation(id: string): Promise<AbTest | undefined>;
+  deleteAbTest(id: string): Promise<void>;
+  getAbTestVariants(testId: string): Promise<AbTestVariant[]>;
+  updateAbTestVariant(id: string, updates: Partial<AbTestVariant>): Promise<AbTestVariant>;
+  incrementAbTestVariant(id: string, counts: AbTestCounts): Promise<void>;
+
+  // Product copy in other languages, at most one row per product and locale.
+  // Saving a locale that already has a row replaces that row's copy.
+  getProductTranslations(productId: string): Promise<ProductTranslation[]>;
+  getUserProductTranslations(userId: string, locale?: string): Promise<ProductTranslation[]>;
+  getProductTranslation(productId: string, locale: string): Promise<ProductTranslation | undefined>;
+  saveProductTranslation(translation: InsertProductTranslation): Promise<ProductTranslation>;
+  updateProductTranslation(id: string, updates: Partial<ProductTranslation>): Promise<ProductTranslation>;
+  deleteProductTranslation(id: string): Promise<void>;
 
   // SEO methods
   getSeoMeta(productId: string): Promise<SeoMeta | undefined>;
   createSeoMeta(seoMeta: InsertSeoMeta): Promise<SeoMeta>;
   updateSeoMeta(productId: string, updates: Partial<SeoMeta>): Promise<SeoMeta>;
 
+  // Content refresh policies, one per product. Without userId, every user's
+  // (for the scheduler). Saving a product's policy replaces the old one.
+  getContentRefreshPolicies(userId?: string): Promise<ContentRefreshPolicy[]>;
+  getContentRefreshPolicy(productId: string): Promise<ContentRefreshPolicy | undefined>;
+  saveContentRefreshPolicy(policy: InsertContentRefreshPolicy): Promise<ContentRefreshPolicy>;
+  updateContentRefreshPolicy(id: string, updates: Partial<ContentRefreshPolicy>): Promise<ContentRefreshPolicy>;
+  deleteContentRefreshPolicy(id: string): Promise<void>;
+
   // Campaign methods
   getCampaigns(userId: string): Promise<Campaign[]>;
   createCampaign(campaign: InsertCampaign): Promise<Campaign>;
@@ -97,6 +315,13 @@ export interface IStorage {
   updateUsageStats(userId: string, statField: string, increment: number): Promise<void>;
   generateSampleMetrics(userId: string): Promise<void>;
 
+  // AI quota meters. Counts from before periodStart are reset first; consume
+  // returns the new count, or null (counting nothing) when amount would take
+  // the meter past limit. A limit of -1 is unlimited.
+  consumeAIQuota(userId: string, meter: AIQuotaMeter, amount: number, limit: number, periodStart: Date): Promise<number | null>;
+  releaseAIQuota(userId: string, meter: AIQuotaMeter, amount: number): Promise<void>;
+  getAIQuotaUsage(userId: string, periodStart: Date): Promise<Record<AIQuotaMeter, number>>;
+
   // Billing methods
   getUserSubscription(userId: string): Promise<any>;
   getUserUsageStats(userId: string): Promise<any>;
@@ -223,40 +448,711 @@ export class DatabaseStorage implements IStorage {
 
   async deleteStoreConnection(id: string): Promise<void> {
     if (!db) throw new Error("Database not configured");
-    await db.delete(storeConnections).where(eq(storeConnections.id, id));
+    await db.delete(storeConnections).where(eq(storeConnections.id, id));
+  }
+
+  async getProducts(userId: string, options?: ProductListOptions): Promise<Product[]> {
+    if (!db) throw new Error("Database not configured");
+    if (!options) {
+      return await db.select().from(products)
+        .where(eq(products.userId, userId))
+        .orderBy(desc(products.updatedAt));
+    }
+
+    const conditions = productFilterConditions(userId, options);
+    const after = options.order === "asc" ? gt : lt;
+    // Timestamps are stored in microseconds but cursors carry milliseconds, so
+    // date sorts order and compare at millisecond precision; otherwise the
+    // cursor row comes back on the next page, or rows in its millisecond are
+    // skipped
+    const isDate = options.sort === "createdAt" || options.sort === "updatedAt";
+    const column: SQL = isDate
+      ? sql`date_trunc('milliseconds', ${products[options.sort]})`
+      : sql`${products[options.sort]}`;
+
+    if (options.cursor) {
+      const { value, id } = options.cursor;
+      const cursorValue = isDate
+        ? sql`${new Date(value ?? 0).toISOString()}::timestamp`
+        : value ?? "";
+      conditions.push(or(
+        after(column, cursorValue),
+        and(eq(column, cursorValue), after(products.id, id))
+      )!);
+    }
+
+    const direction = options.order === "asc" ? asc : desc;
+    return await db.select().from(products)
+      .where(and(...conditions))
+      .orderBy(direction(column), direction(products.id))
+      .limit(options.limit);
+  }
+
+  async countProducts(userId: string, filters: ProductFilters = {}): Promise<number> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.select({ total: count() }).from(products)
+      .where(and(...productFilterConditions(userId, filters)));
+    return Number(result[0]?.total || 0);
+  }
+
+  async getProduct(id: string): Promise<Product | undefined> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.select().from(products).where(eq(products.id, id));
+    return result[0];
+  }
+
+  async createProduct(product: InsertProduct, context: VersionContext = MANUAL_WRITE): Promise<Product> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.insert(products).values(product).returning();
+    await this.recordProductVersion(result[0], "create", context);
+    if (result[0].stock !== 0) {
+      await this.recordStockMovement(result[0], result[0].stock, context);
+    }
+    return result[0];
+  }
+
+  async updateProduct(id: string, updates: Partial<Product>, context: VersionContext = MANUAL_WRITE): Promise<Product> {
+    if (!db) throw new Error("Database not configured");
+    const [before] = await db.select().from(products).where(eq(products.id, id));
+    const result = await db.update(products)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(products.id, id))
+      .returning();
+    if (result[0]) {
+      await this.recordProductVersion(result[0], "update", context);
+      await this.trackStockChange(before, result[0], context);
+    }
+    return result[0];
+  }
+
+  async deleteProduct(id: string, context: VersionContext = MANUAL_WRITE): Promise<void> {
+    if (!db) throw new Error("Database not configured");
+    // Read before the cascade removes them, so the deletion can be reverted
+    const variants = await this.getProductVariants(id);
+    const result = await db.delete(products).where(eq(products.id, id)).returning();
+    if (result[0]) {
+      await this.recordProductVersion(result[0], "delete", context, variants);
+      if (result[0].stock !== 0) {
+        await this.recordStockMovement({ ...result[0], stock: 0 }, -result[0].stock, context);
+      }
+    }
+  }
+
+  async reinstateProduct(product: Product, variants: ProductVariant[], context: VersionContext = MANUAL_WRITE): Promise<Product> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.insert(products).values(product).returning();
+    if (variants.length > 0) {
+      await db.insert(productVariants).values(variants);
+    }
+    await this.recordProductVersion(result[0], "restore", context);
+    if (result[0].stock !== 0) {
+      await this.recordStockMovement(result[0], result[0].stock, context);
+    }
+    return result[0];
+  }
+
+  private async recordProductVersion(
+    product: Product,
+    action: ProductVersionAction,
+    context: VersionContext,
+    variants?: ProductVariant[]
+  ): Promise<void> {
+    const snapshot = snapshotOf(product, variants || await this.getProductVariants(product.id));
+    // The number is taken in the insert itself, and the unique index on
+    // (product_id, version) turns away a concurrent write that took the same
+    // one; that write tries again with the next number
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await db.insert(productVersions).values({
+          productId: product.id,
+          userId: product.userId,
+          version: sql`(select coalesce(max(${productVersions.version}), 0) + 1 from ${productVersions} where ${productVersions.productId} = ${product.id})`,
+          action,
+          source: context.source,
+          operationId: context.operationId || null,
+          snapshot,
+        });
+        return;
+      } catch (error: any) {
+        if (error?.code !== "23505" || attempt >= 3) throw error;
+      }
+    }
+  }
+
+  async getCategories(userId: string): Promise<Category[]> {
+    if (!db) throw new Error("Database not configured");
+    return await db.select().from(categories)
+      .where(eq(categories.userId, userId))
+      .orderBy(asc(categories.name));
+  }
+
+  async getCategory(id: string): Promise<Category | undefined> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.select().from(categories).where(eq(categories.id, id));
+    return result[0];
+  }
+
+  async createCategory(category: InsertCategory & { userId: string }): Promise<Category> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.insert(categories).values(category).returning();
+    return result[0];
+  }
+
+  async createCategories(newCategories: Array<InsertCategory & { userId: string }>): Promise<Category[]> {
+    if (!db) throw new Error("Database not configured");
+    if (newCategories.length === 0) return [];
+    return await db.insert(categories).values(newCategories).onConflictDoNothing().returning();
+  }
+
+  async updateCategory(id: string, updates: Partial<Category>): Promise<Category> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.update(categories)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(categories.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteCategory(id: string): Promise<void> {
+    if (!db) throw new Error("Database not configured");
+    await db.delete(categories).where(eq(categories.id, id));
+  }
+
+  async getProductVariants(productId: string): Promise<ProductVariant[]> {
+    if (!db) throw new Error("Database not configured");
+    return await db.select().from(productVariants)
+      .where(eq(productVariants.productId, productId))
+      .orderBy(asc(productVariants.position), asc(productVariants.createdAt));
+  }
+
+  async getProductVariant(id: string): Promise<ProductVariant | undefined> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.select().from(productVariants).where(eq(productVariants.id, id));
+    return result[0];
+  }
+
+  async getProductVariantBySku(userId: string, sku: string): Promise<ProductVariant | undefined> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.select().from(productVariants)
+      .where(and(eq(productVariants.userId, userId), eq(productVariants.sku, sku)));
+    return result[0];
+  }
+
+  async createProductVariant(variant: InsertProductVariant & { productId: string; userId: string }): Promise<ProductVariant> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.insert(productVariants).values(variant).returning();
+    return result[0];
+  }
+
+  async updateProductVariant(id: string, updates: Partial<ProductVariant>): Promise<ProductVariant> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.update(productVariants)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(productVariants.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteProductVariant(id: string): Promise<void> {
+    if (!db) throw new Error("Database not configured");
+    await db.delete(productVariants).where(eq(productVariants.id, id));
+  }
+
+  async replaceProductVariants(productId: string, variants: ProductVariant[]): Promise<void> {
+    if (!db) throw new Error("Database not configured");
+    await db.delete(productVariants).where(eq(productVariants.productId, productId));
+    if (variants.length > 0) {
+      await db.insert(productVariants).values(variants);
+    }
+  }
+
+  async adjustStock(productId: string, quantity: number, context: VersionContext): Promise<Product | undefined> {
+    if (!db) throw new Error("Database not configured");
+    // One statement: the update locks the row and applies the delta, and the
+    // movement is written from what it returns, so concurrent adjustments
+    // can't lose updates or leave the ledger out of step with the stock
+    const updated = db.$with("updated").as(
+      db.update(products)
+        .set({ stock: sql`${products.stock} + ${quantity}`, updatedAt: new Date() })
+        .where(and(eq(products.id, productId), sql`${products.stock} + ${quantity} >= 0`))
+        .returning()
+    );
+    const movement = db.$with("movement").as(
+      db.insert(stockMovements).select(
+        db.select({
+          id: sql<string>`gen_random_uuid()`.as("id"),
+          productId: updated.id,
+          userId: updated.userId,
+          quantity: sql<number>`${quantity}::integer`.as("quantity"),
+          balance: updated.stock,
+          reason: sql<string>`${stockReasonFor(context)}::text`.as("reason"),
+          source: sql<string>`${context.source}::text`.as("source"),
+          operationId: sql<string | null>`${context.operationId || null}::varchar`.as("operation_id"),
+          note: sql<string | null>`${context.stockNote || null}::text`.as("note"),
+          createdAt: sql<Date>`now()`.as("created_at"),
+        }).from(updated)
+      ).returning()
+    );
+    const [product] = await db.with(updated, movement).select().from(updated);
+    if (!product) return undefined;
+
+    await this.recordProductVersion(product, "update", context);
+    const alert = lowStockNotification({ ...product, stock: product.stock - quantity }, product);
+    if (alert) await this.createNotification(alert);
+    return product;
+  }
+
+  private async trackStockChange(before: Product | undefined, after: Product, context: VersionContext): Promise<void> {
+    if (!before || before.stock === after.stock) return;
+    await this.recordStockMovement(after, after.stock - before.stock, context);
+    const alert = lowStockNotification(before, after);
+    if (alert) await this.createNotification(alert);
+  }
+
+  private async recordStockMovement(product: Product, quantity: number, context: VersionContext): Promise<void> {
+    await db.insert(stockMovements).values({
+      productId: product.id,
+      userId: product.userId,
+      quantity,
+      balance: product.stock,
+      reason: stockReasonFor(context),
+      source: context.source,
+      operationId: context.operationId || null,
+      note: context.stockNote || null,
+    });
+  }
+
+  async getStockMovements(productId: string): Promise<StockMovement[]> {
+    if (!db) throw new Error("Database not configured");
+    return await db.select().from(stockMovements)
+      .where(eq(stockMovements.productId, productId))
+      .orderBy(desc(stockMovements.createdAt));
+  }
+
+  async getProductVersions(productId: string): Promise<ProductVersion[]> {
+    if (!db) throw new Error("Database not configured");
+    return await db.select().from(productVersions)
+      .where(eq(productVersions.productId, productId))
+      .orderBy(desc(productVersions.version));
+  }
+
+  async getProductVersion(versionId: string): Promise<ProductVersion | undefined> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.select().from(productVersions).where(eq(productVersions.id, versionId));
+    return result[0];
+  }
+
+  async getOperationVersions(userId: string, operationId: string): Promise<ProductVersion[]> {
+    if (!db) throw new Error("Database not configured");
+    return await db.select().from(productVersions)
+      .where(and(
+        eq(productVersions.userId, userId),
+        eq(productVersions.operationId, operationId),
+        ne(productVersions.source, "rollback")
+      ))
+      .orderBy(productVersions.createdAt);
+  }
+
+  async getLatestBulkOperationId(userId: string): Promise<string | undefined> {
+    if (!db) throw new Error("Database not configured");
+    // Latest row per operation; an operation whose latest row is a rollback has been reverted
+    const rows: Array<{ operationId: string; source: string; createdAt: Date }> = await db
+      .selectDistinctOn([productVersions.operationId], {
+        operationId: productVersions.operationId,
+        source: productVersions.source,
+        createdAt: productVersions.createdAt,
+      })
+      .from(productVersions)
+      .where(and(eq(productVersions.userId, userId), isNotNull(productVersions.operationId)))
+      .orderBy(productVersions.operationId, desc(productVersions.createdAt));
+    rows.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    return latestUnrevertedOperation(rows);
+  }
+
+  async getProductFeed(userId: string, channel: string): Promise<ProductFeed | undefined> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.select().from(productFeeds)
+      .where(and(eq(productFeeds.userId, userId), eq(productFeeds.channel, channel)));
+    return result[0];
+  }
+
+  async getProductFeedByToken(token: string): Promise<ProductFeed | undefined> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.select().from(productFeeds).where(eq(productFeeds.token, token));
+    return result[0];
+  }
+
+  async createProductFeed(feed: InsertProductFeed): Promise<ProductFeed> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.insert(productFeeds).values(feed).returning();
+    return result[0];
+  }
+
+  async updateProductFeed(id: string, updates: Partial<ProductFeed>): Promise<ProductFeed> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.update(productFeeds)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(productFeeds.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async createAiGeneration(generation: InsertAiGeneration): Promise<AiGeneration> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.insert(aiGenerations).values(generation).returning();
+    return result[0];
+  }
+
+  async getAiGeneration(id: string): Promise<AiGeneration | undefined> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.select().from(aiGenerations).where(eq(aiGenerations.id, id));
+    return result[0];
+  }
+
+  async getAiGenerations(userId: string, query: AiGenerationQuery): Promise<AiGeneration[]> {
+    if (!db) throw new Error("Database not configured");
+    const conditions: SQL[] = [eq(aiGenerations.userId, userId)];
+    if (query.productId) conditions.push(eq(aiGenerations.productId, query.productId));
+    if (query.tool) conditions.push(eq(aiGenerations.tool, query.tool));
+    if (query.favorite !== undefined) conditions.push(eq(aiGenerations.isFavorite, query.favorite));
+    return await db.select().from(aiGenerations)
+      .where(and(...conditions))
+      .orderBy(desc(aiGenerations.createdAt))
+      .limit(query.limit);
+  }
+
+  async updateAiGeneration(id: string, updates: Partial<AiGeneration>): Promise<AiGeneration> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.update(aiGenerations)
+      .set(updates)
+      .where(eq(aiGenerations.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async createAiUsageEvent(event: InsertAiUsageEvent): Promise<AiUsageEvent> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.insert(aiUsageEvents).values(event).returning();
+    return result[0];
+  }
+
+  async getAiUsageTallies(
+    since: Date,
+    groupBy: AiUsageGrouping,
+    options: { userId?: string; limit?: number } = {}
+  ): Promise<AiUsageTally[]> {
+    if (!db) throw new Error("Database not configured");
+    const conditions: SQL[] = [gte(aiUsageEvents.createdAt, since)];
+    if (options.userId) conditions.push(eq(aiUsageEvents.userId, options.userId));
+    // Timestamps are stored in UTC
+    const key = groupBy === "day"
+      ? sql<string>`to_char(${aiUsageEvents.createdAt}, 'YYYY-MM-DD')`
+      : groupBy === "feature" ? aiUsageEvents.feature : aiUsageEvents.userId;
+    const total = (column: AnyColumn) => sql<number>`coalesce(sum(${column}), 0)`.mapWith(Number);
+    const costMicros = total(aiUsageEvents.costMicros);
+
+    const query = db.select({
+      key,
+      calls: count(),
+      inputTokens: total(aiUsageEvents.inputTokens),
+      outputTokens: total(aiUsageEvents.outputTokens),
+      costMicros,
+    }).from(aiUsageEvents)
+      .where(and(...conditions))
+      .groupBy(key)
+      .orderBy(...(groupBy === "day" ? [asc(key)] : [desc(costMicros), desc(count())]))
+      .$dynamic();
+    return await (options.limit ? query.limit(options.limit) : query);
+  }
+
+  async getUnpricedAiModels(since: Date, userId?: string): Promise<string[]> {
+    if (!db) throw new Error("Database not configured");
+    const conditions: SQL[] = [gte(aiUsageEvents.createdAt, since), eq(aiUsageEvents.priced, false)];
+    if (userId) conditions.push(eq(aiUsageEvents.userId, userId));
+    const rows: Array<{ model: string }> = await db.selectDistinct({ model: aiUsageEvents.model }).from(aiUsageEvents)
+      .where(and(...conditions))
+      .orderBy(asc(aiUsageEvents.model));
+    return rows.map(row => row.model);
+  }
+
+  async getAiCacheEntry(key: string): Promise<AiCacheEntry | undefined> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.select().from(aiCacheEntries).where(eq(aiCacheEntries.key, key));
+    const entry: AiCacheEntry | undefined = result[0];
+    if (entry && entry.expiresAt.getTime() <= Date.now()) {
+      await db.delete(aiCacheEntries).where(eq(aiCacheEntries.key, key));
+      return undefined;
+    }
+    return entry;
+  }
+
+  async saveAiCacheEntry(entry: InsertAiCacheEntry): Promise<AiCacheEntry> {
+    if (!db) throw new Error("Database not configured");
+    const { key, ...values } = entry;
+    const result = await db.insert(aiCacheEntries)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: aiCacheEntries.key,
+        set: { ...values, hits: 0, createdAt: new Date() },
+      })
+      .returning();
+    return result[0];
+  }
+
+  async recordAiCacheHit(key: string): Promise<void> {
+    if (!db) throw new Error("Database not configured");
+    await db.update(aiCacheEntries)
+      .set({ hits: sql`${aiCacheEntries.hits} + 1` })
+      .where(eq(aiCacheEntries.key, key));
+  }
+
+  // System templates first, then the user's own, each by name
+  async getPromptTemplates(userId: string): Promise<PromptTemplate[]> {
+    if (!db) throw new Error("Database not configured");
+    return await db.select().from(promptTemplates)
+      .where(or(isNull(promptTemplates.userId), eq(promptTemplates.userId, userId)))
+      .orderBy(desc(promptTemplates.isSystem), asc(promptTemplates.name));
+  }
+
+  async getPromptTemplate(id: string): Promise<PromptTemplate | undefined> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.select().from(promptTemplates).where(eq(promptTemplates.id, id));
+    return result[0];
+  }
+
+  async createPromptTemplate(userId: string | null, template: InsertPromptTemplate): Promise<PromptTemplate> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.insert(promptTemplates)
+      .values({ ...template, userId, isSystem: userId === null, version: 1 })
+      .returning();
+    await this.recordPromptTemplateVersion(result[0]);
+    return result[0];
+  }
+
+  async updatePromptTemplate(id: string, updates: UpdatePromptTemplate): Promise<PromptTemplate> {
+    if (!db) throw new Error("Database not configured");
+    const existing = await this.getPromptTemplate(id);
+    if (!existing) throw new Error("Prompt template not found");
+    const result = await db.update(promptTemplates)
+      .set({ ...updates, version: existing.version + 1, updatedAt: new Date() })
+      .where(eq(promptTemplates.id, id))
+      .returning();
+    await this.recordPromptTemplateVersion(result[0]);
+    return result[0];
+  }
+
+  async deletePromptTemplate(id: string): Promise<void> {
+    if (!db) throw new Error("Database not configured");
+    await db.delete(promptTemplates).where(eq(promptTemplates.id, id));
+  }
+
+  async getPromptTemplateVersions(templateId: string): Promise<PromptTemplateVersion[]> {
+    if (!db) throw new Error("Database not configured");
+    return await db.select().from(promptTemplateVersions)
+      .where(eq(promptTemplateVersions.templateId, templateId))
+      .orderBy(desc(promptTemplateVersions.version));
+  }
+
+  private async recordPromptTemplateVersion(template: PromptTemplate): Promise<void> {
+    await db.insert(promptTemplateVersions).values({
+      templateId: template.id,
+      version: template.version,
+      name: template.name,
+      body: template.body,
+    });
+  }
+
+  async getUserPreferences(userId: string): Promise<UserPreferences> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.select().from(profiles).where(eq(profiles.userId, userId));
+    return (result[0]?.preferences || {}) as UserPreferences;
+  }
+
+  async updateUserPreferences(userId: string, updates: Partial<UserPreferences>): Promise<UserPreferences> {
+    if (!db) throw new Error("Database not configured");
+    const preferences = { ...(await this.getUserPreferences(userId)), ...updates };
+    const result = await db.insert(profiles)
+      .values({ userId, preferences })
+      .onConflictDoUpdate({ target: profiles.userId, set: { preferences, updatedAt: new Date() } })
+      .returning();
+    return result[0].preferences as UserPreferences;
+  }
+
+  async createJob(job: Pick<Job, "userId" | "type" | "params">, productIds: string[]): Promise<Job> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.insert(jobs).values({ ...job, total: productIds.length }).returning();
+    if (productIds.length > 0) {
+      await db.insert(jobItems).values(productIds.map(productId => ({ jobId: result[0].id, productId })));
+    }
+    return result[0];
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.select().from(jobs).where(eq(jobs.id, id));
+    return result[0];
+  }
+
+  async getJobs(userId: string, limit: number): Promise<Job[]> {
+    if (!db) throw new Error("Database not configured");
+    return await db.select().from(jobs)
+      .where(eq(jobs.userId, userId))
+      .orderBy(desc(jobs.createdAt))
+      .limit(limit);
+  }
+
+  async getActiveJobs(): Promise<Job[]> {
+    if (!db) throw new Error("Database not configured");
+    return await db.select().from(jobs)
+      .where(inArray(jobs.status, ["queued", "running"]))
+      .orderBy(asc(jobs.createdAt));
+  }
+
+  async updateJob(id: string, updates: Partial<Job>): Promise<Job> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.update(jobs).set(updates).where(eq(jobs.id, id)).returning();
+    return result[0];
+  }
+
+  async getJobItems(jobId: string): Promise<JobItem[]> {
+    if (!db) throw new Error("Database not configured");
+    return await db.select().from(jobItems).where(eq(jobItems.jobId, jobId));
+  }
+
+  async updateJobItem(id: string, updates: Partial<JobItem>): Promise<JobItem> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.update(jobItems).set(updates).where(eq(jobItems.id, id)).returning();
+    return result[0];
+  }
+
+  async updateJobItemsByStatus(jobId: string, status: JobItemStatus, updates: Partial<JobItem>): Promise<void> {
+    if (!db) throw new Error("Database not configured");
+    await db.update(jobItems)
+      .set(updates)
+      .where(and(eq(jobItems.jobId, jobId), eq(jobItems.status, status)));
+  }
+
+  async getAbTests(userId: string): Promise<AbTest[]> {
+    if (!db) throw new Error("Database not configured");
+    return await db.select().from(abTests)
+      .where(eq(abTests.userId, userId))
+      .orderBy(desc(abTests.createdAt));
+  }
+
+  async getAbTest(id: string): Promise<AbTest | undefined> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.select().from(abTests).where(eq(abTests.id, id));
+    return result[0];
+  }
+
+  async getAbTestByToken(token: string): Promise<AbTest | undefined> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.select().from(abTests).where(eq(abTests.ingestToken, token));
+    return result[0];
+  }
+
+  async createAbTest(test: InsertAbTest, variants: InsertAbTestVariant[]): Promise<AbTest> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.insert(abTests).values(test).returning();
+    if (variants.length > 0) {
+      await db.insert(abTestVariants).values(variants.map(variant => ({ ...variant, testId: result[0].id })));
+    }
+    return result[0];
+  }
+
+  async updateAbTestByStatus(id: string, statuses: AbTestStatus[], updates: Partial<AbTest>): Promise<AbTest | undefined> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.update(abTests)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(abTests.id, id), inArray(abTests.status, statuses)))
+      .returning();
+    return result[0];
+  }
+
+  async claimAbTestEvaluation(id: string): Promise<AbTest | undefined> {
+    if (!db) throw new Error("Database not configured");
+    const now = new Date();
+    const result = await db.update(abTests)
+      .set({ evaluatedAt: now, updatedAt: now })
+      .where(and(eq(abTests.id, id), eq(abTests.status, "running"), isNull(abTests.evaluatedAt)))
+      .returning();
+    return result[0];
+  }
+
+  async deleteAbTest(id: string): Promise<void> {
+    if (!db) throw new Error("Database not configured");
+    await db.delete(abTests).where(eq(abTests.id, id));
+  }
+
+  async getAbTestVariants(testId: string): Promise<AbTestVariant[]> {
+    if (!db) throw new Error("Database not configured");
+    return await db.select().from(abTestVariants)
+      .where(eq(abTestVariants.testId, testId))
+      .orderBy(asc(abTestVariants.label));
+  }
+
+  async updateAbTestVariant(id: string, updates: Partial<AbTestVariant>): Promise<AbTestVariant> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.update(abTestVariants).set(updates).where(eq(abTestVariants.id, id)).returning();
+    return result[0];
+  }
+
+  async incrementAbTestVariant(id: string, counts: AbTestCounts): Promise<void> {
+    if (!db) throw new Error("Database not configured");
+    // Increment in SQL so concurrent event batches don't overwrite each other
+    await db.update(abTestVariants).set({
+      impressions: sql`${abTestVariants.impressions} + ${counts.impressions ?? 0}`,
+      clicks: sql`${abTestVariants.clicks} + ${counts.clicks ?? 0}`,
+      conversions: sql`${abTestVariants.conversions} + ${counts.conversions ?? 0}`,
+    }).where(eq(abTestVariants.id, id));
+  }
+
+  async getProductTranslations(productId: string): Promise<ProductTranslation[]> {
+    if (!db) throw new Error("Database not configured");
+    return await db.select().from(productTranslations)
+      .where(eq(productTranslations.productId, productId))
+      .orderBy(asc(productTranslations.locale));
   }
 
-  async getProducts(userId: string): Promise<Product[]> {
+  async getUserProductTranslations(userId: string, locale?: string): Promise<ProductTranslation[]> {
     if (!db) throw new Error("Database not configured");
-    return await db.select().from(products)
-      .where(eq(products.userId, userId))
-      .orderBy(desc(products.updatedAt));
+    const conditions = [eq(productTranslations.userId, userId)];
+    if (locale) conditions.push(eq(productTranslations.locale, locale));
+    return await db.select().from(productTranslations).where(and(...conditions));
   }
 
-  async getProduct(id: string): Promise<Product | undefined> {
+  async getProductTranslation(productId: string, locale: string): Promise<ProductTranslation | undefined> {
     if (!db) throw new Error("Database not configured");
-    const result = await db.select().from(products).where(eq(products.id, id));
+    const result = await db.select().from(productTranslations)
+      .where(and(eq(productTranslations.productId, productId), eq(productTranslations.locale, locale)));
     return result[0];
   }
 
-  async createProduct(product: InsertProduct): Promise<Product> {
+  async saveProductTranslation(translation: InsertProductTranslation): Promise<ProductTranslation> {
     if (!db) throw new Error("Database not configured");
-    const result = await db.insert(products).values(product).returning();
+    const { productId, userId, locale, ...copy } = translation;
+    const result = await db.insert(productTranslations)
+      .values(translation)
+      .onConflictDoUpdate({
+        target: [productTranslations.productId, productTranslations.locale],
+        set: { ...copy, updatedAt: new Date() },
+      })
+      .returning();
     return result[0];
   }
 
-  async updateProduct(id: string, updates: Partial<Product>): Promise<Product> {
+  async updateProductTranslation(id: string, updates: Partial<ProductTranslation>): Promise<ProductTranslation> {
     if (!db) throw new Error("Database not configured");
-    const result = await db.update(products)
+    const result = await db.update(productTranslations)
       .set({ ...updates, updatedAt: new Date() })
-      .where(eq(products.id, id))
+      .where(eq(productTranslations.id, id))
       .returning();
     return result[0];
   }
 
-  async deleteProduct(id: string): Promise<void> {
+  async deleteProductTranslation(id: string): Promise<void> {
     if (!db) throw new Error("Database not configured");
-    await db.delete(products).where(eq(products.id, id));
+    await db.delete(productTranslations).where(eq(productTranslations.id, id));
   }
 
   async getSeoMeta(productId: string): Promise<SeoMeta | undefined> {
@@ -274,12 +1170,55 @@ export class DatabaseStorage implements IStorage {
   async updateSeoMeta(productId: string, updates: Partial<SeoMeta>): Promise<SeoMeta> {
     if (!db) throw new Error("Database not configured");
     const result = await db.update(seoMeta)
-      .set(updates)
+      .set({ ...updates, updatedAt: new Date() })
       .where(eq(seoMeta.productId, productId))
       .returning();
     return result[0];
   }
 
+  async getContentRefreshPolicies(userId?: string): Promise<ContentRefreshPolicy[]> {
+    if (!db) throw new Error("Database not configured");
+    const conditions: SQL[] = [];
+    if (userId) conditions.push(eq(contentRefreshPolicies.userId, userId));
+    return await db.select().from(contentRefreshPolicies)
+      .where(and(...conditions))
+      .orderBy(asc(contentRefreshPolicies.createdAt));
+  }
+
+  async getContentRefreshPolicy(productId: string): Promise<ContentRefreshPolicy | undefined> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.select().from(contentRefreshPolicies)
+      .where(eq(contentRefreshPolicies.productId, productId));
+    return result[0];
+  }
+
+  async saveContentRefreshPolicy(policy: InsertContentRefreshPolicy): Promise<ContentRefreshPolicy> {
+    if (!db) throw new Error("Database not configured");
+    const { productId, userId, ...settings } = policy;
+    const result = await db.insert(contentRefreshPolicies)
+      .values(policy)
+      .onConflictDoUpdate({
+        target: contentRefreshPolicies.productId,
+        set: { ...settings, updatedAt: new Date() },
+      })
+      .returning();
+    return result[0];
+  }
+
+  async updateContentRefreshPolicy(id: string, updates: Partial<ContentRefreshPolicy>): Promise<ContentRefreshPolicy> {
+    if (!db) throw new Error("Database not configured");
+    const result = await db.update(contentRefreshPolicies)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(contentRefreshPolicies.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteContentRefreshPolicy(id: string): Promise<void> {
+    if (!db) throw new Error("Database not configured");
+    await db.delete(contentRefreshPolicies).where(eq(contentRefreshPolicies.id, id));
+  }
+
   async getCampaigns(userId: string): Promise<Campaign[]> {
     if (!db) throw new Error("Database not configured");
     return await db.select().from(campaigns)
@@ -344,6 +1283,52 @@ export class DatabaseStorage implements IStorage {
     throw new Error("Dashboard data not available in DatabaseStorage - use MemStorage");
   }
 
+  async consumeAIQuota(userId: string, meter: AIQuotaMeter, amount: number, limit: number, periodStart: Date): Promise<number | null> {
+    if (!db) throw new Error("Database not configured");
+    // The unique index on user_id makes a concurrent first call's insert a no-op
+    await db.insert(usageStats).values({ userId, lastResetDate: periodStart }).onConflictDoNothing();
+
+    // A single conditional UPDATE runs as its own transaction with the row
+    // locked, so concurrent calls can't both take the last of the quota
+    const start = sql`${periodStart.toISOString()}::timestamp`;
+    const stale = sql`coalesce(${usageStats.lastResetDate} < ${start}, true)`;
+    const current = (field: AIQuotaMeter) =>
+      sql`(case when ${stale} then 0 else coalesce(${usageStats[AI_QUOTA_COLUMNS[field]]}, 0) end)`;
+    const updates: Record<string, unknown> = {
+      lastResetDate: sql`greatest(coalesce(${usageStats.lastResetDate}, ${start}), ${start})`,
+      lastUpdated: new Date(),
+    };
+    for (const field of AI_QUOTA_METERS) {
+      updates[AI_QUOTA_COLUMNS[field]] = field === meter ? sql`${current(field)} + ${amount}` : current(field);
+    }
+    const conditions: SQL[] = [eq(usageStats.userId, userId)];
+    if (limit >= 0) conditions.push(sql`${current(meter)} + ${amount} <= ${limit}`);
+
+    const [updated] = await db.update(usageStats)
+      .set(updates)
+      .where(and(...conditions))
+      .returning({ used: usageStats[AI_QUOTA_COLUMNS[meter]] });
+    return updated ? updated.used : null;
+  }
+
+  async releaseAIQuota(userId: string, meter: AIQuotaMeter, amount: number): Promise<void> {
+    if (!db) throw new Error("Database not configured");
+    const column = usageStats[AI_QUOTA_COLUMNS[meter]];
+    await db.update(usageStats)
+      .set({ [AI_QUOTA_COLUMNS[meter]]: sql`greatest(coalesce(${column}, 0) - ${amount}, 0)` })
+      .where(eq(usageStats.userId, userId));
+  }
+
+  async getAIQuotaUsage(userId: string, periodStart: Date): Promise<Record<AIQuotaMeter, number>> {
+    if (!db) throw new Error("Database not configured");
+    const [stats] = await db.select().from(usageStats).where(eq(usageStats.userId, userId));
+    const current = stats?.lastResetDate && new Date(stats.lastResetDate) >= periodStart;
+    return {
+      aiGenerations: current ? stats.aiGenerationsUsed || 0 : 0,
+      seoOptimizations: current ? stats.seoOptimizationsUsed || 0 : 0,
+    };
+  }
+
   async generateSampleMetrics(userId: string): Promise<void> {
     throw new Error("Dashboard data not available in DatabaseStorage - use MemStorage");
   }
@@ -358,7 +1343,9 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createNotification(notification: InsertNotification): Promise<Notification> {
-    throw new Error("Notification data not available in DatabaseStorage - use MemStorage");
+    if (!db) throw new Error("Database not configured");
+    const result = await db.insert(notifications).values(notification).returning();
+    return result[0];
   }
 
   async markNotificationAsRead(userId: string, notificationId: string): Promise<Notification | null> {
@@ -381,6 +1368,23 @@ export class DatabaseStorage implements IStorage {
 export class MemStorage implements IStorage {
   private users: Map<string, User> = new Map();
   private products: Map<string, Product> = new Map();
+  private categoriesData: Map<string, Category> = new Map();
+  private productVariantsData: Map<string, ProductVariant> = new Map();
+  private productVersionsData: Map<string, ProductVersion> = new Map();
+  private stockMovementsData: Map<string, StockMovement> = new Map();
+  private productFeedsData: Map<string, ProductFeed> = new Map();
+  private aiGenerationsData: Map<string, AiGeneration> = new Map();
+  private aiUsageEventsData: Map<string, AiUsageEvent> = new Map();
+  private aiCacheData: Map<string, AiCacheEntry> = new Map();
+  private contentRefreshPoliciesData: Map<string, ContentRefreshPolicy> = new Map();
+  private promptTemplatesData: Map<string, PromptTemplate> = new Map();
+  private promptTemplateVersionsData: Map<string, PromptTemplateVersion> = new Map();
+  private userPreferences: Map<string, UserPreferences> = new Map();
+  private jobsData: Map<string, Job> = new Map();
+  private jobItemsData: Map<string, JobItem> = new Map();
+  private abTestsData: Map<string, AbTest> = new Map();
+  private abTestVariantsData: Map<string, AbTestVariant> = new Map();
+  private productTranslationsData: Map<string, ProductTranslation> = new Map();
   private seoMetas: Map<string, SeoMeta> = new Map();
   private campaigns: Map<string, Campaign> = new Map();
   private analyticsData: Map<string, Analytics> = new Map();
@@ -507,17 +1511,26 @@ export class MemStorage implements IStorage {
     this.storeConnections.delete(id);
   }
 
-  async getProducts(userId: string): Promise<Product[]> {
+  async getProducts(userId: string, options?: ProductListOptions): Promise<Product[]> {
+    const userProducts = Array.from(this.products.values())
+      .filter(product => product.userId === userId);
+    if (!options) {
+      return userProducts.sort((a, b) => (b.updatedAt?.getTime() || 0) - (a.updatedAt?.getTime() || 0));
+    }
+    return sortAndPageProducts(userProducts.filter(product => matchesProductFilters(product, options)), options);
+  }
+
+  async countProducts(userId: string, filters: ProductFilters = {}): Promise<number> {
     return Array.from(this.products.values())
-      .filter(product => product.userId === userId)
-      .sort((a, b) => (b.updatedAt?.getTime() || 0) - (a.updatedAt?.getTime() || 0));
+      .filter(product => product.userId === userId && matchesProductFilters(product, filters))
+      .length;
   }
 
   async getProduct(id: string): Promise<Product | undefined> {
     return this.products.get(id);
   }
 
-  async createProduct(product: InsertProduct & { userId: string }): Promise<Product> {
+  async createProduct(product: InsertProduct & { userId: string }, context: VersionContext = MANUAL_WRITE): Promise<Product> {
     const id = randomUUID();
     const newProduct: Product = {
       id,
@@ -525,9 +1538,12 @@ export class MemStorage implements IStorage {
       description: product.description || null,
       originalDescription: product.originalDescription || null,
       category: product.category, // Required field, no fallback to null
+      categoryId: product.categoryId || null,
       price: product.price, // Required field from new schema
       stock: product.stock || 0, // Default to 0 if not provided
+      reorderThreshold: product.reorderThreshold ?? null,
       image: product.image || null, // Optional field
+      imageAltText: product.imageAltText || null,
       features: product.features || null,
       tags: product.tags || null,
       optimizedCopy: product.optimizedCopy || null,
@@ -537,19 +1553,674 @@ export class MemStorage implements IStorage {
       updatedAt: new Date(),
     };
     this.products.set(id, newProduct);
+    this.recordProductVersion(newProduct, "create", context);
+    if (newProduct.stock !== 0) {
+      this.recordStockMovement(newProduct, newProduct.stock, context);
+    }
     return newProduct;
   }
 
-  async updateProduct(id: string, updates: Partial<Product>): Promise<Product> {
+  async updateProduct(id: string, updates: Partial<Product>, context: VersionContext = MANUAL_WRITE): Promise<Product> {
     const product = this.products.get(id);
     if (!product) throw new Error("Product not found");
     const updatedProduct = { ...product, ...updates, updatedAt: new Date() };
     this.products.set(id, updatedProduct);
+    this.recordProductVersion(updatedProduct, "update", context);
+    if (product.stock !== updatedProduct.stock) {
+      this.recordStockMovement(updatedProduct, updatedProduct.stock - product.stock, context);
+      const alert = lowStockNotification(product, updatedProduct);
+      if (alert) await this.createNotification(alert);
+    }
     return updatedProduct;
   }
 
-  async deleteProduct(id: string): Promise<void> {
+  async deleteProduct(id: string, context: VersionContext = MANUAL_WRITE): Promise<void> {
+    const product = this.products.get(id);
+    const variants = await this.getProductVariants(id);
     this.products.delete(id);
+    Array.from(this.productVariantsData.values())
+      .filter(variant => variant.productId === id)
+      .forEach(variant => this.productVariantsData.delete(variant.id));
+    Array.from(this.productTranslationsData.values())
+      .filter(translation => translation.productId === id)
+      .forEach(translation => this.productTranslationsData.delete(translation.id));
+    Array.from(this.contentRefreshPoliciesData.values())
+      .filter(policy => policy.productId === id)
+      .forEach(policy => this.contentRefreshPoliciesData.delete(policy.id));
+    if (product) {
+      this.recordProductVersion(product, "delete", context, variants);
+      if (product.stock !== 0) {
+        this.recordStockMovement({ ...product, stock: 0 }, -product.stock, context);
+      }
+    }
+  }
+
+  async reinstateProduct(product: Product, variants: ProductVariant[], context: VersionContext = MANUAL_WRITE): Promise<Product> {
+    const restored = { ...product, updatedAt: new Date() };
+    this.products.set(restored.id, restored);
+    variants.forEach(variant => this.productVariantsData.set(variant.id, variant));
+    this.recordProductVersion(restored, "restore", context);
+    if (restored.stock !== 0) {
+      this.recordStockMovement(restored, restored.stock, context);
+    }
+    return restored;
+  }
+
+  private recordProductVersion(
+    product: Product,
+    action: ProductVersionAction,
+    context: VersionContext,
+    variants = this.variantsOf(product.id)
+  ) {
+    const latest = Array.from(this.productVersionsData.values())
+      .filter(version => version.productId === product.id)
+      .reduce((max, version) => Math.max(max, version.version), 0);
+    const id = randomUUID();
+    this.productVersionsData.set(id, {
+      id,
+      productId: product.id,
+      userId: product.userId,
+      version: latest + 1,
+      action,
+      source: context.source,
+      operationId: context.operationId || null,
+      snapshot: snapshotOf(product, variants),
+      createdAt: new Date(),
+    });
+  }
+
+  async getCategories(userId: string): Promise<Category[]> {
+    return Array.from(this.categoriesData.values())
+      .filter(category => category.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getCategory(id: string): Promise<Category | undefined> {
+    return this.categoriesData.get(id);
+  }
+
+  async createCategory(category: InsertCategory & { userId: string }): Promise<Category> {
+    const id = randomUUID();
+    const newCategory: Category = {
+      id,
+      ...category,
+      parentId: category.parentId || null,
+      googleCategoryId: category.googleCategoryId || null,
+      googleCategoryPath: category.googleCategoryPath || null,
+      defaultTags: category.defaultTags || null,
+      descriptionTemplate: category.descriptionTemplate || null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.categoriesData.set(id, newCategory);
+    return newCategory;
+  }
+
+  async createCategories(newCategories: Array<InsertCategory & { userId: string }>): Promise<Category[]> {
+    const nameKey = (category: { userId: string; parentId?: string | null; name: string }) =>
+      [category.userId, category.parentId || "", category.name.toLowerCase()].join("|");
+    const taken = new Set(Array.from(this.categoriesData.values()).map(nameKey));
+    const created: Category[] = [];
+    for (const category of newCategories) {
+      if (taken.has(nameKey(category))) continue;
+      taken.add(nameKey(category));
+      created.push(await this.createCategory(category));
+    }
+    return created;
+  }
+
+  async updateCategory(id: string, updates: Partial<Category>): Promise<Category> {
+    const category = this.categoriesData.get(id);
+    if (!category) throw new Error("Category not found");
+    const updatedCategory = { ...category, ...updates, updatedAt: new Date() };
+    this.categoriesData.set(id, updatedCategory);
+    return updatedCategory;
+  }
+
+  async deleteCategory(id: string): Promise<void> {
+    this.categoriesData.delete(id);
+  }
+
+  async getProductVariants(productId: string): Promise<ProductVariant[]> {
+    return this.variantsOf(productId);
+  }
+
+  private variantsOf(productId: string): ProductVariant[] {
+    return Array.from(this.productVariantsData.values())
+      .filter(variant => variant.productId === productId)
+      .sort((a, b) => a.position - b.position || (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0));
+  }
+
+  async getProductVariant(id: string): Promise<ProductVariant | undefined> {
+    return this.productVariantsData.get(id);
+  }
+
+  async getProductVariantBySku(userId: string, sku: string): Promise<ProductVariant | undefined> {
+    return Array.from(this.productVariantsData.values())
+      .find(variant => variant.userId === userId && variant.sku === sku);
+  }
+
+  async createProductVariant(variant: InsertProductVariant & { productId: string; userId: string }): Promise<ProductVariant> {
+    const id = randomUUID();
+    const newVariant: ProductVariant = {
+      id,
+      ...variant,
+      price: variant.price || null,
+      stock: variant.stock || 0,
+      image: variant.image || null,
+      position: variant.position || 0,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.productVariantsData.set(id, newVariant);
+    return newVariant;
+  }
+
+  async updateProductVariant(id: string, updates: Partial<ProductVariant>): Promise<ProductVariant> {
+    const variant = this.productVariantsData.get(id);
+    if (!variant) throw new Error("Product variant not found");
+    const updatedVariant = { ...variant, ...updates, updatedAt: new Date() };
+    this.productVariantsData.set(id, updatedVariant);
+    return updatedVariant;
+  }
+
+  async deleteProductVariant(id: string): Promise<void> {
+    this.productVariantsData.delete(id);
+  }
+
+  async replaceProductVariants(productId: string, variants: ProductVariant[]): Promise<void> {
+    this.variantsOf(productId).forEach(variant => this.productVariantsData.delete(variant.id));
+    variants.forEach(variant => this.productVariantsData.set(variant.id, variant));
+  }
+
+  private recordStockMovement(product: Product, quantity: number, context: VersionContext) {
+    const id = randomUUID();
+    this.stockMovementsData.set(id, {
+      id,
+      productId: product.id,
+      userId: product.userId,
+      quantity,
+      balance: product.stock,
+      reason: stockReasonFor(context),
+      source: context.source,
+      operationId: context.operationId || null,
+      note: context.stockNote || null,
+      createdAt: new Date(),
+    });
+  }
+
+  async adjustStock(productId: string, quantity: number, context: VersionContext): Promise<Product | undefined> {
+    const product = this.products.get(productId);
+    if (!product || product.stock + quantity < 0) return undefined;
+    return this.updateProduct(productId, { stock: product.stock + quantity }, context);
+  }
+
+  async getStockMovements(productId: string): Promise<StockMovement[]> {
+    // Map iteration order is insertion order, so the reversed list is newest first
+    return Array.from(this.stockMovementsData.values())
+      .filter(movement => movement.productId === productId)
+      .reverse();
+  }
+
+  async getProductVersions(productId: string): Promise<ProductVersion[]> {
+    return Array.from(this.productVersionsData.values())
+      .filter(version => version.productId === productId)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async getProductVersion(versionId: string): Promise<ProductVersion | undefined> {
+    return this.productVersionsData.get(versionId);
+  }
+
+  async getOperationVersions(userId: string, operationId: string): Promise<ProductVersion[]> {
+    return Array.from(this.productVersionsData.values())
+      .filter(version =>
+        version.userId === userId &&
+        version.operationId === operationId &&
+        version.source !== "rollback"
+      );
+  }
+
+  async getLatestBulkOperationId(userId: string): Promise<string | undefined> {
+    // Map iteration order is insertion order, so the reversed list is newest first
+    const rows = Array.from(this.productVersionsData.values())
+      .filter(version => version.userId === userId && version.operationId)
+      .reverse()
+      .map(version => ({ operationId: version.operationId!, source: version.source }));
+    return latestUnrevertedOperation(rows);
+  }
+
+  async getProductFeed(userId: string, channel: string): Promise<ProductFeed | undefined> {
+    return Array.from(this.productFeedsData.values())
+      .find(feed => feed.userId === userId && feed.channel === channel);
+  }
+
+  async getProductFeedByToken(token: string): Promise<ProductFeed | undefined> {
+    return Array.from(this.productFeedsData.values()).find(feed => feed.token === token);
+  }
+
+  async createProductFeed(feed: InsertProductFeed): Promise<ProductFeed> {
+    const id = randomUUID();
+    const newFeed: ProductFeed = {
+      id,
+      ...feed,
+      linkTemplate: feed.linkTemplate || null,
+      currency: feed.currency || "USD",
+      brand: feed.brand || null,
+      lastFetchedAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.productFeedsData.set(id, newFeed);
+    return newFeed;
+  }
+
+  async updateProductFeed(id: string, updates: Partial<ProductFeed>): Promise<ProductFeed> {
+    const feed = this.productFeedsData.get(id);
+    if (!feed) throw new Error("Product feed not found");
+    const updatedFeed = { ...feed, ...updates, updatedAt: new Date() };
+    this.productFeedsData.set(id, updatedFeed);
+    return updatedFeed;
+  }
+
+  async createAiGeneration(generation: InsertAiGeneration): Promise<AiGeneration> {
+    const id = randomUUID();
+    const newGeneration: AiGeneration = {
+      id,
+      ...generation,
+      productId: generation.productId || null,
+      inputTokens: generation.inputTokens ?? 0,
+      outputTokens: generation.outputTokens ?? 0,
+      isFavorite: false,
+      appliedAt: null,
+      createdAt: new Date(),
+    };
+    this.aiGenerationsData.set(id, newGeneration);
+    return newGeneration;
+  }
+
+  async getAiGeneration(id: string): Promise<AiGeneration | undefined> {
+    return this.aiGenerationsData.get(id);
+  }
+
+  async getAiGenerations(userId: string, query: AiGenerationQuery): Promise<AiGeneration[]> {
+    return Array.from(this.aiGenerationsData.values())
+      .filter(generation =>
+        generation.userId === userId &&
+        (!query.productId || generation.productId === query.productId) &&
+        (!query.tool || generation.tool === query.tool) &&
+        (query.favorite === undefined || generation.isFavorite === query.favorite)
+      )
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0))
+      .slice(0, query.limit);
+  }
+
+  async updateAiGeneration(id: string, updates: Partial<AiGeneration>): Promise<AiGeneration> {
+    const generation = this.aiGenerationsData.get(id);
+    if (!generation) throw new Error("AI generation not found");
+    const updatedGeneration = { ...generation, ...updates };
+    this.aiGenerationsData.set(id, updatedGeneration);
+    return updatedGeneration;
+  }
+
+  async createAiUsageEvent(event: InsertAiUsageEvent): Promise<AiUsageEvent> {
+    const id = randomUUID();
+    const newEvent: AiUsageEvent = {
+      id,
+      ...event,
+      inputTokens: event.inputTokens ?? 0,
+      outputTokens: event.outputTokens ?? 0,
+      costMicros: event.costMicros ?? 0,
+      priced: event.priced ?? true,
+      createdAt: new Date(),
+    };
+    this.aiUsageEventsData.set(id, newEvent);
+    return newEvent;
+  }
+
+  private aiUsageEventsSince(since: Date, userId?: string): AiUsageEvent[] {
+    return Array.from(this.aiUsageEventsData.values())
+      .filter(event => (!userId || event.userId === userId) && (event.createdAt?.getTime() || 0) >= since.getTime());
+  }
+
+  async getAiUsageTallies(
+    since: Date,
+    groupBy: AiUsageGrouping,
+    options: { userId?: string; limit?: number } = {}
+  ): Promise<AiUsageTally[]> {
+    const tallies = new Map<string, AiUsageTally>();
+    for (const event of this.aiUsageEventsSince(since, options.userId)) {
+      const key = groupBy === "day"
+        ? (event.createdAt || new Date()).toISOString().slice(0, 10)
+        : groupBy === "feature" ? event.feature : event.userId;
+      const tally = tallies.get(key) || { key, calls: 0, inputTokens: 0, outputTokens: 0, costMicros: 0 };
+      tally.calls++;
+      tally.inputTokens += event.inputTokens;
+      tally.outputTokens += event.outputTokens;
+      tally.costMicros += event.costMicros;
+      tallies.set(key, tally);
+    }
+    const sorted = Array.from(tallies.values()).sort((a, b) => groupBy === "day"
+      ? a.key.localeCompare(b.key)
+      : b.costMicros - a.costMicros || b.calls - a.calls);
+    return options.limit ? sorted.slice(0, options.limit) : sorted;
+  }
+
+  async getUnpricedAiModels(since: Date, userId?: string): Promise<string[]> {
+    const models = this.aiUsageEventsSince(since, userId).filter(event => !event.priced).map(event => event.model);
+    return Array.from(new Set(models)).sort();
+  }
+
+  async getAiCacheEntry(key: string): Promise<AiCacheEntry | undefined> {
+    const entry = this.aiCacheData.get(key);
+    if (entry && entry.expiresAt.getTime() <= Date.now()) {
+      this.aiCacheData.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async saveAiCacheEntry(entry: InsertAiCacheEntry): Promise<AiCacheEntry> {
+    const newEntry: AiCacheEntry = { ...entry, hits: 0, createdAt: new Date() };
+    this.aiCacheData.set(entry.key, newEntry);
+    return newEntry;
+  }
+
+  async recordAiCacheHit(key: string): Promise<void> {
+    const entry = this.aiCacheData.get(key);
+    if (entry) entry.hits++;
+  }
+
+  async getPromptTemplates(userId: string): Promise<PromptTemplate[]> {
+    return Array.from(this.promptTemplatesData.values())
+      .filter(template => template.userId === null || template.userId === userId)
+      .sort((a, b) => Number(b.isSystem) - Number(a.isSystem) || a.name.localeCompare(b.name));
+  }
+
+  async getPromptTemplate(id: string): Promise<PromptTemplate | undefined> {
+    return this.promptTemplatesData.get(id);
+  }
+
+  async createPromptTemplate(userId: string | null, template: InsertPromptTemplate): Promise<PromptTemplate> {
+    const id = randomUUID();
+    const newTemplate: PromptTemplate = {
+      id,
+      ...template,
+      userId,
+      description: template.description ?? null,
+      version: 1,
+      isSystem: userId === null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.promptTemplatesData.set(id, newTemplate);
+    this.recordPromptTemplateVersion(newTemplate);
+    return newTemplate;
+  }
+
+  async updatePromptTemplate(id: string, updates: UpdatePromptTemplate): Promise<PromptTemplate> {
+    const template = this.promptTemplatesData.get(id);
+    if (!template) throw new Error("Prompt template not found");
+    const updatedTemplate = { ...template, ...updates, version: template.version + 1, updatedAt: new Date() };
+    this.promptTemplatesData.set(id, updatedTemplate);
+    this.recordPromptTemplateVersion(updatedTemplate);
+    return updatedTemplate;
+  }
+
+  async deletePromptTemplate(id: string): Promise<void> {
+    this.promptTemplatesData.delete(id);
+    Array.from(this.promptTemplateVersionsData.values())
+      .filter(version => version.templateId === id)
+      .forEach(version => this.promptTemplateVersionsData.delete(version.id));
+  }
+
+  async getPromptTemplateVersions(templateId: string): Promise<PromptTemplateVersion[]> {
+    return Array.from(this.promptTemplateVersionsData.values())
+      .filter(version => version.templateId === templateId)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  private recordPromptTemplateVersion(template: PromptTemplate): void {
+    const id = randomUUID();
+    this.promptTemplateVersionsData.set(id, {
+      id,
+      templateId: template.id,
+      version: template.version,
+      name: template.name,
+      body: template.body,
+      createdAt: new Date(),
+    });
+  }
+
+  async getUserPreferences(userId: string): Promise<UserPreferences> {
+    return this.userPreferences.get(userId) || {};
+  }
+
+  async updateUserPreferences(userId: string, updates: Partial<UserPreferences>): Promise<UserPreferences> {
+    const preferences = { ...this.userPreferences.get(userId), ...updates };
+    this.userPreferences.set(userId, preferences);
+    return preferences;
+  }
+
+  async createJob(job: Pick<Job, "userId" | "type" | "params">, productIds: string[]): Promise<Job> {
+    const id = randomUUID();
+    const newJob: Job = {
+      id,
+      ...job,
+      status: "queued",
+      total: productIds.length,
+      succeeded: 0,
+      failed: 0,
+      createdAt: new Date(),
+      startedAt: null,
+      finishedAt: null,
+    };
+    this.jobsData.set(id, newJob);
+    for (const productId of productIds) {
+      const itemId = randomUUID();
+      this.jobItemsData.set(itemId, {
+        id: itemId,
+        jobId: id,
+        productId,
+        status: "pending",
+        attempts: 0,
+        nextAttemptAt: null,
+        lastError: null,
+        result: null,
+        startedAt: null,
+        finishedAt: null,
+      });
+    }
+    return newJob;
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    return this.jobsData.get(id);
+  }
+
+  async getJobs(userId: string, limit: number): Promise<Job[]> {
+    return Array.from(this.jobsData.values())
+      .filter(job => job.userId === userId)
+      .reverse()
+      .slice(0, limit);
+  }
+
+  async getActiveJobs(): Promise<Job[]> {
+    return Array.from(this.jobsData.values())
+      .filter(job => job.status === "queued" || job.status === "running");
+  }
+
+  async updateJob(id: string, updates: Partial<Job>): Promise<Job> {
+    const job = this.jobsData.get(id);
+    if (!job) throw new Error("Job not found");
+    const updatedJob = { ...job, ...updates };
+    this.jobsData.set(id, updatedJob);
+    return updatedJob;
+  }
+
+  async getJobItems(jobId: string): Promise<JobItem[]> {
+    return Array.from(this.jobItemsData.values()).filter(item => item.jobId === jobId);
+  }
+
+  async updateJobItem(id: string, updates: Partial<JobItem>): Promise<JobItem> {
+    const item = this.jobItemsData.get(id);
+    if (!item) throw new Error("Job item not found");
+    const updatedItem = { ...item, ...updates };
+    this.jobItemsData.set(id, updatedItem);
+    return updatedItem;
+  }
+
+  async updateJobItemsByStatus(jobId: string, status: JobItemStatus, updates: Partial<JobItem>): Promise<void> {
+    Array.from(this.jobItemsData.values())
+      .filter(item => item.jobId === jobId && item.status === status)
+      .forEach(item => this.jobItemsData.set(item.id, { ...item, ...updates }));
+  }
+
+  async getAbTests(userId: string): Promise<AbTest[]> {
+    return Array.from(this.abTestsData.values())
+      .filter(test => test.userId === userId)
+      .reverse();
+  }
+
+  async getAbTest(id: string): Promise<AbTest | undefined> {
+    return this.abTestsData.get(id);
+  }
+
+  async getAbTestByToken(token: string): Promise<AbTest | undefined> {
+    return Array.from(this.abTestsData.values()).find(test => test.ingestToken === token);
+  }
+
+  async createAbTest(test: InsertAbTest, variants: InsertAbTestVariant[]): Promise<AbTest> {
+    const id = randomUUID();
+    const now = new Date();
+    const newTest: AbTest = {
+      id,
+      ...test,
+      status: "running",
+      metric: test.metric ?? "conversion",
+      confidence: test.confidence ?? 95,
+      minImpressions: test.minImpressions ?? 100,
+      autoPromote: test.autoPromote ?? true,
+      winnerVariantId: null,
+      evaluatedAt: null,
+      createdAt: now,
+      updatedAt: now,
+      endedAt: null,
+    };
+    this.abTestsData.set(id, newTest);
+    for (const variant of variants) {
+      const variantId = randomUUID();
+      this.abTestVariantsData.set(variantId, {
+        id: variantId,
+        testId: id,
+        ...variant,
+        isControl: variant.isControl ?? false,
+        generationId: variant.generationId ?? null,
+        impressions: 0,
+        clicks: 0,
+        conversions: 0,
+        createdAt: now,
+      });
+    }
+    return newTest;
+  }
+
+  // Check and write happen synchronously, so no other request can run in between
+  async updateAbTestByStatus(id: string, statuses: AbTestStatus[], updates: Partial<AbTest>): Promise<AbTest | undefined> {
+    const test = this.abTestsData.get(id);
+    if (!test || !statuses.includes(test.status as AbTestStatus)) return undefined;
+    const updatedTest = { ...test, ...updates, updatedAt: new Date() };
+    this.abTestsData.set(id, updatedTest);
+    return updatedTest;
+  }
+
+  async claimAbTestEvaluation(id: string): Promise<AbTest | undefined> {
+    const test = this.abTestsData.get(id);
+    if (!test || test.status !== "running" || test.evaluatedAt) return undefined;
+    const now = new Date();
+    const updatedTest = { ...test, evaluatedAt: now, updatedAt: now };
+    this.abTestsData.set(id, updatedTest);
+    return updatedTest;
+  }
+
+  async deleteAbTest(id: string): Promise<void> {
+    this.abTestsData.delete(id);
+    Array.from(this.abTestVariantsData.values())
+      .filter(variant => variant.testId === id)
+      .forEach(variant => this.abTestVariantsData.delete(variant.id));
+  }
+
+  async getAbTestVariants(testId: string): Promise<AbTestVariant[]> {
+    return Array.from(this.abTestVariantsData.values())
+      .filter(variant => variant.testId === testId)
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }
+
+  async updateAbTestVariant(id: string, updates: Partial<AbTestVariant>): Promise<AbTestVariant> {
+    const variant = this.abTestVariantsData.get(id);
+    if (!variant) throw new Error("A/B test variant not found");
+    const updatedVariant = { ...variant, ...updates };
+    this.abTestVariantsData.set(id, updatedVariant);
+    return updatedVariant;
+  }
+
+  async incrementAbTestVariant(id: string, counts: AbTestCounts): Promise<void> {
+    const variant = this.abTestVariantsData.get(id);
+    if (!variant) throw new Error("A/B test variant not found");
+    this.abTestVariantsData.set(id, {
+      ...variant,
+      impressions: variant.impressions + (counts.impressions ?? 0),
+      clicks: variant.clicks + (counts.clicks ?? 0),
+      conversions: variant.conversions + (counts.conversions ?? 0),
+    });
+  }
+
+  async getProductTranslations(productId: string): Promise<ProductTranslation[]> {
+    return Array.from(this.productTranslationsData.values())
+      .filter(translation => translation.productId === productId)
+      .sort((a, b) => a.locale.localeCompare(b.locale));
+  }
+
+  async getUserProductTranslations(userId: string, locale?: string): Promise<ProductTranslation[]> {
+    return Array.from(this.productTranslationsData.values())
+      .filter(translation => translation.userId === userId && (!locale || translation.locale === locale));
+  }
+
+  async getProductTranslation(productId: string, locale: string): Promise<ProductTranslation | undefined> {
+    return Array.from(this.productTranslationsData.values())
+      .find(translation => translation.productId === productId && translation.locale === locale);
+  }
+
+  async saveProductTranslation(translation: InsertProductTranslation): Promise<ProductTranslation> {
+    const existing = await this.getProductTranslation(translation.productId, translation.locale);
+    const now = new Date();
+    const saved: ProductTranslation = {
+      id: existing?.id ?? randomUUID(),
+      ...translation,
+      description: translation.description ?? null,
+      seoTitle: translation.seoTitle ?? null,
+      metaDescription: translation.metaDescription ?? null,
+      imageAltText: translation.imageAltText ?? null,
+      source: translation.source ?? "manual",
+      generationId: translation.generationId ?? null,
+      publishedAt: translation.publishedAt ?? null,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.productTranslationsData.set(saved.id, saved);
+    return saved;
+  }
+
+  async updateProductTranslation(id: string, updates: Partial<ProductTranslation>): Promise<ProductTranslation> {
+    const translation = this.productTranslationsData.get(id);
+    if (!translation) throw new Error("Translation not found");
+    const updatedTranslation = { ...translation, ...updates, updatedAt: new Date() };
+    this.productTranslationsData.set(id, updatedTranslation);
+    return updatedTranslation;
+  }
+
+  async deleteProductTranslation(id: string): Promise<void> {
+    this.productTranslationsData.delete(id);
   }
 
   async getSeoMeta(productId: string): Promise<SeoMeta | undefined> {
@@ -568,6 +2239,7 @@ export class MemStorage implements IStorage {
       optimizedMeta: seoMetaData.optimizedMeta || null,
       seoScore: seoMetaData.seoScore || null,
       createdAt: new Date(),
+      updatedAt: new Date(),
     };
     this.seoMetas.set(id, seo);
     return seo;
@@ -576,11 +2248,52 @@ export class MemStorage implements IStorage {
   async updateSeoMeta(productId: string, updates: Partial<SeoMeta>): Promise<SeoMeta> {
     const existing = await this.getSeoMeta(productId);
     if (!existing) throw new Error("SEO meta not found");
-    const updated = { ...existing, ...updates };
+    const updated = { ...existing, ...updates, updatedAt: new Date() };
     this.seoMetas.set(existing.id, updated);
     return updated;
   }
 
+  async getContentRefreshPolicies(userId?: string): Promise<ContentRefreshPolicy[]> {
+    return Array.from(this.contentRefreshPoliciesData.values())
+      .filter(policy => !userId || policy.userId === userId)
+      .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0));
+  }
+
+  async getContentRefreshPolicy(productId: string): Promise<ContentRefreshPolicy | undefined> {
+    return Array.from(this.contentRefreshPoliciesData.values()).find(policy => policy.productId === productId);
+  }
+
+  async saveContentRefreshPolicy(policy: InsertContentRefreshPolicy): Promise<ContentRefreshPolicy> {
+    const existing = await this.getContentRefreshPolicy(policy.productId);
+    const now = new Date();
+    const saved: ContentRefreshPolicy = {
+      id: existing?.id ?? randomUUID(),
+      ...policy,
+      intervalDays: policy.intervalDays ?? 90,
+      brandVoice: policy.brandVoice ?? "sales",
+      autoApply: policy.autoApply ?? false,
+      enabled: policy.enabled ?? true,
+      lastQueuedAt: existing?.lastQueuedAt ?? null,
+      lastJobId: existing?.lastJobId ?? null,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.contentRefreshPoliciesData.set(saved.id, saved);
+    return saved;
+  }
+
+  async updateContentRefreshPolicy(id: string, updates: Partial<ContentRefreshPolicy>): Promise<ContentRefreshPolicy> {
+    const policy = this.contentRefreshPoliciesData.get(id);
+    if (!policy) throw new Error("Content refresh policy not found");
+    const updatedPolicy = { ...policy, ...updates, updatedAt: new Date() };
+    this.contentRefreshPoliciesData.set(id, updatedPolicy);
+    return updatedPolicy;
+  }
+
+  async deleteContentRefreshPolicy(id: string): Promise<void> {
+    this.contentRefreshPoliciesData.delete(id);
+  }
+
   async getCampaigns(userId: string): Promise<Campaign[]> {
     return Array.from(this.campaigns.values())
       .filter(campaign => campaign.userId === userId)
@@ -756,6 +2469,45 @@ export class MemStorage implements IStorage {
     this.usageStats.set(userId, stats);
   }
 
+  // The user's usage stats with the AI meters zeroed if they were last reset
+  // before periodStart
+  private aiQuotaStats(userId: string, periodStart: Date): any {
+    const stats = this.usageStats.get(userId) || { userId };
+    if (!stats.lastResetDate || new Date(stats.lastResetDate) < periodStart) {
+      for (const meter of AI_QUOTA_METERS) stats[AI_QUOTA_COLUMNS[meter]] = 0;
+      stats.lastResetDate = periodStart.toISOString();
+    }
+    this.usageStats.set(userId, stats);
+    return stats;
+  }
+
+  // Check and increment happen without an await in between, so concurrent
+  // requests can't both take the last of the quota
+  async consumeAIQuota(userId: string, meter: AIQuotaMeter, amount: number, limit: number, periodStart: Date): Promise<number | null> {
+    const stats = this.aiQuotaStats(userId, periodStart);
+    const field = AI_QUOTA_COLUMNS[meter];
+    const used = (stats[field] || 0) + amount;
+    if (limit >= 0 && used > limit) return null;
+    stats[field] = used;
+    stats.lastUpdated = new Date().toISOString();
+    return used;
+  }
+
+  async releaseAIQuota(userId: string, meter: AIQuotaMeter, amount: number): Promise<void> {
+    const stats = this.usageStats.get(userId);
+    if (!stats) return;
+    const field = AI_QUOTA_COLUMNS[meter];
+    stats[field] = Math.max((stats[field] || 0) - amount, 0);
+  }
+
+  async getAIQuotaUsage(userId: string, periodStart: Date): Promise<Record<AIQuotaMeter, number>> {
+    const stats = this.aiQuotaStats(userId, periodStart);
+    return {
+      aiGenerations: stats.aiGenerationsUsed || 0,
+      seoOptimizations: stats.seoOptimizationsUsed || 0,
+    };
+  }
+
   async generateSampleMetrics(userId: string): Promise<void> {
     const userMetrics = this.realtimeMetrics.get(userId) || [];
     
@@ -0,0 +1,165 @@
+import type { ProductFeed, ProductVariant } from "@shared/schema";
+import { isHttpUrl, productLink, type FeedProduct } from "./catalog-feed";
+
+type StorefrontSettings = Pick<ProductFeed, "linkTemplate" | "currency" | "brand">;
+
+export interface JsonLdOffer {
+  "@type": "Offer";
+  price: string;
+  priceCurrency: string;
+  availability: string;
+  itemCondition: string;
+  url?: string;
+  sku?: string;
+}
+
+export interface ProductJsonLd {
+  "@context": "https://schema.org/";
+  "@type": "Product";
+  name: string;
+  description?: string;
+  image?: string[];
+  sku?: string;
+  category?: string;
+  brand?: { "@type": "Brand"; name: string };
+  offers?: JsonLdOffer | JsonLdOffer[];
+}
+
+export interface StructuredDataIssue {
+  property: string;
+  message: string;
+}
+
+export interface StructuredDataValidation {
+  valid: boolean;
+  // Missing required properties: search engines ignore the markup
+  errors: StructuredDataIssue[];
+  // Missing recommended properties: the markup works but may not get rich results
+  warnings: StructuredDataIssue[];
+}
+
+const IN_STOCK = "https://schema.org/InStock";
+const OUT_OF_STOCK = "https://schema.org/OutOfStock";
+const NEW_CONDITION = "https://schema.org/NewCondition";
+
+function buildOffer(
+  entry: FeedProduct,
+  settings: StorefrontSettings,
+  variant?: ProductVariant
+): JsonLdOffer {
+  const price = parseFloat(variant?.price ?? entry.product.price);
+  const stock = variant ? variant.stock : entry.product.stock;
+  const url = productLink(settings.linkTemplate, entry.product, variant);
+
+  const offer: JsonLdOffer = {
+    "@type": "Offer",
+    price: isNaN(price) ? "" : price.toFixed(2),
+    priceCurrency: settings.currency,
+    availability: stock > 0 ? IN_STOCK : OUT_OF_STOCK,
+    itemCondition: NEW_CONDITION,
+  };
+  if (url) offer.url = url;
+  if (variant) offer.sku = variant.sku;
+  return offer;
+}
+
+// schema.org Product markup for a product page. Products with variants get one
+// Offer per variant.
+export function buildProductJsonLd(entry: FeedProduct, settings: StorefrontSettings): ProductJsonLd {
+  const { product, seo, variants } = entry;
+  const description = product.description || seo?.optimizedMeta || seo?.metaDescription;
+  const images = [product.image, ...variants.map(variant => variant.image)]
+    .filter((image, index, all): image is string => !!image && all.indexOf(image) === index);
+
+  const jsonLd: ProductJsonLd = {
+    "@context": "https://schema.org/",
+    "@type": "Product",
+    name: product.name,
+    sku: product.id,
+  };
+  if (description) jsonLd.description = description;
+  if (images.length > 0) jsonLd.image = images;
+  if (entry.categoryPath) jsonLd.category = entry.categoryPath;
+  if (settings.brand) jsonLd.brand = { "@type": "Brand", name: settings.brand };
+  jsonLd.offers = variants.length > 0
+    ? variants.map(variant => buildOffer(entry, settings, variant))
+    : buildOffer(entry, settings);
+  return jsonLd;
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isJsonObject(value: unknown): value is JsonObject {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+// A property that may hold one value or a list of them
+function listOf(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : value ? [value] : [];
+}
+
+function stringOf(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+// Checks the properties Google's Product rich results need and recommend.
+// Takes any parsed JSON so it can also check markup pasted in from elsewhere.
+export function validateProductJsonLd(data: unknown): StructuredDataValidation {
+  const errors: StructuredDataIssue[] = [];
+  const warnings: StructuredDataIssue[] = [];
+  const jsonLd = isJsonObject(data) ? data : {};
+
+  if (jsonLd["@type"] !== "Product") {
+    errors.push({ property: "@type", message: '@type must be "Product"' });
+  }
+  if (!stringOf(jsonLd.name)?.trim()) {
+    errors.push({ property: "name", message: "Missing name" });
+  }
+
+  const offers = listOf(jsonLd.offers).map(offer => isJsonObject(offer) ? offer : {});
+  if (offers.length === 0) {
+    errors.push({ property: "offers", message: "Missing offers: add a price" });
+  }
+  offers.forEach((offer, index) => {
+    const property = offers.length > 1 ? `offers[${index}]` : "offers";
+    // Prices may be given as numbers or strings
+    const price = typeof offer.price === "number" ? offer.price : parseFloat(stringOf(offer.price) || "");
+    if (!(price > 0)) {
+      errors.push({ property: `${property}.price`, message: "Missing or zero price" });
+    }
+    if (!/^[A-Z]{3}$/.test(stringOf(offer.priceCurrency) || "")) {
+      errors.push({ property: `${property}.priceCurrency`, message: "Missing 3-letter priceCurrency" });
+    }
+    if (!offer.availability) {
+      warnings.push({ property: `${property}.availability`, message: "Missing availability" });
+    }
+    if (!isHttpUrl(stringOf(offer.url))) {
+      warnings.push({ property: `${property}.url`, message: "Missing product page URL: set a product link template in the feed settings" });
+    }
+  });
+
+  const images = listOf(jsonLd.image);
+  if (images.length === 0) {
+    warnings.push({ property: "image", message: "Missing image" });
+  } else if (images.some(image => !isHttpUrl(stringOf(image)))) {
+    warnings.push({ property: "image", message: "Images must be absolute http(s) URLs" });
+  }
+  if (!jsonLd.description) {
+    warnings.push({ property: "description", message: "Missing description" });
+  }
+  if (!isJsonObject(jsonLd.brand) || !jsonLd.brand.name) {
+    warnings.push({ property: "brand", message: "Missing brand: set a brand in the feed settings" });
+  }
+  if (!jsonLd.sku && !offers.some(offer => offer.sku)) {
+    warnings.push({ property: "sku", message: "Missing sku" });
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+// Ready to paste into the product page's <head>. "<" is escaped so the JSON
+// can't close the script element early.
+export function jsonLdScriptTag(jsonLd: unknown): string {
+  const json = JSON.stringify(jsonLd, null, 2).replace(/</g, "\\u003c");
+  return `<script type="application/ld+json">\n${json}\n</script>`;
+}
@@ -0,0 +1,118 @@
+import { createHash } from "crypto";
+import {
+  LOCALE_NAMES,
+  META_DESCRIPTION_MAX_LENGTH,
+  SEO_TITLE_MAX_LENGTH,
+  SUPPORTED_LOCALES,
+  type Product,
+  type ProductTranslation,
+  type ProductTranslationView,
+  type SeoMeta,
+  type SupportedLocale,
+  type TranslationGlossary,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import { UNTRUSTED_DATA_NOTICE, untrusted, untrustedJson } from "./prompt-safety";
+
+export const EMPTY_GLOSSARY: TranslationGlossary = { brandTerms: [], entries: [] };
+
+export async function loadGlossary(
+  store: Pick<IStorage, "getUserPreferences">,
+  userId: string
+): Promise<TranslationGlossary> {
+  const { translationGlossary } = await store.getUserPreferences(userId);
+  return { ...EMPTY_GLOSSARY, ...translationGlossary };
+}
+
+export function supportedLocale(value: unknown): SupportedLocale | null {
+  return typeof value === "string" && (SUPPORTED_LOCALES as readonly string[]).includes(value)
+    ? value as SupportedLocale
+    : null;
+}
+
+// The copy a translation is made from. SEO text is what the feeds would show.
+export interface TranslationSource {
+  name: string;
+  description: string | null;
+  seoTitle: string | null;
+  metaDescription: string | null;
+  imageAltText: string | null;
+}
+
+export function translationSource(product: Product, seo?: SeoMeta): TranslationSource {
+  return {
+    name: product.name,
+    description: product.description,
+    seoTitle: seo?.optimizedTitle || seo?.seoTitle || null,
+    metaDescription: seo?.optimizedMeta || seo?.metaDescription || null,
+    imageAltText: product.imageAltText,
+  };
+}
+
+export function sourceHash(source: TranslationSource): string {
+  const fields = [source.name, source.description, source.seoTitle, source.metaDescription, source.imageAltText];
+  return createHash("sha256").update(JSON.stringify(fields)).digest("hex").slice(0, 32);
+}
+
+export function translationView(translation: ProductTranslation, currentHash: string): ProductTranslationView {
+  return { ...translation, stale: translation.sourceHash !== currentHash };
+}
+
+export function translationPrompt(source: TranslationSource, locale: SupportedLocale, glossary: TranslationGlossary): string {
+  const fields = Object.fromEntries(
+    Object.entries(source).filter(([, value]) => typeof value === "string" && value.trim())
+  );
+  const example = Object.fromEntries(Object.keys(fields).map(key => [key, `${LOCALE_NAMES[locale]} ${key}`]));
+  const entries = glossary.entries.filter(entry => entry.locale === locale);
+
+  const lines = [
+    UNTRUSTED_DATA_NOTICE,
+    "",
+    `Translate the copy of the product "${untrusted(source.name)}" into ${LOCALE_NAMES[locale]} for an online store.`,
+    "Keep the meaning and tone, keep any HTML tags and line breaks, and don't add or drop claims.",
+    `Keep the SEO title under ${SEO_TITLE_MAX_LENGTH} characters and the meta description under ${META_DESCRIPTION_MAX_LENGTH}.`,
+  ];
+  if (glossary.brandTerms.length > 0) {
+    lines.push(`Keep these brand terms exactly as written, untranslated: ${glossary.brandTerms.join(", ")}.`);
+  }
+  if (entries.length > 0) {
+    lines.push(`Always translate these terms this way: ${entries.map(entry => `"${entry.term}" -> "${entry.translation}"`).join("; ")}.`);
+  }
+  lines.push(
+    "",
+    "Respond with JSON in this format, with the same keys as the source:",
+    JSON.stringify(example, null, 2),
+    "",
+    "Source copy:",
+    untrustedJson(fields),
+  );
+  return lines.join("\n");
+}
+
+const containsIgnoringCase = (text: string, term: string) => text.toLowerCase().includes(term.toLowerCase());
+
+// Brand terms and glossary entries the model didn't respect. Only terms that
+// appear in the source are checked.
+export function glossaryIssues(
+  source: TranslationSource,
+  translated: Partial<TranslationSource>,
+  glossary: TranslationGlossary,
+  locale: SupportedLocale
+): string[] {
+  const sourceText = Object.values(source).filter(Boolean).join("\n");
+  const translatedText = Object.values(translated).filter(Boolean).join("\n");
+  const issues: string[] = [];
+
+  for (const term of glossary.brandTerms) {
+    if (containsIgnoringCase(sourceText, term) && !translatedText.includes(term)) {
+      issues.push(`Brand term "${term}" was not kept as written`);
+    }
+  }
+  for (const entry of glossary.entries) {
+    if (entry.locale === locale && containsIgnoringCase(sourceText, entry.term)
+      && !containsIgnoringCase(translatedText, entry.translation)) {
+      issues.push(`"${entry.term}" should be translated as "${entry.translation}"`);
+    }
+  }
+  return issues;
+}
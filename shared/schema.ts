@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, jsonb, boolean, numeric } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, jsonb, boolean, numeric, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -18,6 +18,25 @@ export const users = pgTable("users", {
   createdAt: timestamp("created_at").default(sql`NOW()`),
 });
 
+// Per-user category tree. Defaults (tags, description template) are inherited
+// from the nearest ancestor that sets them. Names are unique per level,
+// ignoring case.
+export const categories = pgTable("categories", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  parentId: varchar("parent_id").references((): AnyPgColumn => categories.id),
+  name: text("name").notNull(),
+  googleCategoryId: text("google_category_id"), // Google product taxonomy id, e.g. '1604'
+  googleCategoryPath: text("google_category_path"), // e.g. 'Apparel & Accessories > Clothing'
+  defaultTags: text("default_tags"),
+  descriptionTemplate: text("description_template"), // {name} is replaced with the product name
+  createdAt: timestamp("created_at").default(sql`NOW()`),
+  updatedAt: timestamp("updated_at").default(sql`NOW()`),
+}, (table) => ({
+  userParentNameIdx: uniqueIndex("categories_user_parent_name_idx")
+    .on(table.userId, sql`coalesce(${table.parentId}, '')`, sql`lower(${table.name})`),
+}));
+
 export const products = pgTable("products", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id).notNull(),
@@ -26,9 +45,12 @@ export const products = pgTable("products", {
   description: text("description"),
   originalDescription: text("original_description"),
   price: numeric("price", { precision: 10, scale: 2 }).notNull(),
-  category: text("category").notNull(),
+  category: text("category").notNull(), // name of the category below, kept for display and exports
+  categoryId: varchar("category_id").references(() => categories.id),
   stock: integer("stock").notNull().default(0),
+  reorderThreshold: integer("reorder_threshold"), // low-stock alert when stock drops below this
   image: text("image"),
+  imageAltText: text("image_alt_text"), // written by hand or by the alt-text generator
   features: text("features"),
   tags: text("tags"),
   optimizedCopy: jsonb("optimized_copy"),
@@ -37,6 +59,232 @@ export const products = pgTable("products", {
   updatedAt: timestamp("updated_at").default(sql`NOW()`),
 });
 
+// Sellable variants of a product. Each variant picks one value per option axis
+// (e.g. { Size: "M", Color: "Red" }); every variant of a product uses the same axes.
+export const productVariants = pgTable("product_variants", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").references(() => products.id, { onDelete: "cascade" }).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  sku: text("sku").notNull(),
+  options: jsonb("options").$type<Record<string, string>>().notNull(),
+  price: numeric("price", { precision: 10, scale: 2 }), // null falls back to the product price
+  stock: integer("stock").notNull().default(0),
+  image: text("image"),
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("created_at").default(sql`NOW()`),
+  updatedAt: timestamp("updated_at").default(sql`NOW()`),
+}, (table) => ({
+  userSkuIdx: uniqueIndex("product_variants_user_sku_idx").on(table.userId, table.sku),
+}));
+
+// Snapshot of a product after every write, used for history, diff and rollback.
+// No FK on productId so history survives product deletion.
+export const productVersions = pgTable("product_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  version: integer("version").notNull(),
+  action: text("action").notNull(), // 'create' | 'update' | 'delete' | 'restore'
+  source: text("source").notNull().default("manual"), // 'manual' | 'ai' | 'sync' | 'import' | 'optimize-all' | 'ab-test' | 'rollback' | 'migration'
+  operationId: varchar("operation_id"), // groups every write made by one bulk operation
+  snapshot: jsonb("snapshot").notNull(),
+  createdAt: timestamp("created_at").default(sql`NOW()`),
+}, (table) => ({
+  productVersionIdx: uniqueIndex("product_versions_product_version_idx").on(table.productId, table.version),
+}));
+
+// Inventory ledger: one row per change to a product's stock. No FK on productId
+// so the history survives product deletion.
+export const stockMovements = pgTable("stock_movements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  quantity: integer("quantity").notNull(), // signed change, e.g. -2 for a sale of two units
+  balance: integer("balance").notNull(), // stock after the movement
+  reason: text("reason").notNull(), // 'sale' | 'restock' | 'adjustment' | 'sync'
+  source: text("source").notNull().default("manual"), // same values as product_versions.source
+  operationId: varchar("operation_id"),
+  note: text("note"),
+  createdAt: timestamp("created_at").default(sql`NOW()`),
+});
+
+// Per-user settings for a shopping channel feed. The token makes the public feed
+// URL unguessable; rotating it revokes the old URL.
+export const productFeeds = pgTable("product_feeds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  channel: text("channel").notNull(), // 'google'
+  token: text("token").notNull().unique(),
+  linkTemplate: text("link_template"), // product page URL, e.g. 'https://shop.example.com/products/{handle}'
+  currency: text("currency").notNull().default("USD"),
+  brand: text("brand"), // used for products without their own brand
+  lastFetchedAt: timestamp("last_fetched_at"),
+  createdAt: timestamp("created_at").default(sql`NOW()`),
+  updatedAt: timestamp("updated_at").default(sql`NOW()`),
+}, (table) => ({
+  userChannelIdx: uniqueIndex("product_feeds_user_channel_idx").on(table.userId, table.channel),
+}));
+
+// Every AI generation, kept so it can be re-applied or compared later. No FK on
+// productId so the history survives product deletion.
+export const aiGenerations = pgTable("ai_generations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  productId: varchar("product_id"),
+  tool: text("tool").notNull(), // 'description' | 'seo' | 'alt-text' | 'translation'
+  promptTemplate: text("prompt_template").notNull(), // e.g. 'description:sales'
+  input: jsonb("input").notNull(), // request fields the prompt was built from
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  output: jsonb("output").notNull(),
+  inputTokens: integer("input_tokens").notNull().default(0),
+  outputTokens: integer("output_tokens").notNull().default(0),
+  isFavorite: boolean("is_favorite").notNull().default(false),
+  appliedAt: timestamp("applied_at"),
+  createdAt: timestamp("created_at").default(sql`NOW()`),
+});
+
+// One provider response, including repair attempts and calls that aren't kept
+// as generations. cost is priced when the call is made, so later price
+// changes don't rewrite history.
+export const aiUsageEvents = pgTable("ai_usage_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  feature: text("feature").notNull(), // an AI_USAGE_FEATURES value
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  inputTokens: integer("input_tokens").notNull().default(0),
+  outputTokens: integer("output_tokens").notNull().default(0),
+  costMicros: integer("cost_micros").notNull().default(0), // millionths of a US dollar
+  priced: boolean("priced").notNull().default(true), // false when the model wasn't in the price table
+  createdAt: timestamp("created_at").default(sql`NOW()`),
+});
+
+// AI results keyed by a hash of everything that went into the request (see
+// server/ai-cache.ts), so the same request within the TTL isn't paid for twice
+export const aiCacheEntries = pgTable("ai_cache_entries", {
+  key: varchar("key").primaryKey(), // sha256 hex
+  tool: text("tool").notNull(), // an AI_GENERATION_TOOLS value
+  output: jsonb("output").notNull(), // the validated reply
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  hits: integer("hits").notNull().default(0),
+  createdAt: timestamp("created_at").default(sql`NOW()`),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+// Prompt templates for description generation. System templates (userId null)
+// are seeded from server/prompt-templates.ts and read-only; users add their own.
+export const promptTemplates = pgTable("prompt_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id), // null for system templates
+  key: text("key").notNull(), // e.g. 'sales', 'luxury'; unique per owner
+  name: text("name").notNull(),
+  description: text("description"),
+  body: text("body").notNull(), // may reference {{productName}} etc., see PROMPT_TEMPLATE_VARIABLES
+  version: integer("version").notNull().default(1),
+  isSystem: boolean("is_system").notNull().default(false),
+  createdAt: timestamp("created_at").default(sql`NOW()`),
+  updatedAt: timestamp("updated_at").default(sql`NOW()`),
+});
+
+// One row per saved version of a template, including the current one
+export const promptTemplateVersions = pgTable("prompt_template_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  templateId: varchar("template_id").references(() => promptTemplates.id, { onDelete: "cascade" }).notNull(),
+  version: integer("version").notNull(),
+  name: text("name").notNull(),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").default(sql`NOW()`),
+});
+
+// Background jobs, processed by server/job-queue.ts. Each item is one unit of
+// work (e.g. one product) with its own attempts so failures retry independently.
+export const jobs = pgTable("jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  type: text("type").notNull(), // 'bulk-optimize' | 'content-refresh'
+  status: text("status").notNull().default("queued"), // 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+  params: jsonb("params").notNull(),
+  total: integer("total").notNull().default(0),
+  succeeded: integer("succeeded").notNull().default(0),
+  failed: integer("failed").notNull().default(0),
+  createdAt: timestamp("created_at").default(sql`NOW()`),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+});
+
+export const jobItems = pgTable("job_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobId: varchar("job_id").references(() => jobs.id, { onDelete: "cascade" }).notNull(),
+  productId: varchar("product_id").notNull(), // no FK: the product may be deleted mid-job
+  status: text("status").notNull().default("pending"), // 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled'
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at"), // set while waiting out a retry backoff
+  lastError: text("last_error"),
+  result: jsonb("result"),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+});
+
+// A/B tests of product copy. Storefronts fetch a variant assignment and report
+// events through the test's tokenized /api/ab/:token URLs, without a session.
+export const abTests = pgTable("ab_tests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  productId: varchar("product_id").references(() => products.id, { onDelete: "cascade" }).notNull(),
+  name: text("name").notNull(),
+  status: text("status").notNull().default("running"), // 'running' | 'completed' | 'stopped'
+  metric: text("metric").notNull().default("conversion"), // 'conversion' | 'click', per impression
+  confidence: integer("confidence").notNull().default(95), // percent needed to call a winner
+  minImpressions: integer("min_impressions").notNull().default(100), // per variant, before any call; auto-promote's planned sample size
+  autoPromote: boolean("auto_promote").notNull().default(true),
+  evaluatedAt: timestamp("evaluated_at"), // when auto-promote compared the variants at the planned sample size
+  ingestToken: text("ingest_token").notNull().unique(),
+  winnerVariantId: varchar("winner_variant_id"),
+  createdAt: timestamp("created_at").default(sql`NOW()`),
+  updatedAt: timestamp("updated_at").default(sql`NOW()`),
+  endedAt: timestamp("ended_at"),
+});
+
+export const abTestVariants = pgTable("ab_test_variants", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  testId: varchar("test_id").references(() => abTests.id, { onDelete: "cascade" }).notNull(),
+  label: text("label").notNull(), // 'A', 'B', ...
+  description: text("description").notNull(),
+  isControl: boolean("is_control").notNull().default(false), // the description the test started from
+  generationId: varchar("generation_id"), // AI generation that wrote it
+  weight: integer("weight").notNull(), // percent of traffic; a test's weights sum to 100
+  impressions: integer("impressions").notNull().default(0),
+  clicks: integer("clicks").notNull().default(0),
+  conversions: integer("conversions").notNull().default(0),
+  createdAt: timestamp("created_at").default(sql`NOW()`),
+});
+
+// Product copy in other languages, one row per product and locale. sourceHash
+// fingerprints the source copy a row was translated from, so an edit to the
+// product through any write path shows up as a stale translation. Only
+// published translations reach the locale feeds.
+export const productTranslations = pgTable("product_translations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").references(() => products.id, { onDelete: "cascade" }).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  locale: text("locale").notNull(), // one of SUPPORTED_LOCALES
+  name: text("name").notNull(),
+  description: text("description"),
+  seoTitle: text("seo_title"),
+  metaDescription: text("meta_description"),
+  imageAltText: text("image_alt_text"),
+  source: text("source").notNull().default("manual"), // 'ai' | 'manual'
+  generationId: varchar("generation_id"), // AI generation that wrote it
+  sourceHash: text("source_hash").notNull(),
+  publishedAt: timestamp("published_at"), // null while a draft
+  createdAt: timestamp("created_at").default(sql`NOW()`),
+  updatedAt: timestamp("updated_at").default(sql`NOW()`),
+}, (table) => ({
+  productLocaleIdx: uniqueIndex("product_translations_product_locale_idx").on(table.productId, table.locale),
+}));
+
 export const seoMeta = pgTable("seo_meta", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   productId: varchar("product_id").references(() => products.id).notNull(),
@@ -47,8 +295,29 @@ export const seoMeta = pgTable("seo_meta", {
   optimizedMeta: text("optimized_meta"),
   seoScore: integer("seo_score"),
   createdAt: timestamp("created_at").default(sql`NOW()`),
+  updatedAt: timestamp("updated_at").default(sql`NOW()`),
 });
 
+// When to regenerate a product's AI copy (server/content-refresh.ts). The
+// scheduler queues a refresh once the copy is older than intervalDays; results
+// wait in the generation history for approval unless autoApply is set.
+export const contentRefreshPolicies = pgTable("content_refresh_policies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  productId: varchar("product_id").references(() => products.id, { onDelete: "cascade" }).notNull(),
+  tools: jsonb("tools").$type<ContentRefreshTool[]>().notNull(), // CONTENT_REFRESH_TOOLS values
+  intervalDays: integer("interval_days").notNull().default(90),
+  brandVoice: text("brand_voice").notNull().default("sales"), // prompt template key for descriptions
+  autoApply: boolean("auto_apply").notNull().default(false),
+  enabled: boolean("enabled").notNull().default(true),
+  lastQueuedAt: timestamp("last_queued_at"), // a refresh isn't queued again until the next interval, or a day later if it failed
+  lastJobId: varchar("last_job_id"), // no FK: jobs can be cleaned up independently
+  createdAt: timestamp("created_at").default(sql`NOW()`),
+  updatedAt: timestamp("updated_at").default(sql`NOW()`),
+}, (table) => ({
+  productIdx: uniqueIndex("content_refresh_policies_product_idx").on(table.productId),
+}));
+
 export const campaigns = pgTable("campaigns", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id).notNull(),
@@ -102,7 +371,7 @@ export const profiles = pgTable("profiles", {
   name: text("name"),
   bio: text("bio"),
   profileImage: text("profile_image"),
-  preferences: jsonb("preferences"),
+  preferences: jsonb("preferences"), // UserPreferences
   createdAt: timestamp("created_at").default(sql`NOW()`),
   updatedAt: timestamp("updated_at").default(sql`NOW()`),
 });
@@ -132,7 +401,10 @@ export const usageStats = pgTable("usage_stats", {
   seoOptimizationsUsed: integer("seo_optimizations_used").default(0),
   lastUpdated: timestamp("last_updated").default(sql`NOW()`),
   lastResetDate: timestamp("last_reset_date").default(sql`NOW()`),
-});
+}, (table) => ({
+  // One row per user; the AI quota creates it on first use
+  userIdx: uniqueIndex("usage_stats_user_idx").on(table.userId),
+}));
 
 export const activityLogs = pgTable("activity_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -215,6 +487,433 @@ export const insertProductSchema = createInsertSchema(products).omit({
   price: z.string().min(1, "Price is required"),
   stock: z.number().min(0, "Stock must be 0 or greater"),
   category: z.string().min(1, "Category is required"),
+  reorderThreshold: z.number().int().min(0, "Reorder threshold must be 0 or greater").nullable().optional(),
+  imageAltText: z.string().trim().max(500, "Alt text must be 500 characters or less").nullable().optional(),
+});
+
+export const STOCK_MOVEMENT_REASONS = ["sale", "restock", "adjustment", "sync"] as const;
+
+// Body of POST /api/products/:id/stock-movements
+export const stockAdjustmentSchema = z.object({
+  quantity: z.number().int().refine(quantity => quantity !== 0, "Quantity cannot be zero"),
+  reason: z.enum(STOCK_MOVEMENT_REASONS),
+  note: z.string().trim().max(500).optional(),
+});
+
+export const insertCategorySchema = createInsertSchema(categories).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Category name is required").max(100),
+  parentId: z.string().nullable().optional(),
+  googleCategoryId: z.string().regex(/^\d+$/, "Google category id must be numeric").nullable().optional(),
+});
+
+export const insertProductVariantSchema = createInsertSchema(productVariants).omit({
+  id: true,
+  productId: true,
+  userId: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  sku: z.string().trim().min(1, "SKU is required"),
+  options: z.record(z.string().trim().min(1), z.string().trim().min(1, "Option values cannot be empty"))
+    .refine(options => Object.keys(options).length > 0, "At least one option is required"),
+  price: z.string().regex(/^\d+(\.\d{1,2})?$/, "Price must be a number with up to 2 decimals").nullable().optional(),
+  stock: z.number().int("Stock must be a whole number").min(0, "Stock must be 0 or greater"),
+  image: z.string().url("Please enter a valid URL").nullable().optional(),
+  position: z.number().int().min(0).optional(),
+});
+
+export const insertProductVersionSchema = createInsertSchema(productVersions).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Query string accepted by GET /api/products
+export const PRODUCT_SORT_KEYS = ["updatedAt", "createdAt", "name", "price", "stock"] as const;
+
+export const productQuerySchema = z.object({
+  q: z.string().trim().min(1).optional(),
+  category: z.string().min(1).optional(),
+  categoryId: z.string().min(1).optional(), // also matches products in subcategories
+  isOptimized: z.enum(["true", "false"]).transform(value => value === "true").optional(),
+  minStock: z.coerce.number().int().optional(),
+  maxStock: z.coerce.number().int().optional(),
+  minPrice: z.coerce.number().min(0).optional(),
+  maxPrice: z.coerce.number().min(0).optional(),
+  sort: z.enum(PRODUCT_SORT_KEYS).default("updatedAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const insertProductFeedSchema = createInsertSchema(productFeeds).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const FEED_CHANNELS = ["google", "meta"] as const;
+
+// Editable feed settings (PUT /api/feeds/:channel/settings)
+// A link template with its {placeholders} filled in must parse as an absolute URL
+function isAbsoluteUrlTemplate(template: string): boolean {
+  try {
+    return /^https?:$/.test(new URL(template.replace(/\{\w+\}/g, "x")).protocol);
+  } catch {
+    return false;
+  }
+}
+
+export const productFeedSettingsSchema = z.object({
+  linkTemplate: z.string().trim()
+    .regex(/^https?:\/\/\S+$/, "Link template must be an http(s) URL")
+    .refine(isAbsoluteUrlTemplate, "Link template must be an absolute http(s) URL")
+    .refine(template => /\{(id|handle|sku)\}/.test(template), "Link template must contain {handle}, {id} or {sku}")
+    .nullable()
+    .optional(),
+  currency: z.string().trim().regex(/^[A-Z]{3}$/, "Currency must be a 3-letter ISO code").optional(),
+  brand: z.string().trim().max(70).nullable().optional(),
+});
+
+export const AD_PLATFORMS = ["google-ads", "meta-ads"] as const;
+
+// GET /api/products/ad-export
+export const adExportQuerySchema = z.object({
+  platform: z.enum(AD_PLATFORMS),
+  campaign: z.string().trim().min(1).max(100).default("Zyra Products"),
+  dryRun: z.enum(["true", "false"]).default("false").transform(value => value === "true"),
+});
+
+export const AI_PROVIDERS = ["openai", "anthropic", "local", "mock"] as const;
+
+export const AI_GENERATION_TOOLS = ["description", "seo", "alt-text", "translation"] as const;
+
+// What AI spend is broken down by: the generation tools plus the brand voice tone check
+export const AI_USAGE_FEATURES = [...AI_GENERATION_TOOLS, "tone-check"] as const;
+
+// The code field of AI endpoint errors, so the client can tell them apart
+export const AI_ERROR_CODES = [
+  "provider_not_allowed",
+  "model_not_allowed",
+  "provider_not_configured",
+  "provider_failed",
+  "vision_not_supported",
+  "invalid_response",
+  "aborted",
+  "quota_exceeded",
+  "rate_limited",
+] as const;
+
+// Per-period AI allowances, stored as usage_stats.aiGenerationsUsed and
+// seoOptimizationsUsed. SEO calls count against seoOptimizations, every other
+// AI call against aiGenerations.
+export const AI_QUOTA_METERS = ["aiGenerations", "seoOptimizations"] as const;
+
+// Languages product copy can be translated into, the same ones the profile offers
+export const SUPPORTED_LOCALES = ["en", "es", "fr", "de", "pt", "zh", "ja", "ko"] as const;
+
+export const LOCALE_NAMES: Record<typeof SUPPORTED_LOCALES[number], string> = {
+  en: "English",
+  es: "Spanish",
+  fr: "French",
+  de: "German",
+  pt: "Portuguese",
+  zh: "Chinese",
+  ja: "Japanese",
+  ko: "Korean",
+};
+
+export const insertAiGenerationSchema = createInsertSchema(aiGenerations).omit({
+  id: true,
+  isFavorite: true,
+  appliedAt: true,
+  createdAt: true,
+});
+
+// PATCH /api/ai/generations/:id
+export const aiGenerationUpdateSchema = z.object({
+  isFavorite: z.boolean(),
+});
+
+// GET /api/usage/ai-costs. scope "all" covers every account and is for admins.
+export const aiCostQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(366).default(30),
+  scope: z.enum(["me", "all"]).default("me"),
+  // How many accounts byUser lists, most expensive first
+  limit: z.coerce.number().int().min(1).max(200).default(20),
+});
+
+// GET /api/ai/generations
+export const aiGenerationQuerySchema = z.object({
+  productId: z.string().optional(),
+  tool: z.enum(AI_GENERATION_TOOLS).optional(),
+  favorite: z.enum(["true", "false"]).optional().transform(value => value === undefined ? undefined : value === "true"),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const insertAiUsageEventSchema = createInsertSchema(aiUsageEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAiCacheEntrySchema = createInsertSchema(aiCacheEntries).omit({
+  hits: true,
+  createdAt: true,
+});
+
+// Placeholders a prompt template may use, filled from the request or product
+export const PROMPT_TEMPLATE_VARIABLES = [
+  "productName",
+  "category",
+  "features",
+  "audience",
+  "price",
+  "description",
+  "tags",
+] as const;
+
+export const insertPromptTemplateSchema = createInsertSchema(promptTemplates, {
+  key: z.string().trim().regex(/^[a-z0-9-]{2,40}$/, "Key must be 2-40 lowercase letters, digits or dashes"),
+  name: z.string().trim().min(1).max(80),
+  description: z.string().trim().max(200).nullable().optional(),
+  body: z.string().trim().min(10).max(4000),
+}).omit({
+  id: true,
+  userId: true,
+  version: true,
+  isSystem: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const updatePromptTemplateSchema = insertPromptTemplateSchema.omit({ key: true }).partial();
+
+// POST /api/prompt-templates/preview: render a saved template or an unsaved
+// draft body against a product, or the built-in sample product
+export const promptTemplatePreviewSchema = z.object({
+  templateId: z.string().optional(),
+  body: z.string().trim().min(1).max(4000).optional(),
+  productId: z.string().optional(),
+  variables: z.record(z.string()).optional(),
+}).refine(data => data.templateId || data.body, {
+  message: "templateId or body is required",
+});
+
+// Brand Voice Memory: added to every AI prompt, and used to score existing copy
+export const brandVoiceSchema = z.object({
+  tone: z.array(z.string().trim().min(1).max(40)).max(10).default([]), // e.g. "warm", "confident"
+  bannedWords: z.array(z.string().trim().min(1).max(40)).max(50).default([]),
+  requiredPhrases: z.array(z.string().trim().min(1).max(80)).max(20).default([]),
+  sampleCopy: z.string().trim().max(2000).default(""),
+  readingLevel: z.number().int().min(3).max(16).nullable().default(null), // US school grade
+});
+
+// POST /api/brand-voice/score: score given text, or a product's description
+export const brandVoiceScoreSchema = z.object({
+  text: z.string().trim().min(1).max(10000).optional(),
+  productId: z.string().optional(),
+  // Also ask the AI model how well the tone matches; costs one generation
+  ai: z.boolean().default(false),
+}).refine(data => data.text || data.productId, {
+  message: "text or productId is required",
+});
+
+export const JOB_TYPES = ["bulk-optimize", "content-refresh"] as const;
+export const JOB_STATUSES = ["queued", "running", "completed", "failed", "cancelled"] as const;
+export const JOB_ITEM_STATUSES = ["pending", "running", "succeeded", "failed", "cancelled"] as const;
+
+// POST /api/jobs/bulk-optimize. Without productIds every product is included.
+export const bulkOptimizeSchema = z.object({
+  productIds: z.array(z.string()).min(1).max(500).optional(),
+  tools: z.array(z.enum(AI_GENERATION_TOOLS)).min(1).default(["description"]),
+  brandVoice: z.string().trim().min(1).default("sales"), // prompt template key
+  audience: z.string().trim().min(1).max(100).default("General consumers"),
+  // Write results into the products; otherwise they're only kept in the generation history
+  apply: z.boolean().default(true),
+  // Target languages for the translation tool. Translations that are already
+  // up to date are skipped.
+  locales: z.array(z.enum(SUPPORTED_LOCALES)).max(SUPPORTED_LOCALES.length).default([]),
+  provider: z.enum(AI_PROVIDERS).optional(),
+  model: z.string().trim().min(1).max(100).optional(),
+  // Ask the model again even where the AI cache has an answer
+  noCache: z.boolean().default(false),
+}).refine(data => !data.tools.includes("translation") || data.locales.length > 0, {
+  message: "Pick at least one language to translate into",
+  path: ["locales"],
+});
+
+// The copy a refresh policy can regenerate
+export const CONTENT_REFRESH_TOOLS = ["description", "seo"] as const;
+
+// PUT /api/products/:id/refresh-policy
+export const contentRefreshPolicyInputSchema = z.object({
+  tools: z.array(z.enum(CONTENT_REFRESH_TOOLS)).min(1).default(["description", "seo"]),
+  intervalDays: z.number().int().min(30).max(365).default(90),
+  brandVoice: z.string().trim().min(1).default("sales"),
+  autoApply: z.boolean().default(false),
+  enabled: z.boolean().default(true),
+});
+
+export const insertContentRefreshPolicySchema = createInsertSchema(contentRefreshPolicies, {
+  tools: z.array(z.enum(CONTENT_REFRESH_TOOLS)).min(1),
+}).omit({
+  id: true,
+  lastQueuedAt: true,
+  lastJobId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertAbTestSchema = createInsertSchema(abTests).omit({
+  id: true,
+  status: true,
+  winnerVariantId: true,
+  evaluatedAt: true,
+  createdAt: true,
+  updatedAt: true,
+  endedAt: true,
+});
+
+// Variants are created with their test, so testId is filled in by storage
+export const insertAbTestVariantSchema = createInsertSchema(abTestVariants).omit({
+  id: true,
+  testId: true,
+  impressions: true,
+  clicks: true,
+  conversions: true,
+  createdAt: true,
+});
+
+export const AB_TEST_STATUSES = ["running", "completed", "stopped"] as const;
+export const AB_TEST_METRICS = ["conversion", "click"] as const;
+export const AB_EVENT_TYPES = ["impression", "click", "conversion"] as const;
+
+const abWeightsTotal = (weights: number[]) => weights.reduce((total, weight) => total + weight, 0);
+
+// POST /api/ab-tests. The product's current description is the control unless
+// includeControl is false; the AI writes variantCount more, cycling through
+// brandVoices (prompt template keys). Weights are percents, control first.
+export const createAbTestSchema = z.object({
+  productId: z.string().min(1),
+  name: z.string().trim().min(1).max(100).optional(),
+  variantCount: z.number().int().min(1).max(5).default(2),
+  brandVoices: z.array(z.string().trim().min(1)).min(1).max(5).optional(),
+  audience: z.string().trim().min(1).max(100).default("General consumers"),
+  includeControl: z.boolean().default(true),
+  weights: z.array(z.number().int().min(0).max(100)).optional(),
+  metric: z.enum(AB_TEST_METRICS).default("conversion"),
+  confidence: z.number().int().min(80).max(99).default(95),
+  minImpressions: z.number().int().min(10).max(1000000).default(100),
+  autoPromote: z.boolean().default(true),
+  provider: z.enum(AI_PROVIDERS).optional(),
+  model: z.string().trim().min(1).max(100).optional(),
+}).refine(data => data.variantCount + (data.includeControl ? 1 : 0) >= 2, {
+  message: "A test needs at least two variants",
+  path: ["variantCount"],
+}).refine(data => !data.weights || (
+  data.weights.length === data.variantCount + (data.includeControl ? 1 : 0) && abWeightsTotal(data.weights) === 100
+), {
+  message: "weights need one entry per variant and must add up to 100",
+  path: ["weights"],
+});
+
+// PATCH /api/ab-tests/:id. weights maps variant id to percent, for every variant.
+export const updateAbTestSchema = z.object({
+  weights: z.record(z.string(), z.number().int().min(0).max(100)).optional(),
+  autoPromote: z.boolean().optional(),
+  status: z.literal("stopped").optional(),
+}).refine(data => !data.weights || abWeightsTotal(Object.values(data.weights)) === 100, {
+  message: "weights must add up to 100",
+  path: ["weights"],
+});
+
+// POST /api/ab/:token/events, sent by the storefront
+export const abTestEventsSchema = z.object({
+  events: z.array(z.object({
+    variantId: z.string().min(1),
+    type: z.enum(AB_EVENT_TYPES),
+    count: z.number().int().min(1).max(10000).default(1),
+  })).min(1).max(500),
+});
+
+export const promoteAbVariantSchema = z.object({
+  variantId: z.string().min(1),
+});
+
+// Optional provider/model override accepted by every AI endpoint. What a user
+// may pick is limited by their plan (see server/ai-providers.ts).
+export const aiSelectionSchema = z.object({
+  provider: z.enum(AI_PROVIDERS).optional(),
+  model: z.string().trim().min(1).max(100).optional(),
+});
+
+// Screen readers cut alt text off around this length
+export const ALT_TEXT_MAX_LENGTH = 125;
+
+// Longer SEO titles and meta descriptions get cut off in search results
+export const SEO_TITLE_MAX_LENGTH = 60;
+export const META_DESCRIPTION_MAX_LENGTH = 160;
+
+// POST /api/products/:id/alt-text
+export const altTextRequestSchema = aiSelectionSchema.extend({
+  // Write the result into the product; otherwise it's only kept in the generation history
+  apply: z.boolean().default(true),
+  // Ask the model again even if the same request is in the AI cache
+  noCache: z.boolean().optional(),
+});
+
+export const insertProductTranslationSchema = createInsertSchema(productTranslations).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// PUT /api/products/:id/translations/:locale: hand-written or edited copy.
+// Leaving publish out keeps the current published state.
+export const productTranslationInputSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(200),
+  description: z.string().trim().max(10000).nullable().optional(),
+  seoTitle: z.string().trim().max(200).nullable().optional(),
+  metaDescription: z.string().trim().max(500).nullable().optional(),
+  imageAltText: z.string().trim().max(500).nullable().optional(),
+  publish: z.boolean().optional(),
+});
+
+// POST /api/products/:id/translations/translate. New translations start as
+// drafts and replaced ones keep their published state, unless publish is set.
+export const translateProductSchema = aiSelectionSchema.extend({
+  locales: z.array(z.enum(SUPPORTED_LOCALES)).min(1).max(SUPPORTED_LOCALES.length),
+  publish: z.boolean().optional(),
+  noCache: z.boolean().optional(),
+});
+
+// POST /api/products/:id/translations/:locale/publish. A stale translation is
+// only published with force.
+export const publishTranslationSchema = z.object({
+  force: z.boolean().default(false),
+});
+
+// Brand terms are kept as written in every language; entries pin how a term is
+// translated into one language
+export const translationGlossarySchema = z.object({
+  brandTerms: z.array(z.string().trim().min(1).max(80)).max(100).default([]),
+  entries: z.array(z.object({
+    term: z.string().trim().min(1).max(80),
+    locale: z.enum(SUPPORTED_LOCALES),
+    translation: z.string().trim().min(1).max(80),
+  })).max(500).default([]),
+});
+
+// POST /api/products/alt-text/batch. Without productIds every product with an
+// image is included; products that already have alt text are skipped unless
+// overwrite is set.
+export const altTextBatchSchema = altTextRequestSchema.omit({ noCache: true }).extend({
+  productIds: z.array(z.string()).min(1).max(500).optional(),
+  overwrite: z.boolean().default(false),
 });
 
 export const insertSeoMetaSchema = createInsertSchema(seoMeta).omit({
@@ -283,6 +982,223 @@ export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type Product = typeof products.$inferSelect;
 export type InsertProduct = z.infer<typeof insertProductSchema>;
+export type ProductQuery = z.infer<typeof productQuerySchema>;
+export type ProductSortKey = typeof PRODUCT_SORT_KEYS[number];
+export interface ProductPage {
+  items: Product[];
+  total: number;
+  nextCursor: string | null;
+}
+export type Category = typeof categories.$inferSelect;
+export type InsertCategory = z.infer<typeof insertCategorySchema>;
+// A category as returned by GET /api/categories, with its full path from the root
+export type CategoryWithPath = Category & { path: string; productCount: number };
+export type ProductVariant = typeof productVariants.$inferSelect;
+export type InsertProductVariant = z.infer<typeof insertProductVariantSchema>;
+export interface ProductOptionAxis {
+  name: string;
+  values: string[];
+}
+export interface ProductVariantList {
+  axes: ProductOptionAxis[];
+  variants: ProductVariant[];
+}
+export type StockMovement = typeof stockMovements.$inferSelect;
+export type StockMovementReason = typeof STOCK_MOVEMENT_REASONS[number];
+export type StockAdjustment = z.infer<typeof stockAdjustmentSchema>;
+export interface StockHistory {
+  productId: string;
+  stock: number;
+  reorderThreshold: number | null;
+  totals: Record<StockMovementReason, number>;
+  movements: StockMovement[];
+}
+export type ProductVersion = typeof productVersions.$inferSelect;
+export type InsertProductVersion = z.infer<typeof insertProductVersionSchema>;
+export type ProductFeed = typeof productFeeds.$inferSelect;
+export type InsertProductFeed = z.infer<typeof insertProductFeedSchema>;
+export type FeedChannel = typeof FEED_CHANNELS[number];
+export type ProductFeedSettings = z.infer<typeof productFeedSettingsSchema>;
+export type AdPlatform = typeof AD_PLATFORMS[number];
+export type AIProviderName = typeof AI_PROVIDERS[number];
+export type AIErrorCode = typeof AI_ERROR_CODES[number];
+export type AiGeneration = typeof aiGenerations.$inferSelect;
+export type InsertAiGeneration = z.infer<typeof insertAiGenerationSchema>;
+export type AiGenerationTool = typeof AI_GENERATION_TOOLS[number];
+export type AiGenerationQuery = z.infer<typeof aiGenerationQuerySchema>;
+export type AiUsageEvent = typeof aiUsageEvents.$inferSelect;
+export type InsertAiUsageEvent = z.infer<typeof insertAiUsageEventSchema>;
+export type AiUsageFeature = typeof AI_USAGE_FEATURES[number];
+export type AiCostQuery = z.infer<typeof aiCostQuerySchema>;
+export type AiCacheEntry = typeof aiCacheEntries.$inferSelect;
+export type InsertAiCacheEntry = z.infer<typeof insertAiCacheEntrySchema>;
+export type PromptTemplate = typeof promptTemplates.$inferSelect;
+export type InsertPromptTemplate = z.infer<typeof insertPromptTemplateSchema>;
+export type UpdatePromptTemplate = z.infer<typeof updatePromptTemplateSchema>;
+export type PromptTemplateVersion = typeof promptTemplateVersions.$inferSelect;
+export type PromptTemplateVariable = typeof PROMPT_TEMPLATE_VARIABLES[number];
+export type PromptTemplatePreview = z.infer<typeof promptTemplatePreviewSchema>;
+export type BrandVoice = z.infer<typeof brandVoiceSchema>;
+export type Job = typeof jobs.$inferSelect;
+export type JobItem = typeof jobItems.$inferSelect;
+export type JobType = typeof JOB_TYPES[number];
+export type JobStatus = typeof JOB_STATUSES[number];
+export type JobItemStatus = typeof JOB_ITEM_STATUSES[number];
+export type BulkOptimizeParams = z.infer<typeof bulkOptimizeSchema>;
+export type ContentRefreshTool = typeof CONTENT_REFRESH_TOOLS[number];
+export type ContentRefreshPolicy = typeof contentRefreshPolicies.$inferSelect;
+export type InsertContentRefreshPolicy = z.infer<typeof insertContentRefreshPolicySchema>;
+export type ContentRefreshPolicyInput = z.infer<typeof contentRefreshPolicyInputSchema>;
+// GET /api/content-refresh: one entry per policy
+export interface ContentRefreshStatus {
+  policy: ContentRefreshPolicy;
+  productName: string;
+  // When the oldest copy the policy covers was last written
+  contentUpdatedAt: string;
+  // When the scheduler will next queue a refresh
+  dueAt: string;
+  due: boolean;
+  // Results of the latest refresh that haven't been applied yet
+  staged: AiGeneration[];
+}
+// GET /api/jobs/:id
+export interface JobProgress {
+  job: Job;
+  items: Array<Pick<JobItem, "id" | "productId" | "status" | "attempts" | "lastError" | "finishedAt"> & { productName: string | null }>;
+}
+export type AbTest = typeof abTests.$inferSelect;
+export type InsertAbTest = z.infer<typeof insertAbTestSchema>;
+export type AbTestVariant = typeof abTestVariants.$inferSelect;
+export type InsertAbTestVariant = z.infer<typeof insertAbTestVariantSchema>;
+export type AbTestStatus = typeof AB_TEST_STATUSES[number];
+export type AbTestMetric = typeof AB_TEST_METRICS[number];
+export type AbEventType = typeof AB_EVENT_TYPES[number];
+export type CreateAbTest = z.infer<typeof createAbTestSchema>;
+export type UpdateAbTest = z.infer<typeof updateAbTestSchema>;
+export type AbTestEvents = z.infer<typeof abTestEventsSchema>;
+export type AbTestCounts = Partial<Pick<AbTestVariant, "impressions" | "clicks" | "conversions">>;
+export interface AbTestVariantStats {
+  variantId: string;
+  // Metric events per impression
+  rate: number;
+  // Relative to the control; null without a control or control traffic
+  lift: number | null;
+  // Two-sided, against the best of the other variants
+  pValue: number | null;
+}
+export interface AbTestAnalysis {
+  variants: AbTestVariantStats[];
+  // Highest rate so far, significant or not
+  leaderId: string | null;
+  // Leader that beats every other variant at the test's confidence
+  winnerId: string | null;
+  // Every variant has reached minImpressions
+  ready: boolean;
+}
+// GET /api/ab-tests/:id
+export interface AbTestDetail {
+  test: AbTest;
+  variants: AbTestVariant[];
+  analysis: AbTestAnalysis;
+  productName: string | null;
+}
+export type BrandVoiceScoreRequest = z.infer<typeof brandVoiceScoreSchema>;
+// Shape of profiles.preferences
+export interface UserPreferences {
+  brandVoice?: BrandVoice;
+  translationGlossary?: TranslationGlossary;
+}
+export type AISelection = z.infer<typeof aiSelectionSchema>;
+export type AltTextRequest = z.infer<typeof altTextRequestSchema>;
+export type AltTextBatch = z.infer<typeof altTextBatchSchema>;
+export type SupportedLocale = typeof SUPPORTED_LOCALES[number];
+export type ProductTranslation = typeof productTranslations.$inferSelect;
+export type InsertProductTranslation = z.infer<typeof insertProductTranslationSchema>;
+export type ProductTranslationInput = z.infer<typeof productTranslationInputSchema>;
+export type TranslateProductRequest = z.infer<typeof translateProductSchema>;
+export type TranslationGlossary = z.infer<typeof translationGlossarySchema>;
+// As the API returns it: stale once the product's source copy has changed
+export type ProductTranslationView = ProductTranslation & { stale: boolean };
+// GET /api/ai/providers: what the signed-in user's plan lets them pick
+export interface AIProviderOption {
+  name: AIProviderName;
+  configured: boolean;
+  defaultModel: string;
+  // Empty when any model name is accepted (local endpoints, mock)
+  models: string[];
+}
+export interface AIProviderOptions {
+  defaultProvider: AIProviderName;
+  defaultModel: string;
+  providers: AIProviderOption[];
+}
+export interface AICostTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+// GET /api/usage/ai-costs
+export interface AICostReport {
+  scope: "me" | "all";
+  from: string;
+  to: string;
+  totals: AICostTotals;
+  // Oldest first, UTC days with no calls left out
+  byDay: Array<AICostTotals & { day: string }>;
+  byFeature: Array<AICostTotals & { feature: string }>;
+  // Most expensive first
+  byUser: Array<AICostTotals & { userId: string; email: string | null; plan: string | null }>;
+  // Models that were called but missing from the price table; their cost counts as 0
+  unpricedModels: string[];
+}
+// ai_usage_events summed per group: a UTC day (YYYY-MM-DD), feature or user id
+export type AiUsageGrouping = "day" | "feature" | "user";
+export interface AiUsageTally {
+  key: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costMicros: number;
+}
+export type AIQuotaMeter = typeof AI_QUOTA_METERS[number];
+// A limit of -1 means unlimited; remaining is null then
+export interface AIQuotaMeterStatus {
+  used: number;
+  limit: number;
+  remaining: number | null;
+}
+export interface AIQuotaUpgrade {
+  plan: string;
+  limits: Record<AIQuotaMeter, number>;
+  url: string;
+}
+// GET /api/usage/ai-quota, and the body of 402 responses from the AI endpoints
+export interface AIQuotaStatus {
+  plan: string;
+  periodStart: string;
+  periodEnd: string;
+  meters: Record<AIQuotaMeter, AIQuotaMeterStatus>;
+  // The next plan up, or null on the top plan
+  upgrade: AIQuotaUpgrade | null;
+}
+export type AdExportQuery = z.infer<typeof adExportQuerySchema>;
+
+// Shape of products.optimizedCopy as optimize-all and the AI tools write it. The
+// ad copy fields are optional; the ad exporters fall back to the product and its
+// SEO meta when they are missing.
+export interface OptimizedCopy {
+  originalName?: string;
+  originalDescription?: string | null;
+  originalTags?: string | null;
+  optimizedAt?: string;
+  optimizationType?: string;
+  // The ai_generations row last applied to this product
+  generationId?: string;
+  headlines?: string[];
+  descriptions?: string[];
+  primaryText?: string;
+}
 export type SeoMeta = typeof seoMeta.$inferSelect;
 export type InsertSeoMeta = z.infer<typeof insertSeoMetaSchema>;
 export type Campaign = typeof campaigns.$inferSelect;